@@ -7,6 +7,7 @@ import React, { useState, useEffect } from "react";
 import { LoginScreen } from "./components/LoginScreen";
 import { Radio as Club } from "./components/Radio";
 import { DjBooth } from "./components/DjBooth";
+import { Graveyard } from "./components/Graveyard";
 import { Loader } from "./components/Loader";
 import { AudioVisualizer } from "./components/AudioVisualizer";
 import { SiteEffects } from "./components/SiteEffects";
@@ -15,12 +16,12 @@ import { TuneInOverlay } from "./components/TuneInOverlay";
 import { PresenceAlerts } from "./components/PresenceAlerts";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { RadioProvider } from "./contexts/AudioPlayerContext";
-import { supabase } from "./services/supabaseClient";
-import type { Session, Profile, View } from "./types";
+import { backend } from "./services/radioBackend";
+import type { Profile, View } from "./types";
 import { Analytics } from "@vercel/analytics/react";
 
 const App: React.FC = () => {
-  const [session, setSession] = useState<Session | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [currentView, setCurrentView] = useState<View>("club");
@@ -30,32 +31,20 @@ const App: React.FC = () => {
   useEffect(() => {
     const fetchProfile = async (userId: string) => {
       try {
-        const { data, error } = await supabase
-          .from("profiles")
-          .select("*")
-          .eq("user_id", userId)
-          .single();
-
-        if (error && error.code !== "PGRST116") throw error;
+        const data = await backend.profiles.get(userId);
 
         if (!data) {
-          const { data: newProfile, error: createError } = await supabase
-            .from("profiles")
-            .insert([{
-              user_id: userId,
-              name: "New Listener",
-              is_premium: false,
-              is_artist: false,
-              is_admin: false,
-              stats: { plays: 0, uploads: 0, votes_cast: 0, graveyard_count: 0 }
-            }])
-            .select()
-            .single();
-
-          if (createError) throw createError;
-          setProfile(newProfile);
+          const newProfile = await backend.profiles.insert({
+            user_id: userId,
+            name: "New Listener",
+            is_premium: false,
+            is_artist: false,
+            is_admin: false,
+            stats: { plays: 0, uploads: 0, votes_cast: 0, graveyard_count: 0 }
+          });
+          setProfile(newProfile as Profile);
         } else {
-          setProfile(data);
+          setProfile(data as Profile);
         }
       } catch (err) {
         console.error("Error fetching/creating profile:", err);
@@ -64,10 +53,10 @@ const App: React.FC = () => {
       }
     };
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
-      if (session) {
-        fetchProfile(session.user.id);
+    const stopFollowingAuth = backend.auth.onUserChanged((userId) => {
+      setUserId(userId);
+      if (userId) {
+        fetchProfile(userId);
       } else {
         setProfile(null);
         setLoading(false);
@@ -85,7 +74,7 @@ const App: React.FC = () => {
     window.addEventListener('pwa-update-available', handleUpdateAvailable);
 
     return () => {
-      subscription.unsubscribe();
+      stopFollowingAuth();
       window.removeEventListener('pwa-update-available', handleUpdateAvailable);
     };
   }, []);
@@ -97,8 +86,8 @@ const App: React.FC = () => {
   };
 
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
-    setSession(null);
+    await backend.auth.signOut().catch((err) => console.error("Error signing out:", err));
+    setUserId(null);
     setProfile(null);
   };
 
@@ -115,7 +104,7 @@ const App: React.FC = () => {
       stats: { plays: 999999, uploads: 999, votes_cast: 999, graveyard_count: 0 }
     };
     setProfile(mockProfile);
-    setSession({ user: { id: "god-mode-admin" } } as Session);
+    setUserId("god-mode-admin");
   };
 
   if (loading) {
@@ -126,7 +115,7 @@ const App: React.FC = () => {
     );
   }
 
-  if (!session || !profile) {
+  if (!userId || !profile) {
     return (
       <ThemeProvider>
         <LoginScreen onShowPrivacy={() => { }} onAdminLogin={handleAdminLogin} />
@@ -170,6 +159,8 @@ const App: React.FC = () => {
               <div className="h-full w-full overflow-hidden absolute inset-0">
                 <Club onNavigate={setCurrentView} onSignOut={handleSignOut} profile={profile} />
               </div>
+            ) : currentView === "graveyard" ? (
+              <Graveyard onNavigate={setCurrentView} profile={profile} />
             ) : (
               <DjBooth onNavigate={setCurrentView} />
             )}
@@ -0,0 +1,62 @@
+/**
+ * @file ClockSyncReadout Component - Debug readout of every listener's estimated offset to the server clock.
+ */
+
+import React, { useEffect, useState } from "react";
+import { getClockEstimate, getClockReports, getClientId, type ClockReport } from "../services/clockSync";
+import { getBroadcastManager } from "../services/globalBroadcastManager";
+
+const formatMs = (ms: number) => `${ms >= 0 ? "+" : ""}${ms.toFixed(0)}ms`;
+
+export const ClockSyncReadout: React.FC = () => {
+  const [reports, setReports] = useState<ClockReport[]>([]);
+  const [sync, setSync] = useState(() => getBroadcastManager().getSyncStatus());
+
+  useEffect(() => {
+    const refresh = () => {
+      setReports(getClockReports().sort((a, b) => Math.abs(b.offsetMs) - Math.abs(a.offsetMs)));
+      setSync(getBroadcastManager().getSyncStatus());
+    };
+    refresh();
+    const interval = window.setInterval(refresh, 2000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const self = getClockEstimate();
+  const selfId = getClientId();
+
+  return (
+    <div className="border border-white/5 rounded-lg p-3 bg-black/40 flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[8px] font-black text-zinc-500 uppercase tracking-widest">Clock Sync</span>
+        <span className="text-[7px] font-bold text-zinc-600 uppercase">{self.source} · {self.samples} samples</span>
+      </div>
+      <div className="grid grid-cols-3 gap-1 text-center">
+        <div className="flex flex-col">
+          <span className="text-[10px] font-black text-white">{formatMs(self.offsetMs)}</span>
+          <span className="text-[6px] font-bold text-zinc-600 uppercase">Offset</span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-[10px] font-black text-white">{self.rttMs.toFixed(0)}ms</span>
+          <span className="text-[6px] font-bold text-zinc-600 uppercase">RTT</span>
+        </div>
+        <div className="flex flex-col">
+          <span className={`text-[10px] font-black ${Math.abs(sync.driftMs) > 40 ? "text-yellow-400" : "text-green-400"}`}>{formatMs(sync.driftMs)}</span>
+          <span className="text-[6px] font-bold text-zinc-600 uppercase">Drift ×{sync.playbackRate.toFixed(3)}</span>
+        </div>
+      </div>
+      {reports.length > 0 && (
+        <div className="flex flex-col gap-0.5 max-h-24 overflow-y-auto pr-1 border-t border-white/5 pt-2">
+          {reports.map(report => (
+            <div key={report.clientId} className="flex justify-between text-[7px] font-bold uppercase">
+              <span className={`truncate pr-2 ${report.clientId === selfId ? "text-purple-400" : "text-zinc-500"}`}>
+                {report.clientId === selfId ? "You" : (report.label?.slice(0, 8) ?? report.clientId)}
+              </span>
+              <span className="text-zinc-400 shrink-0">{formatMs(report.offsetMs)} / {report.rttMs.toFixed(0)}ms</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
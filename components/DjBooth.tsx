@@ -1,11 +1,27 @@
 import React, { useContext, useState } from "react";
 import { RadioContext } from "../contexts/AudioPlayerContext";
-import type { View } from "../types";
-import { supabase } from "../services/supabaseClient";
+import type { View, BoxRound, BoxTallies, SiteCommandBody, Song, RadioState } from "../types";
+import { backend } from "../services/radioBackend";
+import { songRepository } from "../services/songRepository";
+import { findStorageOrphans, recoverStorageOrphans, type StorageOrphan } from "../services/storageOrphans";
 import { TheChat } from "./TheChat";
 import { Radio as FloorView } from "./Radio";
-import { PersistentRadioService } from "../services/PersistentRadioService";
+import { LiveRating } from "./LiveRating";
+import { ClockSyncReadout } from "./ClockSyncReadout";
 import { getBroadcastManager } from "../services/globalBroadcastManager";
+import { getOpenRound, getRoundTallies, castBoxVote } from "../services/boxRoundService";
+import { STATION_RULES } from "../services/stationRules";
+import { debutCooldownRemaining } from "../services/radioStateMachine";
+import { entitlementsFor } from "../services/entitlements";
+import { analyzeAudioFile, replayGainFor } from "../services/loudness";
+
+const SYSTEM_TRIGGERS: { id: RadioState; icon: string; label: string; color?: string }[] = [
+  { id: 'POOL', icon: 'P', label: 'Cycle' },
+  { id: 'THE_BOX', icon: 'B', label: 'Refresh Box' },
+  { id: 'DJ_TALKING', icon: 'M', label: 'Mic Over' },
+  { id: 'BOX_WIN', icon: 'W', label: 'Force Win' },
+  { id: 'REBOOT', icon: 'N', label: 'Force Nuke', color: 'text-red-500' }
+];
 
 interface DjBoothProps {
   onNavigate: (view: View) => void;
@@ -21,8 +37,8 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
   const [isSunoConfirmed, setIsSunoConfirmed] = useState(false);
 
   // Library & Upload State
-  const [songs, setSongs] = useState<any[]>([]);
-  const [orphans, setOrphans] = useState<any[]>([]);
+  const [songs, setSongs] = useState<Song[]>([]);
+  const [orphans, setOrphans] = useState<StorageOrphan[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -30,6 +46,8 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
 
   // Voting State
   const [voteCooldowns, setVoteCooldowns] = useState<Record<string, boolean>>({});
+  const [openRound, setOpenRound] = useState<BoxRound | null>(null);
+  const [boxTallies, setBoxTallies] = useState<BoxTallies>({});
 
   const boxCount = songs.filter(s => s.status === 'in_box').length;
 
@@ -38,15 +56,12 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
     console.log("🔍 DJ Booth: Fetching Library...");
 
     // DEBUG: Log current user info to check session/RLS
-    const { data: { session } } = await supabase.auth.getSession();
-    console.log("👤 DJ Booth Auth Session:", session?.user?.id || "None", session?.user?.email || "N/A");
+    console.log("👤 DJ Booth Auth Session:", (await backend.auth.currentUserId()) || "None");
 
-    const { data, error } = await supabase
-      .from("songs")
-      .select("*")
-      .order("created_at", { ascending: false });
-
-    if (error) {
+    let data: Song[] | null = null;
+    try {
+      data = await songRepository.list({}, { orderBy: "created_at", ascending: false });
+    } catch (error) {
       console.error("❌ DJ Booth: Fetch Error:", error);
     }
 
@@ -57,98 +72,34 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
       setSongs(data);
     }
 
+    await fetchBoxTallies();
+
     // Scan for Orphans (Files in storage not in DB)
     try {
-      console.log("🔍 DJ Booth: Scanning for orphans in storage...");
-      // 1. List root to find all folders (like UUIDs or user_uploads)
-      const { data: rootItems } = await supabase.storage.from('songs').list('');
-      let allFiles: any[] = [];
-
-      if (rootItems) {
-        console.log(`📂 DJ Booth: Found ${rootItems.length} items in bucket root.`);
-        for (const item of rootItems) {
-          if (item.name === '.emptyFolderPlaceholder') continue;
-
-          if (!item.name.endsWith('.mp3')) {
-            // It's likely a folder, list its contents
-            console.log(`📁 DJ Booth: Scanning folder: ${item.name}`);
-            const { data: folderFiles } = await supabase.storage.from('songs').list(item.name);
-            if (folderFiles) {
-              console.log(`   📄 DJ Booth: Found ${folderFiles.length} items in ${item.name}`);
-              for (const subItem of folderFiles) {
-                if (subItem.name === '.emptyFolderPlaceholder') continue;
-
-                if (!subItem.name.endsWith('.mp3')) {
-                  // DEPTH 2: It's a subfolder (e.g., user_uploads/<uuid>)
-                  console.log(`      📁 DJ Booth: Scanning sub-folder: ${item.name}/${subItem.name}`);
-                  const { data: deepFiles } = await supabase.storage.from('songs').list(`${item.name}/${subItem.name}`);
-                  if (deepFiles) {
-                    console.log(`         📄 DJ Booth: Found ${deepFiles.length} files in ${item.name}/${subItem.name}. Mapping...`);
-                    allFiles.push(...deepFiles.map(file => {
-                      const fullPath = `${item.name}/${subItem.name}/${file.name}`;
-                      console.log(`            📌 DJ Booth: Found file: ${file.name} (fullPath: ${fullPath})`);
-                      return { ...file, fullPath };
-                    }));
-                  }
-                } else {
-                  // DEPTH 1: It's a file in a top-level folder
-                  const fullPath = `${item.name}/${subItem.name}`;
-                  console.log(`   📌 DJ Booth: Found file (D1): ${subItem.name} (fullPath: ${fullPath})`);
-                  allFiles.push({ ...subItem, fullPath });
-                }
-              }
-            }
-          } else {
-            // It's a file at root
-            console.log(`📌 DJ Booth: Found file (Root): ${item.name}`);
-            allFiles.push({ ...item, fullPath: item.name });
-          }
-        }
-      }
-
-      console.log(`🔎 DJ Booth: Final allFiles list (${allFiles.length} items):`, allFiles.map(f => f.fullPath));
-
-      const existingUrls = new Set(data?.map(s => s.audio_url) || []);
-      console.log(`🔎 DJ Booth: Existing URLs in DB (${existingUrls.size} items):`, [...existingUrls]);
-
-      const foundOrphans = allFiles.filter(f => {
-        const isMp3 = f.name.toLowerCase().endsWith('.mp3');
-        if (!isMp3) console.log(`⏩ DJ Booth: Skipping non-mp3: ${f.name}`);
-        return isMp3;
-      }).filter(f => {
-        const { data: { publicUrl } } = supabase.storage.from('songs').getPublicUrl(f.fullPath);
-        const isOrphan = !existingUrls.has(publicUrl);
-        if (isOrphan) {
-          console.log(`🕵️ DJ Booth: Found Orphan: ${f.name} (Url: ${publicUrl})`);
-        } else {
-          console.log(`✅ DJ Booth: File already in DB: ${f.name}`);
-        }
-        return isOrphan;
-      });
-
-      console.log(`✨ DJ Booth: Total Orphans Filtered: ${foundOrphans.length}`);
+      const foundOrphans = await findStorageOrphans(data ?? []);
+      console.log(`✨ DJ Booth: Found ${foundOrphans.length} orphans in storage.`);
       setOrphans(foundOrphans);
     } catch (e) {
       console.warn("Orphan scan failed:", e);
     }
   };
 
+  const fetchBoxTallies = async () => {
+    const round = await getOpenRound();
+    setOpenRound(round);
+    setBoxTallies(round ? await getRoundTallies(round.id) : {});
+  };
+
   const recoverSongs = async () => {
     if (!orphans.length || !profile.user_id) return;
     setIsUploading(true);
-    let count = 0;
 
     let targetUploaderId = profile.user_id;
 
     // Handle god-mode-admin (non-UUID) by finding the first real admin in DB
     if (targetUploaderId === "god-mode-admin") {
       console.log("🛠️ DJ Booth: God-mode detected. Finding real admin for attribution...");
-      const { data: adminProfile } = await supabase
-        .from('profiles')
-        .select('user_id')
-        .eq('is_admin', true)
-        .limit(1)
-        .single();
+      const [adminProfile] = await backend.profiles.list({ is_admin: true }, { columns: 'user_id', limit: 1 }).catch(() => []);
 
       if (adminProfile) {
         targetUploaderId = adminProfile.user_id;
@@ -162,25 +113,10 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
     }
 
     console.log(`🚀 DJ Booth: Starting recovery of ${orphans.length} songs...`);
-
-    for (const orphan of orphans) {
-      const { data: { publicUrl } } = supabase.storage.from('songs').getPublicUrl(orphan.fullPath);
-      const { error } = await supabase.from('songs').insert({
-        uploader_id: targetUploaderId,
-        title: orphan.name.replace('.mp3', '').replace(/_\d+$/, ''),
-        artist_name: profile.name || "Resurrected Artist",
-        source: "upload",
-        audio_url: publicUrl,
-        duration_sec: 180,
-        status: "pool"
-      });
-
-      if (error) {
-        console.error(`❌ DJ Booth: Failed to recover ${orphan.name}:`, error);
-      } else {
-        count++;
-      }
-    }
+    const count = await recoverStorageOrphans(orphans, {
+      uploaderId: targetUploaderId,
+      artistName: profile.name || "Resurrected Artist",
+    });
 
     setOrphans([]);
     await fetchLibrary();
@@ -201,18 +137,18 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
 
   const filteredSongs = songs.filter(s =>
     s.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    s.artist_name.toLowerCase().includes(searchQuery.toLowerCase())
+    s.artistName.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   const isAdmin = profile.is_admin;
-  const isCurrentDJ = context.leaderId === profile.user_id;
+  const isCurrentDJ = context.isLeader; // this session holds the lease, not just this user
   const canControl = isCurrentDJ;
 
-  const sendSiteCommand = async (type: string, payload: any) => {
+  const sendSiteCommand = async (command: SiteCommandBody) => {
     if (!canControl) return;
     try {
       const bm = getBroadcastManager();
-      await bm.sendSiteCommand(type, payload);
+      await bm.sendSiteCommand(command);
     } catch (e) {
       console.error("Site Command Failed:", e);
     }
@@ -220,42 +156,37 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
 
   const clearBroadcast = async () => {
     if (!canControl) return;
-    await supabase.from("broadcasts").update({
-      current_song_id: null,
-      radio_state: "IDLE",
-      song_started_at: null
-    }).eq("id", "00000000-0000-0000-0000-000000000000");
+    await getBroadcastManager().setNowPlaying(null);
   };
 
-  const pushToNow = async (song: any) => {
+  const pushToNow = async (song: Song) => {
     if (!canControl) return;
     // Set song to pool if it was in review
     if (song.status === 'review') {
       await pushToBox(song.id, 'pool');
     }
 
-    await supabase.from("broadcasts").update({
-      current_song_id: song.id,
-      radio_state: "NOW_PLAYING",
-      song_started_at: new Date().toISOString()
-    }).eq("id", "00000000-0000-0000-0000-000000000000");
+    await getBroadcastManager().setNowPlaying(song);
   };
 
   const rejectSong = async (songId: string) => {
     if (!canControl) return;
-    await supabase.from("songs").update({ status: "graveyard" }).eq("id", songId);
+    await songRepository.update({ id: songId }, { status: "graveyard" });
     await fetchLibrary();
   }
 
-  const handleVote = async (songId: string, currentVotes: number) => {
-    if (voteCooldowns[songId]) return;
+  const handleVote = async (songId: string) => {
+    if (voteCooldowns[songId] || !openRound) return;
     setVoteCooldowns(prev => ({ ...prev, [songId]: true }));
 
-    const newVotes = (currentVotes || 0) + 1;
-    // Optimistic UI updates
-    setSongs(s => s.map(song => song.id === songId ? { ...song, upvotes: newVotes } : song));
-
-    await supabase.from("songs").update({ upvotes: newVotes }).eq("id", songId);
+    // One vote per round, recorded in the ledger
+    try {
+      const recorded = await castBoxVote(openRound.id, songId);
+      if (!recorded) console.log("🗳️ DJ Booth: Already voted this round.");
+    } catch (e) {
+      console.warn("DJ Booth vote failed:", e);
+    }
+    await fetchBoxTallies();
 
     // Cooldown prevents spamming, wait 5 seconds
     setTimeout(() => {
@@ -265,47 +196,32 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
 
   const pushToBox = async (songId: string, status: 'in_box' | 'pool' = 'in_box') => {
     if (!canControl) return;
-    await supabase.from("songs").update({ status }).eq("id", songId);
+    await songRepository.update({ id: songId }, { status });
     await fetchLibrary();
   };
 
   const handleDelete = async (songId: string) => {
     if (!isAdmin) return;
     if (!window.confirm("Are you sure you want to permanently delete this node from the database?")) return;
-    await supabase.from("songs").delete().eq("id", songId);
+    await songRepository.remove({ id: songId });
     await fetchLibrary();
   };
 
-  const handleStarVote = async (stars: number) => {
-    if (!context.nowPlaying) return;
-    if (voteCooldowns[context.nowPlaying.id]) return;
-
-    setVoteCooldowns(prev => ({ ...prev, [context.nowPlaying!.id]: true }));
-
-    const { data: song } = await supabase.from("songs").select("live_stars_sum, live_stars_count").eq("id", context.nowPlaying.id).single();
-    if (song) {
-      await supabase.from("songs").update({
-        live_stars_sum: (song.live_stars_sum || 0) + stars,
-        live_stars_count: (song.live_stars_count || 0) + 1
-      }).eq("id", context.nowPlaying.id);
-    }
-  };
-
   const handleTtsSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!canControl || !ttsInput.trim() || isSending) return;
     setIsSending(true);
-    await sendSiteCommand("tts", { text: ttsInput, voice: "Fenrir" });
+    await sendSiteCommand({ type: "tts", payload: { text: ttsInput, voice: "Fenrir" } });
     setTtsInput("");
     setIsSending(false);
   };
 
-  const forceNextState = async (state: string) => {
+  const forceNextState = async (state: RadioState) => {
     if (!isCurrentDJ) return;
     setIsSending(true);
     try {
       const bm = getBroadcastManager();
-      await bm.setRadioState(state as any); // cast as any since RadioState isn't exported in the same way, or use the type if imported
+      await bm.setRadioState(state);
     } catch (e) {
       console.error("Force state transition failed:", e);
     }
@@ -333,24 +249,30 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
     if (!file || !profile.user_id) return;
     // if (!isSunoConfirmed) return; // Optional: Enforce checkbox check
 
+    // Non-artists debut; one Trial by Fire per cooldown window (enforced again in 018_debuts.sql)
+    const cooldown = profile.is_artist ? 0 : debutCooldownRemaining(profile.last_debut_at);
+    if (cooldown > 0) {
+      alert(`One debut per ${STATION_RULES.debutCooldownHours}h. Try again in ${Math.ceil(cooldown / 3600000)}h.`);
+      return;
+    }
+
     setIsUploading(true);
     setUploadProgress(10);
 
     try {
       const duration = await getAudioDuration(file);
+      // Measured here so the track plays at the station's loudness (and previews at its hook) from its first spin
+      const loudness = await analyzeAudioFile(file);
+      if (loudness) console.log(`🔊 ${file.name}: ${loudness.integratedLufs.toFixed(1)} LUFS, peak ${loudness.peakDb.toFixed(1)} dBFS, hook at ${loudness.hookOffsetSec}s`);
       const fileExt = file.name.split('.').pop();
       const cleanName = file.name.replace(`.${fileExt}`, "").replace(/[^a-zA-Z0-9]/g, "_");
       const fileName = `${Date.now()}_${cleanName}.${fileExt}`;
       const filePath = `${profile.user_id}/${fileName}`;
 
-      const { error: uploadError } = await supabase.storage
-        .from('songs')
-        .upload(filePath, file, { cacheControl: '3600', upsert: true });
-
-      if (uploadError) throw uploadError;
+      await backend.storage.upload('songs', filePath, file);
       setUploadProgress(50);
 
-      const { data: { publicUrl } } = supabase.storage.from('songs').getPublicUrl(filePath);
+      const publicUrl = backend.storage.publicUrl('songs', filePath);
 
       let canvasUrl = undefined;
       let isCanvas = false;
@@ -370,34 +292,42 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
           const bucketName = isMp4 ? 'videos' : 'covers';
           isCanvas = isMp4;
 
-          const { error: visError } = await supabase.storage
-            .from(bucketName)
-            .upload(visPath, visualFile, { cacheControl: '3600', upsert: true });
-
-          if (!visError) {
-            const { data: { publicUrl: vUrl } } = supabase.storage.from(bucketName).getPublicUrl(visPath);
-            canvasUrl = vUrl;
-          } else {
+          try {
+            await backend.storage.upload(bucketName, visPath, visualFile);
+            canvasUrl = backend.storage.publicUrl(bucketName, visPath);
+          } catch (visError) {
             console.error("Visual upload failed:", visError);
           }
         }
       }
 
-      await supabase.from('songs').insert({
-        uploader_id: profile.user_id,
-        title: file.name.replace(`.${fileExt}`, ""),
-        artist_name: profile.name || "Anonymous DJ",
-        source: "upload",
-        audio_url: publicUrl,
-        duration_sec: duration,
-        status: canControl ? "pool" : "review",
-        cover_art_url: canvasUrl,
-        is_canvas: isCanvas
-      });
+      let inserted;
+      try {
+        inserted = await songRepository.insert({
+          uploader_id: profile.user_id,
+          title: file.name.replace(`.${fileExt}`, ""),
+          artist_name: profile.name || "Anonymous DJ",
+          source: "upload",
+          audio_url: publicUrl,
+          duration_sec: duration,
+          replay_gain: loudness ? replayGainFor(loudness) : null,
+          hook_offset_sec: loudness?.hookOffsetSec ?? null,
+          status: canControl ? "pool" : "review",
+          cover_art_url: canvasUrl,
+          is_canvas: isCanvas
+        });
+      } catch (insertError: any) {
+        alert(insertError.message?.startsWith('debut_') ? insertError.message.replace(/^debut_\w+: /, '') : "Upload failed. Please try again.");
+        throw insertError;
+      }
 
       setUploadProgress(100);
       await fetchLibrary();
-      if (!canControl) {
+      if (inserted?.status === 'debut') {
+        alert(entitlementsFor(profile).priorityDebut
+          ? "Your debut is queued ahead of the other debuts (Premium)! It plays next, and the live stars decide if it survives the Trial by Fire."
+          : "Your debut is queued! It plays after the debuts ahead of it, and the live stars decide if it survives the Trial by Fire.");
+      } else if (!canControl) {
         alert("Song uploaded and pending DJ review!");
       }
     } catch (error: any) {
@@ -522,7 +452,7 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
                   <div className="flex justify-between items-start">
                     <div className="flex flex-col min-w-0 pr-2">
                       <span className="text-[9px] font-black text-white truncate uppercase" title={song.title}>{song.title}</span>
-                      <span className="text-[7px] text-zinc-500 font-bold truncate uppercase">{song.artist_name}</span>
+                      <span className="text-[7px] text-zinc-500 font-bold truncate uppercase">{song.artistName}</span>
                     </div>
                   </div>
                   {canControl && (
@@ -567,19 +497,20 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
                 <input type="file" accept="audio/*" onChange={handleUpload} className="hidden" disabled={!isSunoConfirmed || isUploading} />
                 <span className="text-[9px] font-black uppercase tracking-widest">{isUploading ? `Syncing ${uploadProgress}%` : 'Deploy Node Audio'}</span>
               </label>
+              {!profile.is_artist && entitlementsFor(profile).priorityDebut && (
+                <span className="block mt-2 text-[7px] font-black uppercase tracking-widest text-amber-300/80 text-center">✦ Premium debuts skip the queue</span>
+              )}
             </div>
           </div>
 
+          <div className="mb-4">
+            <ClockSyncReadout />
+          </div>
+
           <div className="mt-auto">
             <span className="text-[8px] font-black text-zinc-700 uppercase tracking-[0.5em] mb-4 block">System Triggers</span>
             <div className="grid grid-cols-1 gap-px bg-white/5 border border-white/5 rounded-lg overflow-hidden">
-              {[
-                { id: 'POOL', icon: 'P', label: 'Cycle' },
-                { id: 'THE_BOX', icon: 'B', label: 'Refresh Box' },
-                { id: 'DJ_TALKING', icon: 'M', label: 'Mic Over' },
-                { id: 'BOX_WIN', icon: 'W', label: 'Force Win' },
-                { id: 'REBOOT', icon: 'N', label: 'Force Nuke', color: 'text-red-500' }
-              ].map(btn => (
+              {SYSTEM_TRIGGERS.map(btn => (
                 <button
                   key={btn.id}
                   onClick={() => forceNextState(btn.id)}
@@ -661,18 +592,8 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
                       style={{ width: `${(context.currentTime / (context.nowPlaying.durationSec || 1)) * 100}%` }}
                     />
                   </div>
-                  <div className="flex items-center gap-1 mt-2 flex-wrap justify-end max-w-[200px]">
-                    <span className="text-[7px] font-black uppercase text-zinc-500 mr-2 w-full text-right block mb-1">Live Rating:</span>
-                    {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(star => (
-                      <button
-                        key={star}
-                        onClick={() => handleStarVote(star)}
-                        disabled={voteCooldowns[context.nowPlaying!.id]}
-                        className={`w-4 h-4 sm:w-5 sm:h-5 rounded flex items-center justify-center text-[8px] sm:text-[9px] font-black border transition-all ${voteCooldowns[context.nowPlaying!.id] ? 'border-zinc-800 text-zinc-700 bg-zinc-900 cursor-not-allowed' : 'border-yellow-500/30 text-yellow-500 hover:bg-yellow-500 hover:text-black hover:scale-110'}`}
-                      >
-                        {star}
-                      </button>
-                    ))}
+                  <div className="mt-2 max-w-[240px]">
+                    <LiveRating compact />
                   </div>
                 </div>
               )}
@@ -701,22 +622,36 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {songs.filter(s => s.status === 'in_box').sort((a, b) => (b.upvotes || 0) - (a.upvotes || 0)).map((song, i) => {
-                const totalVotes = songs.filter(s => s.status === 'in_box').reduce((acc, curr) => acc + (curr.upvotes || 0), 0) || 1;
-                const percentage = Math.round(((song.upvotes || 0) / totalVotes) * 100);
+              {songs.filter(s => s.status === 'in_box').sort((a, b) => (boxTallies[b.id]?.votes ?? 0) - (boxTallies[a.id]?.votes ?? 0)).map((song, i) => {
+                const totalVotes = songs.filter(s => s.status === 'in_box').reduce((acc, curr) => acc + (boxTallies[curr.id]?.votes ?? 0), 0) || 1;
+                const percentage = Math.round(((boxTallies[song.id]?.votes ?? 0) / totalVotes) * 100);
 
                 return (
                   <div key={song.id} className={`p-3 rounded-xl border ${i === 0 ? 'border-purple-500/30 bg-purple-500/5' : 'border-white/5 bg-white/5'} transition-all`}>
                     <div className="flex justify-between items-start mb-2">
                       <div className="flex flex-col min-w-0">
                         <span className="text-[9px] font-black text-white truncate uppercase">{song.title}</span>
-                        <span className="text-[7px] font-bold text-zinc-500 truncate uppercase mt-0.5">{song.artist_name}</span>
+                        <span className="text-[7px] font-bold text-zinc-500 truncate uppercase mt-0.5">{song.artistName}</span>
+                        <span className={`text-[7px] font-black uppercase tracking-tighter mt-1 ${(song.boxRoundsLost || 0) + 1 >= STATION_RULES.maxRoundsWithoutWin ? 'text-red-500' : 'text-zinc-600'}`}>
+                          {song.boxRoundsLost ? `${song.boxRoundsLost} loss streak` : 'Fresh entry'} · {song.boxRoundsLost || 0}/{STATION_RULES.maxRoundsWithoutWin}
+                        </span>
+                        <span
+                          className="text-[7px] font-bold text-zinc-600 mt-0.5 line-clamp-2"
+                          title={openRound?.selection[song.id]?.reason}
+                        >
+                          {openRound?.selection[song.id]
+                            ? `🎲 ${openRound.selection[song.id].strategy}: ${openRound.selection[song.id].reason}`
+                            : '🥊 Challenger from last round'}
+                        </span>
                       </div>
                       <div className="flex flex-col items-end flex-shrink-0">
                         <div className="flex items-center gap-1">
-                          <span className={`text-[11px] font-black ${i === 0 ? 'text-purple-400' : 'text-zinc-500'}`}>{song.upvotes || 0}</span>
-                          <span className="text-[7px] font-bold text-zinc-700 uppercase mt-0.5">Votes</span>
+                          <span className={`text-[11px] font-black ${i === 0 ? 'text-purple-400' : 'text-zinc-500'}`}>{boxTallies[song.id]?.votes ?? 0}</span>
+                          <span className="text-[7px] font-bold text-zinc-700 uppercase mt-0.5">Pts</span>
                         </div>
+                        <span className="text-[6px] font-bold text-zinc-600 uppercase tracking-tighter">
+                          {boxTallies[song.id]?.humanVotes ?? 0} real pts · {boxTallies[song.id]?.simulatedVotes ?? 0} crowd
+                        </span>
                         {i === 0 && <span className="text-[6px] font-black text-purple-600 uppercase tracking-tighter">Winning</span>}
                       </div>
                     </div>
@@ -748,28 +683,28 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
                 <div key={song.id} className="py-2.5 flex flex-col sm:flex-row items-start sm:items-center justify-between group hover:bg-white/[0.02] -mx-4 px-4 transition-all gap-2 sm:gap-4">
                   <div className="w-full sm:w-auto min-w-0 flex-grow flex items-center gap-4">
                     <div className="w-8 h-8 rounded-lg bg-zinc-900 border border-white/5 flex-shrink-0 overflow-hidden relative">
-                      {song.is_canvas && song.cover_art_url ? (
-                        <video src={song.cover_art_url} muted loop playsInline autoPlay className="w-full h-full object-cover grayscale opacity-50 group-hover:grayscale-0 group-hover:opacity-100 transition-all pointer-events-none" />
+                      {song.is_canvas && song.coverArtUrl ? (
+                        <video src={song.coverArtUrl} muted loop playsInline autoPlay className="w-full h-full object-cover grayscale opacity-50 group-hover:grayscale-0 group-hover:opacity-100 transition-all pointer-events-none" />
                       ) : (
-                        <img src={song.cover_art_url || `https://picsum.photos/seed/${song.id}/100`} className="w-full h-full object-cover grayscale opacity-50 group-hover:grayscale-0 group-hover:opacity-100 transition-all" alt="" />
+                        <img src={song.coverArtUrl || `https://picsum.photos/seed/${song.id}/100`} className="w-full h-full object-cover grayscale opacity-50 group-hover:grayscale-0 group-hover:opacity-100 transition-all" alt="" />
                       )}
                     </div>
                     <div className="flex-grow min-w-0 overflow-hidden">
                       <div className="flex items-center gap-2 flex-wrap">
                         <h4 className="text-[10px] font-black text-white/50 group-hover:text-white truncate uppercase transition-colors max-w-full">{song.title}</h4>
-                        {(song.status === 'in_box' || song.status === 'pool') && (song.upvotes > 0 || song.status === 'in_box') && (
-                          <span className={`text-[7px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter shrink-0 flex items-center gap-1 ${song.status === 'in_box' ? 'bg-purple-500/20 text-purple-400' : 'bg-zinc-800 text-zinc-400'}`}>
-                            🗳️ {song.upvotes || 0} Votes
+                        {song.status === 'in_box' && (
+                          <span className="text-[7px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter shrink-0 flex items-center gap-1 bg-purple-500/20 text-purple-400">
+                            🗳️ {boxTallies[song.id]?.votes ?? 0} Votes
                           </span>
                         )}
                         {song.status === 'now_playing' && (
                           <span className="text-[7px] font-black bg-green-500/20 text-green-400 px-1.5 py-0.5 rounded uppercase tracking-tighter shrink-0">📡 Active</span>
                         )}
                       </div>
-                      <span className="text-[8px] font-bold text-zinc-700 uppercase tracking-tight group-hover:text-purple-400/50 transition-colors truncate block max-w-full">{song.artist_name}</span>
+                      <span className="text-[8px] font-bold text-zinc-700 uppercase tracking-tight group-hover:text-purple-400/50 transition-colors truncate block max-w-full">{song.artistName}</span>
                       <div className="flex items-center gap-2 mt-1">
                         <span className="text-[8px] font-black text-yellow-500 bg-yellow-500/10 px-1.5 py-0.5 rounded border border-yellow-500/20">★ {song.stars}/10</span>
-                        {song.is_dsw && (
+                        {song.isDsw && (
                           <span className="text-[7px] font-black bg-red-500/20 text-red-500 px-1.5 py-0.5 rounded uppercase tracking-tighter border border-red-500/30 animate-pulse">
                             DEAD SONG WALKING
                           </span>
@@ -779,14 +714,14 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
                   </div>
                   <div className="flex flex-wrap gap-1 md:gap-2 flex-shrink-0 w-full sm:w-auto pl-12 sm:pl-0">
                     <button
-                      onClick={() => handleVote(song.id, song.upvotes)}
-                      disabled={voteCooldowns[song.id] || song.status === 'now_playing'}
+                      onClick={() => handleVote(song.id)}
+                      disabled={voteCooldowns[song.id] || song.status !== 'in_box' || !openRound}
                       className={`text-[7px] font-black border px-3 py-1.5 sm:px-2 sm:py-1 rounded transition-all uppercase flex-grow sm:flex-none text-center ${voteCooldowns[song.id] ? 'border-zinc-800 text-zinc-600 cursor-not-allowed' : 'border-purple-500/30 text-purple-400 hover:text-white hover:bg-purple-500/20'}`}
                     >
                       VOTE
                     </button>
                     <button
-                      onClick={() => context.downloadSong(PersistentRadioService.mapDbToApp(song))}
+                      onClick={() => context.downloadSong(song)}
                       className="text-[7px] font-black border border-white/5 px-3 py-1.5 sm:px-2 sm:py-1 rounded text-zinc-600 hover:text-white hover:bg-white/5 transition-all uppercase flex-grow sm:flex-none text-center"
                     >
                       DL
@@ -883,7 +818,7 @@ export const DjBooth: React.FC<DjBoothProps> = ({ onNavigate }) => {
               {["Confetti", "Glitch", "Shake", "Pulse", "Static", "Invert", "Hue", "Blur", "Pixel", "Neon"].map(fx => (
                 <button
                   key={fx}
-                  onClick={() => sendSiteCommand("trigger_fx", { fx })}
+                  onClick={() => sendSiteCommand({ type: "trigger_fx", payload: { fx } })}
                   disabled={!canControl}
                   className={`px-1 py-1.5 bg-transparent border rounded text-[6px] font-black uppercase transition-all ${canControl
                     ? 'border-white/5 hover:border-purple-500/50 hover:bg-white/5 hover:text-white'
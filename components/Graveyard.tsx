@@ -0,0 +1,160 @@
+/**
+ * @file Graveyard Component - Where buried songs rest, with their epitaphs and a way back.
+ */
+
+import React, { useEffect, useState } from "react";
+import type { View, Profile, GraveyardEntry } from "../types";
+import { backend } from "../services/radioBackend";
+import { getGraveyard, getSignedPetitions, signResurrectionPetition, resubmitFromGraveyard } from "../services/graveyardService";
+import { resubmitCooldownRemaining } from "../services/radioStateMachine";
+import { STATION_RULES } from "../services/stationRules";
+
+interface GraveyardProps {
+  onNavigate: (view: View) => void;
+  profile: Profile;
+}
+
+const formatBurial = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+
+export const Graveyard: React.FC<GraveyardProps> = ({ onNavigate, profile }) => {
+  const [entries, setEntries] = useState<GraveyardEntry[]>([]);
+  const [signed, setSigned] = useState<Set<string>>(new Set());
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchGraveyard = async () => {
+    setEntries(await getGraveyard());
+    if (profile.user_id) setSigned(await getSignedPetitions(profile.user_id));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchGraveyard();
+
+    // Burials and resurrections show up live
+    return backend.realtime.onTableChange("songs", ({ event, new: newSong, old: oldSong }) => {
+      if (event !== "UPDATE") return;
+      if (newSong?.status === 'graveyard' || oldSong?.status === 'graveyard' || newSong?.resurrected_at) {
+        fetchGraveyard();
+      }
+    });
+  }, []);
+
+  const handlePetition = async (entry: GraveyardEntry) => {
+    if (busyId || signed.has(entry.songId)) return;
+    setBusyId(entry.songId);
+    try {
+      const { signatures, resurrected } = await signResurrectionPetition(entry.songId);
+      setSigned(prev => new Set(prev).add(entry.songId));
+      setEntries(prev => resurrected
+        ? prev.filter(e => e.songId !== entry.songId)
+        : prev.map(e => e.songId === entry.songId ? { ...e, petitions: signatures } : e));
+      if (resurrected) alert(`'${entry.title}' rises! It returns as a Dead Song Walking for one farewell play.`);
+    } catch (e: any) {
+      alert(e.message);
+      fetchGraveyard();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResubmit = async (entry: GraveyardEntry) => {
+    if (busyId) return;
+    if (!confirm(`Bring '${entry.title}' back for one farewell play? If the crowd doesn't save it, it's back to the Graveyard.`)) return;
+    setBusyId(entry.songId);
+    try {
+      await resubmitFromGraveyard(entry.songId);
+      setEntries(prev => prev.filter(e => e.songId !== entry.songId));
+    } catch (e: any) {
+      alert(e.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black text-white/90 font-mono overflow-hidden flex flex-col z-[100] selection:bg-purple-500/30">
+      {/* HEADER */}
+      <div className="relative z-50 h-14 border-b border-white/5 bg-zinc-950/60 backdrop-blur-xl flex items-center justify-between px-4 md:px-6 shrink-0">
+        <div className="flex flex-col">
+          <h1 className="text-xs font-black tracking-[0.4em] uppercase text-white">The Graveyard 🪦</h1>
+          <span className="text-[7px] font-bold text-zinc-600 uppercase tracking-[0.2em] mt-0.5">
+            {entries.length} at rest · {STATION_RULES.resurrectionPetitions} petitions raise the dead
+          </span>
+        </div>
+        <button
+          onClick={() => onNavigate("club")}
+          className="px-4 md:px-6 py-2 bg-white/5 border border-white/10 text-white/50 hover:bg-white/10 hover:text-white transition-all text-[9px] font-black uppercase tracking-[0.2em] rounded-full"
+        >
+          Back to the Club
+        </button>
+      </div>
+
+      {/* TOMBSTONES */}
+      <div className="flex-grow overflow-y-auto p-4 md:p-6">
+        {loading ? (
+          <div className="h-full flex items-center justify-center text-[10px] font-black text-zinc-700 uppercase animate-pulse">Digging...</div>
+        ) : entries.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-[10px] font-black text-zinc-700 uppercase tracking-widest">No one rests here. Yet.</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 max-w-6xl mx-auto pb-24">
+            {entries.map(entry => {
+              const isOwner = entry.uploaderId === profile.user_id;
+              const resting = resubmitCooldownRemaining(entry.buriedAt);
+              const hasSigned = signed.has(entry.songId);
+
+              return (
+                <div key={entry.songId} className="p-4 rounded-t-[40px] rounded-b-xl border border-white/10 bg-zinc-950/80 flex flex-col items-center text-center gap-2">
+                  <img
+                    src={entry.coverArtUrl || `https://picsum.photos/seed/${entry.songId}/100`}
+                    className="w-14 h-14 rounded-full object-cover grayscale opacity-40 border border-white/10"
+                    alt=""
+                  />
+                  <span className="text-[7px] font-black text-zinc-600 uppercase tracking-[0.3em]">Here lies</span>
+                  <span className="text-[11px] font-black text-white uppercase truncate w-full" title={entry.title}>{entry.title}</span>
+                  <span className="text-[8px] font-bold text-zinc-500 uppercase truncate w-full">{entry.artistName}</span>
+
+                  {/* Epitaph */}
+                  <div className="flex gap-3 text-[8px] font-black uppercase text-zinc-500 tracking-tight mt-1">
+                    <span>★ {entry.finalStars} final</span>
+                    <span>🏆 {entry.roundsWon} {entry.roundsWon === 1 ? "round" : "rounds"} won</span>
+                  </div>
+                  <span className="text-[7px] font-bold text-zinc-700 uppercase">
+                    Buried {formatBurial(entry.buriedAt)}{entry.resurrectionCount > 0 ? ` · risen ${entry.resurrectionCount}×` : ""}
+                  </span>
+
+                  {/* Resurrection */}
+                  <div className="w-full mt-2 pt-2 border-t border-white/5 flex flex-col gap-1.5">
+                    <div className="w-full h-1 bg-zinc-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-purple-500 transition-all duration-1000"
+                        style={{ width: `${Math.min(100, (entry.petitions / STATION_RULES.resurrectionPetitions) * 100)}%` }}
+                      />
+                    </div>
+                    <button
+                      onClick={() => handlePetition(entry)}
+                      disabled={hasSigned || busyId === entry.songId}
+                      className="py-1.5 rounded-full bg-white/5 border border-white/10 text-[8px] font-black uppercase tracking-widest hover:bg-purple-600 hover:text-white disabled:opacity-40 disabled:hover:bg-white/5 transition-all"
+                    >
+                      {hasSigned ? "Signed" : "🕯️ Petition"} · {entry.petitions}/{STATION_RULES.resurrectionPetitions}
+                    </button>
+                    {isOwner && (
+                      <button
+                        onClick={() => handleResubmit(entry)}
+                        disabled={resting > 0 || busyId === entry.songId}
+                        className="py-1.5 rounded-full bg-purple-600/20 border border-purple-500/30 text-purple-300 text-[8px] font-black uppercase tracking-widest hover:bg-purple-600 hover:text-white disabled:opacity-40 disabled:hover:bg-purple-600/20 transition-all"
+                      >
+                        {resting > 0 ? `Resubmit in ${Math.ceil(resting / 86400000)}d` : "🧟 Resubmit"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,9 @@ import React, { useContext, useEffect, useState } from "react";
 import type { View, Profile } from "../types";
 import { RadioContext } from "../contexts/AudioPlayerContext";
 import { getBroadcastManager } from "../services/globalBroadcastManager";
+import { useBroadcastEvent } from "../hooks/useBroadcastEvent";
+import { tierOf } from "../services/entitlements";
+import { PREMIUM_PLANS, canUpgradeInApp, upgradeToPremium } from "../services/payments";
 
 interface HeaderProps {
   onNavigate: (view: View) => void;
@@ -13,23 +16,47 @@ export const Header: React.FC<HeaderProps> = ({ onNavigate, onSignOut, profile }
   const context = useContext(RadioContext);
   const broadcastManager = getBroadcastManager();
   const [pulse, setPulse] = useState(0);
+  const [isPulsing, setIsPulsing] = useState(broadcastManager.isPlaying());
+
+  // Only read the analyser while something is playing; paused audio has no bass anyway
+  useBroadcastEvent("playbackStateChanged", setIsPulsing);
 
   useEffect(() => {
     let handle: number;
-    const update = () => {
-      const intensity = broadcastManager.getBassIntensity();
+    const setIntensity = (intensity: number) => {
       setPulse(intensity);
       document.documentElement.style.setProperty('--audio-pulse', intensity.toString());
+    };
+    const update = () => {
+      setIntensity(broadcastManager.getBassIntensity());
       handle = requestAnimationFrame(update);
     };
-    update();
+    if (isPulsing) update();
+    else setIntensity(0);
     return () => cancelAnimationFrame(handle);
-  }, []);
+  }, [isPulsing]);
 
   if (!context) return null;
   const { nowPlaying, isPlaying } = context;
 
   const [inviteText, setInviteText] = useState("Invite 🔗");
+  const [upgrading, setUpgrading] = useState(false);
+
+  const handleUpgrade = async () => {
+    const { label, amountCents } = PREMIUM_PLANS.lifetime;
+    const perks = "Box votes count double, unlimited previews, a daily skip veto, a chat badge and priority debuts.";
+    if (!confirm(`${label} - $${(amountCents / 100).toFixed(2)}\n${perks}`)) return;
+
+    setUpgrading(true);
+    try {
+      context.setProfile(await upgradeToPremium(profile.user_id));
+    } catch (error: any) {
+      console.error("Premium upgrade failed:", error);
+      alert(error.message?.startsWith("payment_declined") ? "Payment declined. Nothing was charged." : "Upgrade failed. Please try again.");
+    } finally {
+      setUpgrading(false);
+    }
+  };
 
   const handleInvite = async () => {
     const shareData = {
@@ -83,6 +110,17 @@ export const Header: React.FC<HeaderProps> = ({ onNavigate, onSignOut, profile }
         <div className="flex items-center gap-2 sm:gap-3 group pointer-events-auto shrink-0 z-50 min-w-0">
           <div className="flex flex-col items-end min-w-0">
             <span className="text-[8px] sm:text-[9px] font-black text-white/40 tracking-wider uppercase group-hover:text-white transition-colors truncate max-w-[120px] sm:max-w-xs text-right">{profile.name}</span>
+            {tierOf(profile) === "premium" ? (
+              <span className="text-[6px] sm:text-[7px] font-black text-amber-300/80 uppercase tracking-widest">✦ Premium</span>
+            ) : canUpgradeInApp() && (
+              <button
+                onClick={handleUpgrade}
+                disabled={upgrading}
+                className="text-[6px] sm:text-[7px] font-black text-amber-300/40 uppercase tracking-widest hover:text-amber-300 transition-colors disabled:animate-pulse"
+              >
+                {upgrading ? "Processing..." : "Go Premium ✦"}
+              </button>
+            )}
             <button
               onClick={onSignOut}
               className="text-[6px] sm:text-[7px] font-black text-red-500/30 uppercase tracking-widest hover:text-red-500 transition-colors"
@@ -131,6 +169,14 @@ export const Header: React.FC<HeaderProps> = ({ onNavigate, onSignOut, profile }
             Song Pool ⚡
           </button>
 
+          <button
+            onClick={() => onNavigate("graveyard")}
+            className="px-3 sm:px-5 py-1.5 sm:py-2 bg-white/5 border border-white/10 text-white/60 rounded-full text-[8px] sm:text-[9px] font-black uppercase tracking-[0.1em] sm:tracking-[0.2em] hover:bg-white/10 hover:text-white transition-all cursor-pointer whitespace-nowrap"
+            title="The Graveyard"
+          >
+            🪦<span className="hidden sm:inline"> Graveyard</span>
+          </button>
+
           <button
             onClick={handleInvite}
             className="relative px-3 sm:px-5 py-1.5 sm:py-2 bg-gradient-to-r from-purple-600 via-fuchsia-500 to-pink-600 text-white rounded-full text-[8px] sm:text-[9px] font-black uppercase tracking-[0.1em] sm:tracking-[0.2em] transition-all cursor-pointer border border-white/20 whitespace-nowrap overflow-hidden group shadow-[0_0_15px_rgba(217,70,239,0.5)] hover:shadow-[0_0_25px_rgba(217,70,239,0.8)] hover:scale-105"
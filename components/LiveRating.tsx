@@ -0,0 +1,100 @@
+/**
+ * @file LiveRating Component - Lets a listener rate the song on air, and change their mind until it ends.
+ */
+
+import React, { useContext, useEffect, useState } from "react";
+import { RadioContext } from "../contexts/AudioPlayerContext";
+import { backend } from "../services/radioBackend";
+import { getCurrentPlayId, getPlayRatings, getUserRating, rateNowPlaying } from "../services/ratingService";
+import { STATION_RULES } from "../services/stationRules";
+import type { RatingTally } from "../types";
+
+const STARS = Array.from({ length: STATION_RULES.maxStars }, (_, i) => i + 1);
+
+export const LiveRating: React.FC<{ compact?: boolean }> = ({ compact = false }) => {
+    const context = useContext(RadioContext);
+    const songId = context?.nowPlaying?.id;
+    const userId = context?.profile?.user_id;
+
+    const [playId, setPlayId] = useState<string | null>(null);
+    const [myRating, setMyRating] = useState<number | null>(null);
+    const [tally, setTally] = useState<RatingTally>({ count: 0, sum: 0 });
+    const [isSending, setIsSending] = useState(false);
+
+    useEffect(() => {
+        setPlayId(null);
+        setMyRating(null);
+        setTally({ count: 0, sum: 0 });
+        if (!songId) return;
+
+        let cancelled = false;
+        let stopFollowing: (() => void) | null = null;
+
+        (async () => {
+            const id = await getCurrentPlayId(songId);
+            if (cancelled || !id) return;
+            setPlayId(id);
+
+            const refresh = async () => {
+                const next = await getPlayRatings(id);
+                if (!cancelled) setTally(next);
+            };
+            await refresh();
+            if (userId) {
+                const mine = await getUserRating(id, userId);
+                if (!cancelled) setMyRating(mine);
+            }
+
+            if (cancelled) return;
+            stopFollowing = backend.realtime.onTableChange("song_ratings", (change) => {
+                if ((change.new ?? change.old)?.play_id === id) refresh();
+            });
+        })();
+
+        return () => {
+            cancelled = true;
+            stopFollowing?.();
+        };
+    }, [songId, userId]);
+
+    const handleRate = async (stars: number) => {
+        if (!playId || isSending || stars === myRating) return;
+        const previous = myRating;
+        setIsSending(true);
+        setMyRating(stars);
+        try {
+            await rateNowPlaying(playId, stars);
+        } catch (e: any) {
+            setMyRating(previous);
+            console.warn(e.message);
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    if (!songId) return null;
+
+    const average = tally.count > 0 ? (tally.sum / tally.count).toFixed(1) : "–";
+    const size = compact ? "w-4 h-4 sm:w-5 sm:h-5 text-[8px] sm:text-[9px]" : "w-5 h-5 sm:w-6 sm:h-6 text-[9px] sm:text-[10px]";
+
+    return (
+        <div className={`flex flex-col gap-1 ${compact ? "items-end" : "items-start"}`}>
+            <div className="flex items-center gap-2 text-[7px] font-black uppercase text-zinc-500 tracking-widest">
+                <span>{myRating ? `Your rating: ${myRating}` : "Rate this track"}</span>
+                <span className="text-yellow-500/70">★ {average} · {tally.count}</span>
+            </div>
+            <div className="flex items-center gap-1 flex-wrap">
+                {STARS.map(star => (
+                    <button
+                        key={star}
+                        onClick={() => handleRate(star)}
+                        disabled={!playId || !userId || isSending}
+                        className={`${size} rounded flex items-center justify-center font-black border transition-all disabled:cursor-not-allowed disabled:opacity-40 ${myRating !== null && star <= myRating ? 'border-yellow-500 bg-yellow-500 text-black' : 'border-yellow-500/30 text-yellow-500 hover:bg-yellow-500 hover:text-black hover:scale-110'}`}
+                    >
+                        {star}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -3,7 +3,7 @@
  */
 
 import React, { useState } from "react";
-import { supabase } from "../services/supabaseClient";
+import { backend } from "../services/radioBackend";
 
 interface LoginScreenProps {
   onShowPrivacy: () => void;
@@ -40,20 +40,15 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({
     setMessage("");
     setError("");
 
-    if (isSignUp) {
-      const { error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: { data: { name: artistName } },
-      });
-      if (error) setError(error.message);
-      else setMessage("Success! Check your email to verify.");
-    } else {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-      if (error) setError(error.message);
+    try {
+      if (isSignUp) {
+        const signedIn = await backend.auth.signUp(email, password, { name: artistName });
+        if (!signedIn) setMessage("Success! Check your email to verify.");
+      } else {
+        await backend.auth.signIn(email, password);
+      }
+    } catch (e: any) {
+      setError(e.message);
     }
     setLoading(false);
   };
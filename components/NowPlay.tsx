@@ -4,6 +4,8 @@
 
 import React, { useContext } from "react";
 import { RadioContext } from "../contexts/AudioPlayerContext";
+import { LiveRating } from "./LiveRating";
+import { SkipPetition } from "./SkipPetition";
 
 export const NowPlay: React.FC = () => {
     const context = useContext(RadioContext);
@@ -65,6 +67,12 @@ export const NowPlay: React.FC = () => {
                     </div>
                 )}
             </div>
+
+            {/* Live Rating and the skip petition */}
+            <div className="mt-3 pt-3 border-t border-white/5 flex flex-col gap-2">
+                <LiveRating />
+                <SkipPetition />
+            </div>
         </div>
     );
 };
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { supabase } from '../services/supabaseClient';
+import { onClubPresence, trackClubPresence } from '../services/clubPresence';
 import type { Profile } from '../types';
 
 interface PresenceTarget {
@@ -22,66 +22,33 @@ export const PresenceAlerts: React.FC<{ profile: Profile }> = ({ profile }) => {
     const [alerts, setAlerts] = useState<AlertMessage[]>([]);
 
     useEffect(() => {
-        // 1. Create the Presence channel
-        const channel = supabase.channel('club-presence', {
-            config: {
-                presence: {
-                    key: profile.user_id,
-                },
-            },
-        });
-
-        // 2. Listen for Presence changes (Join / Leave)
-        channel
-            .on('presence', { event: 'join' }, ({ newPresences }) => {
-                newPresences.forEach((presence: PresenceTarget) => {
-                    // Don't alert for ourselves
-                    if (presence.user_id === profile.user_id) return;
-
-                    setAlerts((prev) => [
-                        ...prev,
-                        {
-                            id: `${presence.presence_ref}-join-${Date.now()}`,
-                            userId: presence.user_id,
-                            name: presence.name,
-                            avatarUrl: presence.avatar_url,
-                            action: 'JOIN',
-                            timestamp: Date.now(),
-                        },
-                    ]);
-                });
-            })
-            .on('presence', { event: 'leave' }, ({ leftPresences }) => {
-                leftPresences.forEach((presence: PresenceTarget) => {
-                    // Don't alert if we are the ones leaving (we shouldn't see it anyway)
-                    if (presence.user_id === profile.user_id) return;
+        // 1. Listen for Presence changes (Join / Leave) on the club's shared presence channel
+        const stopListening = onClubPresence(({ event, presences }) => {
+            const action = event === 'join' ? 'JOIN' : 'LEAVE';
+            (presences as PresenceTarget[]).forEach((presence) => {
+                // Don't alert for ourselves (joining, or leaving from another tab)
+                if (presence.user_id === profile.user_id) return;
 
-                    setAlerts((prev) => [
-                        ...prev,
-                        {
-                            id: `${presence.presence_ref}-leave-${Date.now()}`,
-                            userId: presence.user_id,
-                            name: presence.name,
-                            avatarUrl: presence.avatar_url,
-                            action: 'LEAVE',
-                            timestamp: Date.now(),
-                        },
-                    ]);
-                });
-            })
-            .subscribe(async (status) => {
-                if (status === 'SUBSCRIBED') {
-                    // 3. Announce ourselves to the channel
-                    const presenceData: PresenceTarget = {
-                        user_id: profile.user_id,
-                        name: profile.name,
-                        avatar_url: profile.avatar_url,
-                        // Supabase auto-assigns presence_ref, but we include it in the type
-                        presence_ref: '',
-                    };
-                    await channel.track(presenceData);
-                }
+                setAlerts((prev) => [
+                    ...prev,
+                    {
+                        id: `${presence.presence_ref}-${event}-${Date.now()}`,
+                        userId: presence.user_id,
+                        name: presence.name,
+                        avatarUrl: presence.avatar_url,
+                        action,
+                        timestamp: Date.now(),
+                    },
+                ]);
             });
+        });
+
+        // 2. Announce ourselves (the presence_ref is assigned by Realtime)
+        const stopTracking = trackClubPresence({
+            user_id: profile.user_id,
+            name: profile.name,
+            avatar_url: profile.avatar_url,
+        });
 
         // Timeout loop to clean up old alerts (keep for 5 seconds)
         const cleanupInterval = setInterval(() => {
@@ -91,7 +58,8 @@ export const PresenceAlerts: React.FC<{ profile: Profile }> = ({ profile }) => {
 
         return () => {
             clearInterval(cleanupInterval);
-            supabase.removeChannel(channel);
+            stopListening();
+            stopTracking();
         };
     }, [profile.user_id, profile.name, profile.avatar_url]);
 
@@ -2,45 +2,49 @@
  * @file SiteEffects Component - Handles global visual and audio effects triggered by the DJ.
  */
 
-import React, { useEffect, useState, useRef } from "react";
-import { getBroadcastManager } from "../services/globalBroadcastManager";
+import React, { useEffect, useState } from "react";
+import { onDswEvent } from "../services/dswLifecycle";
+import { onVeto } from "../services/skipPetition";
+import { useBroadcastEvent } from "../hooks/useBroadcastEvent";
 
 export const SiteEffects: React.FC = () => {
     const [activeFx, setActiveFx] = useState<string | null>(null);
-    const broadcastManager = useRef(getBroadcastManager()).current;
-
-    useEffect(() => {
-        const handleCommand = (cmd: any) => {
-            console.log("🌌 SiteEffects: Received command", cmd);
-
-            if (cmd.type === "trigger_fx") {
-                // Secondary check for stale commands
-                const isStale = cmd.timestamp && (Date.now() - cmd.timestamp > 5000);
-                if (isStale) {
-                    console.log("🌌 SiteEffects: Ignored stale FX command");
-                    return;
-                }
-
-                const fx = cmd.payload?.fx;
-                setActiveFx(fx);
-
-                // Auto-clear FX after duration
-                setTimeout(() => {
-                    setActiveFx(null);
-                }, 5000);
+    useBroadcastEvent("siteCommandReceived", (cmd) => {
+        console.log("🌌 SiteEffects: Received command", cmd);
+
+        if (cmd.type === "trigger_fx") {
+            // Secondary check for stale commands
+            const isStale = Date.now() - cmd.timestamp > 5000;
+            if (isStale) {
+                console.log("🌌 SiteEffects: Ignored stale FX command");
+                return;
             }
 
-            if (cmd.type === "tts") {
-                const { text, voice } = cmd.payload || {};
-                if (text) {
-                    playTts(text, voice);
-                }
+            setActiveFx(cmd.payload.fx);
+
+            // Auto-clear FX after duration
+            setTimeout(() => {
+                setActiveFx(null);
+            }, 5000);
+        }
+
+        if (cmd.type === "tts") {
+            const { text, voice } = cmd.payload;
+            if (text) {
+                playTts(text, voice);
             }
-        };
+        }
+    });
+
+    // The DJ voices the big Dead Song Walking moments
+    useEffect(() => onDswEvent((event) => {
+        if (event.type === "DSW_ANNOUNCED" || event.type === "DSW_PARDONED" || event.type === "DSW_BURIED") {
+            playTts(event.line);
+        }
+    }), []);
 
-        broadcastManager.on("siteCommandReceived", handleCommand);
-        return () => broadcastManager.off("siteCommandReceived", handleCommand);
-    }, [broadcastManager]);
+    // ...and every veto
+    useEffect(() => onVeto((notice) => playTts(notice.line)), []);
 
     const playTts = (text: string, _voice?: string) => {
         // Basic browser TTS for now, could be upgraded to ElevenLabs API call
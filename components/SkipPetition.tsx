@@ -0,0 +1,101 @@
+/**
+ * @file SkipPetition Component - Lets a listener sign the petition to skip the song on air.
+ * Enough of the room signs and the song is vetoed: cut short, and docked stars (see services/skipPetition.ts).
+ */
+
+import React, { useContext, useEffect, useState } from "react";
+import { RadioContext } from "../contexts/AudioPlayerContext";
+import { hasSignedSkip, onSkipPetition, signSkip, skipTokensLeft, type SkipPetitionState } from "../services/skipPetition";
+import { entitlementsFor } from "../services/entitlements";
+import { STATION_RULES, starsPhrase } from "../services/stationRules";
+
+export const SkipPetition: React.FC = () => {
+    const context = useContext(RadioContext);
+    const songId = context?.nowPlaying?.id;
+    const profile = context?.profile ?? null;
+    const userId = profile?.user_id;
+
+    const [petition, setPetition] = useState<SkipPetitionState | null>(null);
+    const [signed, setSigned] = useState(false);
+    const [tokensLeft, setTokensLeft] = useState(0);
+    const [isSending, setIsSending] = useState(false);
+
+    useEffect(() => onSkipPetition(setPetition), []);
+
+    // A petition for another song is one this client missed the end of
+    const current = petition && petition.songId === songId ? petition : null;
+    const playId = current?.playId ?? null;
+
+    useEffect(() => {
+        setSigned(false);
+        if (!playId || !userId) return;
+        let cancelled = false;
+        hasSignedSkip(playId, userId)
+            .then((mine) => !cancelled && setSigned(mine))
+            .catch((e) => console.warn("Couldn't load your skip:", e));
+        return () => {
+            cancelled = true;
+        };
+    }, [playId, userId]);
+
+    useEffect(() => {
+        if (!profile || entitlementsFor(profile).skipVetoesPerDay === 0) {
+            setTokensLeft(0);
+            return;
+        }
+        let cancelled = false;
+        skipTokensLeft(profile)
+            .then((left) => !cancelled && setTokensLeft(left))
+            .catch((e) => console.warn("Couldn't load your skip-veto tokens:", e));
+        return () => {
+            cancelled = true;
+        };
+    }, [profile, playId]);
+
+    const handleSkip = async (useToken: boolean) => {
+        if (!playId || isSending) return;
+        setIsSending(true);
+        try {
+            await signSkip(playId, useToken);
+            setSigned(true);
+            if (useToken) setTokensLeft((left) => Math.max(0, left - 1));
+        } catch (e: any) {
+            console.warn(e.message);
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    if (!songId) return null;
+
+    const penalty = starsPhrase(STATION_RULES.vetoStarPenalty);
+    const hasTokens = !!profile && entitlementsFor(profile).skipVetoesPerDay > 0;
+
+    return (
+        <div className="flex items-center gap-2 flex-wrap">
+            <button
+                onClick={() => handleSkip(false)}
+                disabled={!playId || !userId || signed || isSending}
+                title={`Once ${STATION_RULES.vetoPercent}% of the listeners tuned in skip, the song is cut and loses ${penalty}`}
+                className="px-2 py-1 rounded-md border border-red-500/30 text-red-400 text-[9px] font-black uppercase tracking-widest transition-all hover:bg-red-500 hover:text-black disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-red-400"
+            >
+                {signed ? "Skipped" : "Skip ⏭"}
+            </button>
+            {hasTokens && (
+                <button
+                    onClick={() => handleSkip(true)}
+                    disabled={!playId || tokensLeft === 0 || isSending}
+                    title={tokensLeft > 0
+                        ? `Premium: veto this song on your own (${tokensLeft} left today)`
+                        : "Your skip-veto token is spent. A new one comes 24 hours after the last"}
+                    className="px-2 py-1 rounded-md border border-yellow-500/40 text-yellow-400 text-[9px] font-black uppercase tracking-widest transition-all hover:bg-yellow-500 hover:text-black disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-yellow-400"
+                >
+                    Veto ✦ {tokensLeft}
+                </button>
+            )}
+            <span className="text-[7px] font-black uppercase text-zinc-500 tracking-widest">
+                {current ? `${current.signatures}/${current.needed} to veto` : "Petition opening..."}
+            </span>
+        </div>
+    );
+};
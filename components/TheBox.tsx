@@ -1,110 +1,151 @@
 /**
- * @file TheBox Component - The 2-song voting mechanism.
+ * @file TheBox Component - The N-song voting mechanism (see STATION_RULES.boxSize).
+ * Each candidate can be previewed at its hook before voting (services/boxPreview.ts).
+ * How many previews a round, and how much a vote weighs, depend on the listener's tier
+ * (services/entitlements.ts).
  */
 
 import React, { useContext, useState, useEffect } from "react";
 import { RadioContext } from "../contexts/AudioPlayerContext";
-import { supabase } from "../services/supabaseClient";
+import { songRepository } from "../services/songRepository";
+import { getUserVote, castBoxVote } from "../services/boxRoundService";
+import { onBoxRoundState, type BoxRoundState } from "../services/boxRoundChannel";
+import { getBoxPreview, onBoxPreviewChanged, playPreview, stopPreview, type BoxPreview } from "../services/boxPreview";
+import { serverNow } from "../services/clockSync";
+import { entitlementsFor, previewsLeft } from "../services/entitlements";
+import { STATION_RULES } from "../services/stationRules";
 import type { Song } from "../types";
 
+const RESULTS_HOLD_MS = 8000; // how long a round's result stays up before the next round shows
+const RING_RADIUS = 6;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+/** "1:05" */
+const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
 export const TheBox: React.FC = () => {
   const context = useContext(RadioContext);
   if (!context) return null;
 
-  const { radioState, nowPlaying } = context;
+  const { nowPlaying, profile } = context;
+  const [roundState, setRoundState] = useState<BoxRoundState | null>(null);
   const [candidates, setCandidates] = useState<Song[]>([]);
   const [votedId, setVotedId] = useState<string | null>(null);
+  const [now, setNow] = useState(serverNow());
+  const [preview, setPreview] = useState<BoxPreview | null>(getBoxPreview());
+  const [previewsPlayed, setPreviewsPlayed] = useState(0); // this round
 
+  const round = roundState?.round ?? null;
+  const tallies = roundState?.tallies ?? {};
+  const deadline = roundState?.deadline ?? null;
+  const showingResults = round?.status === 'closed';
+  const remainingMs = deadline !== null ? Math.max(0, deadline - now) : null;
+  const locked = !round || round.status !== 'open' || remainingMs === 0;
+  const totalVotes = Object.values(tallies).reduce((sum, tally) => sum + tally.votes, 0);
+  const { voteWeight } = entitlementsFor(profile);
+  const previewsRemaining = previewsLeft(profile, previewsPlayed);
+
+  // The round, pushed by the leader. A closed round's result stays up for a while before the next round shows
   useEffect(() => {
-    // Fetch 'in_box' songs from DB
-    const fetchBox = async () => {
-      const { data } = await supabase
-        .from("songs")
-        .select("*")
-        .eq("status", "in_box")
-        .limit(2);
-
-      if (data) {
-        // Map snake_case to camelCase
-        setCandidates(data.map((raw: any) => ({
-          id: raw.id,
-          title: raw.title,
-          artistName: raw.artist_name,
-          audioUrl: raw.audio_url,
-          coverArtUrl: raw.cover_art_url,
-          is_canvas: raw.is_canvas,
-          upvotes: raw.upvotes || 0,
-          status: raw.status,
-          uploaderId: raw.uploader_id,
-          source: raw.source,
-          durationSec: raw.duration_sec,
-          stars: raw.stars,
-          liveStarsSum: raw.live_stars_sum,
-          liveStarsCount: raw.live_stars_count,
-          isDsw: raw.is_dsw,
-          boxRoundsSeen: raw.box_rounds_seen,
-          boxRoundsLost: raw.box_rounds_lost,
-          boxAppearanceCount: raw.box_appearance_count,
-          playCount: raw.play_count,
-          downvotes: raw.downvotes,
-          lastPlayedAt: raw.last_played_at,
-          createdAt: raw.created_at
-        })));
+    let holdUntil = 0;
+    let held: { state: BoxRoundState | null } | null = null;
+    let holdTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const stopListening = onBoxRoundState((state) => {
+      if (state?.round.status === 'void') return; // replaced by a refill, nothing to show
+      if (state?.round.status === 'closed') {
+        if (!state.round.winnerId) return;
+        holdUntil = Date.now() + RESULTS_HOLD_MS;
+        setRoundState(state);
+        if (holdTimer) clearTimeout(holdTimer);
+        holdTimer = setTimeout(() => {
+          holdTimer = null;
+          if (held) setRoundState(held.state);
+          held = null;
+        }, RESULTS_HOLD_MS);
+        return;
       }
+      if (Date.now() < holdUntil) held = { state };
+      else setRoundState(state);
+    });
+
+    return () => {
+      stopListening();
+      if (holdTimer) clearTimeout(holdTimer);
     };
+  }, []);
 
-    fetchBox();
+  // Candidates in round order, and this listener's vote, once per round
+  useEffect(() => {
+    if (!round) {
+      setCandidates([]);
+      setVotedId(null);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const songs = await songRepository.list({ id: round.candidateIds }).catch(() => []);
+      const vote = profile?.user_id ? await getUserVote(round.id, profile.user_id) : null;
+      if (cancelled) return;
+      setCandidates(round.candidateIds.flatMap((id) => songs.filter((song) => song.id === id)));
+      setVotedId(vote);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [round?.id, profile?.user_id]);
 
-    // Resilient fallback: Check every 5s if we are missing slots
-    const interval = setInterval(() => {
-      fetchBox();
-    }, 5000);
+  useEffect(() => setPreviewsPlayed(0), [round?.id]);
 
-    // Subscribe to changes in the box
-    const channel = supabase.channel('box-updates')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'songs' }, (payload) => {
-        const newSong = payload.new as any;
-        const oldSong = payload.old as any;
-        if (newSong?.status === 'in_box' || oldSong?.status === 'in_box') {
-          fetchBox();
-        }
-      })
-      .subscribe();
+  // The countdown
+  useEffect(() => {
+    if (deadline === null) return;
+    setNow(serverNow());
+    const timer = setInterval(() => setNow(serverNow()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
 
+  useEffect(() => {
+    const stopListening = onBoxPreviewChanged(setPreview);
     return () => {
-      supabase.removeChannel(channel);
-      clearInterval(interval);
+      stopListening();
+      stopPreview();
     };
-  }, [radioState]);
+  }, []);
 
-  // 1. Generate a unique key for this pair of songs to prevent re-voting in the same round
-  const roundKey = candidates.length === 2
-    ? `voted_round_${[...candidates].map(c => c.id).sort().join('_')}`
-    : null;
-
-  // 2. Restore votedId from localStorage on mount or when candidates change
+  // A candidate that leaves The Box takes its preview with it
   useEffect(() => {
-    if (roundKey) {
-      const persistedVote = localStorage.getItem(roundKey);
-      setVotedId(persistedVote);
-    } else {
-      setVotedId(null);
-    }
-  }, [roundKey]);
+    if (preview && (showingResults || !candidates.some((song) => song.id === preview.songId))) stopPreview();
+  }, [candidates, preview, showingResults]);
 
   const handleVote = async (songId: string) => {
-    if (votedId || !roundKey) return;
+    if (votedId || !round || locked) return;
 
-    // 3. Persist the vote locally
+    // Optimistic: the ledger only accepts one vote per listener per round
     setVotedId(songId);
-    localStorage.setItem(roundKey, songId);
+    try {
+      const recorded = await castBoxVote(round.id, songId);
+      if (!recorded && profile?.user_id) {
+        // Already voted this round (another tab/device): show the vote on record
+        setVotedId(await getUserVote(round.id, profile.user_id));
+      }
+    } catch (e) {
+      console.warn("Box vote failed:", e);
+      setVotedId(null);
+    }
+  };
 
-    // Optimistic / Real update
-    const { data: song } = await supabase.from("songs").select("upvotes").eq("id", songId).single();
-    if (song) {
-      // Add 10 votes for punchy weight
-      await supabase.from("songs").update({ upvotes: (song.upvotes || 0) + 10 }).eq("id", songId);
+  const togglePreview = (song: Song) => {
+    if (preview?.songId === song.id) {
+      stopPreview();
+      return;
     }
+    if (previewsRemaining === 0) return;
+    setPreviewsPlayed((played) => played + 1);
+    playPreview(song);
   };
 
   return (
@@ -117,13 +158,41 @@ export const TheBox: React.FC = () => {
             The <span className="text-purple-400">Box</span>
           </h2>
         </div>
-        <div className="flex items-center gap-2">
-          <div className="w-2 h-2 rounded-full bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.6)] animate-pulse" />
-          <span className="text-[8px] font-black text-zinc-400 uppercase tracking-widest">Live Vote</span>
-        </div>
+        {showingResults ? (
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-amber-400 shadow-[0_0_8px_rgba(251,191,36,0.6)]" />
+            <span className="text-[8px] font-black text-amber-300 uppercase tracking-widest">Results</span>
+          </div>
+        ) : locked && round ? (
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-zinc-500" />
+            <span className="text-[8px] font-black text-zinc-500 uppercase tracking-widest">Voting Closed</span>
+          </div>
+        ) : remainingMs !== null && round ? (
+          <div className="flex items-center gap-1.5" title="Voting closes when the song on air ends">
+            {/* Time-remaining ring: the share of the round still to go */}
+            <svg className="w-4 h-4 -rotate-90" viewBox="0 0 16 16">
+              <circle cx="8" cy="8" r={RING_RADIUS} fill="none" strokeWidth="2" className="stroke-white/10" />
+              <circle
+                cx="8" cy="8" r={RING_RADIUS} fill="none" strokeWidth="2" strokeLinecap="round"
+                className={`transition-all duration-1000 ease-linear ${remainingMs < 15000 ? 'stroke-red-500' : 'stroke-purple-400'}`}
+                strokeDasharray={RING_LENGTH}
+                strokeDashoffset={RING_LENGTH * (1 - Math.min(1, remainingMs / Math.max(1, deadline! - Date.parse(round.startedAt))))}
+              />
+            </svg>
+            <span className={`text-[8px] font-black uppercase tracking-widest tabular-nums ${remainingMs < 15000 ? 'text-red-400' : 'text-zinc-400'}`}>
+              {formatRemaining(remainingMs)}
+            </span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2" title={round ? 'Stays open through the next play' : undefined}>
+            <div className="w-2 h-2 rounded-full bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.6)] animate-pulse" />
+            <span className="text-[8px] font-black text-zinc-400 uppercase tracking-widest">Live Vote</span>
+          </div>
+        )}
       </div>
 
-      <div className="grid grid-cols-3 gap-2">
+      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${STATION_RULES.boxSize + 1}, minmax(0, 1fr))` }}>
         {/* On Air / Now Playing Info Box */}
         <div className="group relative flex flex-col p-1.5 rounded-xl border border-green-500/20 bg-green-500/5 transition-all duration-700 overflow-hidden">
           <div className="relative h-16 rounded-lg overflow-hidden mb-1.5 border border-white/5">
@@ -163,8 +232,13 @@ export const TheBox: React.FC = () => {
         </div>
 
         {/* Voting Candidates */}
-        {[0, 1].map((idx) => {
+        {Array.from({ length: STATION_RULES.boxSize }, (_, idx) => idx).map((idx) => {
           const song = candidates[idx];
+          const tally = song ? tallies[song.id] : undefined;
+          const previewing = song && preview?.songId === song.id ? preview : null;
+          const isWinner = !!song && showingResults && round?.winnerId === song.id;
+          const dimmed = showingResults ? !isWinner : !!votedId && votedId !== song?.id;
+          const share = totalVotes ? Math.round(((tally?.votes ?? 0) / totalVotes) * 100) : 0;
           if (!song) return (
             <div key={`empty-${idx}`} className="h-full min-h-[5rem] bg-zinc-900/40 border border-white/[0.03] rounded-xl flex items-center justify-center">
               <span className="text-[8px] font-black uppercase tracking-[0.3em] text-zinc-700 animate-pulse">Syncing...</span>
@@ -172,62 +246,128 @@ export const TheBox: React.FC = () => {
           );
 
           return (
-            <button
-              key={song.id}
-              onClick={() => handleVote(song.id)}
-              disabled={!!votedId}
-              className={`group relative flex flex-col p-1.5 rounded-xl border transition-all duration-500 overflow-hidden ${votedId === song.id
-                ? 'border-purple-600 bg-purple-600/10'
-                : 'border-white/[0.06] bg-zinc-950/60 hover:bg-zinc-900 hover:border-white/20'
-                }`}
-            >
-              {/* Compact Thumbnail */}
-              <div className="relative h-16 rounded-lg overflow-hidden mb-1.5 border border-white/5">
-                {song.is_canvas && song.coverArtUrl ? (
-                  <video
-                    src={song.coverArtUrl}
-                    className={`w-full h-full object-cover transition-all duration-700 pointer-events-none ${votedId && votedId !== song.id ? 'opacity-20 grayscale' : 'group-hover:scale-105'}`}
-                    autoPlay loop muted playsInline
-                  />
-                ) : (
-                  <img
-                    src={song.coverArtUrl || `https://picsum.photos/seed/${song.id}/100`}
-                    className={`w-full h-full object-cover transition-all duration-700 ${votedId && votedId !== song.id ? 'opacity-20 grayscale' : 'group-hover:scale-105'}`}
-                    alt={song.title}
-                  />
-                )}
+            <div key={song.id} className="relative">
+              <button
+                onClick={() => handleVote(song.id)}
+                disabled={!!votedId || locked}
+                title={voteWeight > 1 && !votedId && !locked ? `Premium: your vote counts ${voteWeight}x` : undefined}
+                className={`group relative flex flex-col w-full h-full p-1.5 rounded-xl border transition-all duration-500 overflow-hidden ${isWinner
+                  ? 'border-amber-400 bg-amber-400/10 shadow-[0_0_12px_rgba(251,191,36,0.25)]'
+                  : votedId === song.id && !showingResults
+                    ? 'border-purple-600 bg-purple-600/10'
+                    : locked
+                      ? 'border-white/[0.04] bg-zinc-950/60'
+                      : 'border-white/[0.06] bg-zinc-950/60 hover:bg-zinc-900 hover:border-white/20'
+                  }`}
+              >
+                {/* Compact Thumbnail */}
+                <div className="relative h-16 rounded-lg overflow-hidden mb-1.5 border border-white/5">
+                  {song.is_canvas && song.coverArtUrl ? (
+                    <video
+                      src={song.coverArtUrl}
+                      className={`w-full h-full object-cover transition-all duration-700 pointer-events-none ${dimmed ? 'opacity-20 grayscale' : 'group-hover:scale-105'}`}
+                      autoPlay loop muted playsInline
+                    />
+                  ) : (
+                    <img
+                      src={song.coverArtUrl || `https://picsum.photos/seed/${song.id}/100`}
+                      className={`w-full h-full object-cover transition-all duration-700 ${dimmed ? 'opacity-20 grayscale' : 'group-hover:scale-105'}`}
+                      alt={song.title}
+                    />
+                  )}
+
+                  {song.isDsw && (
+                    <div className="absolute top-0 left-0 px-1.5 py-0.5 rounded-br-lg bg-red-500 text-[6px] font-black text-white tracking-widest uppercase z-10 shadow-lg shadow-red-500/50 animate-pulse">
+                      Dead Song Walking
+                    </div>
+                  )}
+
+                  {/* Preview Progress */}
+                  {previewing && (
+                    <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-black/60">
+                      <div
+                        className="h-full bg-purple-400"
+                        style={{
+                          width: previewing.startedAt ? '100%' : '0%',
+                          transition: previewing.startedAt ? `width ${previewing.durationSec}s linear` : 'none',
+                        }}
+                      />
+                    </div>
+                  )}
 
-                {song.isDsw && (
-                  <div className="absolute top-0 left-0 px-1.5 py-0.5 rounded-br-lg bg-red-500 text-[6px] font-black text-white tracking-widest uppercase z-10 shadow-lg shadow-red-500/50 animate-pulse">
-                    Dead Song Walking
+                  {/* Minimal Vote Badge */}
+                  <div className={`absolute top-1 right-1 px-1.5 py-0.5 rounded-full flex items-center justify-center backdrop-blur-md border transition-all ${isWinner
+                    ? 'bg-amber-400/90 border-amber-300'
+                    : votedId === song.id
+                      ? 'bg-purple-600/80 border-purple-400'
+                      : 'bg-black/60 border-white/10 group-hover:bg-purple-900/40 group-hover:border-purple-500/30'
+                    }`}>
+                    <span className={`text-[7px] font-black tracking-wider ${isWinner ? 'text-black' : votedId === song.id ? 'text-white' : 'text-zinc-300 group-hover:text-purple-300'}`}>
+                      {isWinner ? 'WINNER' : votedId === song.id ? 'VOTED' : locked ? 'CLOSED' : voteWeight > 1 ? `VOTE x${voteWeight}` : 'VOTE'}
+                    </span>
                   </div>
-                )}
+                </div>
 
-                {/* Minimal Vote Badge */}
-                <div className={`absolute top-1 right-1 px-1.5 py-0.5 rounded-full flex items-center justify-center backdrop-blur-md border transition-all ${votedId === song.id
-                  ? 'bg-purple-600/80 border-purple-400'
-                  : 'bg-black/60 border-white/10 group-hover:bg-purple-900/40 group-hover:border-purple-500/30'
-                  }`}>
-                  <span className={`text-[7px] font-black tracking-wider ${votedId === song.id ? 'text-white' : 'text-zinc-300 group-hover:text-purple-300'}`}>
-                    {votedId === song.id ? 'VOTED' : 'VOTE'}
-                  </span>
+                {/* Minimal Text Info */}
+                <div className="w-full text-left px-1">
+                  <h4 className={`text-[10px] font-black leading-tight truncate uppercase tracking-tight transition-colors ${isWinner ? 'text-amber-300' : votedId === song.id ? 'text-purple-300' : 'text-white'}`}>
+                    {song.title}
+                  </h4>
+                  <p className="text-zinc-500 text-[8px] font-bold truncate uppercase tracking-tighter group-hover:text-zinc-400 transition-colors">
+                    {song.artistName}
+                  </p>
+                  {tally && (
+                    <p className="flex gap-1.5 mt-0.5 text-[7px] font-black uppercase tracking-wider">
+                      <span className="text-purple-300" title="Each vote scores its weight: a premium listener's counts double.">
+                        {tally.humanVotes} {tally.humanVotes === 1 ? 'pt' : 'pts'}
+                      </span>
+                      {tally.simulatedVotes > 0 && (
+                        <span className="text-zinc-600" title="Virtual listeners. They only decide a round nobody real votes in.">
+                          +{tally.simulatedVotes} crowd
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  {/* Live Share: of the votes that decide the round */}
+                  {round && (
+                    <div className="flex items-center gap-1.5 mt-1">
+                      <div className="flex-1 h-1 rounded-full bg-white/5 overflow-hidden">
+                        <div
+                          className={`h-full rounded-full transition-all duration-700 ${isWinner ? 'bg-amber-400' : 'bg-purple-500'}`}
+                          style={{ width: `${share}%` }}
+                        />
+                      </div>
+                      <span className="text-[7px] font-black text-zinc-400 tabular-nums">{share}%</span>
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              {/* Minimal Text Info */}
-              <div className="w-full text-left px-1">
-                <h4 className={`text-[10px] font-black leading-tight truncate uppercase tracking-tight transition-colors ${votedId === song.id ? 'text-purple-300' : 'text-white'}`}>
-                  {song.title}
-                </h4>
-                <p className="text-zinc-500 text-[8px] font-bold truncate uppercase tracking-tighter group-hover:text-zinc-400 transition-colors">
-                  {song.artistName}
-                </p>
-              </div>
+                {votedId === song.id && (
+                  <div className="absolute inset-0 bg-purple-500/5 pointer-events-none" />
+                )}
+              </button>
 
-              {votedId === song.id && (
-                <div className="absolute inset-0 bg-purple-500/5 pointer-events-none" />
+              {/* Preview: a sibling of the vote button, so listening isn't voting */}
+              {!showingResults && (
+                <button
+                  onClick={() => togglePreview(song)}
+                  disabled={!previewing && previewsRemaining === 0}
+                  title={previewing
+                    ? 'Stop preview'
+                    : previewsRemaining === 0
+                      ? 'Out of previews this round. Premium listeners preview as often as they like.'
+                      : `Preview ${STATION_RULES.previewSec}s${Number.isFinite(previewsRemaining) ? ` (${previewsRemaining} left this round)` : ''}`}
+                  className={`absolute top-[3.1rem] left-2.5 w-5 h-5 rounded-full flex items-center justify-center backdrop-blur-md border transition-all ${previewing
+                    ? 'bg-purple-600/80 border-purple-400 text-white'
+                    : previewsRemaining === 0
+                      ? 'bg-black/60 border-white/5 text-zinc-600 cursor-not-allowed'
+                      : 'bg-black/60 border-white/10 text-zinc-300 hover:bg-purple-900/60 hover:border-purple-500/30'
+                    }`}
+                >
+                  <span className={`text-[7px] ${previewing && !previewing.startedAt ? 'animate-pulse' : ''}`}>{previewing ? '■' : '▶'}</span>
+                </button>
               )}
-            </button>
+            </div>
           );
         })}
       </div>
@@ -4,7 +4,10 @@
 
 import React, { useContext, useState, useEffect, useRef } from "react";
 import { RadioContext } from "../contexts/AudioPlayerContext";
-import { supabase } from "../services/supabaseClient";
+import { onChatMessage, sendChatMessage } from "../services/clubChat";
+import { onDswEvent } from "../services/dswLifecycle";
+import { onVeto } from "../services/skipPetition";
+import { entitlementsFor } from "../services/entitlements";
 import type { ChatMessage, Profile } from "../types";
 
 interface TheChatProps {
@@ -25,15 +28,29 @@ export const TheChat: React.FC<TheChatProps> = ({ profile }) => {
         }
     }, [chatMessages]);
 
-    useEffect(() => {
-        const channel = supabase.channel('club-chat')
-            .on('broadcast', { event: 'new_message' }, ({ payload }) => {
-                addChatMessage(payload);
-            })
-            .subscribe();
+    // Everyone's messages, ours and the DJ's included
+    useEffect(() => onChatMessage(addChatMessage), [addChatMessage]);
+
+    // Dead Song Walking milestones, straight from the lifecycle (no chat round-trip)
+    useEffect(() => onDswEvent((event) => {
+        if (event.type === "DSW_MARKED" || event.type === "DSW_FAREWELL_SCHEDULED") return;
+        addChatMessage({
+            id: `dsw-${event.type}-${event.song.id}`,
+            user: { name: "THE ARCHITECT", isAdmin: true },
+            text: event.line,
+            timestamp: Date.now()
+        });
+    }), [addChatMessage]);
 
-        return () => { supabase.removeChannel(channel); };
-    }, [addChatMessage]);
+    // Vetoes, straight from the skip petition
+    useEffect(() => onVeto((notice) => {
+        addChatMessage({
+            id: `veto-${notice.playId}`,
+            user: { name: "THE ARCHITECT", isAdmin: true },
+            text: notice.line,
+            timestamp: Date.now()
+        });
+    }), [addChatMessage]);
 
     const handleSend = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -45,25 +62,20 @@ export const TheChat: React.FC<TheChatProps> = ({ profile }) => {
             id: Date.now().toString(),
             user: {
                 name: profile.name || "Anonymous",
-                isAdmin: profile.is_admin
+                isAdmin: profile.is_admin,
+                badge: entitlementsFor(profile).chatBadge ?? undefined
             },
             text: input,
             timestamp: Date.now()
         };
 
-        await supabase.channel('club-chat').send({
-            type: 'broadcast',
-            event: 'new_message',
-            payload: message
-        });
-
-        addChatMessage(message);
+        await sendChatMessage(message);
         setInput("");
     };
 
     // System Alert for Empty Pool
     useEffect(() => {
-        if (profile.is_admin && context.radioState === 'POOL' && context.chatMessages.length > 0) {
+        if (profile.is_admin && context.radioState === 'IDLE' && context.chatMessages.length > 0) {
             const hasAlert = context.chatMessages.some(m => m.text.includes("RADIO POOL DEPLETED"));
             if (!hasAlert) {
                 addChatMessage({
@@ -93,6 +105,11 @@ export const TheChat: React.FC<TheChatProps> = ({ profile }) => {
                                     <span className={`text-[8px] font-black uppercase tracking-widest ${msg.user.isAdmin ? 'text-purple-400' : 'text-zinc-600'}`}>
                                         {msg.user.name}
                                     </span>
+                                    {msg.user.badge === 'premium' && (
+                                        <span className="text-[7px] font-black uppercase tracking-widest text-amber-300" title="Premium listener">
+                                            ✦ Premium
+                                        </span>
+                                    )}
                                 </div>
                                 <div className={`text-[10px] font-medium leading-[1.3] ${isMention
                                     ? 'text-purple-300 border-l border-purple-500/30 pl-2 bg-purple-500/5 py-0.5'
@@ -2,22 +2,18 @@
  * @file TuneInOverlay - A full-screen overlay to handle browser autoplay restrictions.
  */
 
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import { getBroadcastManager } from "../services/globalBroadcastManager";
+import { useBroadcastEvent } from "../hooks/useBroadcastEvent";
 
 export const TuneInOverlay: React.FC = () => {
     const [isVisible, setIsVisible] = useState(false);
     const broadcastManager = getBroadcastManager();
 
-    useEffect(() => {
-        const handleBlocked = () => {
-            console.log("🚫 TuneInOverlay: Autoplay blocked event received.");
-            setIsVisible(true);
-        };
-
-        broadcastManager.on("autoplayBlocked", handleBlocked);
-        return () => broadcastManager.off("autoplayBlocked", handleBlocked);
-    }, [broadcastManager]);
+    useBroadcastEvent("autoplayBlocked", () => {
+        console.log("🚫 TuneInOverlay: Autoplay blocked event received.");
+        setIsVisible(true);
+    });
 
     const handleTuneIn = async () => {
         console.log("🔊 Tuning in...");
@@ -65,8 +65,9 @@ const VolumeOffIcon = () => (
 );
 
 export const VolumeControl: React.FC = () => {
-  const { volume, setVolume, isGloballyMuted, setIsGloballyMuted } =
-    useContext(RadioContext);
+  const radio = useContext(RadioContext);
+  if (!radio) return null;
+  const { volume, setVolume, isMuted: isGloballyMuted, setMuted: setIsGloballyMuted } = radio;
 
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newVolume = parseFloat(e.target.value);
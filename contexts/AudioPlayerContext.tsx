@@ -11,6 +11,9 @@ import React, {
   useCallback,
 } from "react";
 import { getBroadcastManager } from "../services/globalBroadcastManager";
+import { onDswEvent } from "../services/dswLifecycle";
+import { onVeto } from "../services/skipPetition";
+import { useBroadcastEvent } from "../hooks/useBroadcastEvent";
 import type {
   Song,
   RadioState,
@@ -63,7 +66,7 @@ export const RadioProvider: React.FC<{
 
   const [nowPlaying, setNowPlayingState] = useState<Song | null>(null);
   const [nextSong, setNextSongState] = useState<Song | null>(null);
-  const [radioState, setRadioStateLocal] = useState<RadioState>("POOL");
+  const [radioState, setRadioStateLocal] = useState<RadioState>("IDLE");
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLeader, setIsLeader] = useState(broadcastManager.isLeader);
   const [currentTime, setCurrentTime] = useState(0);
@@ -104,21 +107,24 @@ export const RadioProvider: React.FC<{
     broadcastManager.setNextSong(song);
   }, [broadcastManager]);
 
+  useBroadcastEvent("nowPlayingChanged", setNowPlayingState);
+  useBroadcastEvent("nextSongChanged", setNextSongState);
+  useBroadcastEvent("radioStateChanged", setRadioStateLocal);
+  useBroadcastEvent("playbackStateChanged", setIsPlaying);
+  useBroadcastEvent("leaderChanged", setIsLeader);
+  useBroadcastEvent("timeUpdate", setCurrentTime);
+  useBroadcastEvent("volumeChanged", setVolumeState);
+  useBroadcastEvent("mutedChanged", setIsMutedState);
+  useBroadcastEvent("leaderIdChanged", setLeaderId);
+  useBroadcastEvent("siteCommandReceived", (cmd) => {
+    if (cmd.type === "ticker") {
+      setTickerText(cmd.payload.text);
+    }
+  });
+
   useEffect(() => {
-    broadcastManager.on("nowPlayingChanged", setNowPlayingState);
-    broadcastManager.on("nextSongChanged", setNextSongState);
-    broadcastManager.on("radioStateChanged", setRadioStateLocal);
-    broadcastManager.on("playbackStateChanged", setIsPlaying);
-    broadcastManager.on("leaderChanged", setIsLeader);
-    broadcastManager.on("timeUpdate", setCurrentTime);
-    broadcastManager.on("volumeChanged", setVolumeState);
-    broadcastManager.on("mutedChanged", setIsMutedState);
-    broadcastManager.on("leaderIdChanged", setLeaderId);
-    broadcastManager.on("siteCommandReceived", (cmd: any) => {
-      if (cmd?.type === "ticker") {
-        setTickerText(cmd.payload?.text || "");
-      }
-    });
+    const disposeDsw = onDswEvent((event) => setTickerText(event.line));
+    const disposeVeto = onVeto((notice) => setTickerText(notice.line));
 
     // Initial Sync
     setNowPlayingState(broadcastManager.getNowPlaying());
@@ -128,15 +134,8 @@ export const RadioProvider: React.FC<{
     setIsLeader(broadcastManager.isLeader);
 
     return () => {
-      broadcastManager.off("nowPlayingChanged", setNowPlayingState);
-      broadcastManager.off("nextSongChanged", setNextSongState);
-      broadcastManager.off("radioStateChanged", setRadioStateLocal);
-      broadcastManager.off("playbackStateChanged", setIsPlaying);
-      broadcastManager.off("leaderChanged", setIsLeader);
-      broadcastManager.off("timeUpdate", setCurrentTime);
-      broadcastManager.off("volumeChanged", setVolumeState);
-      broadcastManager.off("mutedChanged", setIsMutedState);
-      broadcastManager.off("leaderIdChanged", setLeaderId);
+      disposeDsw();
+      disposeVeto();
     };
   }, [broadcastManager]);
 
@@ -173,7 +172,7 @@ export const RadioProvider: React.FC<{
     setNowPlaying,
     setNextSong,
     leaderId,
-    claimLeadership: () => broadcastManager.claimLeadership(),
+    claimLeadership: () => broadcastManager.claimLeadership(!!profile?.is_admin), // "Take Deck": an admin overthrows the current lease
     releaseLeadership: () => broadcastManager.releaseLeadership(),
   }), [
     nowPlaying, nextSong, radioState, isLeader, isPlaying,
@@ -5,14 +5,12 @@
  */
 
 import React, { createContext, useState, useEffect, useMemo } from "react";
-import type { Settings, ThemeName } from "../types";
+import type { Settings } from "../types";
 
 // Default settings for a new user.
 const defaultSettings: Settings = {
   theme: "dark",
   customCardBackground: null,
-  defaultAspectRatio: "16:9",
-  defaultStyleKeywords: "cinematic, 4k, high detail",
 };
 
 interface ThemeContextType {
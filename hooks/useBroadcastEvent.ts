@@ -0,0 +1,25 @@
+/**
+ * @file useBroadcastEvent - Subscribes a component to a GlobalBroadcastManager event.
+ */
+
+import { useEffect, useRef } from "react";
+import { getBroadcastManager, type BroadcastEvents } from "../services/globalBroadcastManager";
+import type { Listener } from "../services/eventBus";
+
+/**
+ * Calls `listener` on every `event` while the component is mounted.
+ * The latest listener is always the one called, so it can close over fresh state
+ * without resubscribing on every render.
+ */
+export const useBroadcastEvent = <K extends keyof BroadcastEvents>(
+  event: K,
+  listener: Listener<BroadcastEvents[K]>,
+) => {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(
+    () => getBroadcastManager().on(event, (payload) => listenerRef.current(payload)),
+    [event],
+  );
+};
@@ -0,0 +1,106 @@
+/// <reference types="node" />
+/**
+ * Measures every song that has no replay_gain or hook_offset_sec yet and stores both
+ * (see services/loudness.ts, supabase/migrations/022_replay_gain.sql and 025_hook_offset.sql).
+ * New uploads are measured in the browser; this catches up the existing library.
+ *
+ * Decoding is done by ffmpeg (must be on the PATH); the measuring is the same code the
+ * browser runs. Flags:
+ *   --dry-run   measure and print, write nothing
+ *   --all       re-measure songs that already have both
+ *
+ * Run with:
+ *   SUPABASE_URL=<project url> SUPABASE_SERVICE_ROLE_KEY=<service role key> npx tsx scripts/backfill_replay_gain.ts
+ */
+
+import { spawn } from "node:child_process";
+import { supabase } from "../services/supabaseClient";
+import { createLoudnessMeter, replayGainFor, type LoudnessResult } from "../services/loudness";
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+const PAGE_SIZE = 100;
+
+const dryRun = process.argv.includes("--dry-run");
+const all = process.argv.includes("--all");
+
+/** Streams the file through ffmpeg as 48 kHz stereo float PCM into the meter. */
+const measure = (url: string): Promise<LoudnessResult> =>
+  new Promise((resolve, reject) => {
+    const meter = createLoudnessMeter(SAMPLE_RATE, CHANNELS);
+    const ffmpeg = spawn("ffmpeg", ["-v", "error", "-i", url, "-f", "f32le", "-ac", String(CHANNELS), "-ar", String(SAMPLE_RATE), "pipe:1"]);
+    let leftover = Buffer.alloc(0);
+    let errors = "";
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => {
+      const data = Buffer.concat([leftover, chunk]);
+      const frameBytes = 4 * CHANNELS;
+      const usable = data.length - (data.length % frameBytes);
+      leftover = data.subarray(usable);
+
+      // Deinterleave into one Float32Array per channel
+      const frames = usable / frameBytes;
+      const channels = Array.from({ length: CHANNELS }, () => new Float32Array(frames));
+      for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < CHANNELS; c++) channels[c][i] = data.readFloatLE((i * CHANNELS + c) * 4);
+      }
+      meter.push(channels);
+    });
+    ffmpeg.stderr.on("data", (chunk: Buffer) => (errors += chunk.toString()));
+    ffmpeg.on("error", reject); // ffmpeg missing
+    ffmpeg.on("close", (code) => (code === 0 ? resolve(meter.result()) : reject(new Error(errors.trim() || `ffmpeg exited with ${code}`))));
+  });
+
+async function backfill() {
+  console.log(`🔊 Replay gain backfill${dryRun ? " (dry run)" : ""}${all ? ", re-measuring everything" : ""}...\n`);
+
+  let measured = 0;
+  let failed = 0;
+  let from = 0;
+
+  for (;;) {
+    let query = supabase
+      .from("songs")
+      .select("id, title, artist_name, audio_url, replay_gain, hook_offset_sec")
+      .not("audio_url", "is", null)
+      .order("created_at", { ascending: true });
+    if (!all) query = query.or("replay_gain.is.null,hook_offset_sec.is.null");
+    const { data: songs, error } = await query.range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("❌ Error fetching songs:", error.message);
+      process.exit(1);
+    }
+    if (!songs || songs.length === 0) break;
+
+    for (const song of songs) {
+      try {
+        const loudness = await measure(song.audio_url);
+        const replayGain = replayGainFor(loudness);
+        console.log(`✅ ${song.title} - ${song.artist_name}: ${loudness.integratedLufs.toFixed(1)} LUFS, peak ${loudness.peakDb.toFixed(1)} dBFS -> ${replayGain >= 0 ? "+" : ""}${replayGain} dB, hook at ${loudness.hookOffsetSec}s`);
+
+        if (!dryRun) {
+          const { error: updateError } = await supabase.from("songs").update({ replay_gain: replayGain, hook_offset_sec: loudness.hookOffsetSec }).eq("id", song.id);
+          if (updateError) throw updateError;
+        }
+        measured++;
+      } catch (e: any) {
+        console.error(`❌ ${song.title}: ${e.message}`);
+        failed++;
+      }
+    }
+
+    // Written rows drop out of the "is null" filters; only the failures are still ahead of the next page
+    from = dryRun || all ? from + songs.length : failed;
+    if (songs.length < PAGE_SIZE) break;
+  }
+
+  console.log(`\n📊 ${measured} measured, ${failed} failed${dryRun ? " (nothing written)" : ""}`);
+}
+
+backfill()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("❌ Backfill failed:", err);
+    process.exit(1);
+  });
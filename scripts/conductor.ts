@@ -0,0 +1,55 @@
+/**
+ * Headless conductor: runs the station 24/7 without a browser tab.
+ *
+ * Holds the leader lease on the service role, taking it back from any browser tab that
+ * was standing in. Times each song by its durationSec instead of audio events, on its
+ * estimate of the database clock, and runs the watchdog and the vote simulation. While it runs,
+ * browser tabs are pure listeners; if it stops or dies, a tab takes over as soon as the
+ * lease runs out, and this process takes the decks back when it returns.
+ *
+ * Needs 016_leader_lease.sql applied. Run with:
+ *   SUPABASE_URL=<project url> SUPABASE_SERVICE_ROLE_KEY=<service role key> npx tsx scripts/conductor.ts
+ */
+
+import { StationConductor, HEADLESS_SESSION_PREFIX, followDurationTimeline } from "../services/stationConductor";
+import { startClockSync } from "../services/clockSync";
+
+if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+  console.error("❌ SUPABASE_SERVICE_ROLE_KEY is required: the conductor writes the station as the service role.");
+  process.exit(1);
+}
+
+async function run() {
+  const sessionId = `${HEADLESS_SESSION_PREFIX}${crypto.randomUUID()}`;
+  console.log(`🤖 Headless conductor ${sessionId} starting...`);
+
+  const conductor = new StationConductor({ sessionId, headless: true });
+  conductor.on("leaderChanged", (leading) =>
+    console.log(leading ? "🤖 Conducting the station." : "🤖 Lost the decks. Waiting to take them back..."),
+  );
+  conductor.on("nowPlayingChanged", (song) =>
+    console.log(song ? `🎵 On air: ${song.title} by ${song.artistName} (${song.durationSec}s)` : "🔇 Nothing on air."),
+  );
+
+  const stopTimeline = followDurationTimeline(conductor);
+  const stopClockSync = startClockSync({ label: () => "conductor" });
+
+  await conductor.connect();
+  conductor.startElection();
+
+  // Hand the lease back on the way out so a browser tab can step in right away
+  const shutdown = async (signal: string) => {
+    console.log(`🛑 ${signal}: releasing the decks...`);
+    stopTimeline();
+    stopClockSync();
+    await conductor.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+run().catch((err) => {
+  console.error("❌ Conductor failed:", err);
+  process.exit(1);
+});
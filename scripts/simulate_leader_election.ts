@@ -0,0 +1,227 @@
+/**
+ * Leader election under stress: several simulated StationConductor instances run the
+ * real LeaderLease against an in-memory stand-in for the lease RPCs and the fenced broadcast
+ * row (same rules as supabase/migrations/016_leader_lease.sql). The network is slow, lossy
+ * and reorders replies; tabs freeze mid-write; clocks run fast or slow; DJs force takeovers.
+ *
+ * Asserts there is never more than one effective conductor:
+ *   - accepted station writes never go back to an older fencing token
+ *   - each token belongs to exactly one session
+ *   - outside a forced takeover, at most one instance believes it leads at any moment
+ *
+ * No database needed. Run with:
+ *   npm run simulate:election
+ */
+
+import { LeaderLease, type LeaseBackend, type LeaseGrant } from "../services/leaderLease";
+
+const INSTANCES = 5;
+const DURATION_MS = 8000;
+const LEASE_MS = 400;
+const SAFETY_MS = 100;
+const ELECTION_TICK_MS = 80; // the manager polls every 2s against a 10s lease; same ratio-ish
+const CONDUCTOR_TICK_MS = 30;
+const MAX_LATENCY_MS = 60;
+const LOST_REPLY_RATE = 0.05; // applied on the server, reply never arrives
+const LOST_REQUEST_RATE = 0.03; // never reaches the server
+const FREEZE_RATE = 0.01; // per conductor tick: the tab freezes between the token check and the write
+const FORCE_RATE = 0.002; // per election tick: "Take Deck"
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const serverNow = () => performance.now();
+
+/** The broadcasts row and its lease/fencing rules, in memory. */
+class LeaseStandIn {
+  leaderSession: string | null = null;
+  leaseExpiresAt = 0;
+  fencingToken = 0;
+  accepted: { session: string; token: number; at: number }[] = [];
+  rejected = 0;
+  grants = 0;
+
+  acquire(session: string, leaseMs: number, force: boolean): LeaseGrant {
+    const now = serverNow();
+    let acquired = false;
+
+    if (this.leaderSession === session && this.leaseExpiresAt >= now) {
+      this.leaseExpiresAt = now + leaseMs;
+      acquired = true;
+    } else if (!this.leaderSession || this.leaseExpiresAt < now || force) {
+      this.leaderSession = session;
+      this.leaseExpiresAt = now + leaseMs;
+      this.fencingToken++;
+      this.grants++;
+      acquired = true;
+    }
+
+    return {
+      acquired,
+      token: acquired ? this.fencingToken : null,
+      leaderId: this.leaderSession,
+      leaderSession: this.leaderSession,
+      ttlMs: Math.max(0, this.leaseExpiresAt - now),
+    };
+  }
+
+  release(session: string, token: number) {
+    if (this.leaderSession === session && this.fencingToken === token) {
+      this.leaderSession = null;
+      this.leaseExpiresAt = 0;
+    }
+  }
+
+  /** A fenced station write (persistBroadcastState / advance_round). */
+  write(session: string, token: number | null): boolean {
+    const now = serverNow();
+    if (token === null || token !== this.fencingToken || this.leaseExpiresAt < now) {
+      this.rejected++;
+      return false;
+    }
+    this.accepted.push({ session, token, at: now });
+    return true;
+  }
+}
+
+/** Wraps a stand-in call in a lossy, laggy network. */
+const overNetwork = async <T>(call: () => T): Promise<T> => {
+  await sleep(Math.random() * MAX_LATENCY_MS);
+  if (Math.random() < LOST_REQUEST_RATE) throw new Error("request lost");
+  const result = call();
+  await sleep(Math.random() * MAX_LATENCY_MS);
+  if (Math.random() < LOST_REPLY_RATE) throw new Error("reply lost");
+  return result;
+};
+
+/** The election + conductor loops of one StationConductor, minus the Box and the database. */
+class SimulatedManager {
+  readonly lease: LeaderLease;
+  frozenUntil = 0;
+  freezeNextWrite = false;
+  private stopped = false;
+
+  constructor(readonly session: string, private readonly standIn: LeaseStandIn, private readonly onForce: () => void) {
+    // Each tab's clock runs up to 1% fast or slow
+    const skew = 1 + (Math.random() - 0.5) * 0.02;
+    const origin = performance.now();
+    const backend: LeaseBackend = {
+      acquire: (sessionId, leaseMs, force) => overNetwork(() => standIn.acquire(sessionId, leaseMs, force)),
+      release: (sessionId, token) => overNetwork(() => standIn.release(sessionId, token)),
+    };
+    this.lease = new LeaderLease(backend, session, {
+      leaseMs: LEASE_MS,
+      safetyMs: SAFETY_MS,
+      now: () => origin + (performance.now() - origin) * skew,
+    });
+  }
+
+  get frozen() {
+    return performance.now() < this.frozenUntil;
+  }
+
+  async electionLoop() {
+    while (!this.stopped) {
+      if (!this.frozen) {
+        const force = Math.random() < FORCE_RATE;
+        if (force) this.onForce();
+        await this.lease.renew(force);
+      }
+      await sleep(ELECTION_TICK_MS);
+    }
+  }
+
+  async conductorLoop() {
+    while (!this.stopped) {
+      const token = this.frozen ? null : this.lease.token;
+      if (token !== null) {
+        // The nasty case: the tab freezes after deciding it leads, then writes late
+        if (this.freezeNextWrite || Math.random() < FREEZE_RATE) {
+          this.freezeNextWrite = false;
+          const freeze = LEASE_MS + Math.random() * LEASE_MS;
+          this.frozenUntil = performance.now() + freeze;
+          await sleep(freeze);
+        }
+        try {
+          const ok = await overNetwork(() => this.standIn.write(this.session, token));
+          if (!ok) this.lease.revoke(); // what persistBroadcastState does on 'stale_fencing_token'
+        } catch {
+          // lost on the wire; the next tick tries again
+        }
+      }
+      await sleep(CONDUCTOR_TICK_MS);
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+}
+
+let failures = 0;
+const check = (ok: boolean, message: string) => {
+  console.log(`${ok ? "✅" : "❌"} ${message}`);
+  if (!ok) failures++;
+};
+
+async function run() {
+  console.warn = () => {}; // lost packets make LeaderLease warn on every failed renewal; that's the point
+  console.log(`🧪 Leader election: ${INSTANCES} instances for ${DURATION_MS / 1000}s (lease ${LEASE_MS}ms)\n`);
+
+  const standIn = new LeaseStandIn();
+  let lastForceAt = -Infinity;
+  const managers = Array.from(
+    { length: INSTANCES },
+    (_, i) => new SimulatedManager(`tab-${i + 1}`, standIn, () => (lastForceAt = performance.now())),
+  );
+
+  const loops = managers.flatMap((m) => [m.electionLoop(), m.conductorLoop()]);
+
+  // Make sure the freeze case happens at least once: halfway through, freeze whoever leads
+  setTimeout(() => {
+    const leader = managers.find((m) => m.lease.isLeader());
+    if (leader) leader.freezeNextWrite = true;
+  }, DURATION_MS / 2);
+
+  // Sample who believes they lead
+  let samples = 0;
+  let overlaps = 0;
+  let maxBelievers = 0;
+  const deadline = performance.now() + DURATION_MS;
+  while (performance.now() < deadline) {
+    const believers = managers.filter((m) => m.lease.isLeader()).length;
+    maxBelievers = Math.max(maxBelievers, believers);
+    // A forced takeover may leave the old leader believing until its next renewal; fencing covers that
+    if (believers > 1 && performance.now() - lastForceAt > LEASE_MS) overlaps++;
+    samples++;
+    await sleep(5);
+  }
+
+  managers.forEach((m) => m.stop());
+  await Promise.all(loops);
+
+  const owners = new Map<number, Set<string>>();
+  let tokenWentBack = false;
+  standIn.accepted.forEach((write, i) => {
+    if (!owners.has(write.token)) owners.set(write.token, new Set());
+    owners.get(write.token)!.add(write.session);
+    if (i > 0 && write.token < standIn.accepted[i - 1].token) tokenWentBack = true;
+  });
+
+  console.log(`📊 ${standIn.grants} grants, ${standIn.accepted.length} writes accepted, ${standIn.rejected} fenced off, ${samples} samples (max ${maxBelievers} believer(s))\n`);
+
+  check(standIn.accepted.length > 0, "The station was conducted at all");
+  check(standIn.grants > 1, "Leadership changed hands at least once");
+  check(!tokenWentBack, "Accepted writes never went back to an older fencing token");
+  check([...owners.values()].every((sessions) => sessions.size === 1), "Every fencing token belongs to exactly one session");
+  check(overlaps === 0, `Outside forced takeovers, never more than one instance believed it led (${overlaps} overlapping samples)`);
+  check(standIn.rejected > 0, "Stale leaders' writes were fenced off (the freeze case was exercised)");
+
+  console.log(failures === 0 ? "\n🎉 All checks passed" : `\n💥 ${failures} check(s) failed`);
+  if (failures > 0) process.exit(1);
+}
+
+run()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("❌ Failed:", err);
+    process.exit(1);
+  });
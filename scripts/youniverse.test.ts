@@ -0,0 +1,56 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+
+const CLI_TIMEOUT_MS = 30_000;
+
+/** Runs the CLI against a fresh in-memory station. Resolves with its exit code and output. */
+const youniverse = async (...args: string[]) => {
+  try {
+    const { stdout, stderr } = await promisify(execFile)("node_modules/.bin/tsx", ["scripts/youniverse.ts", ...args], {
+      env: { ...process.env, RADIO_BACKEND: "memory" },
+      timeout: CLI_TIMEOUT_MS,
+    });
+    return { code: 0, output: stdout + stderr };
+  } catch (error) {
+    const { code, stdout, stderr } = error as { code: number; stdout: string; stderr: string };
+    return { code, output: stdout + stderr };
+  }
+};
+
+describe("the youniverse CLI", () => {
+  it("reports the station", { timeout: CLI_TIMEOUT_MS }, async () => {
+    const { code, output } = await youniverse("status");
+
+    expect(code).toBe(0);
+    expect(output).toContain("📡 Backend: memory");
+    expect(output).toContain("👑 Leader: none");
+    expect(output).toMatch(/📊 Songs: pool 6, /);
+  });
+
+  it("says what it would change on a dry run, and changes nothing", { timeout: CLI_TIMEOUT_MS }, async () => {
+    const { code, output } = await youniverse("seed", "--dry-run");
+
+    expect(code).toBe(0);
+    expect(output.match(/📝 Would add/g)).toHaveLength(3);
+    expect(output).not.toContain("🌱 Adding");
+  });
+
+  it("finds a user by name for a two-word command", { timeout: CLI_TIMEOUT_MS }, async () => {
+    const { code, output } = await youniverse("users", "promote", "Local DJ");
+
+    expect(code).toBe(0);
+    expect(output).toContain("✅ Local DJ is already an admin.");
+  });
+
+  it("exits non-zero on an unknown command or a bad flag", { timeout: CLI_TIMEOUT_MS }, async () => {
+    const unknown = await youniverse("songs", "shuffle");
+    expect(unknown.code).toBe(1);
+    expect(unknown.output).toContain('Unknown command "songs shuffle"');
+    expect(unknown.output).toContain("leader evict");
+
+    const badStatus = await youniverse("songs", "list", "--status", "lost");
+    expect(badStatus.code).toBe(1);
+    expect(badStatus.output).toContain('Unknown status "lost"');
+  });
+});
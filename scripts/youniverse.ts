@@ -0,0 +1,362 @@
+/// <reference types="node" />
+/**
+ * youniverse - The admin CLI. Everything the DJ Booth can do to the station from a terminal,
+ * through the same services the app runs on (song repository, storage orphans, leader lease,
+ * PersistentRadioService).
+ *
+ * Commands:
+ *   status                        the station, its leader, songs per status and the open Box round
+ *   songs list [--status <s>] [--limit <n>]
+ *   songs repair                  one song on air, one queued next, at most boxSize in The Box;
+ *                                 reports rows that don't match the schema
+ *   orphans scan                  audio files in the songs bucket with no song row
+ *   orphans recover [--uploader <user id>] [--artist <name>]
+ *   users promote <user id | name>
+ *   users premium <user id | name>   a stub-provider checkout and grant_premium, as a paid upgrade would
+ *   seed [--uploader <user id>]   adds the demo tracks to the pool
+ *   reset                         the DJ Booth's "Force Nuke": active songs back to the pool, station cleared
+ *   leader show                   who holds the lease
+ *   leader evict                  takes the lease and hands it straight back, fencing off the holder
+ * Flags:
+ *   --dry-run   print what would change, change nothing
+ *
+ * Songs and users are attributed to the first admin unless --uploader says otherwise.
+ *
+ * Run with:
+ *   SUPABASE_URL=<project url> SUPABASE_SERVICE_ROLE_KEY=<service role key> npx tsx scripts/youniverse.ts <command>
+ * With RADIO_BACKEND=memory it runs against a fresh in-memory demo station instead.
+ */
+
+import { parseArgs } from "node:util";
+import { backend, type BroadcastRow } from "../services/radioBackend";
+import { songRepository, toSong, SONG_STATUSES } from "../services/songRepository";
+import { findStorageOrphans, recoverStorageOrphans, orphanTitle } from "../services/storageOrphans";
+import { getOpenRound, getRoundTallies } from "../services/boxRoundService";
+import { LeaderLease } from "../services/leaderLease";
+import { rpcLeaseBackend, HEADLESS_SESSION_PREFIX } from "../services/stationConductor";
+import { PersistentRadioService } from "../services/PersistentRadioService";
+import { songSourcesFor } from "../services/radioStateMachine";
+import { STATION_RULES } from "../services/stationRules";
+import { createStubPaymentProvider, grantPremium, PREMIUM_PLANS } from "../services/payments";
+import { premiumActive } from "../services/entitlements";
+import type { Song, SongStatus } from "../types";
+
+const CLI_SESSION_PREFIX = "cli:";
+const CLI_LEASE_MS = 30000; // the longest the database grants
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DEMO_SONGS = [
+  {
+    title: "Neon Horizon",
+    artist_name: "Cyberwave",
+    audio_url: "https://www.soundhelix.com/examples/mp3/SoundHelix-Song-1.mp3",
+    cover_art_url: "https://images.unsplash.com/photo-1451187580459-43490279c0fa?w=400",
+    duration_sec: 372,
+  },
+  {
+    title: "Midnight City",
+    artist_name: "The Nightcallers",
+    audio_url: "https://www.soundhelix.com/examples/mp3/SoundHelix-Song-2.mp3",
+    cover_art_url: "https://images.unsplash.com/photo-1518770660439-4636190af475?w=400",
+    duration_sec: 425,
+  },
+  {
+    title: "Digital Dreams",
+    artist_name: "Synth Masters",
+    audio_url: "https://www.soundhelix.com/examples/mp3/SoundHelix-Song-3.mp3",
+    cover_art_url: "https://images.unsplash.com/photo-1526374965328-7f61d4dc18c5?w=400",
+    duration_sec: 340,
+  },
+];
+
+const { values: flags, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    status: { type: "string" },
+    limit: { type: "string" },
+    uploader: { type: "string" },
+    artist: { type: "string" },
+  },
+});
+const dryRun = flags["dry-run"];
+
+// --- HELPERS ---
+
+const describeSong = (song: Song) => `"${song.title}" by ${song.artistName} (${song.id})`;
+
+/** The user songs are attributed to: --uploader, else the first admin. */
+const resolveUploader = async (): Promise<string> => {
+  if (flags.uploader) return flags.uploader;
+  const [admin] = await backend.profiles.list({ is_admin: true }, { columns: "user_id", limit: 1 });
+  if (!admin) throw new Error("No admin profile to attribute songs to. Pass --uploader <user id>.");
+  return admin.user_id;
+};
+
+/** Holds the lease for the duration of `work`, taking it from whoever has it, then gives it back. */
+const withTheDecks = async (work: (token: number) => Promise<void>) => {
+  const lease = new LeaderLease(rpcLeaseBackend, `${CLI_SESSION_PREFIX}${crypto.randomUUID()}`, { leaseMs: CLI_LEASE_MS });
+  const grant = await lease.renew(true);
+  if (!grant?.acquired || grant.token === null) throw new Error("The database didn't grant the lease.");
+
+  PersistentRadioService.useLeaseToken(() => lease.token);
+  try {
+    await work(grant.token);
+  } finally {
+    await lease.release();
+  }
+};
+
+const printLease = (broadcast: BroadcastRow) => {
+  if (!broadcast.leader_session) {
+    console.log("👑 Leader: none");
+    return;
+  }
+  const kind = broadcast.leader_session.startsWith(HEADLESS_SESSION_PREFIX) ? "headless conductor" : "browser tab";
+  const ttlSec = Math.round((new Date(broadcast.lease_expires_at ?? 0).getTime() - Date.now()) / 1000);
+  console.log(`👑 Leader: ${broadcast.leader_session} (${kind}${broadcast.leader_id ? `, user ${broadcast.leader_id}` : ""})`);
+  console.log(`   Token ${broadcast.fencing_token}, lease ${ttlSec > 0 ? `expires in ${ttlSec}s` : "expired"}`);
+};
+
+const loadBroadcast = async (): Promise<BroadcastRow> => {
+  const broadcast = await backend.broadcasts.get();
+  if (!broadcast) throw new Error("There is no broadcasts row. Run `npx tsx scripts/migrate.ts up` first.");
+  return broadcast;
+};
+
+// --- COMMANDS ---
+
+async function status() {
+  const broadcast = await loadBroadcast();
+  console.log(`📡 Backend: ${backend.kind}`);
+  console.log(`📻 State: ${broadcast.radio_state}, since ${broadcast.song_started_at ?? "never"}`);
+  console.log(`🎵 On air: ${broadcast.current_song ? describeSong(toSong(broadcast.current_song)) : "nothing"}`);
+  printLease(broadcast);
+
+  const counts = await Promise.all(SONG_STATUSES.map((s) => songRepository.count({ status: s })));
+  console.log(`📊 Songs: ${SONG_STATUSES.map((s, i) => `${s} ${counts[i]}`).join(", ")}`);
+
+  const round = await getOpenRound();
+  if (!round) {
+    console.log("📦 The Box: no open round");
+    return;
+  }
+  const tallies = await getRoundTallies(round.id);
+  const candidates = await songRepository.list({ id: round.candidateIds });
+  console.log(`📦 The Box: round ${round.id}, open since ${round.startedAt}`);
+  candidates.forEach((song) => {
+    const tally = tallies[song.id];
+    console.log(`   ${tally?.votes ?? 0} votes (${tally?.humanVotes ?? 0} real, ${tally?.simulatedVotes ?? 0} crowd)  ${describeSong(song)}`);
+  });
+}
+
+async function songsList() {
+  const wanted = flags.status as SongStatus | undefined;
+  if (wanted && !SONG_STATUSES.includes(wanted)) {
+    throw new Error(`Unknown status "${wanted}". One of: ${SONG_STATUSES.join(", ")}`);
+  }
+  const limit = flags.limit ? Number(flags.limit) : undefined;
+  const songs = await songRepository.list(wanted ? { status: wanted } : {}, { orderBy: "created_at", ascending: false, limit });
+
+  songs.forEach((song) =>
+    console.log(`${song.status.padEnd(11)} ${String(song.stars).padStart(2)}★  ${describeSong(song)}`),
+  );
+  console.log(`${songs.length} songs`);
+}
+
+async function songsRepair() {
+  const rows = await backend.songs.list();
+  const songs: Song[] = [];
+  for (const row of rows) {
+    try {
+      songs.push(toSong(row));
+    } catch (error) {
+      console.warn(`⚠️ ${(error as Error).message}`);
+    }
+  }
+
+  const broadcast = await loadBroadcast();
+  const round = await getOpenRound();
+  const repairs: { song: Song; reason: string }[] = [];
+
+  // On air: only the song the broadcast points at
+  songs
+    .filter((song) => song.status === "now_playing" && song.id !== broadcast.current_song_id)
+    .forEach((song) => repairs.push({ song, reason: "marked on air, but the broadcast plays something else" }));
+
+  // Queued next: one song, the broadcast's if it names one
+  const queued = songs
+    .filter((song) => song.status === "next_play")
+    .sort((a, b) => Number(b.id === broadcast.next_song_id) - Number(a.id === broadcast.next_song_id));
+  queued.slice(1).forEach((song) => repairs.push({ song, reason: `a second song queued next after "${queued[0].title}"` }));
+
+  // The Box: boxSize songs, the open round's candidates first
+  const inRound = (song: Song) => Number(round?.candidateIds.includes(song.id) ?? false);
+  const boxed = songs.filter((song) => song.status === "in_box").sort((a, b) => inRound(b) - inRound(a));
+  boxed
+    .slice(STATION_RULES.boxSize)
+    .forEach((song) => repairs.push({ song, reason: `The Box only holds ${STATION_RULES.boxSize}` }));
+
+  if (repairs.length === 0) {
+    console.log(`✅ ${songs.length} songs, nothing to repair.`);
+    return;
+  }
+
+  for (const { song, reason } of repairs) {
+    console.log(`${dryRun ? "📝 Would return" : "🔧 Returning"} ${describeSong(song)} to the pool: ${reason}`);
+    // Matching on the status we saw: a song the leader moved meanwhile is left alone
+    if (!dryRun) await songRepository.update({ id: song.id, status: song.status }, { status: "pool" });
+  }
+  if (!dryRun) console.log(`✅ Repaired ${repairs.length} songs.`);
+}
+
+async function orphansScan() {
+  const orphans = await findStorageOrphans(await songRepository.list());
+  orphans.forEach((orphan) => console.log(`🕵️ ${orphan.fullPath}`));
+  console.log(`${orphans.length} orphaned files`);
+}
+
+async function orphansRecover() {
+  const orphans = await findStorageOrphans(await songRepository.list());
+  if (orphans.length === 0) {
+    console.log("✅ No orphaned files.");
+    return;
+  }
+
+  const uploaderId = await resolveUploader();
+  const artistName = flags.artist ?? "Resurrected Artist";
+  if (dryRun) {
+    orphans.forEach((orphan) => console.log(`📝 Would add "${orphanTitle(orphan)}" by ${artistName} from ${orphan.fullPath}`));
+    return;
+  }
+
+  const recovered = await recoverStorageOrphans(orphans, { uploaderId, artistName });
+  console.log(`✅ Recovered ${recovered} of ${orphans.length} songs, attributed to ${uploaderId}.`);
+}
+
+/** The one profile `who` (a user id or a name) names. */
+async function findProfile(who: string, columns: string, verb: string) {
+  const profiles = await backend.profiles.list(UUID.test(who) ? { user_id: who } : { name: who }, { columns });
+  if (profiles.length === 0) throw new Error(`No profile matches "${who}".`);
+  if (profiles.length > 1) {
+    profiles.forEach((profile) => console.log(`   ${profile.user_id}  ${profile.name}`));
+    throw new Error(`${profiles.length} profiles are named "${who}". ${verb} one by user id.`);
+  }
+  return profiles[0];
+}
+
+async function usersPromote(who?: string) {
+  if (!who) throw new Error("Usage: users promote <user id | name>");
+
+  const profile = await findProfile(who, "user_id, name, is_admin", "Promote");
+  if (profile.is_admin) {
+    console.log(`✅ ${profile.name} is already an admin.`);
+    return;
+  }
+  console.log(`${dryRun ? "📝 Would promote" : "👑 Promoting"} ${profile.name} (${profile.user_id}) to admin`);
+  if (!dryRun) await backend.profiles.update({ user_id: profile.user_id }, { is_admin: true });
+}
+
+async function usersPremium(who?: string) {
+  if (!who) throw new Error("Usage: users premium <user id | name>");
+
+  const profile = await findProfile(who, "user_id, name, is_premium, premium_until", "Upgrade");
+  if (premiumActive(profile) && !profile.premium_until) {
+    console.log(`✅ ${profile.name} is already premium for good.`);
+    return;
+  }
+  const { label, amountCents } = PREMIUM_PLANS.lifetime;
+  console.log(`${dryRun ? "📝 Would upgrade" : "💎 Upgrading"} ${profile.name} (${profile.user_id}): ${label}, ${amountCents} cents on the stub provider`);
+  if (dryRun) return;
+
+  const receipt = await createStubPaymentProvider({ delayMs: 0 }).checkout(profile.user_id, "lifetime");
+  await grantPremium(profile.user_id, receipt);
+  console.log(`✅ ${profile.name} is premium (receipt ${receipt.reference}).`);
+}
+
+async function seed() {
+  const existing = await songRepository.listRows({ audio_url: DEMO_SONGS.map((song) => song.audio_url) });
+  const missing = DEMO_SONGS.filter((song) => !existing.some((row) => row.audio_url === song.audio_url));
+  if (missing.length === 0) {
+    console.log("✅ The demo tracks are already in the library.");
+    return;
+  }
+
+  const uploaderId = await resolveUploader();
+  for (const song of missing) {
+    console.log(`${dryRun ? "📝 Would add" : "🌱 Adding"} "${song.title}" by ${song.artist_name}`);
+    if (!dryRun) await songRepository.insert({ ...song, uploader_id: uploaderId, source: "upload", status: "pool" });
+  }
+}
+
+async function reset() {
+  const statuses = songSourcesFor("RESET");
+  const affected = await songRepository.count({ status: statuses });
+  if (dryRun) {
+    console.log(`📝 Would return ${affected} songs (${statuses.join(", ")}) to the pool and clear the station.`);
+    return;
+  }
+  await withTheDecks(() => PersistentRadioService.hardReset());
+  console.log(`✅ ${affected} songs back in the pool, the station cleared and The Box refilled.`);
+}
+
+async function leaderShow() {
+  printLease(await loadBroadcast());
+}
+
+async function leaderEvict() {
+  const broadcast = await loadBroadcast();
+  if (!broadcast.leader_session) {
+    console.log("✅ Nobody holds the lease.");
+    return;
+  }
+  if (dryRun) {
+    console.log(`📝 Would evict ${broadcast.leader_session} (token ${broadcast.fencing_token}).`);
+    return;
+  }
+
+  await withTheDecks(async (token) =>
+    console.log(`✅ Evicted ${broadcast.leader_session}: its token ${broadcast.fencing_token} is fenced off (now ${token}).`),
+  );
+  if (broadcast.leader_session.startsWith(HEADLESS_SESSION_PREFIX)) {
+    console.log("   A running headless conductor takes the lease straight back. Stop it first to keep it off the decks.");
+  }
+}
+
+const COMMANDS: Record<string, (arg?: string) => Promise<void>> = {
+  status,
+  "songs list": songsList,
+  "songs repair": songsRepair,
+  "orphans scan": orphansScan,
+  "orphans recover": orphansRecover,
+  "users promote": usersPromote,
+  "users premium": usersPremium,
+  seed,
+  reset,
+  "leader show": leaderShow,
+  "leader evict": leaderEvict,
+};
+
+async function main() {
+  const [group, sub, arg] = positionals;
+  const name = COMMANDS[`${group} ${sub}`] ? `${group} ${sub}` : group;
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`Unknown command "${positionals.join(" ")}". One of:\n  ${Object.keys(COMMANDS).join("\n  ")}`);
+    process.exit(1);
+  }
+
+  if (backend.kind === "supabase" && !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("❌ SUPABASE_SERVICE_ROLE_KEY is required: admin commands run as the service role.");
+    process.exit(1);
+  }
+
+  await command(name === group ? sub : arg);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("❌", err.message ?? err);
+    process.exit(1);
+  });
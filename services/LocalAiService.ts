@@ -11,8 +11,9 @@ export class LocalAiService {
      * Generate a quick DJ banter line based on the transition.
      */
     static async generateDJSpeech(winner: Song, losers: Song[]): Promise<string> {
-        // Prevent external clients (phones, internet users) from getting PNA (Private Network Access) browser prompts
-        const isLocalHost = ['localhost', '127.0.0.1', '172.20.20.20'].includes(window.location.hostname);
+        // Prevent external clients (phones, internet users) from getting PNA (Private Network Access) browser prompts.
+        // The headless conductor has no window and no such prompt.
+        const isLocalHost = typeof window === 'undefined' || ['localhost', '127.0.0.1', '172.20.20.20'].includes(window.location.hostname);
         if (!isLocalHost) {
             console.log("🤖 Skipping Local AI (Running on remote client)");
             return `The crowd has spoken! Up next: ${winner.title} by ${winner.artistName}.`;
@@ -3,34 +3,76 @@
  * @file PersistentRadioService - Handles the Core Radio Cycle: Pool -> Box -> Play
  */
 
-import { supabase } from "./supabaseClient";
-import type { Song, ChatMessage } from "../types";
+import { backend } from "./radioBackend";
+import { sendChatMessage } from "./clubChat";
+import type { Song, ChatMessage, BoxEntrant } from "../types";
 import { LocalAiService } from "./LocalAiService";
+import { ensureBoxRound, getOpenRound } from "./boxRoundService";
+import { songSourcesFor, type RadioEvent } from "./radioStateMachine";
+import { STATION_RULES } from "./stationRules";
+import { selectBoxEntrants } from "./boxSelection";
+import { getBankLine } from "./djLineBank";
+import { songRepository, toSong, toSongs, type DbSong } from "./songRepository";
+import { processNewDeadSongs, announceFarewellStarted, announceFarewellVerdict } from "./dswLifecycle";
+
+/** What the advance_round RPC returns (031_station_rules.sql). Songs come back as songs rows. */
+export interface AdvanceRoundResult {
+    advanced: boolean; // false: the station had already moved past expected_song_id
+    now_playing: DbSong | null;
+    winner: DbSong | null;
+    losers: DbSong[];
+    debut: { song: DbSong; passed: boolean; rating: number } | null; // a debut judged at the end of its play
+    dsw: { song: DbSong; pardoned: boolean } | null; // a farewell play judged
+    rating: { play_id: string | null; ratings: number; average: number | null; delta: number; vetoed: boolean } | null;
+    song_started_at: string | null; // when the play on air started, stamped by the server
+}
+
+/** The play on air after a round: the song and when the server started it. */
+export interface OnAir {
+    song: Song | null;
+    startedAt: string | null;
+}
+
+/** A round as the conductor sees it: the songs mapped to the app's Song. */
+interface AdvancedRound {
+    advanced: boolean;
+    nowPlaying: Song | null;
+    songStartedAt: string | null;
+    winner: Song | null;
+    losers: Song[];
+}
 
 export class PersistentRadioService {
     private static lastCheck: number = 0;
+    private static leaseToken: () => number | null = () => null;
+
+    /**
+     * Wires in the current leader's fencing token. advance_round and broadcast resets
+     * are rejected by the database without it (016_leader_lease.sql).
+     */
+    static useLeaseToken(getToken: () => number | null) {
+        this.leaseToken = getToken;
+    }
 
     /**
      * Watchdog: Ensures the radio is healthy.
+     * Returns the event the broadcast manager should dispatch, if any.
      */
-    static async checkRadioHealth(nowPlaying: Song | null): Promise<Song | null> {
+    static async checkRadioHealth(nowPlaying: Song | null): Promise<RadioEvent | null> {
         const now = Date.now();
         if (now - this.lastCheck < 10000) return null; // Throttle to 10s
         this.lastCheck = now;
-        // 1. Ensure Box is populated
+        // 1. Ensure Box is populated and every Dead Song Walking has its farewell scheduled
         await this.populateTheBox();
+        await processNewDeadSongs();
 
         // 2. Fetch the broadcast source of truth
-        const { data: broadcast } = await supabase
-            .from("broadcasts")
-            .select("song_started_at")
-            .eq("id", "00000000-0000-0000-0000-000000000000")
-            .single();
+        const broadcast = await backend.broadcasts.get();
 
         // 3. If nothing is playing in DB, kickstart
         if (!broadcast?.song_started_at) {
-            console.log("🛠️ Watchdog: No song playing in DB. Attempting kickstart...");
-            return await this.cycleNextToNow();
+            console.log("🛠️ Watchdog: No song playing in DB. Requesting kickstart...");
+            return { type: "STATION_SILENT" };
         }
 
         // 4. "ZOMBIE PREVENTION": If current song should be finished by now, force transition
@@ -45,7 +87,7 @@ export class PersistentRadioService {
 
             if (elapsed > nowPlaying.durationSec + margin) {
                 console.log(`🧟 Watchdog: Zombie detected! (${elapsed.toFixed(1)}s elapsed for ${nowPlaying.durationSec}s song). Force transitioning...`);
-                return await this.handleSongEnded(nowPlaying);
+                return { type: "ZOMBIE_DETECTED" };
             }
         }
 
@@ -53,101 +95,144 @@ export class PersistentRadioService {
     }
 
     /**
-     * Called by the Leader when a song ends.
-     * 1. Returns current song to pool.
-     * 2. Picks the winner from the box.
-     * 3. Moves winner to 'now_playing'.
-     * 4. Penalizes losers.
-     * 5. Populates a new box.
+     * Called by the Leader when a song ends (the ADVANCE_ROUND effect).
+     * The whole transition (resolve the Box, refill it, retire the current song,
+     * promote the winner) runs atomically in the `advance_round` RPC.
+     * Returns the play that is now on air.
      */
-    static async handleSongEnded(currentSong: Song | null): Promise<Song | null> {
+    static async handleSongEnded(currentSong: Song | null): Promise<OnAir | null> {
         console.log("🎬 PersistentRadioService: Handling end of song...");
 
-        // 1. Return current song to pool (if it exists)
-        if (currentSong) {
-            console.log(`📡 Returning ${currentSong.title} to pool.`);
-            await supabase
-                .from("songs")
-                .update({
-                    status: "pool",
-                    last_played_at: new Date().toISOString(),
-                    play_count: (currentSong.playCount || 0) + 1
-                })
-                .eq("id", currentSong.id);
-        }
-
-        // 2. Identify the winner from 'in_box'
-        const { data: boxSongs } = await supabase
-            .from("songs")
-            .select("*")
-            .eq("status", "in_box")
-            .order("upvotes", { ascending: false });
+        // Rank the next entrants up front; the RPC takes the ones still in the pool
+        const openRound = await getOpenRound();
+        const entrants = await this.pickBoxEntrants(`round:${openRound?.id ?? "none"}`, STATION_RULES.boxSize);
 
-        if (boxSongs && boxSongs.length > 0) {
-            const winner = boxSongs[0];
-            const losers = boxSongs.slice(1);
+        const result = await this.advanceRound(currentSong?.id ?? null, true, entrants);
+        if (!result) return null;
 
-            console.log(`🏆 Winner: ${winner.title} (${winner.upvotes} votes)`);
+        const { winner, losers } = result;
+        if (winner) {
+            console.log(`🏆 Winner: ${winner.title}`);
+            losers.forEach((loser) => console.log(loser.status === "in_box"
+                ? `🥊 Loser: ${loser.title} stays in The Box (${loser.boxRoundsLost}/${STATION_RULES.maxRoundsWithoutWin} losses).`
+                : `💀 Loser: ${loser.title} out of chances, returned to pool.`));
 
             // AI BANTER: Generate speech for the winner
             try {
                 const banter = await LocalAiService.generateDJSpeech(winner, losers);
                 console.log("🎙️ DJ Banter:", banter);
 
-                // Broadcast banter to all clients via Supabase Realtime
-                await supabase.channel('club-chat').send({
-                    type: 'broadcast',
-                    event: 'new_message',
-                    payload: {
-                        id: `dj-${Date.now()}`,
-                        user: { name: "THE ARCHITECT", isAdmin: true },
-                        text: banter,
-                        timestamp: Date.now()
-                    } as ChatMessage
-                });
+                await this.sendDjMessage(banter);
             } catch (e) {
                 console.warn("AI Banter generation failed", e);
             }
+        } else if (result.advanced && !result.nowPlaying?.isDebut) {
+            console.log("⚠️ No songs in the box to pick from.");
+        }
+
+        return { song: result.nowPlaying, startedAt: result.songStartedAt };
+    }
 
-            // Process Winner
-            let winnerStars = Math.min(10, (winner.stars || 5) + 1);
-            let winnerDsw = winner.is_dsw;
-
-            await supabase
-                .from("songs")
-                .update({
-                    stars: winnerDsw ? 0 : winnerStars,
-                    status: "next_play", // Move to next_play so the broadcast manager can pick it up
-                    upvotes: 0 // Reset votes for next time
-                })
-                .eq("id", winner.id);
-
-            // Process Losers
-            for (const loser of losers) {
-                console.log(`💀 Loser: ${loser.title} returning to pool.`);
-                let loserStars = Math.max(0, (loser.stars || 5) - 1);
-                let loserDsw = loser.is_dsw || (loserStars <= 0); // Becomes DSW if it hits 0
-                loserStars = loserDsw ? 0 : loserStars;
-
-                await supabase
-                    .from("songs")
-                    .update({
-                        status: "pool",
-                        stars: loserStars,
-                        is_dsw: loserDsw,
-                        upvotes: 0
-                    })
-                    .eq("id", loser.id);
+    /**
+     * Runs the `advance_round` RPC. If the broadcast already moved past `expectedSongId`
+     * (another leader won the race, or this is a retry) nothing changes and the song
+     * currently on air is returned.
+     */
+    private static async advanceRound(
+        expectedSongId: string | null,
+        resolveBox: boolean,
+        entrants: BoxEntrant[] = [],
+    ): Promise<AdvancedRound | null> {
+        let data: AdvanceRoundResult | null;
+        try {
+            data = await backend.rpc("advance_round", {
+                expected_song_id: expectedSongId,
+                resolve_box: resolveBox,
+                entrants,
+                lease_token: this.leaseToken(),
+            });
+        } catch (error) {
+            console.error("❌ advance_round failed:", error);
+            return null;
+        }
+        if (!data) return null;
+
+        const nowPlaying = data.now_playing ? toSong(data.now_playing) : null;
+
+        if (!data.advanced) {
+            console.log(`⏭️ advance_round: already advanced past ${expectedSongId}. On air: ${nowPlaying?.title ?? "nothing"}`);
+        } else if (nowPlaying) {
+            console.log(`🚀 advance_round: ${nowPlaying.title} is now playing`);
+        }
+
+        if (data.advanced) {
+            // Star delta for the play that just ended, computed from its rating ledger (and its veto, if any)
+            if (data.rating) {
+                const { ratings, average, delta, vetoed } = data.rating;
+                console.log(ratings > 0
+                    ? `⭐ Live rating: ${average}★ from ${ratings} listener${ratings === 1 ? "" : "s"} (${delta >= 0 ? "+" : ""}${delta} stars)`
+                    : "⭐ Live rating: nobody rated that play.");
+                if (vetoed) console.log(`👎 Vetoed: the play took a ${STATION_RULES.vetoStarPenalty}-star penalty (${delta >= 0 ? "+" : ""}${delta} stars in all)`);
             }
-        } else {
-            console.log("⚠️ No songs in the box to pick from.");
+
+            await this.announceDebuts(data.debut, nowPlaying);
+
+            // Dead Song Walking: verdict for the farewell that just ended, then the one going on air
+            if (data.dsw) await announceFarewellVerdict(data.dsw);
+            if (nowPlaying?.isDsw) await announceFarewellStarted(nowPlaying);
+            await processNewDeadSongs();
         }
 
-        // 4. Populate a new box immediately
-        await this.populateTheBox();
+        return {
+            advanced: data.advanced,
+            nowPlaying,
+            songStartedAt: data.song_started_at ?? null,
+            winner: data.winner ? toSong(data.winner) : null,
+            losers: toSongs(data.losers ?? []),
+        };
+    }
 
-        // 5. Return the winner so it can be played immediately
-        return await this.cycleNextToNow();
+    /**
+     * Trial by Fire: the outro for a debut that just got judged, the shout-out for one going on air.
+     */
+    private static async announceDebuts(
+        judged: AdvanceRoundResult["debut"],
+        nowPlaying: Song | null,
+    ) {
+        if (judged) {
+            const song = toSong(judged.song);
+            console.log(judged.passed
+                ? `🎤 Debut passed: ${song.title} (${judged.rating}★) joins the pool. ${song.artistName} is an artist now.`
+                : `🪦 Debut failed: ${song.title} (${judged.rating}★) goes to the graveyard.`);
+
+            const outro = getBankLine({
+                event: "debut_song_outro",
+                song: { title: song.title, artistName: song.artistName, finalRating: judged.rating },
+            });
+            if (outro) await this.sendDjMessage(outro);
+        }
+
+        if (nowPlaying?.isDebut) {
+            console.log(`🎤 Debut on air: ${nowPlaying.title} by ${nowPlaying.artistName}`);
+            const shoutout = getBankLine({
+                event: "new_artist_shoutout",
+                song: { title: nowPlaying.title, artistName: nowPlaying.artistName },
+            });
+            if (shoutout) await this.sendDjMessage(shoutout);
+        }
+    }
+
+    /**
+     * Broadcasts a DJ line to all clients over the club-chat channel.
+     */
+    private static async sendDjMessage(text: string) {
+        const message: ChatMessage = {
+            id: `dj-${Date.now()}`,
+            user: { name: "THE ARCHITECT", isAdmin: true },
+            text,
+            timestamp: Date.now()
+        };
+        await sendChatMessage(message);
     }
 
     /**
@@ -156,10 +241,8 @@ export class PersistentRadioService {
     static async forceRefreshBox() {
         console.log("♻️ PersistentRadioService: Force refreshing box...");
         // 1. Return current box songs to pool
-        await supabase
-            .from("songs")
-            .update({ status: "pool", upvotes: 0 })
-            .eq("status", "in_box");
+        await songRepository.update({ status: "in_box" }, { status: "pool", upvotes: 0, box_rounds_lost: 0 });
+        await ensureBoxRound(); // voids the old round
 
         // 2. Populate fresh
         await this.populateTheBox();
@@ -171,231 +254,95 @@ export class PersistentRadioService {
     static async hardReset() {
         console.log("☢️ PersistentRadioService: HARD RESET triggered.");
         // 1. Move everything to pool
-        await supabase
-            .from("songs")
-            .update({ status: "pool", upvotes: 0 })
-            .in("status", ["now_playing", "next_play", "in_box", "review"]);
+        await songRepository.update({ status: songSourcesFor("RESET") }, { status: "pool", upvotes: 0, box_rounds_lost: 0 });
+        await ensureBoxRound(); // voids the old round
 
         // 2. Clear broadcast metadata
-        await supabase
-            .from("broadcasts")
-            .update({
+        try {
+            await backend.broadcasts.update({
                 current_song_id: null,
                 next_song_id: null,
                 radio_state: "POOL",
-                song_started_at: null
-            })
-            .eq("id", "00000000-0000-0000-0000-000000000000");
+                song_started_at: null,
+                writer_token: this.leaseToken()
+            });
+        } catch (e) {
+            console.error("☢️ Failed to clear the broadcast:", e);
+        }
 
         // 3. Populate fresh box to start cycle
         await this.populateTheBox();
     }
 
     /**
-     * Ensures the 'in_box' status has exactly 2 songs.
+     * Ensures The Box holds STATION_RULES.boxSize songs and has an open round to vote in.
      */
     static async populateTheBox() {
-        const { count } = await supabase
-            .from("songs")
-            .select("*", { count: 'exact', head: true })
-            .eq("status", "in_box");
+        const count = await songRepository.count({ status: "in_box" });
 
-        const needed = 2 - (count || 0);
-        if (needed <= 0) return;
+        const needed = Math.min(STATION_RULES.boxSize - count, STATION_RULES.candidatesPerRound);
+        if (needed <= 0) {
+            await ensureBoxRound();
+            return;
+        }
 
         console.log(`🛠️ Populating The Box: Picking ${needed} songs...`);
 
-        // 1. Try to pick from 'pool' or 'review' first (Priority)
-        let { data: candidates } = await supabase
-            .from("songs")
-            .select("*")
-            .in("status", ["pool", "review"])
-            .order('last_played_at', { ascending: true })
-            .limit(needed);
-
-        // 2. AGGRESSIVE FALLBACK: If we still need more, grab ANY song that isn't currently active
-        const currentCount = candidates?.length || 0;
-        if (currentCount < needed) {
-            const stillNeeded = needed - currentCount;
-            const { data: fallbackSongs } = await supabase
-                .from("songs")
-                .select("*")
-                .not("status", "in", `("now_playing","next_play","in_box")`)
-                .order('last_played_at', { ascending: true })
-                .limit(stillNeeded);
-
-            if (fallbackSongs) {
-                candidates = [...(candidates || []), ...fallbackSongs];
-            }
-        }
-
-        if (candidates && candidates.length > 0) {
-            for (const song of candidates) {
-                console.log(`📦 Adding ${song.title} to The Box.`);
-                await supabase
-                    .from("songs")
-                    .update({
-                        status: "in_box",
-                        upvotes: 0,
-                        box_appearance_count: (song.box_appearance_count || 0) + 1
-                    })
-                    .eq("id", song.id);
-            }
+        const entrants = await this.pickBoxEntrants(`refill:${new Date().toISOString()}`, needed);
+        if (entrants.length === 0) {
+            console.log("⚠️ Pool is empty. Nothing to put in The Box.");
         }
-    }
-
-    static async cycleNextToNow(): Promise<Song | null> {
-        // 1. Fetch current now_playing to calculate stars and retire it
-        const { data: currentPlaying } = await supabase
-            .from("songs")
-            .select("*")
-            .eq("status", "now_playing")
-            .limit(1);
-
-        const currSong = currentPlaying && currentPlaying.length > 0 ? currentPlaying[0] : null;
-
-        if (currSong) {
-            let newStars = currSong.stars;
-            let nextStatus = "pool";
-            let isDsw = currSong.is_dsw;
-
-            if (currSong.live_stars_count > 0) {
-                // If it's DSW, its base stars are 0, meaning any vote helps. But a song starts its rating scale at 1, technically.
-                // Actually the math `sum - count * stars` works beautifully: 
-                // A DSW has 0 stars. If it gets a 5 star vote, delta = 5 - (1 * 0) = +5. New Stars = 5! A pardon!
-                const delta = Math.round(currSong.live_stars_sum - (currSong.live_stars_count * currSong.stars));
-                newStars = Math.min(10, Math.max(0, currSong.stars + delta));
-                console.log(`⭐ Live Rating Math for ${currSong.title}: Old Stars: ${currSong.stars}, Delta: ${delta}, New Stars: ${newStars}`);
-            }
-
-            if (currSong.is_dsw) {
-                // It was a Dead Song Walking. Did it get pardoned?
-                if (newStars > 0) {
-                    console.log(`🕊️ THE PARDON! ${currSong.title} survived its farewell play with ${newStars} stars!`);
-                    isDsw = false;
-                    nextStatus = "pool";
-                } else {
-                    console.log(`🪦 Farewell, ${currSong.title}. Sending to Graveyard.`);
-                    nextStatus = "graveyard";
-                }
-            } else {
-                if (newStars <= 0) {
-                    isDsw = true;
-                    newStars = 0; // Lock at 0
-                    console.log(`🧟 ${currSong.title} has become a Dead Song Walking.`);
-                }
-            }
 
-            // Retire it
-            await supabase
-                .from("songs")
-                .update({
-                    status: nextStatus,
-                    stars: newStars,
-                    is_dsw: isDsw,
-                    live_stars_sum: 0,
-                    live_stars_count: 0
-                })
-                .eq("id", currSong.id);
+        for (const entrant of entrants) {
+            const song = await songRepository.get(entrant.songId);
+
+            await songRepository.update(
+                { id: entrant.songId, status: songSourcesFor("ENTER_BOX") },
+                {
+                    status: "in_box",
+                    upvotes: 0,
+                    box_rounds_lost: 0,
+                    box_appearance_count: (song?.boxAppearanceCount ?? 0) + 1
+                },
+            );
         }
 
-        const { data: nextUp } = await supabase
-            .from("songs")
-            .select("*")
-            .eq("status", "next_play")
-            .limit(1);
-
-        const nextUpSong = nextUp && nextUp.length > 0 ? nextUp[0] : null;
-
-        if (nextUpSong) {
-            console.log(`🚀 Transitioning ${nextUpSong.title} from next_play to now_playing`);
-            await supabase
-                .from("songs")
-                .update({
-                    status: "now_playing",
-                    last_played_at: new Date().toISOString()
-                })
-                .eq("id", nextUpSong.id);
-
-            return this.mapDbToApp({ ...nextUpSong, status: 'now_playing' });
-        } else {
-            console.log("🎲 No next_play. Picking random from pool...");
-            // If no next_play, pick RANDOM from pool directly (failsafe)
-            // We fetch a larger batch and pick one randomly locally to avoid complex PG random SQL
-            const { data: poolSongs } = await supabase
-                .from("songs")
-                .select("*")
-                .eq("status", "pool")
-                .limit(20);
-
-            if (poolSongs && poolSongs.length > 0) {
-                const randomSong = poolSongs[Math.floor(Math.random() * poolSongs.length)];
-                await supabase
-                    .from("songs")
-                    .update({
-                        status: "now_playing",
-                        last_played_at: new Date().toISOString()
-                    })
-                    .eq("id", randomSong.id);
-
-                return this.mapDbToApp({ ...randomSong, status: 'now_playing' });
-            }
-        }
-        return null;
+        await ensureBoxRound(entrants);
     }
 
     /**
-     * Helper to map DB song to App song structure
+     * Ranks the pool with the configured selection strategy (see boxSelection.ts).
+     * The graveyard is never eligible. Logs the seed and the reason for every pick,
+     * so a run can be replayed and admins can see why a song was chosen.
      */
-    public static mapDbToApp(dbSong: any): Song {
-        return {
-            id: dbSong.id,
-            uploaderId: dbSong.uploader_id,
-            title: dbSong.title,
-            artistName: dbSong.artist_name,
-            source: dbSong.source,
-            audioUrl: dbSong.audio_url,
-            coverArtUrl: dbSong.cover_art_url,
-            durationSec: dbSong.duration_sec,
-            stars: dbSong.stars,
-            liveStarsSum: dbSong.live_stars_sum,
-            liveStarsCount: dbSong.live_stars_count,
-            isDsw: dbSong.is_dsw,
-            boxRoundsSeen: dbSong.box_rounds_seen,
-            boxRoundsLost: dbSong.box_rounds_lost,
-            boxAppearanceCount: dbSong.box_appearance_count,
-            status: dbSong.status,
-            playCount: dbSong.play_count,
-            upvotes: dbSong.upvotes,
-            downvotes: dbSong.downvotes,
-            lastPlayedAt: dbSong.last_played_at,
-            createdAt: dbSong.created_at
-        };
+    private static async pickBoxEntrants(seed: string, count: number): Promise<BoxEntrant[]> {
+        const [songs, box] = await Promise.all([
+            songRepository.list({ status: songSourcesFor("ENTER_BOX") }),
+            songRepository.list({ status: "in_box" }),
+        ]);
+
+        const now = Date.now();
+        const entrants = selectBoxEntrants(songs, count, {
+            seed,
+            now,
+            boxSongs: box,
+        });
+
+        console.log(`🎲 Box selection: strategy=${STATION_RULES.selectionStrategy} seed=${seed} now=${now} pool=${songs.length}`);
+        entrants.forEach((entrant, i) => {
+            const song = songs.find((s) => s.id === entrant.songId);
+            console.log(`📦 #${i + 1} ${song?.title ?? entrant.songId}: ${entrant.reason}`);
+        });
+
+        return entrants;
     }
 
     /**
-     * Simulated Votes: Robot listeners cast votes.
-     * Called periodically by the leader.
+     * Retires the current song and promotes next_play (or a random pool song)
+     * without resolving the Box. Used to kickstart a silent station.
      */
-    static async runSimulationStep() {
-        // 1. Get songs in the box
-        const { data: boxSongs } = await supabase
-            .from("songs")
-            .select("id, upvotes")
-            .eq("status", "in_box");
-
-        if (!boxSongs || boxSongs.length === 0) return;
-
-        // 2. Pick a random song to vote for
-        const winnerIdx = Math.floor(Math.random() * boxSongs.length);
-        const targetSong = boxSongs[winnerIdx];
-
-        // 3. Add 1-5 votes (robot weight)
-        const extraVotes = Math.floor(Math.random() * 5) + 1;
-
-        await supabase
-            .from("songs")
-            .update({ upvotes: (targetSong.upvotes || 0) + extraVotes })
-            .eq("id", targetSong.id);
+    static async cycleNextToNow(expectedSongId: string | null = null): Promise<OnAir | null> {
+        const result = await this.advanceRound(expectedSongId, false);
+        return result ? { song: result.nowPlaying, startedAt: result.songStartedAt } : null;
     }
 }
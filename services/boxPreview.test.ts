@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { STATION_RULES } from "./stationRules";
+import type { Song } from "../types";
+
+/** The broadcast under the preview: playing, and with a deck graph to duck unless a test says otherwise. */
+const manager = {
+  playing: true,
+  canDuck: true,
+  isPlaying: vi.fn(() => manager.playing),
+  getVolume: () => 0.8,
+  attachPreview: vi.fn(() => null),
+  duck: vi.fn((_level: number, _rampSec: number) => manager.canDuck),
+  pause: vi.fn(() => {
+    manager.playing = false;
+  }),
+  play: vi.fn(async () => {
+    manager.playing = true;
+  }),
+};
+
+vi.mock("./globalBroadcastManager", () => ({ getBroadcastManager: () => manager }));
+
+const { getBoxPreview, playPreview, stopPreview } = await import("./boxPreview");
+
+/** The preview's <audio> element: a 60s track whose metadata is already in. */
+class FakeAudio {
+  src = "";
+  error = null;
+  volume = 1;
+  readyState = 4;
+  duration = 60;
+  currentTime = 0;
+  paused = true;
+  async play() {
+    this.paused = false;
+  }
+  pause() {
+    this.paused = true;
+  }
+  addEventListener() {}
+  removeEventListener() {}
+}
+
+const song = (id: string, hookOffsetSec: number | null) => ({ id, title: id, audioUrl: `${id}.mp3`, hookOffsetSec, replayGain: 0 }) as Song;
+
+describe("Box previews", () => {
+  let audio: FakeAudio;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("Audio", function () {
+      audio ??= new FakeAudio();
+      return audio;
+    });
+    vi.stubGlobal("HTMLMediaElement", { HAVE_METADATA: 1 });
+    vi.stubGlobal("document", { hidden: false, addEventListener() {} });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    Object.assign(manager, { playing: true, canDuck: true });
+  });
+
+  afterEach(() => {
+    stopPreview();
+    vi.clearAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("plays the clip from its hook with the broadcast ducked, and brings it back up after previewSec", async () => {
+    playPreview(song("anthem", 42));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(audio).toMatchObject({ src: "anthem.mp3", currentTime: 42, paused: false, volume: 0.8 });
+    expect(manager.duck).toHaveBeenLastCalledWith(0.2, expect.any(Number));
+    expect(getBoxPreview()).toMatchObject({ songId: "anthem", startedAt: expect.any(Number) });
+
+    await vi.advanceTimersByTimeAsync(STATION_RULES.previewSec * 1000);
+    expect(getBoxPreview()).toBeNull();
+    expect(manager.duck).toHaveBeenLastCalledWith(1, expect.any(Number));
+    expect(manager.pause).not.toHaveBeenCalled();
+  });
+
+  it("moves a hook too close to the end back, so the whole clip fits", () => {
+    playPreview(song("late-hook", 55));
+    expect(audio.currentTime).toBe(60 - STATION_RULES.previewSec);
+  });
+
+  it("ducks once for a run of previews, not on every switch between candidates", () => {
+    playPreview(song("first", 10));
+    playPreview(song("second", 20));
+
+    expect(manager.duck.mock.calls.filter(([level]) => level < 1)).toHaveLength(1);
+    expect(getBoxPreview()?.songId).toBe("second");
+  });
+
+  it("pauses the broadcast where it can't be ducked, and resumes it afterwards", () => {
+    manager.canDuck = false;
+    playPreview(song("no-web-audio", 0));
+    expect(manager.pause).toHaveBeenCalledOnce();
+
+    stopPreview();
+    expect(manager.play).toHaveBeenCalledOnce();
+  });
+});
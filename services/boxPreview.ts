@@ -0,0 +1,169 @@
+/**
+ * @file boxPreview - The Box's 10-second previews (docs/SPECIFICATIONS.md, THE_BOX_MECHANICS.md).
+ *
+ * A preview plays STATION_RULES.previewSec of a candidate from its hook (hook_offset_sec,
+ * found by services/loudness.ts), at the station's loudness, on an audio element of its own.
+ * The broadcast is ducked underneath and comes back up when the preview ends.
+ *
+ * The element joins the decks' AudioContext, so phones with a single audio focus mix the two
+ * instead of pausing the broadcast (and the gains work on iOS, where element volume is
+ * read-only). Without Web Audio the broadcast can't be ducked, so it pauses for the preview.
+ * Either way, a broadcast that was playing before the preview plays after it.
+ */
+
+import { getBroadcastManager } from "./globalBroadcastManager";
+import { dbToGain } from "./loudness";
+import { STATION_RULES } from "./stationRules";
+import type { Song } from "../types";
+
+const DUCK_LEVEL = 0.2; // the broadcast stays audible underneath, about -14 dB
+const FADE_SEC = 0.3;
+
+/** The preview playing (or loading) right now. */
+export interface BoxPreview {
+  songId: string;
+  startedAt: number | null; // Date.now() when the audio started; null while it loads
+  durationSec: number;
+}
+
+export type BoxPreviewListener = (preview: BoxPreview | null) => void;
+
+const listeners = new Set<BoxPreviewListener>();
+let element: HTMLAudioElement | null = null;
+let output: GainNode | null = null; // the element's gain in the deck graph
+let pendingSeek: (() => void) | null = null;
+let current: BoxPreview | null = null;
+let endTimer: ReturnType<typeof setTimeout> | null = null;
+let broadcastWasPlaying = false;
+
+const setCurrent = (preview: BoxPreview | null) => {
+  current = preview;
+  listeners.forEach((listener) => {
+    try {
+      listener(preview);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+};
+
+const getElement = (): HTMLAudioElement => {
+  if (element) return element;
+  element = new Audio();
+  element.preload = "auto";
+  element.crossOrigin = "anonymous"; // Web Audio hears silence from a cross-origin source without CORS
+  element.addEventListener("ended", () => stopPreview());
+  element.addEventListener("error", () => {
+    console.warn("🎧 Preview failed to load:", element?.error?.message ?? "unknown error");
+    stopPreview();
+  });
+  // A preview left running in a background tab would keep the broadcast ducked
+  document.addEventListener("visibilitychange", () => {
+    if (document.hidden) stopPreview();
+  });
+  return element;
+};
+
+/** Where the preview starts: the hook, moved back if the song ends before the preview would. */
+const previewStart = (song: Song, durationSec: number): number => {
+  const hook = song.hookOffsetSec ?? 0;
+  if (!Number.isFinite(durationSec)) return hook;
+  return Math.max(0, Math.min(hook, durationSec - STATION_RULES.previewSec));
+};
+
+/** The preview playing right now, if any. */
+export const getBoxPreview = (): BoxPreview | null => current;
+
+/**
+ * Subscribes to previews starting and stopping.
+ * @returns A disposer that removes the listener.
+ */
+export const onBoxPreviewChanged = (listener: BoxPreviewListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Plays `song`'s preview, replacing any preview already playing. Call from the click that asks
+ * for it: mobile browsers only start audio from a user gesture.
+ */
+export const playPreview = (song: Song) => {
+  const manager = getBroadcastManager();
+  const audio = getElement();
+  output = manager.attachPreview(audio);
+
+  if (endTimer) clearTimeout(endTimer);
+  endTimer = null;
+
+  // Duck the broadcast once per run of previews, not on every switch between candidates
+  if (!current) {
+    broadcastWasPlaying = manager.isPlaying();
+    if (!manager.duck(DUCK_LEVEL, FADE_SEC) && broadcastWasPlaying) manager.pause();
+  }
+  setCurrent({ songId: song.id, startedAt: null, durationSec: STATION_RULES.previewSec });
+
+  if (audio.src !== song.audioUrl || audio.error) audio.src = song.audioUrl;
+  audio.volume = manager.getVolume(); // read-only on iOS; there the gain below is all there is
+  if (output) {
+    const now = output.context.currentTime;
+    output.gain.cancelScheduledValues(now);
+    output.gain.setValueAtTime(0, now);
+    output.gain.linearRampToValueAtTime(dbToGain(song.replayGain ?? 0), now + FADE_SEC);
+  }
+
+  if (pendingSeek) audio.removeEventListener("loadedmetadata", pendingSeek);
+  pendingSeek = null;
+  const seek = () => {
+    pendingSeek = null;
+    audio.currentTime = previewStart(song, audio.duration);
+  };
+  if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) seek();
+  else {
+    pendingSeek = seek;
+    audio.addEventListener("loadedmetadata", seek, { once: true });
+  }
+
+  console.log(`🎧 Previewing ${song.title} from ${song.hookOffsetSec ?? 0}s`);
+  audio
+    .play()
+    .then(() => {
+      if (current?.songId !== song.id) return; // another preview took over while this one loaded
+      setCurrent({ ...current, startedAt: Date.now() });
+      endTimer = setTimeout(() => stopPreview(), STATION_RULES.previewSec * 1000);
+    })
+    .catch((e) => {
+      if (e.name === "AbortError") return; // replaced by the next preview
+      console.warn("🎧 Preview playback failed:", e);
+      if (current?.songId === song.id) stopPreview();
+    });
+};
+
+/** Stops the preview and brings the broadcast back. */
+export const stopPreview = () => {
+  if (!current) return;
+  if (endTimer) clearTimeout(endTimer);
+  endTimer = null;
+  setCurrent(null);
+
+  const audio = getElement();
+  const manager = getBroadcastManager();
+  if (output) {
+    const now = output.context.currentTime;
+    output.gain.cancelScheduledValues(now);
+    output.gain.setValueAtTime(output.gain.value, now);
+    output.gain.linearRampToValueAtTime(0, now + FADE_SEC);
+    setTimeout(() => {
+      if (!current) audio.pause();
+    }, FADE_SEC * 1000);
+  } else {
+    audio.pause();
+  }
+
+  manager.duck(1, FADE_SEC);
+  // Paused for the preview, or by a phone that handed its audio focus to it
+  if (broadcastWasPlaying && !manager.isPlaying()) {
+    manager.play().catch((e) => console.warn("🎧 Couldn't resume the broadcast after the preview:", e));
+  }
+};
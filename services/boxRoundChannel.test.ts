@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createBoxRoundPublisher, onBoxRoundState, type BoxRoundState } from "./boxRoundChannel";
+import { castBoxVote } from "./boxRoundService";
+import { backend } from "./radioBackend";
+import { songRepository, toSong } from "./songRepository";
+import { playEndsAt } from "./stationRules";
+import type { Song } from "../types";
+
+describe("the Box round channel on the in-memory backend", () => {
+  let leaseToken: number | null;
+  let playing: Song | null = null;
+  let startedAt: string | null = null;
+  const heard: (BoxRoundState | null)[] = [];
+  let stopListening: () => void;
+  const publisher = createBoxRoundPublisher({ nowPlaying: () => playing, songStartedAt: () => startedAt });
+
+  const advance = async () => {
+    await backend.rpc("advance_round", { expected_song_id: playing?.id ?? null, lease_token: leaseToken });
+    const broadcast = (await backend.broadcasts.get())!;
+    playing = toSong(broadcast.current_song!);
+    startedAt = broadcast.song_started_at;
+  };
+
+  const latest = () => heard.at(-1)!;
+
+  beforeAll(async () => {
+    ({ token: leaseToken } = await backend.rpc("acquire_leadership", { p_session: "box-round-test" }));
+    await advance();
+  });
+
+  afterAll(() => {
+    stopListening?.();
+    publisher.stop();
+  });
+
+  it("gives a new subscriber the open round, closing when the play on air ends", async () => {
+    stopListening = onBoxRoundState((state) => heard.push(state));
+
+    await vi.waitFor(() => expect(heard).not.toHaveLength(0));
+    expect(latest()).toMatchObject({ round: { status: "open" }, deadline: playEndsAt(playing!, startedAt!) });
+    expect(Object.values(latest().tallies).every((tally) => tally.votes === 0)).toBe(true);
+  });
+
+  it("pushes the tallies as votes land", async () => {
+    const [candidate] = latest().round.candidateIds;
+    await castBoxVote(latest().round.id, candidate);
+    await publisher.publish();
+
+    expect(latest().tallies[candidate]).toMatchObject({ votes: 1, humanVotes: 1 });
+  });
+
+  it("shows the closed round's winner before the next round", async () => {
+    const closing = latest().round;
+    const [winner] = closing.candidateIds;
+    heard.length = 0;
+
+    await advance();
+    await publisher.publish();
+
+    const result = heard.findIndex((state) => state?.round.id === closing.id);
+    const next = heard.findIndex((state) => state?.round.status === "open" && state.round.id !== closing.id);
+    expect(heard[result]).toMatchObject({ round: { status: "closed", winnerId: winner }, deadline: null });
+    expect(next).toBeGreaterThan(result);
+    expect(playing?.id).toBe(winner);
+  });
+
+  it("leaves the deadline off while a debut waits for the next slot", async () => {
+    await songRepository.insert({ uploader_id: "newcomer", title: "First Steps", artist_name: "Newcomer", audio_url: "first-steps.mp3", status: "debut", is_debut: true });
+    await publisher.publish();
+
+    expect(latest()).toMatchObject({ round: { status: "open" }, deadline: null });
+  });
+});
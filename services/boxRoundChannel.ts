@@ -0,0 +1,194 @@
+/**
+ * @file boxRoundChannel - The Box's live round, pushed to every client.
+ *
+ * The lease holder publishes the open round, its tallies and its deadline on the "box-round"
+ * channel whenever a vote lands, the round changes or a new play starts (and on every conductor
+ * tick, for anyone who missed a push). When a round closes, its final tallies and winner go out
+ * once more before the next round, so The Box can show the result. Clients load a snapshot when
+ * they first subscribe and follow the pushes from there; nobody polls the vote ledgers.
+ *
+ * The deadline is when the play on air ends (playEndsAt): cast_box_vote refuses votes from then
+ * (box_vote_deadline, 032_box_vote_deadline.sql) and advance_round resolves the round, unless a
+ * debut or a DSW farewell takes the next slot and the round stays open through it.
+ */
+
+import { backend, type RadioChannel } from "./radioBackend";
+import { songRepository, toSong } from "./songRepository";
+import { getOpenRound, getRound, getRoundTallies } from "./boxRoundService";
+import { playEndsAt } from "./stationRules";
+import type { BoxRound, BoxTallies, Song } from "../types";
+
+/** A round as The Box shows it. */
+export interface BoxRoundState {
+  round: BoxRound;
+  tallies: BoxTallies;
+  deadline: number | null; // server time (ms) the vote closes; null if it stays open through the next play
+}
+
+/** Gets the open round's state, or null while no round is open. */
+export type BoxRoundListener = (state: BoxRoundState | null) => void;
+
+const CHANNEL = "box-round";
+const EVENT = "round_state";
+const PUBLISH_DEBOUNCE_MS = 300; // a burst of crowd votes goes out as one push
+
+const listeners = new Set<BoxRoundListener>();
+let channel: RadioChannel | null = null;
+let latest: BoxRoundState | null | undefined; // undefined until the first snapshot or push
+let pushesHeard = 0; // so a slow snapshot doesn't overwrite a newer push
+let loading = false;
+
+const deliver = (state: BoxRoundState | null) => {
+  latest = state;
+  listeners.forEach((listener) => {
+    try {
+      listener(state);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+};
+
+const ensureChannel = () => {
+  if (channel) return channel;
+  channel = backend.realtime
+    .channel(CHANNEL)
+    .on(EVENT, (payload) => {
+      pushesHeard++;
+      deliver(payload as BoxRoundState | null);
+    })
+    .subscribe();
+  return channel;
+};
+
+/** A debut or a DSW farewell is waiting for the next slot (step 1 of advance_round, 021_advance_round.sql). */
+const roundHeldOpen = async (): Promise<boolean> => {
+  if ((await songRepository.count({ status: "debut" })) > 0) return true;
+  const dsw = await songRepository.listRows({ status: "pool", is_dsw: true });
+  return dsw.some((song) => song.dsw_farewell_at !== null);
+};
+
+/** A round's state, given the play on air. Closed rounds have no deadline. */
+const readState = async (round: BoxRound, playing: Song | null, startedAt: string | null): Promise<BoxRoundState> => {
+  const tallies = await getRoundTallies(round.id);
+  if (round.status !== "open" || !playing || !startedAt || (await roundHeldOpen())) {
+    return { round, tallies, deadline: null };
+  }
+  return { round, tallies, deadline: playEndsAt(playing, startedAt) };
+};
+
+/** The state as it stands, for a client that hasn't heard a push yet. */
+const loadSnapshot = async () => {
+  loading = true;
+  const heard = pushesHeard;
+  try {
+    const [round, broadcast] = await Promise.all([getOpenRound(), backend.broadcasts.get()]);
+    const playing = broadcast?.current_song ? toSong(broadcast.current_song) : null;
+    const state = round ? await readState(round, playing, broadcast?.song_started_at ?? null) : null;
+    if (pushesHeard === heard) deliver(state);
+  } catch (error) {
+    console.error("Error loading the Box round:", error);
+  } finally {
+    loading = false;
+  }
+};
+
+/**
+ * Subscribes to the open round. The listener hears the current state straight away (once it's
+ * loaded), then every push.
+ * @returns A disposer that removes the listener.
+ */
+export const onBoxRoundState = (listener: BoxRoundListener): (() => void) => {
+  ensureChannel();
+  listeners.add(listener);
+  if (latest !== undefined) listener(latest);
+  else if (!loading) loadSnapshot();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+interface PublisherOptions {
+  nowPlaying: () => Song | null;
+  songStartedAt: () => string | null;
+}
+
+/**
+ * The lease holder's side: watches the vote ledgers and the rounds and publishes every change.
+ * StationConductor runs it while it leads.
+ */
+export const createBoxRoundPublisher = ({ nowPlaying, songStartedAt }: PublisherOptions) => {
+  let published: BoxRound | null = null; // the open round last published
+  let stopWatching: (() => void)[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+  let again = false;
+
+  /** Delivers locally and to every other client. */
+  const send = async (state: BoxRoundState | null) => {
+    deliver(state);
+    await ensureChannel().send(EVENT, state);
+  };
+
+  const run = async () => {
+    const round = await getOpenRound();
+    // The round last published is over: its result goes out first
+    if (published && published.id !== round?.id) {
+      const closed = await getRound(published.id);
+      if (closed) await send(await readState(closed, null, null));
+    }
+    published = round;
+    await send(round ? await readState(round, nowPlaying(), songStartedAt()) : null);
+  };
+
+  /** Publishes the round now. Asked again mid-publish, it publishes once more when done. */
+  const publish = async (): Promise<void> => {
+    if (running) {
+      again = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        again = false;
+        try {
+          await run();
+        } catch (error) {
+          console.error("Error publishing the Box round:", error);
+        }
+      } while (again);
+    })();
+    try {
+      await running;
+    } finally {
+      running = null;
+    }
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      publish();
+    }, PUBLISH_DEBOUNCE_MS);
+  };
+
+  return {
+    start() {
+      if (stopWatching.length) return;
+      stopWatching = ["votes", "simulated_votes", "box_rounds"].map((table) => backend.realtime.onTableChange(table, schedule));
+      publish();
+    },
+
+    stop() {
+      stopWatching.forEach((stop) => stop());
+      stopWatching = [];
+      if (timer) clearTimeout(timer);
+      timer = null;
+      published = null;
+    },
+
+    publish,
+  };
+};
+
+export type BoxRoundPublisher = ReturnType<typeof createBoxRoundPublisher>;
@@ -0,0 +1,144 @@
+/**
+ * @file This service handles Box rounds and the per-user vote ledger.
+ * Each Box has a round record; listeners get one vote per round and tallies
+ * are computed from the ledger (see supabase/migrations/014_box_rounds.sql).
+ */
+import { backend, type BoxRoundRow } from "./radioBackend";
+import type { BoxRound, BoxTallies, BoxEntrant, CrowdTaste } from "../types";
+
+/** One virtual listener's vote, as cast_simulated_votes takes it. */
+export interface SimulatedVote {
+  listener: string;
+  song_id: string;
+  taste: CrowdTaste;
+}
+
+const mapDbRoundToAppRound = (dbRound: BoxRoundRow): BoxRound => ({
+  id: dbRound.id,
+  candidateIds: dbRound.candidate_ids,
+  status: dbRound.status,
+  winnerId: dbRound.winner_id,
+  startedAt: dbRound.started_at,
+  closedAt: dbRound.closed_at,
+  selection: dbRound.selection || {},
+});
+
+/**
+ * Shapes entrants as stored on box_rounds.selection: { [songId]: { strategy, score, reason } }.
+ */
+export const toSelectionJson = (entrants: BoxEntrant[]): BoxRound["selection"] =>
+  Object.fromEntries(entrants.map(({ songId, ...why }) => [songId, why]));
+
+/**
+ * Fetches the round currently open for voting, if any.
+ */
+export const getOpenRound = async (): Promise<BoxRound | null> => {
+  try {
+    const data = await backend.boxRounds.getOpen();
+    return data ? mapDbRoundToAppRound(data) : null;
+  } catch (error) {
+    console.error("Error fetching open box round:", error);
+    return null;
+  }
+};
+
+/**
+ * Fetches a round by id, open or not.
+ */
+export const getRound = async (roundId: string): Promise<BoxRound | null> => {
+  try {
+    const data = await backend.boxRounds.get(roundId);
+    return data ? mapDbRoundToAppRound(data) : null;
+  } catch (error) {
+    console.error("Error fetching box round:", error);
+    return null;
+  }
+};
+
+/**
+ * Makes sure the open round matches the songs currently in the Box.
+ * @param entrants Why the fresh songs were picked, recorded if a new round opens.
+ * @returns The open round's id, or null if the Box is empty.
+ */
+export const ensureBoxRound = async (entrants: BoxEntrant[] = []): Promise<string | null> => {
+  try {
+    return await backend.rpc("ensure_box_round", {
+      p_selection: toSelectionJson(entrants),
+    });
+  } catch (error) {
+    console.error("Error ensuring box round:", error);
+    return null;
+  }
+};
+
+/**
+ * Computes the vote tallies for a round from the human and simulated ledgers.
+ * @returns Votes per candidate song id (candidates without votes are 0).
+ */
+export const getRoundTallies = async (roundId: string): Promise<BoxTallies> => {
+  try {
+    const data = await backend.boxRounds.tallies(roundId);
+    return Object.fromEntries(
+      data.map((row) => [row.song_id, { votes: row.votes, humanVotes: row.human_votes, simulatedVotes: row.simulated_votes }]),
+    );
+  } catch (error) {
+    console.error("Error fetching box tallies:", error);
+    return {};
+  }
+};
+
+/**
+ * Fetches the song the given user voted for in a round, if any.
+ */
+export const getUserVote = async (
+  roundId: string,
+  userId: string,
+): Promise<string | null> => {
+  try {
+    return await backend.boxRounds.userVote(roundId, userId);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Casts the signed-in user's vote for a Box candidate, weighted by their tier (ENTITLEMENTS.voteWeight).
+ * @returns true if the vote was recorded, false if they already voted this round.
+ */
+export const castBoxVote = async (
+  roundId: string,
+  songId: string,
+): Promise<boolean> => {
+  try {
+    const recorded = await backend.rpc("cast_box_vote", {
+      p_round_id: roundId,
+      p_song_id: songId,
+    });
+    return recorded === true;
+  } catch (error) {
+    console.error("Error casting box vote:", error);
+    throw new Error("Failed to cast vote. The round may have closed.");
+  }
+};
+
+/**
+ * Records virtual listeners' votes in their own ledger (024_simulated_votes.sql).
+ * Fenced like advance_round: only the lease holder runs the crowd.
+ * @returns How many were recorded; listeners who already voted this round are skipped.
+ */
+export const castSimulatedVotes = async (
+  roundId: string,
+  votes: SimulatedVote[],
+  leaseToken: number | null,
+): Promise<number> => {
+  try {
+    return await backend.rpc("cast_simulated_votes", {
+      p_round_id: roundId,
+      p_votes: votes,
+      lease_token: leaseToken,
+    });
+  } catch (error) {
+    console.error("Error casting simulated votes:", error);
+    return 0;
+  }
+};
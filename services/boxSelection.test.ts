@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { createRandom, isEligible, oldestFirstStrategy, selectBoxEntrants, weightedStrategy } from "./boxSelection";
+import { STATION_RULES } from "./stationRules";
+import type { Song } from "../types";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+const hoursAgo = (hours: number) => new Date(NOW - hours * 60 * 60 * 1000).toISOString();
+
+const song = (id: string, overrides: Partial<Song> = {}): Song => ({
+  id,
+  uploaderId: "uploader-a",
+  title: `Song ${id}`,
+  artistName: "Artist",
+  source: "upload",
+  audioUrl: `https://example.test/${id}.mp3`,
+  durationSec: 180,
+  stars: 5,
+  isDsw: false,
+  boxRoundsSeen: 0,
+  boxRoundsLost: 0,
+  boxAppearanceCount: 0,
+  status: "pool",
+  playCount: 3,
+  upvotes: 0,
+  downvotes: 0,
+  lastPlayedAt: hoursAgo(48),
+  createdAt: hoursAgo(24 * 30),
+  ...overrides,
+});
+
+const context = (seed = "round-1") => ({ seed, now: NOW, rules: STATION_RULES, boxSongs: [] as Song[] });
+
+describe("createRandom", () => {
+  it("replays the same sequence for the same seed", () => {
+    const a = createRandom("seed");
+    const b = createRandom("seed");
+    const sequence = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+    expect(sequence.every((n) => n >= 0 && n < 1)).toBe(true);
+  });
+
+  it("gives a different sequence for a different seed", () => {
+    expect(createRandom("seed")()).not.toBe(createRandom("other seed")());
+  });
+});
+
+describe("isEligible", () => {
+  it("lets only pool and review songs that aren't Dead Songs Walking into The Box", () => {
+    expect(isEligible(song("a"))).toBe(true);
+    expect(isEligible(song("b", { status: "review" }))).toBe(true);
+    expect(isEligible(song("c", { isDsw: true }))).toBe(false);
+    for (const status of ["graveyard", "in_box", "now_playing", "next_play", "debut"] as const) {
+      expect(isEligible(song(status, { status }))).toBe(false);
+    }
+  });
+});
+
+describe("weightedStrategy", () => {
+  const pool = ["a", "b", "c", "d", "e", "f"].map((id, i) => song(id, { uploaderId: `uploader-${i % 3}` }));
+
+  it("picks the same entrants for the same seed", () => {
+    const first = weightedStrategy.select(pool, 3, context("seed-x"));
+    expect(weightedStrategy.select(pool, 3, context("seed-x"))).toEqual(first);
+    expect(first).toHaveLength(3);
+    expect(new Set(first.map((pick) => pick.songId)).size).toBe(3);
+  });
+
+  it("never picks an ineligible song", () => {
+    const mixed = [song("ok"), song("grave", { status: "graveyard" }), song("dsw", { isDsw: true })];
+    expect(weightedStrategy.select(mixed, 3, context()).map((pick) => pick.songId)).toEqual(["ok"]);
+  });
+
+  it("keeps each uploader under the cap while others have songs", () => {
+    const rules = { ...STATION_RULES, maxSongsPerUploader: 1 };
+    const lopsided = [song("a1"), song("a2"), song("a3"), song("b1", { uploaderId: "uploader-b" })];
+    for (const seed of ["s1", "s2", "s3", "s4"]) {
+      const picks = weightedStrategy.select(lopsided, 2, { ...context(seed), rules });
+      expect(picks.map((pick) => pick.songId)).toContain("b1");
+      expect(picks.every((pick) => !pick.reason.endsWith("uploader cap relaxed"))).toBe(true);
+    }
+  });
+
+  it("counts songs already in The Box against the cap", () => {
+    const rules = { ...STATION_RULES, maxSongsPerUploader: 1 };
+    const picks = weightedStrategy.select([song("a1"), song("b1", { uploaderId: "uploader-b" })], 1, {
+      ...context(),
+      rules,
+      boxSongs: [song("held", { status: "in_box" })],
+    });
+    expect(picks.map((pick) => pick.songId)).toEqual(["b1"]);
+  });
+
+  it("relaxes the cap rather than leave The Box half empty", () => {
+    const rules = { ...STATION_RULES, maxSongsPerUploader: 1 };
+    const picks = weightedStrategy.select([song("a1"), song("a2"), song("a3")], 3, { ...context(), rules });
+    expect(picks).toHaveLength(3);
+    expect(picks[0].reason.endsWith("uploader cap relaxed")).toBe(false);
+    expect(picks.slice(1).every((pick) => pick.reason.endsWith(", uploader cap relaxed"))).toBe(true);
+  });
+
+  it("favours a fresh debut over a well-worn song", () => {
+    const fresh = song("fresh", { playCount: 0, lastPlayedAt: null, createdAt: hoursAgo(1) });
+    const [first] = weightedStrategy.select([fresh, song("worn", { playCount: 40, lastPlayedAt: hoursAgo(1) })], 2, context());
+    expect(first.songId).toBe("fresh");
+    expect(first.reason).toContain(`debut boost ×${STATION_RULES.debutBoost}`);
+  });
+});
+
+describe("oldestFirstStrategy", () => {
+  it("picks whoever has waited longest, never-played songs first", () => {
+    const pool = [song("recent", { lastPlayedAt: hoursAgo(1) }), song("never", { lastPlayedAt: null }), song("old", { lastPlayedAt: hoursAgo(72) })];
+    const picks = oldestFirstStrategy.select(pool, 2, context());
+    expect(picks.map((pick) => pick.songId)).toEqual(["never", "old"]);
+    expect(picks.map((pick) => pick.reason)).toEqual(["never played", "72h since last play"]);
+  });
+});
+
+describe("selectBoxEntrants", () => {
+  it("uses the strategy named in the rules", () => {
+    const pool = [song("a", { lastPlayedAt: hoursAgo(1) }), song("b", { lastPlayedAt: hoursAgo(5) })];
+    const picks = selectBoxEntrants(pool, 1, { seed: "s", now: NOW, boxSongs: [], rules: { ...STATION_RULES, selectionStrategy: "oldest_first" } });
+    expect(picks).toEqual([{ songId: "b", strategy: "oldest_first", score: 0, reason: "5h since last play" }]);
+  });
+
+  it("falls back to the weighted lottery for an unknown strategy", () => {
+    const picks = selectBoxEntrants([song("a")], 1, { seed: "s", now: NOW, boxSongs: [], rules: { ...STATION_RULES, selectionStrategy: "nope" } });
+    expect(picks[0].strategy).toBe("weighted");
+  });
+});
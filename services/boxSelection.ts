@@ -0,0 +1,169 @@
+/**
+ * @file boxSelection - Pluggable strategies for picking the songs that enter The Box.
+ * Pure and deterministic: the same pool, seed and rules always give the same picks,
+ * and every pick carries a human-readable reason for the DJ Booth.
+ */
+
+import type { Song, StationRules, BoxEntrant } from "../types";
+import { STATION_RULES } from "./stationRules";
+
+export interface SelectionContext {
+  seed: string;
+  now: number; // ms timestamp, so recency is reproducible too
+  rules: StationRules;
+  boxSongs: Song[]; // songs already in The Box (held-over challengers)
+}
+
+export interface SelectionStrategy {
+  name: string;
+  /** Ranks up to `count` entrants from the eligible pool, best first. */
+  select(pool: Song[], count: number, context: SelectionContext): BoxEntrant[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const RECENCY_WINDOW_HOURS = 24; // a song played a day ago is fully "rested"
+const DEBUT_WINDOW_HOURS = 24;
+
+// --- Seeded randomness ---
+
+/** FNV-1a string hash, used to turn a seed string into a 32-bit PRNG state. */
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** mulberry32: tiny, fast, good enough for fair picks. Returns floats in [0, 1). */
+export const createRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// --- Eligibility ---
+
+/** The graveyard, Dead Songs Walking (they get a farewell play instead) and anything on air or already in The Box never enter. */
+export const isEligible = (song: Song) => (song.status === "pool" || song.status === "review") && !song.isDsw;
+
+const hoursSince = (iso: string | null | undefined, now: number) =>
+  iso ? Math.max(0, (now - new Date(iso).getTime()) / HOUR_MS) : Infinity;
+
+const isFreshDebut = (song: Song, now: number) =>
+  (song.playCount || 0) === 0 && hoursSince(song.createdAt, now) <= DEBUT_WINDOW_HOURS;
+
+// --- Strategies ---
+
+/**
+ * Weighted lottery: stars, time since last play, play count, uploader share and a debut boost
+ * all feed a weight; picks are drawn without replacement and respect the uploader cap.
+ */
+export const weightedStrategy: SelectionStrategy = {
+  name: "weighted",
+  select(pool, count, { seed, now, rules, boxSongs }) {
+    const random = createRandom(seed);
+    const eligible = pool.filter(isEligible);
+
+    // Songs per uploader in the pool: prolific uploaders share their odds
+    const uploaderShare = new Map<string, number>();
+    eligible.forEach((song) => uploaderShare.set(song.uploaderId, (uploaderShare.get(song.uploaderId) || 0) + 1));
+
+    const weigh = (song: Song) => {
+      const stars = song.isDsw ? 0 : song.stars ?? rules.startingStars;
+      const restedHours = hoursSince(song.lastPlayedAt, now);
+      const factors = {
+        stars: 0.5 + stars / rules.maxStars,
+        recency: 0.25 + 0.75 * Math.min(1, restedHours / RECENCY_WINDOW_HOURS),
+        plays: 1 / Math.sqrt(1 + (song.playCount || 0)),
+        uploader: 1 / Math.sqrt(uploaderShare.get(song.uploaderId) || 1),
+        debut: isFreshDebut(song, now) ? rules.debutBoost : 1,
+      };
+      const weight = factors.stars * factors.recency * factors.plays * factors.uploader * factors.debut;
+
+      const parts = [
+        `★${stars}`,
+        Number.isFinite(restedHours) ? `${Math.round(restedHours)}h since last play` : "never played",
+        `${song.playCount || 0} play${song.playCount === 1 ? "" : "s"}`,
+        `uploader has ${uploaderShare.get(song.uploaderId) || 1} in pool`,
+      ];
+      if (factors.debut > 1) parts.push(`debut boost ×${rules.debutBoost}`);
+
+      return { weight, detail: parts.join(", ") };
+    };
+
+    const weighed = eligible.map((song) => ({ song, ...weigh(song) }));
+    const perUploader = new Map<string, number>();
+    boxSongs.forEach((song) => perUploader.set(song.uploaderId, (perUploader.get(song.uploaderId) || 0) + 1));
+
+    const picks: BoxEntrant[] = [];
+    const draw = (respectCap: boolean) => {
+      while (picks.length < count) {
+        const open = weighed.filter(
+          (entry) =>
+            !picks.some((pick) => pick.songId === entry.song.id) &&
+            (!respectCap || (perUploader.get(entry.song.uploaderId) || 0) < rules.maxSongsPerUploader),
+        );
+        if (open.length === 0) return;
+
+        const total = open.reduce((sum, entry) => sum + entry.weight, 0);
+        let roll = random() * total;
+        const chosen = open.find((entry) => (roll -= entry.weight) < 0) ?? open[open.length - 1];
+
+        perUploader.set(chosen.song.uploaderId, (perUploader.get(chosen.song.uploaderId) || 0) + 1);
+        picks.push({
+          songId: chosen.song.id,
+          strategy: "weighted",
+          score: Number(chosen.weight.toFixed(3)),
+          reason: `${chosen.detail} (weight ${chosen.weight.toFixed(2)} of ${total.toFixed(2)})${respectCap ? "" : ", uploader cap relaxed"}`,
+        });
+      }
+    };
+
+    draw(true);
+    // Small stations (one uploader) would leave The Box half empty: relax the cap rather than go silent
+    draw(false);
+    return picks;
+  },
+};
+
+/** The original behaviour: whoever has waited longest since their last play. */
+export const oldestFirstStrategy: SelectionStrategy = {
+  name: "oldest_first",
+  select(pool, count, { now }) {
+    return pool
+      .filter(isEligible)
+      .sort((a, b) => hoursSince(b.lastPlayedAt, now) - hoursSince(a.lastPlayedAt, now) || a.id.localeCompare(b.id))
+      .slice(0, count)
+      .map((song) => ({
+        songId: song.id,
+        strategy: "oldest_first",
+        score: 0,
+        reason: song.lastPlayedAt ? `${Math.round(hoursSince(song.lastPlayedAt, now))}h since last play` : "never played",
+      }));
+  },
+};
+
+export const SELECTION_STRATEGIES: Record<string, SelectionStrategy> = {
+  [weightedStrategy.name]: weightedStrategy,
+  [oldestFirstStrategy.name]: oldestFirstStrategy,
+};
+
+/**
+ * Ranks Box entrants with the strategy named in the station rules (weighted by default).
+ */
+export const selectBoxEntrants = (
+  pool: Song[],
+  count: number,
+  context: Omit<SelectionContext, "rules"> & { rules?: StationRules },
+): BoxEntrant[] => {
+  const rules = context.rules ?? STATION_RULES;
+  const strategy = SELECTION_STRATEGIES[rules.selectionStrategy] ?? weightedStrategy;
+  return strategy.select(pool, count, { ...context, rules });
+};
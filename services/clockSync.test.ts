@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getClientId, getClockEstimate, getClockReports, serverNow, startClockSync } from "./clockSync";
+import { backend } from "./radioBackend";
+
+const SERVER_AHEAD_MS = 5000;
+
+/**
+ * server_clock() on a server SERVER_AHEAD_MS ahead of this device, with each trip taking `up` ms
+ * there and `down` ms back. A lopsided trip skews that sample by (up - down) / 2.
+ */
+const trips = (...legs: ([up: number, down: number] | "fails")[]) => {
+  const rpc = vi.spyOn(backend, "rpc");
+  legs.forEach((leg) =>
+    rpc.mockImplementationOnce(async () => {
+      if (leg === "fails") throw new Error("server_clock: offline");
+      const [up, down] = leg;
+      vi.setSystemTime(Date.now() + up);
+      const stamped = Date.now() + SERVER_AHEAD_MS;
+      vi.setSystemTime(Date.now() + down);
+      return stamped;
+    }),
+  );
+};
+
+describe("clock sync", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("samples the server itself and keeps the lowest-RTT sample, within half its RTT of the truth", async () => {
+    vi.useFakeTimers();
+    trips("fails", [200, 20], [10, 10], [300, 0]);
+
+    const stop = startClockSync({ label: () => "listener" });
+    await vi.advanceTimersByTimeAsync(4 * 500); // the start-up burst
+
+    const estimate = getClockEstimate();
+    expect(estimate).toMatchObject({ samples: 3, rttMs: 20, source: "rpc" });
+    expect(Math.abs(estimate.offsetMs - SERVER_AHEAD_MS)).toBeLessThanOrEqual(estimate.rttMs / 2);
+    expect(serverNow() - Date.now()).toBe(estimate.offsetMs);
+
+    expect(getClockReports().find((report) => report.clientId === getClientId())).toMatchObject({
+      label: "listener",
+      offsetMs: estimate.offsetMs,
+    });
+    stop();
+  });
+});
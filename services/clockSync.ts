@@ -0,0 +1,135 @@
+/**
+ * @file clockSync - NTP-style estimate of this device's clock offset to the server.
+ *
+ * Every client, leader or listener, samples Postgres (`server_clock()`) itself: one round trip
+ * gives t0 and t3 on this device and the server's instant in between. Assuming the trip is
+ * symmetric, the offset is that instant less the midpoint of t0 and t3, off by at most half the
+ * RTT however lopsided the trip really was. The estimate is the lowest-RTT sample in a short
+ * window, the same filter NTP uses, so the error budget is half of the best RTT seen lately.
+ * See supabase/migrations/015_clock_sync.sql and 035_clock_for_everyone.sql.
+ *
+ * Clients also post their current estimate on the "clock-sync" realtime channel, so any client
+ * can show a readout of every listener's offset (see components/ClockSyncReadout.tsx). Nobody
+ * takes the time from those reports.
+ */
+import { backend } from "./radioBackend";
+
+export interface ClockEstimate {
+  offsetMs: number; // add to Date.now() to get server time
+  rttMs: number;
+  samples: number;
+  source: "rpc" | "none";
+}
+
+export interface ClockReport {
+  clientId: string;
+  label: string | null;
+  offsetMs: number;
+  rttMs: number;
+  source: ClockEstimate["source"];
+  seenAt: number;
+}
+
+interface ClockSample {
+  offsetMs: number;
+  rttMs: number;
+}
+
+/** A client's estimate, as posted on the channel for the readout. */
+interface ReportMessage {
+  from: string;
+  report: Omit<ClockReport, "clientId" | "seenAt">;
+}
+
+interface ClockSyncOptions {
+  /** Shown next to this client's offset in the readout. */
+  label: () => string | null;
+}
+
+const CHANNEL = "clock-sync";
+const WINDOW = 8; // samples kept for the min-RTT filter
+const BURST = 4; // quick samples on start
+const BURST_SPACING_MS = 500;
+const INTERVAL_MS = 15000;
+const REPORT_TTL_MS = 60000;
+
+const clientId = Math.random().toString(36).substring(2, 10);
+let samples: ClockSample[] = [];
+let estimate: ClockEstimate = { offsetMs: 0, rttMs: 0, samples: 0, source: "none" };
+const reports = new Map<string, ClockReport>();
+
+/** This device's clock, corrected to server time (ms since epoch). */
+export const serverNow = (): number => Date.now() + estimate.offsetMs;
+
+export const getClockEstimate = (): ClockEstimate => estimate;
+
+export const getClientId = () => clientId;
+
+/** Latest estimate from every client heard on the channel, this one included. */
+export const getClockReports = (): ClockReport[] => {
+  const cutoff = Date.now() - REPORT_TTL_MS;
+  return [...reports.values()].filter((report) => report.seenAt >= cutoff);
+};
+
+const addSample = (sample: ClockSample) => {
+  samples = [...samples, sample].slice(-WINDOW);
+  const best = samples.reduce((a, b) => (b.rttMs < a.rttMs ? b : a));
+  estimate = { offsetMs: best.offsetMs, rttMs: best.rttMs, samples: samples.length, source: "rpc" };
+};
+
+/** One round trip to Postgres. The server stamps a single instant, so t1 = t2. */
+const sampleServer = async (): Promise<ClockSample | null> => {
+  const t0 = Date.now();
+  let serverMs: number;
+  try {
+    serverMs = await backend.rpc("server_clock");
+  } catch {
+    return null; // a missed sample; the next one tries again
+  }
+  const t3 = Date.now();
+
+  return { offsetMs: serverMs - (t0 + t3) / 2, rttMs: t3 - t0 };
+};
+
+export const startClockSync = ({ label }: ClockSyncOptions): (() => void) => {
+  const channel = backend.realtime.channel(CHANNEL);
+
+  channel
+    .on("report", (payload) => {
+      const { from, report } = payload as ReportMessage;
+      if (from !== clientId) reports.set(from, { ...report, clientId: from, seenAt: Date.now() });
+    })
+    .subscribe();
+
+  const report = () => {
+    const message: ReportMessage = {
+      from: clientId,
+      report: { label: label(), offsetMs: estimate.offsetMs, rttMs: estimate.rttMs, source: estimate.source },
+    };
+    reports.set(clientId, { ...message.report, clientId, seenAt: Date.now() });
+    channel.send("report", message);
+  };
+
+  const syncOnce = async () => {
+    const sample = await sampleServer();
+    if (sample) addSample(sample);
+    report();
+  };
+
+  let stopped = false;
+  let interval: ReturnType<typeof setInterval> | null = null;
+
+  (async () => {
+    for (let i = 0; i < BURST && !stopped; i++) {
+      await syncOnce();
+      await new Promise((r) => setTimeout(r, BURST_SPACING_MS));
+    }
+    if (!stopped) interval = setInterval(syncOnce, INTERVAL_MS);
+  })();
+
+  return () => {
+    stopped = true;
+    if (interval) clearInterval(interval);
+    channel.close();
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * @file clubChat - The club-chat channel: what listeners say, and the DJ's lines.
+ *
+ * A client has one club-chat subscription, opened here on first use and shared by TheChat and
+ * the DJ (PersistentRadioService). A message sent here reaches this client's listeners straight
+ * away and every other client over Realtime, which never echoes it back to the sender.
+ */
+
+import { backend, type RadioChannel } from "./radioBackend";
+import type { ChatMessage } from "../types";
+
+export type ChatListener = (message: ChatMessage) => void;
+
+const CHANNEL = "club-chat";
+const EVENT = "new_message";
+
+const listeners = new Set<ChatListener>();
+let channel: RadioChannel | null = null;
+
+const deliver = (message: ChatMessage) =>
+  listeners.forEach((listener) => {
+    try {
+      listener(message);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+
+const ensureChannel = () => {
+  if (channel) return channel;
+  channel = backend.realtime
+    .channel(CHANNEL)
+    .on(EVENT, (payload) => deliver(payload as ChatMessage))
+    .subscribe();
+  return channel;
+};
+
+/**
+ * Subscribes to chat messages from any client (including this one).
+ * @returns A disposer that removes the listener.
+ */
+export const onChatMessage = (listener: ChatListener): (() => void) => {
+  ensureChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Delivers a message locally and to every other client. */
+export const sendChatMessage = async (message: ChatMessage) => {
+  deliver(message);
+  await ensureChannel().send(EVENT, message);
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createPresenceRoster, onClubPresence, trackClubPresence } from "./clubPresence";
+import { backend } from "./radioBackend";
+
+const settle = async () => {
+  for (let i = 0; i < 3; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+};
+
+describe("club presence on the in-memory backend", () => {
+  it("hands out one channel per name", () => {
+    expect(backend.realtime.channel("club-presence")).toBe(backend.realtime.channel("club-presence"));
+  });
+
+  it("shares one subscription, so stopping the roster keeps the listener tuned in", async () => {
+    const stopTracking = trackClubPresence({ user_id: "listener-a", name: "A" });
+    const first = createPresenceRoster();
+    first.start();
+    await settle();
+    expect(first.count()).toBe(1);
+
+    first.stop();
+    const second = createPresenceRoster();
+    second.start(); // hears everyone already here
+    expect(second.has("listener-a")).toBe(true);
+
+    const left: string[] = [];
+    const stopListening = onClubPresence(({ event, presences }) => {
+      if (event === "leave") left.push(...presences.map((presence) => presence.user_id));
+    });
+    stopTracking();
+    await settle();
+    expect(second.count()).toBe(0);
+    expect(left).toEqual(["listener-a"]);
+
+    stopListening();
+    second.stop();
+  });
+
+  it("tunes in on the server while tracked, where the skip petitions count listeners", async () => {
+    const listeners = async () => (await backend.rpc("skip_petition", { p_play_id: "any-play" })).listeners;
+
+    const stopTracking = trackClubPresence({ user_id: "local-dj", name: "Local DJ" });
+    await settle();
+    expect(await listeners()).toBe(1);
+
+    stopTracking();
+    await settle();
+    expect(await listeners()).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @file clubPresence - Who is tuned in: the distinct listeners on the club-presence channel.
+ *
+ * A client has one club-presence subscription, opened here on first use and shared by everything
+ * that needs it: PresenceAlerts tracks the signed-in listener on it and shows joins and leaves,
+ * and StationConductor runs a roster on it while it leads, for the crowd simulator and the skip
+ * petitions. Nobody else opens or closes the channel, so stopping the roster never takes the
+ * listener off the air.
+ *
+ * Listeners are counted by user id, so one listener with three tabs open counts once. The roster
+ * only watches; it never tracks, so the headless conductor isn't counted as a listener.
+ *
+ * The channel is a broadcast any client can spoof, so what counts on the server (the skip
+ * petitions) doesn't rely on it: a tracked listener also calls tune_in every third of
+ * STATION_RULES.tunedInSec, and the database counts who did (034_tuned_in.sql).
+ */
+
+import { backend, type Presence, type PresenceChange, type PresenceMeta, type RadioChannel } from "./radioBackend";
+import { STATION_RULES } from "./stationRules";
+
+const CHANNEL = "club-presence";
+const HEARTBEAT_MS = (STATION_RULES.tunedInSec * 1000) / 3; // two missed heartbeats still count
+
+const presenceListeners = new Set<(change: PresenceChange) => void>();
+const here = new Map<string, Presence>(); // presence ref -> presence, everyone on the channel
+let channel: RadioChannel | null = null;
+let subscribed = false;
+let tracked: PresenceMeta | null = null; // this client's presence, re-announced on every (re)subscribe
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+const notifyAll = (change: PresenceChange) =>
+  presenceListeners.forEach((listener) => {
+    try {
+      listener(change);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+
+const tuneIn = async () => {
+  try {
+    await backend.rpc("tune_in");
+  } catch (error) {
+    console.error("Error tuning in:", error);
+  }
+};
+
+const ensureChannel = () => {
+  if (channel) return channel;
+  channel = backend.realtime
+    .channel(CHANNEL)
+    .onPresence((change) => {
+      change.presences.forEach((presence) => {
+        if (change.event === "join") here.set(presence.presence_ref, presence);
+        else here.delete(presence.presence_ref);
+      });
+      notifyAll(change);
+    })
+    .subscribe((status) => {
+      subscribed = status === "SUBSCRIBED";
+      if (subscribed && tracked) channel?.track(tracked);
+    });
+  return channel;
+};
+
+/**
+ * Hears every join and leave on club-presence. A new listener first hears everyone already here.
+ * @returns A disposer that removes the listener.
+ */
+export const onClubPresence = (listener: (change: PresenceChange) => void): (() => void) => {
+  ensureChannel();
+  presenceListeners.add(listener);
+  if (here.size) listener({ event: "join", presences: [...here.values()] });
+  return () => {
+    presenceListeners.delete(listener);
+  };
+};
+
+/**
+ * Announces this client on club-presence.
+ * @returns A disposer that takes the presence back off (the subscription stays for the others).
+ */
+export const trackClubPresence = (meta: PresenceMeta): (() => void) => {
+  tracked = meta;
+  const presence = ensureChannel();
+  if (subscribed) presence.track(meta);
+  if (!heartbeat) {
+    tuneIn();
+    heartbeat = setInterval(tuneIn, HEARTBEAT_MS);
+  }
+  return () => {
+    if (tracked !== meta) return; // already replaced by a newer presence
+    tracked = null;
+    presence.untrack();
+    if (heartbeat) clearInterval(heartbeat);
+    heartbeat = null;
+    backend.rpc("tune_out").catch((error) => console.error("Error tuning out:", error));
+  };
+};
+
+export const createPresenceRoster = () => {
+  const present = new Map<string, Set<string>>(); // user id -> presence refs (one per tab)
+  const listeners = new Set<() => void>();
+  let stopListening: (() => void) | null = null;
+
+  const notify = () =>
+    listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (e) {
+        console.error(e);
+      }
+    });
+
+  return {
+    /** Starts following club-presence. */
+    start() {
+      if (stopListening) return;
+      stopListening = onClubPresence(({ event, presences }) => {
+        presences.forEach(({ user_id, presence_ref }) => {
+          const refs = present.get(user_id) ?? new Set<string>();
+          if (event === "join") refs.add(presence_ref);
+          else refs.delete(presence_ref);
+          if (refs.size) present.set(user_id, refs);
+          else present.delete(user_id);
+        });
+        notify();
+      });
+    },
+
+    stop() {
+      stopListening?.();
+      stopListening = null;
+      present.clear();
+    },
+
+    /** Distinct listeners tuned in. */
+    count: () => present.size,
+
+    has: (userId: string) => present.has(userId),
+
+    /**
+     * Hears every join and leave.
+     * @returns A disposer that removes the listener.
+     */
+    onChange(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export type PresenceRoster = ReturnType<typeof createPresenceRoster>;
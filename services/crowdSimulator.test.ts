@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { CROWD_CONFIG, createCrowdSimulator } from "./crowdSimulator";
+import { castBoxVote, getOpenRound, getRoundTallies } from "./boxRoundService";
+import { createPresenceRoster } from "./clubPresence";
+import { backend } from "./radioBackend";
+import { songRepository } from "./songRepository";
+import type { BoxRound } from "../types";
+
+describe("the crowd simulator on the in-memory backend", () => {
+  let leaseToken: number | null;
+  let round: BoxRound;
+
+  const crowd = (config: Partial<typeof CROWD_CONFIG> = {}) =>
+    createCrowdSimulator({
+      config: { ...CROWD_CONFIG, turnout: 1, ...config },
+      leaseToken: () => leaseToken,
+      roster: createPresenceRoster(), // nobody real tuned in
+    });
+
+  const crowdVotes = async () => Object.values(await getRoundTallies(round.id)).reduce((sum, tally) => sum + tally.simulatedVotes, 0);
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    ({ token: leaseToken } = await backend.rpc("acquire_leadership", { p_session: "crowd-test" }));
+    await backend.rpc("advance_round", { expected_song_id: null, lease_token: leaseToken });
+    round = (await getOpenRound())!;
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("goes quiet while enough real listeners are tuned in", async () => {
+    expect(await crowd({ humanQuorum: 0 }).step()).toBe(0);
+    expect(await crowdVotes()).toBe(0);
+  });
+
+  it("lets each virtual listener vote once a round, in the simulated ledger", async () => {
+    const simulator = crowd({ listeners: 6, tastes: { stars: 1, fresh: 0, random: 0 } });
+    const [favourite] = round.candidateIds;
+    await songRepository.update({ id: round.candidateIds }, { stars: 0 });
+    await songRepository.update({ id: favourite }, { stars: 10 });
+
+    expect(await simulator.step()).toBe(6);
+    expect(await simulator.step()).toBe(0);
+
+    const tallies = await getRoundTallies(round.id);
+    expect(tallies[favourite].simulatedVotes).toBeGreaterThanOrEqual(5); // 121 to 1 odds per listener
+    expect(Object.values(tallies).every((tally) => tally.humanVotes === 0)).toBe(true);
+  });
+
+  it("counts only the humans once anyone real has voted", async () => {
+    const underdog = round.candidateIds.at(-1)!;
+    expect(await castBoxVote(round.id, underdog)).toBe(true);
+
+    const tallies = await getRoundTallies(round.id);
+    expect(tallies[underdog].votes).toBe(tallies[underdog].humanVotes);
+    expect(Object.entries(tallies).filter(([, tally]) => tally.votes > 0).map(([id]) => id)).toEqual([underdog]);
+    expect(await crowdVotes()).toBe(6); // still on record, just not counted
+  });
+});
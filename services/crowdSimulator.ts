@@ -0,0 +1,120 @@
+/**
+ * @file crowdSimulator - Virtual listeners who vote in The Box while the club is quiet.
+ *
+ * Each virtual listener has a taste (high-star songs, fresh songs, or anything) and votes
+ * once per round, in a ledger of its own (024_simulated_votes.sql). Simulated votes never
+ * override real ones: once anyone real votes in a round, only human votes decide it. The
+ * crowd goes quiet altogether once enough real listeners are tuned in (the conductor's
+ * club-presence roster).
+ *
+ * The lease holder runs it from StationConductor's loop.
+ */
+
+import { songRepository } from "./songRepository";
+import { getOpenRound, castSimulatedVotes, type SimulatedVote } from "./boxRoundService";
+import { createRandom } from "./boxSelection";
+import type { PresenceRoster } from "./clubPresence";
+import type { CrowdTaste, Song } from "../types";
+
+export interface CrowdConfig {
+  listeners: number; // virtual listeners in the room
+  tastes: Record<CrowdTaste, number>; // relative share of the crowd with each taste
+  turnout: number; // chance that a listener who hasn't voted this round votes on a step
+  humanQuorum: number; // real listeners it takes to send the crowd home
+}
+
+export const CROWD_CONFIG: CrowdConfig = {
+  listeners: 12,
+  tastes: { stars: 2, fresh: 2, random: 1 },
+  turnout: 0.2,
+  humanQuorum: 5,
+};
+
+interface VirtualListener {
+  id: string;
+  taste: CrowdTaste;
+}
+
+/** How much a listener with each taste likes a song. */
+const TASTE_WEIGHTS: Record<CrowdTaste, (song: Song) => number> = {
+  stars: (song) => (song.stars + 1) ** 2,
+  fresh: (song) => 1 / (1 + song.playCount),
+  random: () => 1,
+};
+
+/** The crowd, tastes handed out in proportion to their shares: "crowd-0" ... "crowd-<n-1>". */
+const createListeners = ({ listeners, tastes }: CrowdConfig): VirtualListener[] => {
+  const shares = Object.entries(tastes) as [CrowdTaste, number][];
+  const total = shares.reduce((sum, [, share]) => sum + share, 0) || 1;
+
+  return Array.from({ length: listeners }, (_, i) => {
+    let point = ((i + 0.5) / listeners) * total;
+    const [taste] = shares.find(([, share]) => (point -= share) < 0) ?? ["random"];
+    return { id: `crowd-${i}`, taste };
+  });
+};
+
+/** A listener's pick in a round. Seeded, so it's the same whichever leader asks. */
+const pickFor = (listener: VirtualListener, candidates: Song[], roundId: string): Song => {
+  const weights = candidates.map(TASTE_WEIGHTS[listener.taste]);
+  let roll = createRandom(`${roundId}:${listener.id}`)() * weights.reduce((sum, w) => sum + w, 0);
+  return candidates.find((_, i) => (roll -= weights[i]) < 0) ?? candidates[candidates.length - 1];
+};
+
+interface CrowdOptions {
+  config?: CrowdConfig;
+  leaseToken: () => number | null; // the conductor's fencing token
+  roster: PresenceRoster; // the real listeners tuned in
+  random?: () => number; // turnout rolls
+}
+
+export const createCrowdSimulator = ({ config = CROWD_CONFIG, leaseToken, roster, random = Math.random }: CrowdOptions) => {
+  const listeners = createListeners(config);
+  const voted = new Set<string>(); // virtual listeners who voted in roundId
+  let roundId: string | null = null;
+  let quiet = false;
+
+  const realListeners = () => roster.count();
+
+  return {
+    /** Lets some of the listeners who haven't voted this round vote. Returns how many votes were recorded. */
+    async step(): Promise<number> {
+      const crowdHome = realListeners() >= config.humanQuorum;
+      if (crowdHome !== quiet) {
+        quiet = crowdHome;
+        console.log(
+          quiet
+            ? `🤖 Crowd: ${realListeners()} real listeners tuned in. The crowd goes quiet.`
+            : `🤖 Crowd: the club thinned out. ${config.listeners} virtual listeners are back.`,
+        );
+      }
+      if (quiet) return 0;
+
+      const round = await getOpenRound();
+      if (!round || round.candidateIds.length === 0) return 0;
+      if (round.id !== roundId) {
+        roundId = round.id;
+        voted.clear();
+      }
+
+      const voters = listeners.filter((listener) => !voted.has(listener.id) && random() < config.turnout);
+      if (voters.length === 0) return 0;
+
+      // Candidates in round order, so a seeded pick is the same on every leader
+      const songs = await songRepository.list({ id: round.candidateIds });
+      const candidates = round.candidateIds.flatMap((id) => songs.filter((song) => song.id === id));
+      if (candidates.length === 0) return 0;
+
+      const ballots: SimulatedVote[] = voters.map((listener) => ({
+        listener: listener.id,
+        song_id: pickFor(listener, candidates, round.id).id,
+        taste: listener.taste,
+      }));
+      const recorded = await castSimulatedVotes(round.id, ballots, leaseToken());
+      voters.forEach((listener) => voted.add(listener.id));
+      return recorded;
+    },
+  };
+};
+
+export type CrowdSimulator = ReturnType<typeof createCrowdSimulator>;
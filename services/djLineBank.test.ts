@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildBoxRoundLines, buildSystemExplainerLines, getBankLine } from "./djLineBank";
+import { STATION_RULES } from "./stationRules";
+import type { StationRules } from "../types";
+
+const rules = (overrides: Partial<StationRules>): StationRules => ({ ...STATION_RULES, ...overrides });
+
+describe("the DJ's lines about the rules", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("counts The Box in from the rules", () => {
+    const lines = buildBoxRoundLines(rules({ boxSize: 3 })).join("\n");
+    expect(lines).toContain("Three tracks are fighting");
+    expect(lines).not.toMatch(/\btwo\b/i);
+  });
+
+  it("explains the stars and the losing streak as configured", () => {
+    const lines = buildSystemExplainerLines(rules({ boxSize: 4, starGain: 2, starLoss: 1, maxRoundsWithoutWin: 1, startingStars: 6 })).join("\n");
+    expect(lines).toContain("four tracks enter The Box");
+    expect(lines).toContain("earns the track two stars");
+    expect(lines).toContain("Lose the round and the track drops a star");
+    expect(lines).toContain("a solid 6 out of 10 stars");
+    expect(lines).not.toContain("fail to win for");
+  });
+
+  it("names the streak when a song gets more than one round", () => {
+    const lines = buildSystemExplainerLines(rules({ maxRoundsWithoutWin: 3 })).join("\n");
+    expect(lines).toContain("fail to win for three rounds");
+  });
+
+  it("reads the live rules on air", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.1); // the second line, about The Box
+    expect(getBankLine({ event: "system_explainer" })).toBe(buildSystemExplainerLines(STATION_RULES)[1]);
+  });
+});
@@ -1,9 +1,89 @@
 /**
  * @file DJ Line Bank - A collection of pre-defined DJ lines to reduce AI costs.
- * Expanded with 150+ lines across 13 distinct categories.
+ * Expanded with 170+ lines across 17 distinct categories.
  */
 
-import { DjBanterScriptInput } from "../types";
+import type { DjBanterScriptInput, StationRules } from "../types";
+import { STATION_RULES, numberWord, starsPhrase, roundsPhrase } from "./stationRules";
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Box announcements, generated from the station rules so the count is always right.
+ */
+export const buildBoxRoundLines = (rules: StationRules): string[] => {
+  const count = numberWord(rules.boxSize);
+  return [
+    `The Box is open! ${capitalize(count)} tracks are fighting for your votes. Who's it gonna be?`,
+    `Time to choose, Youniverse! We've got ${count} contenders in The Box right now.`,
+    `The simulation has selected ${count} candidates. Cast your votes in The Box!`,
+    "New round, new choices. Check The Box and tell me what you want to hear next.",
+    "Democracy in action! Choose your weapon in The Box.",
+    `${capitalize(count)} entries, one winner. You decide the fate of the station.`,
+    "The Box is glowing. Which track deserves the spotlight?",
+    "Time for a selection protocol. Engage with The Box now.",
+    "Don't just listen, lead! Vote for your favorite in The Box.",
+    "The Box is stocked and ready. Make your voice heard.",
+    `${capitalize(count)} contenders enter, only one plays. Vote now!`,
+    "Your input is requested. The Box is currently active.",
+    "Pick your sonic poison. The Box is waiting.",
+    "The next track is up to you. Check The Box!",
+    "Power to the listeners. Cast your vote in The Box.",
+  ];
+};
+
+/**
+ * How the station works, generated from the station rules so the DJ never lies about them.
+ */
+export const buildSystemExplainerLines = (rules: StationRules): string[] => {
+  const count = numberWord(rules.boxSize);
+  const gain = starsPhrase(rules.starGain);
+  const loss = starsPhrase(rules.starLoss);
+  const bottom = rules.dswThreshold === 0 ? "zero stars" : `${numberWord(rules.dswThreshold)} stars`;
+  const penalty =
+    rules.maxRoundsWithoutWin === 1
+      ? `Lose the round and the track drops ${loss} and heads back to the pool.`
+      : `But fail to win for ${roundsPhrase(rules.maxRoundsWithoutWin)} and the track drops ${loss} and heads back to the pool.`;
+
+  return [
+    "For the new arrivals: once your song is in your library, it's officially in our global pool, fighting for its place in the sun.",
+    `The mechanics are simple: ${count} tracks enter The Box, you vote, and only one champion comes out to play for the Youniverse.`,
+    `Every song starts with a solid ${rules.startingStars} out of ${rules.maxStars} stars. Your live ratings during the track decide if that rating climbs or crashes.`,
+    `Winning The Box isn't just about glory, it earns the track ${gain}. ${penalty}`,
+    `Hit ${bottom} and you're a Dead Song Walking. One last farewell play to win the crowd back, or it's the Graveyard for honorable retirement.`,
+    "Your library is the gateway. Upload a track, and it automatically joins the rotation pool. That's how we keep the cycle moving.",
+    "Keep an eye on the star ratings. If the listeners aren't feeling the vibe, a song will lose stars until it's walking dead.",
+    `${capitalize(count)} go in, one comes out. That's the law of The Box. Every vote you cast shapes the direct future of the station.`,
+    `Most tracks start at a ${rules.startingStars}. If you're loving it, hit those stars. Drop to ${bottom} and it's living on borrowed time.`,
+    `The Box rule: ${penalty}`,
+    "The transition from Library to Pool is automatic. Once you're in, the Youniverse decides your fate.",
+    `Think of The Box as the arena. ${capitalize(count)} contenders, one winner, and ${gain} for the champion. The rest? They wait for their next chance.`,
+    "Star ratings are your weapon. Use them wisely to keep your favorites in the pool and send the weak links to the Graveyard.",
+    "It's a delicate balance. Gain stars by winning The Box, lose them by losing rounds or bad ratings. The Graveyard is always hungry.",
+    `Every track enters the simulation with a clean ${rules.startingStars} stars. From there, it's a climb to legendary status or a descent into the Graveyard depths.`,
+    `We play for keeps here. Winning The Box gives you ${gain}. ${penalty} Use your votes carefully.`,
+    `A Dead Song Walking gets one farewell play. Rate it back above ${bottom} and it's pardoned. Otherwise, the Graveyard.`,
+    `The system is impartial: ${rules.startingStars} stars to start, votes move the needle, and a Box win is your ticket to a higher rating and more airplay.`,
+    `Not feeling the track on air? Hit skip. Once ${rules.vetoPercent}% of the room agrees, it's vetoed: cut short and ${starsPhrase(rules.vetoStarPenalty)} off.`,
+  ];
+};
+
+/**
+ * Veto announcements, generated from the station rules so the penalty is always right.
+ */
+const buildVetoLines = (rules: StationRules): string[] => {
+  const penalty = starsPhrase(rules.vetoStarPenalty);
+  return [
+    `The Youniverse has vetoed '{{title}}'. Pulling it off the air, and it leaves ${penalty} lighter.`,
+    `Skip petition passed! '{{title}}' by {{artist}} is cut short and docked ${penalty}.`,
+    `You've spoken, loud and clear. '{{title}}' is gone, minus ${penalty}. Next!`,
+    `Veto confirmed. Fading out '{{title}}'. Sorry, {{artist}}, that's ${penalty} off.`,
+    `The room wants something else. '{{title}}' gets the hook and ${penalty} comes off its rating.`,
+    `Democracy hits the skip button. '{{title}}' is out, ${penalty} down.`,
+    `Signal rejected. '{{title}}' is vetoed and loses ${penalty}. Moving on.`,
+    `Not the vibe tonight. The crowd cut '{{title}}' short, and that costs ${penalty}.`,
+  ];
+};
 
 /**
  * Templates for various radio events.
@@ -44,23 +124,7 @@ const lineBank: Record<string, string[]> = {
     "Keeping it moving after that hit from {{artist}}.",
     "Solid gold from the pool. '{{title}}' by {{artist}}.",
   ],
-  new_box_round: [
-    "The Box is open! Three new tracks are fighting for your votes. Who's it gonna be?",
-    "Time to choose, Youniverse! We've got three contenders in The Box right now.",
-    "The simulation has selected three candidates. Cast your votes in The Box!",
-    "New round, new choices. Check The Box and tell me what you want to hear next.",
-    "Democracy in action! Choose your weapon in The Box.",
-    "Three entries, one winner. You decide the fate of the station.",
-    "The Box is glowing. Which track deserves the spotlight?",
-    "Time for a selection protocol. Engage with The Box now.",
-    "Don't just listen, lead! Vote for your favorite in The Box.",
-    "The Box is stocked and ready. Make your voice heard.",
-    "Three contenders enter, only one plays. Vote now!",
-    "Your input is requested. The Box is currently active.",
-    "Pick your sonic poison. The Box is waiting.",
-    "The next track is up to you. Check The Box!",
-    "Power to the listeners. Cast your vote in The Box.",
-  ],
+  new_box_round: buildBoxRoundLines(STATION_RULES),
   winner_announcement: [
     "The votes are in, and '{{title}}' by {{artist}} takes the crown! Playing it now.",
     "You chose it, I play it. '{{title}}' is your winner!",
@@ -95,6 +159,37 @@ const lineBank: Record<string, string[]> = {
     "Welcome to the afterlife, '{{title}}'. We'll see you in the Graveyard. {{artist}}, come get your song, it might be drunk.",
     "One last look at '{{title}}' before it's gone for good. {{artist}}, come get your song, it might be drunk.",
   ],
+  dsw_announcement: [
+    "Attention Club Youniverse. '{{title}}' by {{artist}} just hit rock bottom. It is officially a Dead Song Walking.",
+    "We have a Dead Song Walking. '{{title}}' gets one farewell play, and then it's up to you.",
+    "Bad news for {{artist}}. '{{title}}' is out of stars. Next time you hear it, it's the Farewell Play.",
+    "The stars have run dry for '{{title}}'. Dead Song Walking. Be there for its last dance.",
+    "Sirens on the dance floor. '{{title}}' is a Dead Song Walking. One play left to save it.",
+    "Status update: '{{title}}' by {{artist}} has flatlined. Farewell play incoming.",
+    "The Youniverse has turned its back on '{{title}}'. Dead Song Walking. Rate it back to life, or don't.",
+    "Mark your calendars. '{{title}}' gets one last spin before the Graveyard opens its gates.",
+  ],
+  dsw_farewell: [
+    "This is it. The Farewell Play for '{{title}}' by {{artist}}. Your stars decide if it lives.",
+    "Dead Song Walking on the decks. '{{title}}' needs your ratings to escape the Graveyard.",
+    "Last chance for '{{title}}'. Rate it up for a pardon, or let it rest.",
+    "The Farewell Play begins. {{artist}}, we're all watching the stars on this one.",
+    "One final spin for '{{title}}'. Make it count, Youniverse.",
+    "Silence in the club. '{{title}}' walks the last mile right now.",
+    "Judgement time. '{{title}}' is playing for its life.",
+    "Hear it now or never again. The Farewell Play of '{{title}}'.",
+  ],
+  dsw_pardon: [
+    "A pardon! '{{title}}' climbed out of the grave and back into the pool.",
+    "You saved it. '{{title}}' by {{artist}} lives to fight another round.",
+    "The stars came through. '{{title}}' is pardoned. Welcome back.",
+    "Against all odds, '{{title}}' survives. {{artist}}, that was close.",
+    "The Graveyard will have to wait. '{{title}}' is back in rotation.",
+    "Resurrection confirmed. '{{title}}' walks free.",
+    "The crowd has mercy. '{{title}}' gets a second life.",
+    "Dead Song Walking no more. '{{title}}' is pardoned by the Youniverse.",
+  ],
+  veto_announcement: buildVetoLines(STATION_RULES),
   new_artist_shoutout: [
     "New artist alert! {{artist}} is making their debut right now with '{{title}}'. Show some love.",
     "Fresh blood in the arena. {{artist}} is stepping up for their Trial by Fire.",
@@ -231,28 +326,7 @@ const lineBank: Record<string, string[]> = {
     "Harmony levels are at an all-time high. I'm impressed.",
     "The simulation is beautiful because you are in it. Vibe check: 10/10.",
   ],
-  system_explainer: [
-    "For the new arrivals: once your song is in your library, it's officially in our global pool, fighting for its place in the sun.",
-    "The mechanics are simple: three tracks enter The Box, you vote, and only one champion comes out to play for the Youniverse.",
-    "Every song starts with a solid 5 out of 10 stars. Your live votes during the track decide if that rating climbs or crashes.",
-    "Winning The Box isn't just about glory—it earns the track an extra star. But fail to get picked for three rounds, and you'll lose one and head back to the pool.",
-    "Zero stars means zero mercy. Hit the bottom, and it's a one-way trip to the Graveyard for honorable retirement.",
-    "Your library is the gateway. Upload a track, and it automatically joins the rotation pool. That's how we keep the cycle moving.",
-    "Keep an eye on the star ratings. If the listeners aren't feeling the vibe, a song will lose weight until it hits the Graveyard.",
-    "Three go in, one comes out. That's the law of The Box. Every vote you cast shapes the direct future of the station.",
-    "Most tracks start at a 5. If you're loving it, hit those stars. If it hits zero, it's digital dust. Simple as that.",
-    "The Box is a three-round limit. If a song sits there for three rounds without a win, it takes a star penalty and returns to the pool.",
-    "We're a meritocracy here. High ratings keep you in rotation. Zero stars? {{artist}}, come get your song, it might be drunk.",
-    "The transition from Library to Pool is automatic. Once you're in, the Youniverse decides your fate.",
-    "Think of The Box as the arena. Three contenders, one winner, and a star for the champion. The rest? They wait for their next chance.",
-    "Star ratings are your weapon. Use them wisely to keep your favorites in the pool and send the weak links to the Graveyard.",
-    "It's a delicate balance. Gain stars by winning The Box, lose them by getting ignored or downvoted. The Graveyard is always hungry.",
-    "Did you know? If a song is sitting in The Box for three rounds and doesn't get picked, it loses a star and heads back to the pool for reflection.",
-    "Every track enters the simulation with a clean 5 stars. From there, it's a climb to legendary status or a descent into the Graveyard depths.",
-    "We play for keeps here. Winning The Box gives you a star. Being ignored for three rounds takes one away. Use your votes carefully.",
-    "Three tracks enter, only one wins the airwaves. Every win adds a star to that artist's portfolio. The competition is real.",
-    "The system is impartial: 5 stars to start, votes move the needle, and a Box win is your ticket to a higher rating and more airplay.",
-  ],
+  system_explainer: buildSystemExplainerLines(STATION_RULES),
 };
 
 /**
@@ -263,7 +337,7 @@ export const getBankLine = (input: DjBanterScriptInput): string | null => {
 
   // Handle specific success/failure for debut
   if (eventKey === "debut_song_outro") {
-    const isSuccess = (input.song?.finalRating ?? 0) >= 5;
+    const isSuccess = (input.song?.finalRating ?? 0) >= STATION_RULES.debutPassRating;
     eventKey = isSuccess
       ? "debut_song_outro_success"
       : "debut_song_outro_failure";
@@ -0,0 +1,80 @@
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { announceFarewellStarted, announceFarewellVerdict, onDswEvent, processNewDeadSongs, type DswEvent } from "./dswLifecycle";
+import { backend } from "./radioBackend";
+import { songRepository, toSong } from "./songRepository";
+
+describe("the Dead Song Walking lifecycle on the in-memory backend", () => {
+  let leaseToken: number | null;
+  const heard: DswEvent[] = [];
+  const stopListening = onDswEvent((event) => heard.push(event));
+
+  const advance = async () => {
+    const onAir = (await backend.broadcasts.get())?.current_song_id ?? null;
+    return backend.rpc("advance_round", { expected_song_id: onAir, lease_token: leaseToken });
+  };
+
+  /** Drops a pool song to the DSW threshold, as advance_round does. */
+  const markDead = async (patch: { resurrected_at?: string } = {}) => {
+    const [song] = await songRepository.listRows({ status: "pool", is_dsw: false });
+    await songRepository.update({ id: song.id }, { is_dsw: true, stars: 0, dsw_announced: false, ...patch });
+    return song.id;
+  };
+
+  beforeAll(async () => {
+    ({ token: leaseToken } = await backend.rpc("acquire_leadership", { p_session: "dsw-test" }));
+    await advance();
+  });
+
+  afterEach(() => {
+    heard.length = 0;
+  });
+
+  it("announces a new Dead Song Walking once and schedules its farewell", async () => {
+    const songId = await markDead();
+    await processNewDeadSongs();
+
+    expect(heard.map((event) => event.type)).toEqual(["DSW_MARKED", "DSW_ANNOUNCED", "DSW_FAREWELL_SCHEDULED"]);
+    expect(heard.every((event) => event.song.id === songId && event.line.length > 0)).toBe(true);
+    expect(await backend.songs.get(songId)).toMatchObject({ dsw_announced: true, dsw_farewell_at: expect.any(String) });
+
+    heard.length = 0;
+    await processNewDeadSongs();
+    expect(heard).toEqual([]);
+  });
+
+  it("plays the farewell next and pardons a song the room rates back up", async () => {
+    const [scheduled] = await songRepository.listRows({ is_dsw: true, status: "pool" });
+    const farewell = await advance();
+    expect(farewell.now_playing?.id).toBe(scheduled.id);
+    await announceFarewellStarted(toSong(farewell.now_playing!));
+
+    const { play_id } = (await backend.broadcasts.get())!;
+    await backend.rpc("rate_now_playing", { p_play_id: play_id!, p_stars: 5 });
+    const judged = await advance();
+    await announceFarewellVerdict(judged.dsw!);
+
+    expect(heard.map((event) => event.type)).toEqual(["DSW_FAREWELL_STARTED", "DSW_PARDONED"]);
+    expect(heard[1]).toMatchObject({ song: { id: scheduled.id }, stars: 5 });
+    expect(await backend.songs.get(scheduled.id)).toMatchObject({ status: "pool", is_dsw: false });
+  });
+
+  it("buries a farewell nobody rates back up", async () => {
+    const songId = await markDead();
+    await processNewDeadSongs();
+    expect((await advance()).now_playing?.id).toBe(songId);
+
+    const judged = await advance();
+    await announceFarewellVerdict(judged.dsw!);
+
+    expect(heard.at(-1)).toMatchObject({ type: "DSW_BURIED", song: { id: songId } });
+    expect(await backend.songs.get(songId)).toMatchObject({ status: "graveyard" });
+  });
+
+  it("welcomes a song back from the graveyard instead of marking it", async () => {
+    await markDead({ resurrected_at: new Date().toISOString() });
+    await processNewDeadSongs();
+
+    expect(heard[0].type).toBe("DSW_RESURRECTED");
+    stopListening();
+  });
+});
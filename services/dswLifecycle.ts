@@ -0,0 +1,139 @@
+/**
+ * @file dswLifecycle - The Dead Song Walking lifecycle, end to end:
+ * marked (advance_round drops it to the DSW threshold, or it's resurrected from the graveyard)
+ * -> announced -> farewell scheduled -> farewell play -> pardoned or buried.
+ *
+ * The leader drives the steps; every step is sent to all clients as a typed DswEvent
+ * so the chat, the ticker and TTS can react. See supabase/migrations/019_dsw_lifecycle.sql.
+ */
+import { backend, type RadioChannel } from "./radioBackend";
+import { songRepository, type DbSong } from "./songRepository";
+import { getBankLine } from "./djLineBank";
+import type { DjBanterEvent, Song } from "../types";
+
+type DswSong = Pick<Song, "id" | "title" | "artistName">;
+
+export type DswEvent =
+  | { type: "DSW_MARKED"; song: DswSong; line: string }
+  | { type: "DSW_RESURRECTED"; song: DswSong; line: string }
+  | { type: "DSW_ANNOUNCED"; song: DswSong; line: string }
+  | { type: "DSW_FAREWELL_SCHEDULED"; song: DswSong; line: string }
+  | { type: "DSW_FAREWELL_STARTED"; song: DswSong; line: string }
+  | { type: "DSW_PARDONED"; song: DswSong; line: string; stars: number }
+  | { type: "DSW_BURIED"; song: DswSong; line: string };
+
+export type DswEventType = DswEvent["type"];
+export type DswListener = (event: DswEvent) => void;
+
+const CHANNEL = "dsw-events";
+const listeners = new Set<DswListener>();
+let channel: RadioChannel | null = null;
+
+const deliver = (event: DswEvent) => {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+};
+
+const ensureChannel = () => {
+  if (channel) return channel;
+  channel = backend.realtime
+    .channel(CHANNEL)
+    .on("dsw_event", (payload) => deliver(payload as DswEvent))
+    .subscribe();
+  return channel;
+};
+
+/**
+ * Subscribes to DSW lifecycle events from any client (including this one).
+ * @returns A disposer that removes the listener.
+ */
+export const onDswEvent = (listener: DswListener): (() => void) => {
+  ensureChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Delivers an event locally and to every other client. Leader only. */
+const emitDswEvent = async (event: DswEvent) => {
+  console.log(`⚰️ ${event.type}: ${event.song.title}`);
+  deliver(event);
+  await ensureChannel().send("dsw_event", event);
+};
+
+const lineFor = (event: DjBanterEvent, song: DswSong) =>
+  getBankLine({ event, song: { title: song.title, artistName: song.artistName } }) ?? "";
+
+const toDswSong = (dbSong: DbSong): DswSong => ({
+  id: dbSong.id,
+  title: dbSong.title,
+  artistName: dbSong.artist_name,
+});
+
+/**
+ * Announces every Dead Song Walking that hasn't been announced yet and schedules its farewell play.
+ * Each step is claimed with a conditional update, so two leaders never announce the same song.
+ */
+export const processNewDeadSongs = async (): Promise<void> => {
+  let marked;
+  try {
+    marked = await songRepository.listRows({ is_dsw: true, status: "pool", dsw_farewell_at: null });
+  } catch (error) {
+    console.error("Error fetching new DSW songs:", error);
+    return;
+  }
+
+  for (const row of marked) {
+    const song = toDswSong(row);
+
+    if (!row.dsw_announced) {
+      const claimed = await songRepository.update({ id: song.id, dsw_announced: false }, { dsw_announced: true });
+      if (claimed.length === 0) continue; // another leader got it
+
+      await emitDswEvent(row.resurrected_at
+        ? { type: "DSW_RESURRECTED", song, line: `🧟 '${song.title}' rises from the Graveyard for one last farewell.` }
+        : { type: "DSW_MARKED", song, line: `☠️ '${song.title}' is a Dead Song Walking.` });
+      await emitDswEvent({ type: "DSW_ANNOUNCED", song, line: lineFor("dsw_announcement", song) });
+    }
+
+    let scheduled: unknown[] = [];
+    try {
+      scheduled = await songRepository.update(
+        { id: song.id, status: "pool", dsw_farewell_at: null },
+        { dsw_farewell_at: new Date().toISOString() },
+      );
+    } catch (scheduleError) {
+      console.error("Error scheduling DSW farewell:", scheduleError);
+    }
+    if (scheduled.length === 0) continue;
+
+    await emitDswEvent({
+      type: "DSW_FAREWELL_SCHEDULED",
+      song,
+      line: `🕯️ Farewell play for '${song.title}' coming up.`,
+    });
+  }
+};
+
+/** Emitted by the leader when a DSW goes on air. */
+export const announceFarewellStarted = ({ id, title, artistName }: Song) => {
+  const song = { id, title, artistName };
+  return emitDswEvent({ type: "DSW_FAREWELL_STARTED", song, line: lineFor("dsw_farewell", song) });
+};
+
+/**
+ * Emitted by the leader once advance_round has judged a farewell play.
+ * @param verdict The `dsw` object returned by advance_round.
+ */
+export const announceFarewellVerdict = (verdict: { song: DbSong; pardoned: boolean }) => {
+  const song = toDswSong(verdict.song);
+  return verdict.pardoned
+    ? emitDswEvent({ type: "DSW_PARDONED", song, line: lineFor("dsw_pardon", song), stars: verdict.song.stars ?? 0 })
+    : emitDswEvent({ type: "DSW_BURIED", song, line: lineFor("graveyard_roast", song) });
+};
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DualDeckEngine } from "./dualDeck";
+import { dbToGain } from "./loudness";
+
+/** Just enough of an <audio> element for the decks: loads are instant, play() always starts. */
+class FakeAudio {
+  src = "";
+  paused = true;
+  readyState = 4;
+  error = null;
+  currentTime = 0;
+  preload = "";
+  crossOrigin = "";
+  preservesPitch = false;
+  async play() {
+    this.paused = false;
+  }
+  pause() {
+    this.paused = true;
+  }
+  load() {}
+  removeAttribute() {
+    this.src = "";
+  }
+  addEventListener() {}
+}
+
+/** A GainNode's gain: records where each ramp is headed. */
+class FakeParam {
+  ramps: [target: number, endTime: number][] = [];
+  constructor(public value: number) {}
+  cancelScheduledValues() {}
+  setValueAtTime(value: number) {
+    this.value = value;
+  }
+  linearRampToValueAtTime(target: number, endTime: number) {
+    this.ramps.push([target, endTime]);
+  }
+}
+
+const node = () => ({ connect: vi.fn() });
+
+class FakeAudioContext {
+  static created: FakeAudioContext[] = [];
+  currentTime = 100;
+  state = "running";
+  destination = node();
+  gains: { gain: FakeParam }[] = [];
+  analyser = { ...node(), fftSize: 0, frequencyBinCount: 32, getByteFrequencyData: (data: Uint8Array) => data.fill(255) };
+
+  constructor() {
+    FakeAudioContext.created.push(this);
+  }
+  createAnalyser() {
+    return this.analyser;
+  }
+  createGain() {
+    const gain = { ...node(), gain: new FakeParam(1) };
+    this.gains.push(gain);
+    return gain;
+  }
+  createMediaElementSource() {
+    return node();
+  }
+}
+
+const CROSSFADE_SEC = 4;
+
+describe("the dual-deck engine", () => {
+  beforeEach(() => {
+    FakeAudioContext.created = [];
+    vi.useFakeTimers();
+    vi.stubGlobal("Audio", FakeAudio);
+    vi.stubGlobal("HTMLMediaElement", { HAVE_METADATA: 1 });
+    vi.stubGlobal("window", { AudioContext: FakeAudioContext });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const decksOf = (engine: DualDeckEngine) => engine.elements as unknown as FakeAudio[];
+
+  it("plays the next song from the deck that preloaded it, and frees the old deck once it has faded", async () => {
+    const engine = new DualDeckEngine(CROSSFADE_SEC);
+    await engine.switchTo("one.mp3", () => 0);
+    vi.runAllTimers();
+    const playing = engine.active as unknown as FakeAudio;
+    const [idle] = decksOf(engine).filter((deck) => deck !== playing);
+
+    engine.preload("two.mp3");
+    expect(idle.src).toBe("two.mp3");
+
+    await engine.switchTo("two.mp3", () => 0);
+    expect(engine.active).toBe(idle);
+    expect(idle.paused).toBe(false);
+
+    engine.preload("three.mp3");
+    expect(playing.src).toBe("one.mp3"); // still fading out: the preload waits
+
+    vi.runAllTimers();
+    expect(playing.paused).toBe(true);
+    expect(playing.src).toBe("three.mp3");
+  });
+
+  it("crossfades the two decks over the configured time, each at its own replay gain", async () => {
+    const engine = new DualDeckEngine(CROSSFADE_SEC);
+    engine.unlock();
+    const [context] = FakeAudioContext.created;
+    // the duck, then each deck's normalizer and crossfade gain; the first song goes on the second deck
+    const [, incomingNormalizer, incomingFade, outgoingNormalizer, outgoingFade] = context.gains;
+
+    await engine.switchTo("one.mp3", () => 0, -3);
+    vi.runAllTimers();
+    await engine.switchTo("two.mp3", () => 0, 2);
+
+    expect(incomingNormalizer.gain.value).toBeCloseTo(dbToGain(2));
+    expect(outgoingNormalizer.gain.value).toBeCloseTo(dbToGain(-3));
+    expect(outgoingFade.gain.ramps.at(-1)).toEqual([0, context.currentTime + CROSSFADE_SEC]);
+    expect(incomingFade.gain.ramps.at(-1)).toEqual([1, context.currentTime + CROSSFADE_SEC]);
+
+    const outgoing = decksOf(engine)[1];
+    vi.advanceTimersByTime(CROSSFADE_SEC * 1000 - 1);
+    expect(outgoing.paused).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(outgoing.paused).toBe(true);
+  });
+
+  it("reads the bass off one analyser whichever deck is live", async () => {
+    const engine = new DualDeckEngine(CROSSFADE_SEC);
+    engine.unlock();
+    expect(engine.getBassIntensity()).toBe(0); // nothing playing
+
+    await engine.switchTo("one.mp3", () => 0);
+    expect(engine.getBassIntensity()).toBe(1);
+    await engine.switchTo("two.mp3", () => 0);
+    expect(engine.getBassIntensity()).toBe(1);
+    expect(FakeAudioContext.created).toHaveLength(1);
+  });
+
+  it("snaps a running crossfade to its end when the next transition comes early", async () => {
+    const engine = new DualDeckEngine(CROSSFADE_SEC);
+    engine.unlock();
+    const [a, b] = decksOf(engine);
+    await engine.switchTo("one.mp3", () => 0); // on b
+    vi.runAllTimers();
+
+    await engine.switchTo("two.mp3", () => 0); // on a
+    expect(b.paused).toBe(false); // still fading out
+    await engine.switchTo("three.mp3", () => 12);
+
+    expect(engine.active).toBe(b);
+    expect(b).toMatchObject({ src: "three.mp3", paused: false, currentTime: 12 });
+    expect(a.paused).toBe(false); // now the one fading out
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @file dualDeck - Two-deck Web Audio engine for gapless, crossfaded transitions.
+ *
+ * One deck plays while the other preloads whatever is coming up next. On a transition
+ * the idle deck starts and the two fade into each other, so the next MP3 loads while
+ * the last seconds of the old one are still audible. Each deck runs through its own
+ * loudness normalizer (the track's replay_gain) and crossfade gain, and both feed one
+ * master analyser, so getBassIntensity doesn't care which deck is live. After the analyser
+ * sits a ducking gain that lowers the broadcast under a Box preview (services/boxPreview.ts),
+ * which joins the same graph on a path of its own.
+ *
+ * The Web Audio graph can only be built after a user gesture (unlock). Until then a
+ * transition is a hard switch, which is fine: nothing is audible yet anyway.
+ */
+
+import { dbToGain } from "./loudness";
+
+interface Deck {
+  element: HTMLAudioElement;
+  normalizer: GainNode | null; // the track's replay gain
+  gain: GainNode | null; // the crossfade
+  replayGainDb: number;
+}
+
+const createDeck = (): Deck => {
+  const element = new Audio();
+  element.preload = "auto";
+  element.crossOrigin = "anonymous";
+  element.preservesPitch = true; // drift nudges must not bend the pitch
+  return { element, normalizer: null, gain: null, replayGainDb: 0 };
+};
+
+export class DualDeckEngine {
+  private decks: [Deck, Deck] = [createDeck(), createDeck()];
+  private activeIndex = 0;
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private dataArray: Uint8Array | null = null;
+  private duck: GainNode | null = null;
+  private attached = new Map<HTMLAudioElement, GainNode>(); // elements routed past the decks
+  private fadeTimer: ReturnType<typeof setTimeout> | null = null;
+  private preloadUrl: string | null = null;
+
+  constructor(private readonly crossfadeSec: number) {}
+
+  /** Both audio elements, for wiring up event handlers and HMR cleanup. */
+  public get elements(): HTMLAudioElement[] {
+    return this.decks.map((deck) => deck.element);
+  }
+
+  /** The deck on air. During a crossfade, that's the incoming one. */
+  public get active(): HTMLAudioElement {
+    return this.decks[this.activeIndex].element;
+  }
+
+  private get idle(): Deck {
+    return this.decks[1 - this.activeIndex];
+  }
+
+  /**
+   * Builds the Web Audio graph (each deck -> normalizer -> crossfade gain -> analyser -> duck -> speakers).
+   * Call from a user gesture; later calls just resume a suspended context.
+   */
+  public unlock() {
+    if (this.context) {
+      if (this.context.state === "suspended") this.context.resume();
+      return;
+    }
+
+    try {
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 64; // Small for performance
+      this.duck = this.context.createGain();
+      this.analyser.connect(this.duck);
+      this.duck.connect(this.context.destination);
+      this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+
+      this.decks.forEach((deck, i) => {
+        const source = this.context!.createMediaElementSource(deck.element);
+        deck.normalizer = this.context!.createGain();
+        deck.normalizer.gain.value = dbToGain(deck.replayGainDb);
+        deck.gain = this.context!.createGain();
+        deck.gain.gain.value = i === this.activeIndex ? 1 : 0;
+        source.connect(deck.normalizer);
+        deck.normalizer.connect(deck.gain);
+        deck.gain.connect(this.analyser!);
+      });
+    } catch (e) {
+      console.warn("AudioContext initialization failed (cross-origin or blocked):", e);
+    }
+  }
+
+  /**
+   * Routes another element into the same AudioContext, straight to the speakers (no ducking,
+   * no analyser). On a phone with one audio focus it then plays alongside the decks instead
+   * of pausing them. Returns the element's gain, or null if there's no graph (not unlocked, or
+   * Web Audio failed). An element can only be attached once; later calls return the same gain.
+   */
+  public attach(element: HTMLAudioElement): GainNode | null {
+    if (!this.context) return null;
+    let gain = this.attached.get(element);
+    if (!gain) {
+      try {
+        gain = this.context.createGain();
+        this.context.createMediaElementSource(element).connect(gain);
+        gain.connect(this.context.destination);
+        this.attached.set(element, gain);
+      } catch (e) {
+        console.warn("Couldn't route audio into the deck graph:", e);
+        return null;
+      }
+    }
+    return gain;
+  }
+
+  /**
+   * Fades the decks to `level` (0-1) of their volume over `rampSec`; 1 restores them.
+   * Returns false if there's no graph to fade.
+   */
+  public duckTo(level: number, rampSec: number): boolean {
+    if (!this.context || !this.duck) return false;
+    const now = this.context.currentTime;
+    const param = this.duck.gain;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(level, now + rampSec);
+    return true;
+  }
+
+  public getBassIntensity(): number {
+    if (!this.analyser || !this.dataArray || this.active.paused) return 0;
+    this.analyser.getByteFrequencyData(this.dataArray as any);
+    // Focus on the first few bins (bass)
+    const bassSum = this.dataArray[0] + this.dataArray[1] + this.dataArray[2];
+    return bassSum / 765; // Normalize to 0-1
+  }
+
+  /**
+   * Loads the song coming up next on the idle deck, so the transition doesn't wait on the network.
+   */
+  public preload(url: string | null) {
+    this.preloadUrl = url;
+    if (!url || this.fadeTimer) return; // the idle deck is still fading out; retried once it's done
+
+    const deck = this.idle.element;
+    if (deck.src !== url && this.active.src !== url) {
+      console.log(`⏳ Preloading next song on the idle deck: ${url}`);
+      deck.src = url;
+    }
+  }
+
+  /**
+   * Puts `url` on air from the idle deck, normalized by `replayGainDb`, and crossfades out of
+   * the current one. `offsetSec` is read once the new deck knows its duration, so it is still
+   * accurate after a slow load. Rejects like HTMLMediaElement.play() (e.g. NotAllowedError).
+   */
+  public async switchTo(url: string, offsetSec: () => number, replayGainDb: number = 0): Promise<void> {
+    this.finishFade(); // a transition mid-fade: snap the previous one to its end
+
+    const outgoing = this.decks[this.activeIndex];
+    const incoming = this.idle;
+    const deck = incoming.element;
+
+    if (deck.src !== url || deck.error) deck.src = url;
+    incoming.replayGainDb = replayGainDb;
+    if (incoming.normalizer) incoming.normalizer.gain.value = dbToGain(replayGainDb);
+    const seek = () => {
+      const offset = offsetSec();
+      if (offset > 0) {
+        console.log(`➡️ Syncing to global time: +${offset.toFixed(1)}s`);
+        deck.currentTime = offset;
+      }
+    };
+    if (deck.readyState >= HTMLMediaElement.HAVE_METADATA) seek();
+    else deck.addEventListener("loadedmetadata", seek, { once: true });
+
+    this.activeIndex = 1 - this.activeIndex;
+    try {
+      await deck.play();
+    } finally {
+      // Even if the new deck won't start, the old song is over
+      this.crossfade(outgoing, incoming);
+    }
+  }
+
+  /**
+   * Silences both decks and unloads them.
+   */
+  public stop() {
+    this.finishFade();
+    this.decks.forEach((deck) => deck.element.pause());
+    this.active.removeAttribute("src");
+    this.active.load(); // Required to reset the element and stop it from complaining
+  }
+
+  private crossfade(outgoing: Deck, incoming: Deck) {
+    // Without the graph there are no gains to ramp; nothing was audible anyway
+    const fadeSec = this.context && !outgoing.element.paused ? this.crossfadeSec : 0;
+
+    if (this.context && outgoing.gain && incoming.gain) {
+      const now = this.context.currentTime;
+      [[outgoing.gain, 0], [incoming.gain, 1]].forEach(([gain, target]) => {
+        const param = (gain as GainNode).gain;
+        param.cancelScheduledValues(now);
+        param.setValueAtTime(param.value, now);
+        param.linearRampToValueAtTime(target as number, now + fadeSec);
+      });
+    }
+
+    if (fadeSec > 0) console.log(`🎚️ Crossfading over ${fadeSec}s`);
+    this.fadeTimer = setTimeout(() => this.finishFade(), fadeSec * 1000);
+  }
+
+  /** Ends a running crossfade now: the outgoing deck stops and becomes the preload deck. */
+  private finishFade() {
+    if (!this.fadeTimer) return;
+    clearTimeout(this.fadeTimer);
+    this.fadeTimer = null;
+
+    const outgoing = this.idle;
+    const incoming = this.decks[this.activeIndex];
+    outgoing.element.pause();
+    if (this.context && outgoing.gain && incoming.gain) {
+      const now = this.context.currentTime;
+      outgoing.gain.gain.cancelScheduledValues(now);
+      outgoing.gain.gain.setValueAtTime(0, now);
+      incoming.gain.gain.cancelScheduledValues(now);
+      incoming.gain.gain.setValueAtTime(1, now);
+    }
+
+    this.preload(this.preloadUrl);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * @file entitlements - What a listener's tier unlocks. Every premium gate reads from here.
+ *
+ * A profile is premium from a payment (services/payments.ts, grant_premium) until
+ * profiles.premium_until, or for good when that's null; PREMIUM_PLANS says how long each plan
+ * lasts. The perks other listeners feel, the vote weight, the debut priority and the skip-veto
+ * tokens, are enforced by the database as well, which reads ENTITLEMENTS and PREMIUM_PLANS from
+ * station_config (033_premium_expiry.sql); the rest are gates in the UI: TheBox, TheChat and
+ * the DJ Booth's upload flow.
+ */
+
+import type { Entitlements, Profile, Tier } from "../types";
+
+/** Whose entitlements: a profile, or null for a signed-out listener. */
+type Listener = Partial<Pick<Profile, "is_premium" | "premium_until">> | null | undefined;
+
+export type PremiumPlan = "monthly" | "lifetime";
+
+/** What each plan costs, and how many days of premium it buys (null: for good). */
+export const PREMIUM_PLANS: Record<PremiumPlan, { label: string; amountCents: number; durationDays: number | null }> = {
+  monthly: { label: "Club Youniverse Premium, one month", amountCents: 199, durationDays: 30 },
+  lifetime: { label: "Club Youniverse Premium", amountCents: 499, durationDays: null },
+};
+
+export const ENTITLEMENTS: Record<Tier, Entitlements> = {
+  free: {
+    voteWeight: 1,
+    boxPreviewsPerRound: 2,
+    skipVetoesPerDay: 0,
+    chatBadge: null,
+    priorityDebut: false,
+  },
+  premium: {
+    voteWeight: 2,
+    boxPreviewsPerRound: Infinity,
+    skipVetoesPerDay: 1,
+    chatBadge: "premium",
+    priorityDebut: true,
+  },
+};
+
+/** Whether a listener's premium is in force at `now`: paid for, and not run out. */
+export const premiumActive = (profile: Listener, now = Date.now()): boolean =>
+  !!profile?.is_premium && (!profile.premium_until || Date.parse(profile.premium_until) > now);
+
+/** A listener's tier. Signed-out listeners, and those whose premium ran out, are free. */
+export const tierOf = (profile: Listener, now = Date.now()): Tier =>
+  premiumActive(profile, now) ? "premium" : "free";
+
+/** What a listener's tier unlocks. */
+export const entitlementsFor = (profile: Listener): Entitlements =>
+  ENTITLEMENTS[tierOf(profile)];
+
+/** Box previews a listener has left this round, having played `played` of them. */
+export const previewsLeft = (profile: Listener, played: number): number =>
+  Math.max(0, entitlementsFor(profile).boxPreviewsPerRound - played);
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { EventBus } from "./eventBus";
+
+interface TestEvents {
+  nowPlayingChanged: string | null;
+  playbackStateChanged: boolean;
+}
+
+describe("EventBus", () => {
+  it("hands each listener its own event's payload", () => {
+    const bus = new EventBus<TestEvents>();
+    const songs: (string | null)[] = [];
+    const states: boolean[] = [];
+    bus.on("nowPlayingChanged", (song) => songs.push(song));
+    bus.on("playbackStateChanged", (playing) => states.push(playing));
+
+    bus.emit("nowPlayingChanged", "song-1");
+    bus.emit("nowPlayingChanged", null);
+    bus.emit("playbackStateChanged", true);
+
+    expect(songs).toEqual(["song-1", null]);
+    expect(states).toEqual([true]);
+  });
+
+  it("stops calling a listener once its disposer has run, and leaves the others subscribed", () => {
+    const bus = new EventBus<TestEvents>();
+    const disposed = vi.fn();
+    const kept = vi.fn();
+    const dispose = bus.on("playbackStateChanged", disposed);
+    bus.on("playbackStateChanged", kept);
+
+    dispose();
+    dispose(); // twice is harmless
+    bus.emit("playbackStateChanged", false);
+
+    expect(disposed).not.toHaveBeenCalled();
+    expect(kept).toHaveBeenCalledWith(false);
+  });
+
+  it("keeps going past a listener that throws", () => {
+    const bus = new EventBus<TestEvents>();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const after = vi.fn();
+    bus.on("nowPlayingChanged", () => {
+      throw new Error("listener blew up");
+    });
+    bus.on("nowPlayingChanged", after);
+
+    bus.emit("nowPlayingChanged", "song-2");
+
+    expect(after).toHaveBeenCalledWith("song-2");
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+
+  it("drops every listener on clear", () => {
+    const bus = new EventBus<TestEvents>();
+    const listener = vi.fn();
+    bus.on("nowPlayingChanged", listener);
+
+    bus.clear();
+    bus.emit("nowPlayingChanged", "song-3");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown event or a wrong payload at compile time", () => {
+    const bus = new EventBus<TestEvents>();
+    // @ts-expect-error a typo in the event name
+    bus.on("nowPlayingChange", () => {});
+    // @ts-expect-error playbackStateChanged carries a boolean
+    bus.emit("playbackStateChanged", "yes");
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * @file eventBus - A small typed event emitter.
+ *
+ * `Events` maps each event name to its payload, so a typo in an event name or a wrong
+ * payload is a compile error instead of a listener that silently never fires.
+ * on() returns a disposer, so nobody has to keep a reference around just to unsubscribe.
+ */
+
+export type Listener<T> = (payload: T) => void;
+
+export class EventBus<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  /** Subscribes to `event`. Returns a function that unsubscribes. */
+  public on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /** Calls every listener for `event`. A throwing listener is logged and doesn't stop the rest. */
+  public emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (e) {
+        console.error(e);
+      }
+    });
+  }
+
+  public clear() {
+    this.listeners.clear();
+  }
+}
@@ -5,72 +5,88 @@
  * to ensure all clients stay synchronized (Global Pulse).
  */
 
-import { supabase } from "./supabaseClient";
-import type { Song, RadioState } from "../types";
-import { PersistentRadioService } from "./PersistentRadioService";
-
-type EventCallback = (...args: any[]) => void;
-
-const QUERY = "*, current_song:songs!current_song_id(*), next_song:songs!next_song_id(*)";
+import { backend, type BroadcastRow, type RadioChannel } from "./radioBackend";
+import type { Song, RadioState, SiteCommand, SiteCommandBody } from "../types";
+import { startClockSync, serverNow } from "./clockSync";
+import { StationConductor, type StationEvents } from "./stationConductor";
+import { DualDeckEngine } from "./dualDeck";
+import { STATION_RULES } from "./stationRules";
+import { EventBus, type Listener } from "./eventBus";
+
+// Drift correction: nudge playbackRate for small drift, seek only when it's hopeless
+const DRIFT_TOLERANCE_SEC = 0.04;
+const DRIFT_SEEK_SEC = 3;
+const NUDGE_GAIN = 0.25; // rate change per second of drift
+const MAX_NUDGE = 0.05; // ±5% is inaudible with preservesPitch
+
+/** Everything the UI can subscribe to, and what each event carries. */
+export interface BroadcastEvents extends Omit<StationEvents, "broadcastSynced"> {
+  // This device's playback
+  playbackStateChanged: boolean;
+  timeUpdate: number;
+  volumeChanged: number;
+  mutedChanged: boolean;
+  songEnded: Song;
+  autoplayBlocked: boolean;
+  audioError: Event;
+  // DJ Booth
+  siteCommandReceived: SiteCommand;
+}
 
 interface BroadcastState {
-  nowPlaying: Song | null;
-  nextSong: Song | null;
-  radioState: RadioState;
   currentTime: number;
   volume: number;
   isMuted: boolean;
   isPlaying: boolean;
-  leaderId: string | null;
 }
 
 /**
- * GlobalBroadcastManager - Singleton class for managing the radio stream
+ * GlobalBroadcastManager - Singleton class for managing the radio stream.
+ * The station itself (leadership, state machine, watchdog) is the StationConductor's job;
+ * this class plays it out loud and tells the conductor when the audio ends or fails.
  */
 export class GlobalBroadcastManager {
   private static instance: GlobalBroadcastManager | null = null;
 
-  private audioElement: HTMLAudioElement;
-  private eventListeners: Map<string, Set<EventCallback>>;
+  private decks: DualDeckEngine;
+  private events = new EventBus<BroadcastEvents>();
   private state: BroadcastState;
   private timeUpdateInterval: number | null = null;
-  private audioContext: AudioContext | null = null;
-  private analyser: AnalyserNode | null = null;
-  private dataArray: Uint8Array | null = null;
+  private cuedStartedAt: string | null = null; // the play the decks were last cued for
+  private endedPlay: string | null = null; // the play we already reported as ended
 
-  // Leader Election
+  // Station (a stand-in leader when no headless conductor is running)
+  private conductor: StationConductor;
   private userId: string | null = null;
-  private isLeaderLocal: boolean = false;
-  private heartbeatInterval: number | null = null;
-  private conductorInterval: number | null = null;
   private lastCommandId: string | null = null;
-  private releasedAt: number = 0; // Timestamp of last voluntary release
-  private siteCommandChannel: any = null; // Dedicated broadcast channel for ephemeral commands
+  private siteCommandChannel: RadioChannel | null = null; // Dedicated broadcast channel for ephemeral commands
+
+  // Clock Sync
+  private driftSec: number = 0;
+  private stopClockSync: () => void;
 
   private constructor() {
     // CRITICAL: Check if there's already an audio element playing from a leaked instance
     // (Happens during Vite HMR/Hot Reloads)
-    const existingAudio = (globalThis as any).__CLUB_YOUNIVERSE_AUDIO__;
-    if (existingAudio) {
-      console.log("🛑 GlobalBroadcastManager: Cleaning up leaked audio instance...");
-      existingAudio.pause();
-      existingAudio.src = "";
-      existingAudio.load();
+    const existingDecks: HTMLAudioElement[] | undefined = (globalThis as any).__CLUB_YOUNIVERSE_DECKS__;
+    if (existingDecks) {
+      console.log("🛑 GlobalBroadcastManager: Cleaning up leaked audio decks...");
+      existingDecks.forEach((existingAudio) => {
+        existingAudio.pause();
+        existingAudio.src = "";
+        existingAudio.load();
+      });
     }
 
     // Clean up leaked intervals from previous HMR sessions to prevent duplicate Conductor skips
     if ((globalThis as any).__CLUB_YOUNIVERSE_HEARTBEAT__) clearInterval((globalThis as any).__CLUB_YOUNIVERSE_HEARTBEAT__);
     if ((globalThis as any).__CLUB_YOUNIVERSE_CONDUCTOR__) clearInterval((globalThis as any).__CLUB_YOUNIVERSE_CONDUCTOR__);
     if ((globalThis as any).__CLUB_YOUNIVERSE_TIME_UPDATE__) clearInterval((globalThis as any).__CLUB_YOUNIVERSE_TIME_UPDATE__);
+    if ((globalThis as any).__CLUB_YOUNIVERSE_CLOCK_SYNC__) clearInterval((globalThis as any).__CLUB_YOUNIVERSE_CLOCK_SYNC__);
 
-    // Create the audio element
-    this.audioElement = new Audio();
-    this.audioElement.preload = "auto";
-    this.audioElement.crossOrigin = "anonymous";
-    (globalThis as any).__CLUB_YOUNIVERSE_AUDIO__ = this.audioElement;
-
-    // Initialize event listeners map
-    this.eventListeners = new Map();
+    // Create the two decks (one on air, one preloading the next song)
+    this.decks = new DualDeckEngine(STATION_RULES.crossfadeSec);
+    (globalThis as any).__CLUB_YOUNIVERSE_DECKS__ = this.decks.elements;
 
     // Load INITIAL local state (volume/mute only)
     this.state = this.loadLocalState();
@@ -78,13 +94,27 @@ export class GlobalBroadcastManager {
     // Set up audio element event handlers
     this.setupAudioHandlers();
 
+    // The station, and what it means for this deck
+    this.conductor = new StationConductor({ sessionId: crypto.randomUUID() });
+    // Station events the UI listens for on the manager
+    this.conductor.on("radioStateChanged", (state) => this.emit("radioStateChanged", state));
+    this.conductor.on("nextSongChanged", (song) => this.emit("nextSongChanged", song));
+    this.conductor.on("leaderIdChanged", (leaderId) => this.emit("leaderIdChanged", leaderId));
+    this.conductor.on("leaderChanged", (leading) => this.emit("leaderChanged", leading));
+    this.conductor.on("nowPlayingChanged", (song) => this.cue(song));
+    this.conductor.on("nextSongChanged", (song) => this.decks.preload(song?.audioUrl ?? null));
+    this.conductor.on("broadcastSynced", (data) => this.onBroadcastSynced(data));
+
+    // Estimate our offset to the server clock
+    this.stopClockSync = startClockSync({ label: () => this.userId });
+
     // Start time update interval
     this.startTimeUpdates();
 
     // Initialize connection to Global State (DB)
     this.initializeGlobalState();
 
-    // Start Leader Election Process
+    // Start Leader Election Process (browser tabs only lead while no headless conductor runs)
     this.initLeaderElection();
 
     console.log("🎙️ GlobalBroadcastManager initialized");
@@ -105,196 +135,23 @@ export class GlobalBroadcastManager {
 
   private async initLeaderElection() {
     // 1. Get current user ID
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (user) {
-      this.userId = user.id;
+    const userId = await backend.auth.currentUserId();
+    if (userId) {
+      this.userId = userId;
       console.log("👤 Authorized as:", this.userId);
-      this.startElectionLoop();
+      this.conductor.startElection();
     } else {
       // Wait for auth? simple retry for now or listen to auth changes
-      supabase.auth.onAuthStateChange((_event, session) => {
-        if (session?.user && !this.userId) {
-          this.userId = session.user.id;
+      backend.auth.onUserChanged((changedUserId) => {
+        if (changedUserId && !this.userId) {
+          this.userId = changedUserId;
           console.log("👤 Auth recovered:", this.userId);
-          this.startElectionLoop();
+          this.conductor.startElection();
         }
       });
     }
   }
 
-  private startElectionLoop() {
-    if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
-
-    // Check for leadership more frequently (2s) to ensure fast recovery
-    this.heartbeatInterval = window.setInterval(async () => {
-      if (!this.userId) return;
-      await this.tryClaimLeadership();
-    }, 2000);
-
-    (globalThis as any).__CLUB_YOUNIVERSE_HEARTBEAT__ = this.heartbeatInterval;
-
-    // Run immediately
-    this.tryClaimLeadership();
-  }
-
-  public getLeaderId() {
-    return this.state.leaderId;
-  }
-
-  public async claimLeadership(force: boolean = false, previousLeaderId: string | null = null) {
-    if (!this.userId) return false;
-    this.releasedAt = 0; // Clear any release cooldown
-    const now = new Date();
-
-    // Atomic update: If not forcing, we only update if the leader is still who we thought it was
-    let query = supabase
-      .from("broadcasts")
-      .update({
-        leader_id: this.userId,
-        last_heartbeat: now.toISOString(),
-      })
-      .eq("id", "00000000-0000-0000-0000-000000000000");
-
-    if (!force && previousLeaderId !== undefined) {
-      if (previousLeaderId === null) {
-        query = query.is("leader_id", null);
-      } else {
-        query = query.eq("leader_id", previousLeaderId);
-      }
-    }
-
-    const { error, data } = await query.select();
-
-    // If data is empty, it means the condition failed (someone else won the race)
-    if (!error && data && data.length > 0) {
-      console.log("👑 Leadership claimed successfully.");
-      this.isLeaderLocal = true;
-      this.state.leaderId = this.userId;
-      this.emit("leaderIdChanged", this.userId);
-      this.emit("leaderChanged", true);
-      this.startConductorLoop();
-      await this.fetchAndSync();
-      return true;
-    } else {
-      console.log("📉 Leadership claim failed (race condition lost).");
-      return false;
-    }
-  }
-
-  public async releaseLeadership() {
-    if (!this.isLeaderLocal || !this.userId) return;
-    const { error } = await supabase
-      .from("broadcasts")
-      .update({
-        leader_id: null,
-      })
-      .eq("leader_id", this.userId);
-
-    if (!error) {
-      console.log("👑 Leadership released voluntarily.");
-      this.isLeaderLocal = false;
-      this.releasedAt = Date.now(); // Prevent auto-reclaim for a cooldown period
-      this.state.leaderId = null;
-      this.stopConductorLoop();
-      this.emit("leaderIdChanged", null);
-      this.emit("leaderChanged", false);
-      await this.fetchAndSync();
-    }
-  }
-
-  private async tryClaimLeadership() {
-    try {
-      // 1. Fetch current leader status
-      const { data, error } = await supabase
-        .from("broadcasts")
-        .select("leader_id, last_heartbeat")
-        .limit(1)
-        .single();
-
-      if (error) return;
-
-      const remoteLeaderId = data.leader_id;
-      const lastHeartbeat = data.last_heartbeat ? new Date(data.last_heartbeat).getTime() : 0;
-      const isLeaderDead = !remoteLeaderId || (Date.now() - lastHeartbeat > 10000);
-
-      if (this.state.leaderId !== remoteLeaderId) {
-        this.state.leaderId = remoteLeaderId;
-        this.emit("leaderIdChanged", remoteLeaderId);
-      }
-
-      const amILeader = remoteLeaderId === this.userId;
-
-      // AUTO-CLAIM: If there is no leader, or the leader is dead, try to claim it
-      // But skip if we just voluntarily released (15s cooldown)
-      const releaseCooldown = Date.now() - this.releasedAt < 15000;
-      if (isLeaderDead && this.userId && !releaseCooldown) {
-        console.log("🔦 Leader is missing or dead. Attempting auto-claim...");
-        // Auto-claim passes the previousLeaderId to prevent race conditions
-        await this.claimLeadership(false, remoteLeaderId);
-        return; // Next interval will pick up the change
-      }
-
-      if (amILeader) {
-        if (!this.isLeaderLocal) {
-          console.log("👑 I am now the Global Leader.");
-          this.isLeaderLocal = true;
-          this.emit("leaderChanged", true);
-          this.startConductorLoop();
-
-          // RE-CHECK TRIGGERS: If I just became leader, check if there's a trigger waiting
-          this.fetchAndSync();
-        }
-        await supabase
-          .from("broadcasts")
-          .update({ last_heartbeat: new Date().toISOString() })
-          .eq("leader_id", this.userId);
-      } else if (this.isLeaderLocal) {
-        // I thought I was leader, but DB says otherwise
-        console.log("📉 Leadership lost to:", remoteLeaderId);
-        this.isLeaderLocal = false;
-        this.stopConductorLoop();
-        this.emit("leaderChanged", false);
-      }
-    } catch (e) {
-      console.error("Election error:", e);
-    }
-  }
-
-  private startConductorLoop() {
-    if (this.conductorInterval) clearInterval(this.conductorInterval);
-    console.log("👑 GlobalBroadcastManager: Starting Conductor Loop...");
-
-    this.conductorInterval = window.setInterval(async () => {
-      if (!this.isLeaderLocal) return;
-
-      try {
-        // 1. Health Check (Zombie / Silence Prevention)
-        const nextSong = await PersistentRadioService.checkRadioHealth(this.state.nowPlaying);
-        if (nextSong) {
-          console.log("🛠️ Conductor: Kickstarted station with:", nextSong.title);
-          await this.setNowPlaying(nextSong);
-        }
-
-        // 2. Voting Simulation
-        await PersistentRadioService.runSimulationStep();
-      } catch (e) {
-        console.error("Conductor error:", e);
-      }
-    }, 10000); // 10s check
-
-    (globalThis as any).__CLUB_YOUNIVERSE_CONDUCTOR__ = this.conductorInterval;
-  }
-
-  private stopConductorLoop() {
-    if (this.conductorInterval) {
-      console.log("🛑 GlobalBroadcastManager: Stopping Conductor Loop.");
-      clearInterval(this.conductorInterval);
-      this.conductorInterval = null;
-    }
-  }
-
   /**
    * Load volume/mute prefs from localStorage
    */
@@ -313,131 +170,45 @@ export class GlobalBroadcastManager {
     }
 
     return {
-      nowPlaying: null,
-      nextSong: null,
-      radioState: "POOL",
       currentTime: 0,
       volume,
       isMuted,
       isPlaying: false,
-      leaderId: null,
     };
   }
 
 
   /**
-   * Connect to Supabase for the Source of Truth
+   * Connect to the backend for the Source of Truth
    */
   private async initializeGlobalState() {
     console.log("🌍 Initializing Global Broadcast Connection...");
 
-    // 1. Fetch initial state with joined song data
-    const { data, error } = await supabase
-      .from("broadcasts")
-      .select(QUERY)
-      .limit(1)
-      .single();
-
-    if (data) {
-      this.syncStateFromRemote(data);
-    } else if (error) {
-      console.error("❌ Failed to fetch broadcast state:", error);
-    }
-
-    // 2. Subscribe to Realtime DB changes (for state, songs, leadership)
-    supabase
-      .channel("public:broadcasts")
-      .on(
-        "postgres_changes",
-        { event: "UPDATE", schema: "public", table: "broadcasts" },
-        (_payload) => {
-          // console.log('📡 Global Trigger:', payload.new);
-          this.fetchAndSync();
-        },
-      )
-      .subscribe((status) => {
-        console.log("📡 Broadcast Subscription Status:", status);
-      });
+    // 1. Fetch initial state and follow Realtime DB changes (for state, songs, leadership)
+    await this.conductor.connect();
 
-    // 3. Subscribe to dedicated Broadcast channel for ephemeral site commands
+    // 2. Subscribe to dedicated Broadcast channel for ephemeral site commands
     // This is separate from postgres_changes and more reliable for transient messages
-    this.siteCommandChannel = supabase
+    this.siteCommandChannel = backend.realtime
       .channel("site-commands")
-      .on("broadcast", { event: "site_command" }, (payload: any) => {
-        const cmd = payload.payload;
+      .on("site_command", (payload) => {
+        const cmd = payload as SiteCommand | undefined;
         console.log("📡 Site Command received via broadcast channel:", cmd);
         if (cmd && cmd.id && cmd.id !== this.lastCommandId) {
           this.lastCommandId = cmd.id;
           this.emit("siteCommandReceived", cmd);
         }
       })
-      .subscribe((status: string) => {
+      .subscribe((status) => {
         console.log("📡 Site Command Channel Status:", status);
       });
   }
 
-  private async fetchAndSync() {
-    const { data } = await supabase
-      .from("broadcasts")
-      .select(QUERY)
-      .limit(1)
-      .single();
-
-    if (data) this.syncStateFromRemote(data);
-  }
-
-  private syncStateFromRemote(data: any) {
-    const remoteSong = data.current_song
-      ? PersistentRadioService.mapDbToApp(data.current_song)
-      : null;
-    const nextSong = data.next_song
-      ? PersistentRadioService.mapDbToApp(data.next_song)
-      : null;
-    const remoteState = data.radio_state as RadioState;
-
-    // Sync Radio State
-    const actionStates: RadioState[] = ['POOL', 'THE_BOX', 'BOX_WIN', 'REBOOT'];
-    const isActionState = actionStates.includes(remoteState);
-
-    if (this.state.radioState !== remoteState || isActionState) {
-      if (this.state.radioState !== remoteState) {
-        console.log(
-          `📻 Global State Update: ${this.state.radioState} -> ${remoteState}`,
-        );
-        this.state.radioState = remoteState;
-        this.emit("radioStateChanged", remoteState);
-      }
-
-      // LEADER ACTION: If a trigger state is detected, perform the action
-      if (this.isLeaderLocal && isActionState) {
-        this.handleStateTrigger(remoteState);
-      }
-    }
-
-    // Sync Next Song
-    if (nextSong?.id !== this.state.nextSong?.id) {
-      this.state.nextSong = nextSong;
-      this.emit("nextSongChanged", nextSong);
-    }
-
-    // Sync Now Playing
-    if (remoteSong?.id !== this.state.nowPlaying?.id) {
-      console.log(`🎵 Global Song Update: ${data.current_song?.title || 'Unknown'}`);
-      const mappedSong = data.current_song ? PersistentRadioService.mapDbToApp(data.current_song) : null;
-      const offset = this.calculateOffset(data.song_started_at);
-      this.setNowPlaying(mappedSong, offset);
-    } else {
-      // Check for drift > 2 seconds
-      const expectedTime = this.calculateOffset(data.song_started_at);
-
-      // Secondary check: if the song started 5 minutes ago and it's a 3 min song, don't just sync, let watchdog handle it.
-      // But for drift:
-      const drift = Math.abs(this.audioElement.currentTime - expectedTime);
-
-      if (drift > 2 && this.state.isPlaying) {
-        this.audioElement.currentTime = expectedTime;
-      }
-    }
+  /**
+   * Every fresh copy of the broadcasts row: pick up site commands and stay on the timeline.
+   */
+  private onBroadcastSynced(data: BroadcastRow) {
+    this.correctDrift();
 
     // Sync Site Commands
     if (data.site_command && data.site_command.id && data.site_command.id !== this.lastCommandId) {
@@ -453,54 +224,43 @@ export class GlobalBroadcastManager {
     }
   }
 
+  private calculateOffset(startedAt: string | null): number {
+    if (!startedAt) return 0;
+    const start = new Date(startedAt).getTime();
+    // Seconds elapsed on the server clock, not this device's
+    return Math.max(0, (serverNow() - start) / 1000);
+  }
+
   /**
-   * handleStateTrigger - Executes logic for Admin Triggers
+   * Keeps the local deck on the server timeline. Small drift is pulled in by nudging
+   * playbackRate; only drift past DRIFT_SEEK_SEC (a stall, a sleeping tab) is a hard seek.
    */
-  private async handleStateTrigger(state: RadioState) {
-    console.log(`⚡ Triggering Action: ${state}`);
-
-    switch (state) {
-      case 'POOL': // Cycle (Btn P)
-      case 'BOX_WIN': // Force Win (Btn W)
-        console.log("🎬 Cycle/Win Triggered");
-        const nextSong = await PersistentRadioService.handleSongEnded(this.state.nowPlaying);
-        if (nextSong) {
-          await this.setNowPlaying(nextSong);
-        } else {
-          // If fallback fails, return to NOW_PLAYING to stop loop
-          await this.setRadioState('NOW_PLAYING');
-        }
-        break;
-
-      case 'THE_BOX': // Refresh Box (Btn B)
-        console.log("♻️ Refresh Box Triggered");
-        await PersistentRadioService.forceRefreshBox();
-        // Return to NOW_PLAYING state after action
-        await this.setRadioState('NOW_PLAYING');
-        break;
-
-      case 'REBOOT': // Force Nuke (Btn N)
-        console.log("☢️ Hard Reset Triggered");
-        await PersistentRadioService.hardReset();
-        // hardReset sets DB state to POOL, which starts the cycle fresh
-        break;
-
-      case 'DJ_TALKING': // Mic Over (Btn M)
-        // No action needed besides state change (UI handles overlay)
-        break;
-
-      default:
-        // Normal states (NOW_PLAYING) don't trigger anything
-        break;
+  private correctDrift() {
+    const songStartedAt = this.conductor.getSongStartedAt();
+    if (!songStartedAt || !this.state.isPlaying || this.audioElement.seeking) return;
+
+    const expected = this.calculateOffset(songStartedAt);
+    const duration = this.audioElement.duration;
+    // Past the end: the song should be over. Let the watchdog deal with it.
+    if (!Number.isFinite(duration) || expected >= duration) {
+      this.audioElement.playbackRate = 1;
+      return;
     }
-  }
 
-  private calculateOffset(startedAt: string): number {
-    if (!startedAt) return 0;
-    const start = new Date(startedAt).getTime();
-    const now = Date.now();
-    // Return seconds elapsed
-    return Math.max(0, (now - start) / 1000);
+    this.driftSec = this.audioElement.currentTime - expected;
+    const drift = Math.abs(this.driftSec);
+
+    if (drift > DRIFT_SEEK_SEC) {
+      console.log(`🕒 Drift ${this.driftSec.toFixed(2)}s, re-syncing: ${this.audioElement.currentTime.toFixed(1)} -> ${expected.toFixed(1)}`);
+      this.audioElement.currentTime = expected;
+      this.audioElement.playbackRate = 1;
+    } else if (drift > DRIFT_TOLERANCE_SEC) {
+      // Ahead -> slow down, behind -> speed up
+      const nudge = Math.min(MAX_NUDGE, drift * NUDGE_GAIN);
+      this.audioElement.playbackRate = this.driftSec > 0 ? 1 - nudge : 1 + nudge;
+    } else {
+      this.audioElement.playbackRate = 1;
+    }
   }
 
   /**
@@ -522,53 +282,70 @@ export class GlobalBroadcastManager {
   }
 
   /**
-   * Setup audio listeners
+   * The deck on air. Events from the other deck (preloading, fading out) are ignored.
    */
-  private setupAudioHandlers(): void {
-    this.audioElement.addEventListener("play", () => {
-      this.state.isPlaying = true;
-      this.emit("playbackStateChanged", true);
-    });
-    this.audioElement.addEventListener("pause", () => {
-      this.state.isPlaying = false;
-      this.emit("playbackStateChanged", false);
-    });
-    this.audioElement.addEventListener("ended", async () => {
-      this.state.isPlaying = false;
-      this.emit("songEnded", this.state.nowPlaying);
-
-      // LEADER LOGIC: Handle song end and transition
-      if (this.isLeaderLocal) {
-        console.log("👑 Leader: Song ended. Transitioning...");
-
-        // 1. Get next song by completing current cycle
-        const nextSong = await PersistentRadioService.handleSongEnded(this.state.nowPlaying);
-
-        // 2. Clear current state locally to ensure clean transition
-        this.state.nowPlaying = null;
-        this.emit("nowPlayingChanged", null);
+  private get audioElement(): HTMLAudioElement {
+    return this.decks.active;
+  }
 
-        // 3. Play the winner
-        if (nextSong) {
-          await this.setNowPlaying(nextSong);
+  /**
+   * Setup audio listeners on both decks
+   */
+  private setupAudioHandlers(): void {
+    this.decks.elements.forEach((deck) => {
+      deck.addEventListener("play", () => {
+        if (deck !== this.audioElement) return;
+        this.state.isPlaying = true;
+        this.emit("playbackStateChanged", true);
+      });
+      deck.addEventListener("pause", () => {
+        if (deck !== this.audioElement) return;
+        this.state.isPlaying = false;
+        this.emit("playbackStateChanged", false);
+      });
+      // The play is over once only the crossfade is left of it
+      deck.addEventListener("timeupdate", () => {
+        if (deck !== this.audioElement) return;
+        const remaining = deck.duration - deck.currentTime;
+        if (Number.isFinite(remaining) && remaining <= STATION_RULES.crossfadeSec) this.reportSongEnded();
+      });
+      deck.addEventListener("ended", () => {
+        if (deck !== this.audioElement) return;
+        this.state.isPlaying = false;
+        this.reportSongEnded();
+      });
+      deck.addEventListener("error", (e) => {
+        if (deck !== this.audioElement) return;
+        const errorDetails = deck.error;
+        console.error("❌ Audio Error Event:", errorDetails ? `Code: ${errorDetails.code}, Message: ${errorDetails.message}` : "Unknown error");
+
+        if (this.conductor.isLeader) {
+          console.log("⚠️ Leader: Audio failed to load. Skipping corrupted track in 3s...");
+          setTimeout(() => {
+            this.conductor.songFailed();
+          }, 3000);
         }
-      }
-    });
-    this.audioElement.addEventListener("error", (e) => {
-      const errorDetails = this.audioElement.error;
-      console.error("❌ Audio Error Event:", errorDetails ? `Code: ${errorDetails.code}, Message: ${errorDetails.message}` : "Unknown error");
-
-      if (this.isLeaderLocal) {
-        console.log("⚠️ Leader: Audio failed to load. Skipping corrupted track in 3s...");
-        setTimeout(() => {
-          this.handleStateTrigger('POOL');
-        }, 3000);
-      }
-      this.emit("audioError", e);
+        this.emit("audioError", e);
+      });
+
+      deck.volume = this.state.volume;
+      deck.muted = this.state.isMuted;
     });
+  }
+
+  /**
+   * Tells the station the current play is over, once per play.
+   */
+  private async reportSongEnded() {
+    const song = this.conductor.getNowPlaying();
+    if (!song) return;
+    const play = `${song.id}@${this.conductor.getSongStartedAt()}`;
+    if (this.endedPlay === play) return;
+    this.endedPlay = play;
+    this.emit("songEnded", song);
 
-    this.audioElement.volume = this.state.volume;
-    this.audioElement.muted = this.state.isMuted;
+    // LEADER LOGIC: Handle song end and transition (a no-op unless this tab conducts)
+    await this.conductor.songEnded(song.id);
   }
 
   /**
@@ -577,7 +354,8 @@ export class GlobalBroadcastManager {
   private startTimeUpdates(): void {
     if (this.timeUpdateInterval) clearInterval(this.timeUpdateInterval);
     this.timeUpdateInterval = window.setInterval(() => {
-      if (this.state.isPlaying && this.state.nowPlaying) {
+      if (this.state.isPlaying && this.conductor.getNowPlaying()) {
+        this.correctDrift();
         this.state.currentTime = this.audioElement.currentTime;
         this.emit("timeUpdate", this.audioElement.currentTime);
       }
@@ -589,32 +367,42 @@ export class GlobalBroadcastManager {
   // --- PUBLIC API ---
 
   public get isLeader() {
-    return this.isLeaderLocal;
+    return this.conductor.isLeader;
   }
 
-  public async setNowPlaying(
-    song: Song | null,
-    startOffset: number = 0,
-  ): Promise<void> {
-    // Optimistic update
-    this.state.nowPlaying = song;
+  public getLeaderId() {
+    return this.conductor.getLeaderId();
+  }
 
-    // Consistency: If a song is set, we should be in NOW_PLAYING or DJ_TALKING state
-    if (song && this.state.radioState !== 'NOW_PLAYING' && this.state.radioState !== 'DJ_TALKING') {
-      this.state.radioState = 'NOW_PLAYING';
-      this.emit("radioStateChanged", 'NOW_PLAYING');
-    }
+  /**
+   * Takes the lease. With `force` the current leader (even a headless conductor) is overthrown.
+   */
+  public async claimLeadership(force: boolean = false) {
+    if (!this.userId) return false;
+    return this.conductor.claimLeadership(force);
+  }
+
+  public async releaseLeadership() {
+    if (!this.userId) return;
+    await this.conductor.releaseLeadership();
+  }
+
+  /**
+   * Puts a song on air. The conductor persists it if this tab leads, then the deck follows.
+   */
+  public async setNowPlaying(song: Song | null): Promise<void> {
+    await this.conductor.setNowPlaying(song);
+  }
+
+  /**
+   * Loads whatever the station says is on air into the audio element, joining it at the
+   * server-timeline offset.
+   */
+  private cue(song: Song | null) {
     if (!song) {
-      this.audioElement.pause();
-      this.audioElement.removeAttribute("src");
-      this.audioElement.load(); // Required to reset the element and stop it from complaining
+      this.decks.stop();
+      this.cuedStartedAt = null;
       this.emit("nowPlayingChanged", null);
-
-      // CRITICAL FIX: If we are clearing the song, we must also reset the state
-      // This prevents "NOW_PLAYING" with no song
-      if (this.isLeaderLocal) {
-        await this.persistBroadcastState(false); // Force update to remove song ID
-      }
       return;
     }
 
@@ -626,26 +414,20 @@ export class GlobalBroadcastManager {
     }
 
     // CHECK: Is this the same song?
-    // We check both the ID and the actual audio source
+    const startedAt = this.conductor.getSongStartedAt();
     const hasCorrectSrc = this.audioElement.src === song.audioUrl;
-    const isSameId = this.state.nowPlaying?.id === song.id;
+    // Same track promoted again after it ended: a fresh play, so it crossfades into itself
+    const remaining = this.audioElement.duration - this.audioElement.currentTime;
+    const isReplay = hasCorrectSrc && startedAt !== this.cuedStartedAt
+      && (this.audioElement.ended || remaining <= STATION_RULES.crossfadeSec + 1);
+    this.cuedStartedAt = startedAt;
 
-    if (!hasCorrectSrc) {
-      console.log(`🎵 Setting audio source for: ${song.title}`);
-      this.audioElement.src = song.audioUrl;
-
-      // SYNC FIX: Wait for metadata before seeking to the offset
-      const onMetadataLoaded = () => {
-        if (startOffset > 0) {
-          console.log(`➡️ Syncing to global time: +${startOffset.toFixed(1)}s`);
-          this.audioElement.currentTime = startOffset;
-        }
-        this.audioElement.removeEventListener("loadedmetadata", onMetadataLoaded);
-      };
-      this.audioElement.addEventListener("loadedmetadata", onMetadataLoaded);
+    if (!hasCorrectSrc || isReplay) {
+      console.log(`🎵 Crossfading to: ${song.title}`);
 
       // Try to autoplay with robust fallback
-      this.play().catch((e) => {
+      const offset = () => this.calculateOffset(this.conductor.getSongStartedAt());
+      this.decks.switchTo(song.audioUrl, offset, song.replayGain ?? 0).catch((e) => {
         if (e.name === 'NotAllowedError') {
           console.warn("🚫 Autoplay blocked by browser. User interaction required.");
           this.emit("autoplayBlocked", true);
@@ -673,110 +455,53 @@ export class GlobalBroadcastManager {
           }
         });
       }
-      // If we're already playing, just check for drift
-      const expectedTime = startOffset;
-      if (
-        expectedTime > 0 &&
-        Math.abs(this.audioElement.currentTime - expectedTime) > 2
-      ) {
-        console.log(`🕒 Drift detected, re-syncing: ${this.audioElement.currentTime.toFixed(1)} -> ${expectedTime.toFixed(1)}`);
-        this.audioElement.currentTime = expectedTime;
-      }
+      // If we're already playing, the drift loop keeps us on the server timeline
+      this.correctDrift();
     }
 
     this.emit("nowPlayingChanged", song);
-
-    // PERSIST TO GLOBAL STATE (Only if Leader)
-    if (this.isLeaderLocal) {
-      // Auto-update Radio State to NOW_PLAYING if we are playing a song
-      if (song && this.state.radioState !== 'NOW_PLAYING') {
-        this.state.radioState = 'NOW_PLAYING';
-        this.emit("radioStateChanged", 'NOW_PLAYING');
-      }
-      await this.persistBroadcastState(!hasCorrectSrc || !isSameId);
-    }
-  }
-
-  private async persistBroadcastState(newSongStartedAt: boolean = false) {
-    // GATEKEEPER: Only Leader can write to DB State!
-    if (!this.isLeaderLocal) {
-      // console.log("🔒 Not leader. Skipping DB persist.");
-      return;
-    }
-
-    try {
-      const payload: any = {
-        current_song_id: this.state.nowPlaying?.id || null,
-        next_song_id: this.state.nextSong?.id || null,
-        radio_state: this.state.radioState,
-        updated_at: new Date().toISOString(),
-      };
-
-      if (newSongStartedAt) {
-        payload.song_started_at = new Date().toISOString();
-      }
-
-      // Using the '000...000' ID from the SQL setup or generic update
-      await supabase
-        .from("broadcasts")
-        .update(payload)
-        .eq("id", "00000000-0000-0000-0000-000000000000");
-    } catch (e) {
-      console.error("Failed to persist broadcast state:", e);
-    }
   }
 
+  /**
+   * Requests a state change (DJ Booth triggers). Only the leader drives the state machine.
+   */
   public async setRadioState(state: RadioState) {
-    if (this.state.radioState !== state) {
-      this.state.radioState = state;
-      this.emit("radioStateChanged", state);
-      await this.persistBroadcastState();
-    }
+    await this.conductor.setRadioState(state);
   }
 
   public getNowPlaying() {
-    return this.state.nowPlaying;
+    return this.conductor.getNowPlaying();
   }
 
-  public async sendSiteCommand(type: string, payload: any) {
+  public async sendSiteCommand(command: SiteCommandBody) {
     const commandId = Math.random().toString(36).substring(2, 15);
-    const cmd = { type, payload, timestamp: Date.now(), id: commandId };
+    const cmd: SiteCommand = { ...command, timestamp: Date.now(), id: commandId };
 
     // Fire locally immediately for the sender
     this.lastCommandId = commandId;
     this.emit("siteCommandReceived", cmd);
 
     try {
-      // PRIMARY: Send via Supabase Broadcast channel (instant, ephemeral)
+      // PRIMARY: Send via the Broadcast channel (instant, ephemeral)
       if (this.siteCommandChannel) {
-        await this.siteCommandChannel.send({
-          type: "broadcast",
-          event: "site_command",
-          payload: cmd,
-        });
-        console.log("📡 Site command sent via broadcast channel:", type);
+        await this.siteCommandChannel.send("site_command", cmd);
+        console.log("📡 Site command sent via broadcast channel:", cmd.type);
       }
 
       // SECONDARY: Also persist to DB as fallback
-      await supabase.from("broadcasts").update({
-        site_command: cmd
-      }).eq("id", "00000000-0000-0000-0000-000000000000");
+      await backend.broadcasts.update({ site_command: cmd });
     } catch (e) {
       console.error("Site Command Failed:", e);
     }
   }
   public getNextSong() {
-    return this.state.nextSong;
+    return this.conductor.getNextSong();
   }
   public async setNextSong(song: Song | null) {
-    this.state.nextSong = song;
-    this.emit("nextSongChanged", song);
-    if (this.isLeaderLocal) {
-      await this.persistBroadcastState();
-    }
+    await this.conductor.setNextSong(song);
   }
   public getRadioState() {
-    return this.state.radioState;
+    return this.conductor.getRadioState();
   }
   public getCurrentTime() {
     return this.audioElement.currentTime;
@@ -785,6 +510,11 @@ export class GlobalBroadcastManager {
     return !this.audioElement.paused;
   }
 
+  /** How far the local deck is off the server timeline (positive = ahead), and the nudge applied. */
+  public getSyncStatus() {
+    return { driftMs: this.driftSec * 1000, playbackRate: this.audioElement.playbackRate };
+  }
+
   public getVolume() {
     return this.state.volume;
   }
@@ -793,23 +523,9 @@ export class GlobalBroadcastManager {
   }
 
   public async play() {
-    if (this.audioElement.paused && this.state.nowPlaying) {
-      // Initialize Audio Analysis on first user interaction (play)
-      if (!this.audioContext) {
-        try {
-          this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-          this.analyser = this.audioContext.createAnalyser();
-          const source = this.audioContext.createMediaElementSource(this.audioElement);
-          source.connect(this.analyser);
-          this.analyser.connect(this.audioContext.destination);
-          this.analyser.fftSize = 64; // Small for performance
-          this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
-        } catch (e) {
-          console.warn("AudioContext initialization failed (cross-origin or blocked):", e);
-        }
-      } else if (this.audioContext.state === 'suspended') {
-        this.audioContext.resume();
-      }
+    if (this.audioElement.paused && this.conductor.getNowPlaying()) {
+      // Initialize the deck graph and audio analysis on first user interaction (play)
+      this.decks.unlock();
 
       await this.audioElement.play();
       this.state.isPlaying = true;
@@ -818,11 +534,25 @@ export class GlobalBroadcastManager {
   }
 
   public getBassIntensity(): number {
-    if (!this.analyser || !this.dataArray || this.audioElement.paused) return 0;
-    this.analyser.getByteFrequencyData(this.dataArray as any);
-    // Focus on the first few bins (bass)
-    const bassSum = this.dataArray[0] + this.dataArray[1] + this.dataArray[2];
-    return bassSum / 765; // Normalize to 0-1
+    return this.decks.getBassIntensity();
+  }
+
+  /**
+   * Routes a Box preview's audio element through the deck graph (see services/boxPreview.ts).
+   * Call from a user gesture: like play(), it unlocks the graph. Returns the preview's gain,
+   * or null if Web Audio isn't available.
+   */
+  public attachPreview(element: HTMLAudioElement): GainNode | null {
+    this.decks.unlock();
+    return this.decks.attach(element);
+  }
+
+  /**
+   * Fades the broadcast to `level` of the listener's volume (1 restores it). Returns false if it
+   * can't be faded, in which case it plays on untouched.
+   */
+  public duck(level: number, rampSec: number): boolean {
+    return this.decks.duckTo(level, rampSec);
   }
 
   public pause() {
@@ -844,47 +574,36 @@ export class GlobalBroadcastManager {
 
   public setVolume(vol: number) {
     this.state.volume = Math.max(0, Math.min(1, vol));
-    this.audioElement.volume = this.state.volume;
+    this.decks.elements.forEach((deck) => (deck.volume = this.state.volume));
     this.saveState();
     this.emit("volumeChanged", this.state.volume);
   }
 
   public setMuted(muted: boolean) {
     this.state.isMuted = muted;
-    this.audioElement.muted = muted;
+    this.decks.elements.forEach((deck) => (deck.muted = muted));
     this.saveState();
     this.emit("mutedChanged", muted);
   }
 
-  public on(event: string, callback: EventCallback) {
-    if (!this.eventListeners.has(event))
-      this.eventListeners.set(event, new Set());
-    this.eventListeners.get(event)!.add(callback);
+  public on<K extends keyof BroadcastEvents>(event: K, listener: Listener<BroadcastEvents[K]>) {
+    return this.events.on(event, listener);
   }
 
-  public off(event: string, callback: EventCallback) {
-    const listeners = this.eventListeners.get(event);
-    if (listeners) listeners.delete(callback);
+  public off<K extends keyof BroadcastEvents>(event: K, listener: Listener<BroadcastEvents[K]>) {
+    this.events.off(event, listener);
   }
 
-  private emit(event: string, ...args: any[]) {
-    const listeners = this.eventListeners.get(event);
-    if (listeners) {
-      listeners.forEach((cb) => {
-        try {
-          cb(...args);
-        } catch (e) {
-          console.error(e);
-        }
-      });
-    }
+  private emit<K extends keyof BroadcastEvents>(event: K, payload: BroadcastEvents[K]) {
+    this.events.emit(event, payload);
   }
 
   public destroy() {
     if (this.timeUpdateInterval) clearInterval(this.timeUpdateInterval);
-    if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
-    this.audioElement.pause();
-    this.eventListeners.clear();
+    this.conductor.stop();
+    this.stopClockSync();
+    this.decks.stop();
+    this.events.clear();
     GlobalBroadcastManager.instance = null;
   }
 }
@@ -0,0 +1,74 @@
+/**
+ * @file This service handles the Graveyard: epitaphs, petitions and resurrection.
+ * A resurrected song comes back as a Dead Song Walking for one farewell play
+ * (see supabase/migrations/020_graveyard.sql).
+ */
+import { backend, type EpitaphRow } from "./radioBackend";
+import type { GraveyardEntry } from "../types";
+
+const mapDbEpitaphToEntry = (row: EpitaphRow): GraveyardEntry => ({
+  songId: row.song_id,
+  uploaderId: row.uploader_id,
+  title: row.title,
+  artistName: row.artist_name,
+  coverArtUrl: row.cover_art_url ?? undefined,
+  finalStars: row.final_stars,
+  roundsWon: row.rounds_won,
+  buriedAt: row.buried_at,
+  resurrectionCount: row.resurrection_count,
+  petitions: row.petitions,
+});
+
+/**
+ * Fetches every buried song, most recent burial first.
+ */
+export const getGraveyard = async (): Promise<GraveyardEntry[]> => {
+  try {
+    return (await backend.graveyard.epitaphs()).map(mapDbEpitaphToEntry);
+  } catch (error) {
+    console.error("Error fetching the graveyard:", error);
+    return [];
+  }
+};
+
+/**
+ * Fetches the ids of the songs the given user has petitioned for.
+ */
+export const getSignedPetitions = async (userId: string): Promise<Set<string>> => {
+  return new Set(await backend.graveyard.petitionsSignedBy(userId).catch(() => []));
+};
+
+/**
+ * Signs the current user onto a song's resurrection petition.
+ * @returns The signature count, and whether this signature raised the song.
+ */
+export const signResurrectionPetition = async (
+  songId: string,
+): Promise<{ signatures: number; resurrected: boolean }> => {
+  try {
+    return await backend.rpc("sign_resurrection_petition", {
+      p_song_id: songId,
+    });
+  } catch (error) {
+    console.error("Error signing petition:", error);
+    throw new Error("Failed to sign the petition. The song may have already risen.");
+  }
+};
+
+/**
+ * The artist brings their own buried song back, once the cooldown has passed.
+ */
+export const resubmitFromGraveyard = async (songId: string): Promise<void> => {
+  try {
+    await backend.rpc("resubmit_from_graveyard", {
+      p_song_id: songId,
+    });
+  } catch (error: any) {
+    console.error("Error resubmitting song:", error);
+    throw new Error(
+      error.message?.startsWith("resubmit_cooldown")
+        ? "This song is still resting. Try again later."
+        : "Failed to resubmit the song.",
+    );
+  }
+};
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LeaderLease, isStaleTokenError, type LeaseBackend } from "./leaderLease";
+import { rpcLeaseBackendFor } from "./stationConductor";
+import { createMemoryBackend } from "./memoryBackend";
+
+const LEASE_MS = 10000;
+const SAFETY_MS = 2000;
+
+describe("leader election on the in-memory backend", () => {
+  let leases: LeaseBackend;
+  let radio: ReturnType<typeof createMemoryBackend>;
+  const contender = (sessionId: string) => new LeaderLease(leases, sessionId, { leaseMs: LEASE_MS, safetyMs: SAFETY_MS, now: () => Date.now() });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse("2026-03-01T12:00:00Z"));
+    radio = createMemoryBackend();
+    leases = rpcLeaseBackendFor(radio);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("grants the lease to one session at a time", async () => {
+    const a = contender("tab-a");
+    const b = contender("tab-b");
+
+    expect(await a.renew()).toMatchObject({ acquired: true, token: 1, leaderSession: "tab-a" });
+    expect(await b.renew()).toMatchObject({ acquired: false, token: null, leaderSession: "tab-a" });
+    expect(a.isLeader()).toBe(true);
+    expect(b.isLeader()).toBe(false);
+    expect(b.token).toBeNull();
+  });
+
+  it("keeps the fencing token across renewals", async () => {
+    const a = contender("tab-a");
+    await a.renew();
+    vi.advanceTimersByTime(5000);
+    expect(await a.renew()).toMatchObject({ acquired: true, token: 1 });
+    expect(a.token).toBe(1);
+  });
+
+  it("hands over on release, with a newer token", async () => {
+    const a = contender("tab-a");
+    const b = contender("tab-b");
+    await a.renew();
+    await a.release();
+
+    expect(a.isLeader()).toBe(false);
+    expect(await b.renew()).toMatchObject({ acquired: true, token: 2, leaderSession: "tab-b" });
+  });
+
+  it("stops trusting the lease before the server lets it go", async () => {
+    const a = contender("tab-a");
+    const b = contender("tab-b");
+    await a.renew();
+
+    vi.advanceTimersByTime(LEASE_MS - SAFETY_MS);
+    expect(a.isLeader()).toBe(false);
+    expect((await b.renew())?.acquired).toBe(false); // the server's copy is still live
+
+    vi.advanceTimersByTime(SAFETY_MS + 1);
+    expect((await b.renew())?.acquired).toBe(true);
+    expect(b.token).toBe(2);
+  });
+
+  it("fences out writes from a leader that lost the lease", async () => {
+    const a = contender("tab-a");
+    const b = contender("tab-b");
+    await a.renew();
+    const staleToken = a.token; // a tab frozen mid-write still holds it
+    vi.advanceTimersByTime(LEASE_MS + 1);
+    await b.renew();
+
+    const write = radio.broadcasts.update({ radio_state: "THE_BOX", writer_token: staleToken });
+    await expect(write).rejects.toSatisfy((error) => isStaleTokenError(error as Error));
+    await radio.broadcasts.update({ radio_state: "THE_BOX", writer_token: b.token });
+    expect((await radio.broadcasts.get())?.radio_state).toBe("THE_BOX");
+  });
+
+  it("takes the decks from a live leader on a forced takeover", async () => {
+    const a = contender("tab-a");
+    const b = contender("tab-b");
+    await a.renew();
+
+    expect(await b.renew(true)).toMatchObject({ acquired: true, token: 2, leaderSession: "tab-b" });
+    expect((await a.renew())?.acquired).toBe(false);
+    expect(a.isLeader()).toBe(false);
+  });
+
+  it("refuses a forced takeover from a listener who isn't an admin", async () => {
+    const listener = createMemoryBackend({ userId: "listener", seed: false });
+    await expect(listener.rpc("acquire_leadership", { p_session: "tab-b", p_force: true })).rejects.toThrow(/only an admin/);
+  });
+
+  it("lets the lease run out on its own when the backend can't be reached", async () => {
+    const a = contender("tab-a");
+    await a.renew();
+    vi.spyOn(radio, "rpc").mockRejectedValueOnce(new Error("offline"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(await a.renew()).toBeNull();
+    expect(a.isLeader()).toBe(true);
+    vi.advanceTimersByTime(LEASE_MS - SAFETY_MS);
+    expect(a.isLeader()).toBe(false);
+  });
+});
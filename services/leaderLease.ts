@@ -0,0 +1,100 @@
+/**
+ * @file leaderLease - Client side of the leader lease (see supabase/migrations/016_leader_lease.sql).
+ *
+ * The database decides who leads; this class only remembers the grant and when to stop
+ * trusting it. Expiry is measured on this client's own monotonic clock from the moment
+ * the request was SENT, minus a safety margin, so it always runs out before the server's
+ * copy does, whatever the device's wall clock says. A lease that lapsed here is never
+ * used again without a fresh grant, so a paused or partitioned tab stops conducting on
+ * its own, and the fencing token stops anything it sends late.
+ *
+ * No Supabase in here: StationConductor plugs in the RPC backend, and
+ * scripts/simulate_leader_election.ts plugs in an in-memory stand-in.
+ */
+
+export interface LeaseGrant {
+  acquired: boolean;
+  token: number | null;
+  leaderId: string | null;
+  leaderSession: string | null;
+  ttlMs: number;
+}
+
+export interface LeaseBackend {
+  acquire(sessionId: string, leaseMs: number, force: boolean): Promise<LeaseGrant>;
+  release(sessionId: string, token: number): Promise<void>;
+}
+
+interface LeaderLeaseOptions {
+  leaseMs?: number;
+  safetyMs?: number;
+  now?: () => number; // monotonic milliseconds
+}
+
+export class LeaderLease {
+  private currentToken: number | null = null;
+  private expiresAt = 0;
+  private readonly leaseMs: number;
+  private readonly safetyMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    private readonly backend: LeaseBackend,
+    public readonly sessionId: string,
+    { leaseMs = 10000, safetyMs = 2000, now = () => performance.now() }: LeaderLeaseOptions = {},
+  ) {
+    this.leaseMs = leaseMs;
+    this.safetyMs = safetyMs;
+    this.now = now;
+  }
+
+  /** True only while a granted lease is still safely inside its term. */
+  public isLeader(): boolean {
+    return this.currentToken !== null && this.now() < this.expiresAt;
+  }
+
+  /** The fencing token to send with every leader write, or null when not leading. */
+  public get token(): number | null {
+    return this.isLeader() ? this.currentToken : null;
+  }
+
+  /**
+   * Asks for (or renews) the lease. Returns the backend's answer, or null if it couldn't be reached;
+   * in that case the current lease simply runs out on schedule.
+   */
+  public async renew(force: boolean = false): Promise<LeaseGrant | null> {
+    const sentAt = this.now();
+    let grant: LeaseGrant;
+    try {
+      grant = await this.backend.acquire(this.sessionId, this.leaseMs, force);
+    } catch (e) {
+      console.warn("👑 Lease renewal failed:", e);
+      return null;
+    }
+
+    if (grant.acquired && grant.token !== null) {
+      this.currentToken = grant.token;
+      this.expiresAt = sentAt + Math.min(this.leaseMs, grant.ttlMs) - this.safetyMs;
+    } else {
+      this.revoke();
+    }
+    return grant;
+  }
+
+  /** Gives the lease back so someone else can take over without waiting for it to expire. */
+  public async release(): Promise<void> {
+    const token = this.currentToken;
+    this.revoke();
+    if (token !== null) await this.backend.release(this.sessionId, token);
+  }
+
+  /** Drops the lease locally, e.g. after a write came back with 'stale_fencing_token'. */
+  public revoke() {
+    this.currentToken = null;
+    this.expiresAt = 0;
+  }
+}
+
+/** True if a Supabase error is the fencing check rejecting a stale leader. */
+export const isStaleTokenError = (error: { message?: string } | null | undefined) =>
+  !!error?.message?.includes("stale_fencing_token");
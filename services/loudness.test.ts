@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createLoudnessMeter, dbToGain, PEAK_CEILING_DB, replayGainFor, TARGET_LUFS } from "./loudness";
+import { STATION_RULES } from "./stationRules";
+
+const SAMPLE_RATE = 48000;
+
+/** Stereo 997 Hz sine, the BS.1770 reference tone: at peak `dbfs` in both channels it reads `dbfs` LUFS. */
+const tone = (dbfs: number, seconds: number): Float32Array[] => {
+  const amplitude = dbToGain(dbfs);
+  const samples = Float32Array.from({ length: SAMPLE_RATE * seconds }, (_, i) => amplitude * Math.sin((2 * Math.PI * 997 * i) / SAMPLE_RATE));
+  return [samples, samples.slice()];
+};
+
+const silence = (seconds: number): Float32Array[] => [new Float32Array(SAMPLE_RATE * seconds), new Float32Array(SAMPLE_RATE * seconds)];
+
+const concat = (...parts: Float32Array[][]): Float32Array[] =>
+  [0, 1].map((c) => {
+    const joined = new Float32Array(parts.reduce((length, part) => length + part[c].length, 0));
+    parts.reduce((offset, part) => (joined.set(part[c], offset), offset + part[c].length), 0);
+    return joined;
+  });
+
+const measure = (channels: Float32Array[], chunkSamples = channels[0].length) => {
+  const meter = createLoudnessMeter(SAMPLE_RATE, channels.length);
+  for (let start = 0; start < channels[0].length; start += chunkSamples) {
+    meter.push(channels.map((channel) => channel.subarray(start, start + chunkSamples)));
+  }
+  return meter.result();
+};
+
+describe("loudness", () => {
+  it("reads the reference tone at its level, however the file is chunked", () => {
+    const whole = measure(tone(-20, 3));
+    expect(whole.integratedLufs).toBeCloseTo(-20, 1);
+    expect(whole.peakDb).toBeCloseTo(-20, 1);
+
+    const streamed = measure(tone(-20, 3), 1000); // chunks that don't line up with the 100ms steps
+    expect(streamed.integratedLufs).toBeCloseTo(whole.integratedLufs, 6);
+  });
+
+  it("gates out silence, so a quiet intro doesn't drag the level down", () => {
+    // Ungated, 5s of silence would pull 3s of tone down to -24.3; only the blocks straddling its start count low
+    const afterIntro = measure(concat(silence(5), tone(-20, 3))).integratedLufs;
+    expect(afterIntro).toBeLessThan(-20);
+    expect(afterIntro).toBeGreaterThan(-20.5);
+    expect(measure(silence(2))).toMatchObject({ integratedLufs: -Infinity, peakDb: -Infinity });
+  });
+
+  it("brings a track to the target, short of clipping and within the boost and cut limits", () => {
+    expect(replayGainFor(measure(tone(-20, 3)))).toBeCloseTo(TARGET_LUFS + 20, 1);
+    expect(replayGainFor({ integratedLufs: -20, peakDb: -3, hookOffsetSec: 0 })).toBe(PEAK_CEILING_DB + 3);
+    expect(replayGainFor({ integratedLufs: -60, peakDb: -50, hookOffsetSec: 0 })).toBe(12); // the boost limit
+    expect(replayGainFor({ integratedLufs: -6, peakDb: 0, hookOffsetSec: 0 })).toBe(TARGET_LUFS + 6);
+    expect(replayGainFor({ integratedLufs: -Infinity, peakDb: -Infinity, hookOffsetSec: 0 })).toBe(0);
+  });
+
+  it("finds the hook where the loudest preview-length stretch starts", () => {
+    const song = concat(tone(-30, 20), tone(-10, STATION_RULES.previewSec), tone(-30, 15));
+    expect(measure(song, 4800).hookOffsetSec).toBeCloseTo(20, 1);
+
+    expect(measure(tone(-10, STATION_RULES.previewSec - 2)).hookOffsetSec).toBe(0); // shorter than a preview
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * @file loudness - Integrated loudness (ITU-R BS.1770 / EBU R128) and the replay gain
+ * that brings a track to the station's -14 LUFS (docs/SPECIFICATIONS.md).
+ *
+ * The meter takes planar PCM in chunks, so the same code measures an upload decoded in
+ * the browser (analyzeAudioFile) and a file streamed through ffmpeg in Node
+ * (scripts/backfill_replay_gain.ts). Sample peak is tracked alongside, and the gain is
+ * capped so the loudest sample stays under the ceiling instead of clipping.
+ *
+ * The same pass finds the hook The Box previews (services/boxPreview.ts): the window of
+ * STATION_RULES.previewSec with the most K-weighted energy.
+ */
+
+import { STATION_RULES } from "./stationRules";
+
+export const TARGET_LUFS = -14;
+export const PEAK_CEILING_DB = -1;
+const MAX_BOOST_DB = 12; // don't turn a near-silent intro into a wall of noise
+const MAX_CUT_DB = -24;
+
+const BLOCK_SEC = 0.4; // gating block
+const STEP_SEC = 0.1; // 75% overlap
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+export interface LoudnessResult {
+  integratedLufs: number; // -Infinity for silence
+  peakDb: number; // sample peak, dBFS
+  hookOffsetSec: number; // start of the loudest preview-length window; 0 for a track shorter than one
+}
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/** The two K-weighting stages (high shelf, then high pass), designed for any sample rate. */
+const kWeighting = (sampleRate: number): [Biquad, Biquad] => {
+  // Stage 1: +4 dB shelf modelling the head
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // Stage 2: RLB high pass
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+};
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Streaming loudness meter. Feed it planar chunks (one Float32Array per channel) with push(),
+ * then read result(). Channels are weighted equally (mono/stereo; no surround weighting).
+ */
+export const createLoudnessMeter = (sampleRate: number, channelCount: number) => {
+  const [shelf, highPass] = kWeighting(sampleRate);
+  // Filter state per channel: [x1, x2, y1, y2] for each stage
+  const state = Array.from({ length: channelCount }, () => new Float64Array(8));
+  const stepSamples = Math.round(sampleRate * STEP_SEC);
+  const stepsPerBlock = Math.round(BLOCK_SEC / STEP_SEC);
+
+  const steps: number[] = []; // summed channel energy per 100ms step
+  let stepEnergy = 0;
+  let stepFill = 0;
+  let peak = 0;
+
+  const push = (channels: Float32Array[]) => {
+    const length = channels[0]?.length ?? 0;
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < channelCount; c++) {
+        const x = channels[c][i];
+        const abs = Math.abs(x);
+        if (abs > peak) peak = abs;
+
+        const s = state[c];
+        const y1 = shelf.b0 * x + shelf.b1 * s[0] + shelf.b2 * s[1] - shelf.a1 * s[2] - shelf.a2 * s[3];
+        s[1] = s[0];
+        s[0] = x;
+        s[3] = s[2];
+        s[2] = y1;
+        const y2 = highPass.b0 * y1 + highPass.b1 * s[4] + highPass.b2 * s[5] - highPass.a1 * s[6] - highPass.a2 * s[7];
+        s[5] = s[4];
+        s[4] = y1;
+        s[7] = s[6];
+        s[6] = y2;
+
+        stepEnergy += y2 * y2;
+      }
+
+      if (++stepFill === stepSamples) {
+        steps.push(stepEnergy);
+        stepEnergy = 0;
+        stepFill = 0;
+      }
+    }
+  };
+
+  /** Slides a preview-length window along the 100ms steps and returns where the energy peaks. */
+  const hookOffset = (): number => {
+    const windowSteps = Math.round(STATION_RULES.previewSec / STEP_SEC);
+    if (steps.length <= windowSteps) return 0;
+
+    let energy = 0;
+    for (let i = 0; i < windowSteps; i++) energy += steps[i];
+    let best = energy;
+    let bestStart = 0;
+    for (let start = 1; start + windowSteps <= steps.length; start++) {
+      energy += steps[start + windowSteps - 1] - steps[start - 1];
+      if (energy > best) {
+        best = energy;
+        bestStart = start;
+      }
+    }
+    return Math.round(bestStart * STEP_SEC * 10) / 10;
+  };
+
+  const result = (): LoudnessResult => {
+    // Mean square per 400ms block, 100ms apart
+    const blocks: number[] = [];
+    for (let i = 0; i + stepsPerBlock <= steps.length; i++) {
+      let energy = 0;
+      for (let j = 0; j < stepsPerBlock; j++) energy += steps[i + j];
+      blocks.push(energy / (stepSamples * stepsPerBlock));
+    }
+
+    const gated = (threshold: number) => blocks.filter((z) => blockLoudness(z) > threshold);
+    const mean = (values: number[]) => values.reduce((sum, z) => sum + z, 0) / values.length;
+
+    const aboveAbsolute = gated(ABSOLUTE_GATE_LUFS);
+    const peakDb = peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+    const hookOffsetSec = hookOffset();
+    if (aboveAbsolute.length === 0) return { integratedLufs: -Infinity, peakDb, hookOffsetSec };
+
+    const relativeGate = blockLoudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+    const aboveRelative = gated(Math.max(ABSOLUTE_GATE_LUFS, relativeGate));
+    return { integratedLufs: blockLoudness(mean(aboveRelative)), peakDb, hookOffsetSec };
+  };
+
+  return { push, result };
+};
+
+/**
+ * The gain (dB) that brings a track to TARGET_LUFS, capped so its peak stays under PEAK_CEILING_DB.
+ * Silence gets 0.
+ */
+export const replayGainFor = ({ integratedLufs, peakDb }: LoudnessResult): number => {
+  if (!Number.isFinite(integratedLufs)) return 0;
+  let gain = TARGET_LUFS - integratedLufs;
+  if (Number.isFinite(peakDb)) gain = Math.min(gain, PEAK_CEILING_DB - peakDb);
+  gain = Math.max(MAX_CUT_DB, Math.min(MAX_BOOST_DB, gain));
+  return Math.round(gain * 100) / 100;
+};
+
+/** dB -> linear amplitude, for a GainNode. */
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Decodes an audio file in the browser and measures it. Returns null if it can't be decoded.
+ */
+export const analyzeAudioFile = async (file: Blob): Promise<LoudnessResult | null> => {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const meter = createLoudnessMeter(buffer.sampleRate, buffer.numberOfChannels);
+    meter.push(Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c)));
+    return meter.result();
+  } catch (e) {
+    console.warn("🔊 Loudness analysis failed:", e);
+    return null;
+  } finally {
+    context.close();
+  }
+};
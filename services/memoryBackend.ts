@@ -0,0 +1,1033 @@
+/**
+ * @file memoryBackend - RadioBackend that lives entirely in this process. No network.
+ *
+ * A demo library of synthesized tracks, the broadcasts row, Box rounds, the human and
+ * simulated vote ledgers, skip petitions, live ratings and resurrection petitions, with the
+ * station's procedures (leader lease, ensure_box_round, cast_box_vote, cast_simulated_votes,
+ * tune_in, skip_petition, cast_skip_vote, veto_play, rate_now_playing, advance_round,
+ * sign_resurrection_petition, resubmit_from_graveyard, grant_premium, server_clock) ported from
+ * supabase/migrations and typed by RpcProcedures. The star rules come from radioStateMachine.ts,
+ * the same functions the SQL mirrors.
+ *
+ * It is for the offline demo and the service tests, not a stand-in for the SQL: the procedures
+ * are tested on Postgres itself in supabase/*.test.ts, and supabase/memoryParity.test.ts runs the
+ * same calls on both to catch the two copies drifting apart.
+ *
+ * There is one user (options.userId): any email and password signs in as them, and they start
+ * signed in.
+ *
+ * Realtime is emulated for this one client, a tick later than the change. channel() gives one
+ * handle per name, as Supabase does. A broadcast message never comes back to its sender, so with
+ * nobody else connected it reaches no one; presence and table changes do reach this client.
+ */
+
+import type {
+  RadioBackend,
+  BoxRoundRow,
+  BroadcastRow,
+  RadioChannel,
+  TableStore,
+  TableChange,
+  Presence,
+  PresenceChange,
+  EpitaphRow,
+  Match,
+  Row,
+  RpcArgs,
+  RpcCall,
+  RpcName,
+  RpcResult,
+  SkipPetitionRow,
+  SkipVoteRow,
+} from "./radioBackend";
+import type { DbSong } from "./songRepository";
+import type { AdvanceRoundResult } from "./PersistentRadioService";
+import type { SimulatedVote } from "./boxRoundService";
+import type { BoxRound, Profile, StationRules } from "../types";
+import { STATION_RULES, playEndsAt } from "./stationRules";
+import { resolveBoxWinner, resolveBoxLoser, resolveRetirement, resolveDebut, resubmitCooldownRemaining, signaturesNeeded } from "./radioStateMachine";
+import { entitlementsFor, PREMIUM_PLANS, type PremiumPlan } from "./entitlements";
+
+const BROADCAST_ID = "00000000-0000-0000-0000-000000000000";
+const MAX_LEASE_MS = 30000;
+const SKIP_TOKEN_WINDOW_MS = 24 * 60 * 60 * 1000; // as in cast_skip_vote
+
+interface MemoryBackendOptions {
+  userId?: string; // the signed-in user (also the leader_id of any lease taken here)
+  seed?: boolean; // start with the demo library
+  rules?: Partial<StationRules>; // the server's station rules (station_config), STATION_RULES unless overridden
+}
+
+// The tables the interface has no row type for, as the procedures here keep them
+type BroadcastState = Omit<BroadcastRow, "current_song" | "next_song">;
+
+interface VoteRow {
+  id: string;
+  user_id: string;
+  song_id: string;
+  vote_type: "box_choice";
+  round_id: string;
+  weight: number;
+}
+
+interface SimulatedVoteRow extends SimulatedVote {
+  round_id: string;
+  created_at: string;
+}
+
+interface ReceiptRow {
+  id: string;
+  user_id: string;
+  provider: string;
+  reference: string;
+  plan: string;
+  amount_cents: number;
+  created_at: string;
+}
+
+interface VetoRow {
+  play_id: string;
+  song_id: string;
+  signatures: number;
+  listeners: number;
+  by_token: boolean;
+  created_at: string;
+}
+
+interface RatingRow {
+  play_id: string;
+  user_id: string;
+  song_id: string;
+  stars: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PetitionRow {
+  song_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+const timestamp = () => new Date().toISOString();
+const clone = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+const later = (fn: () => void) => setTimeout(fn, 0); // realtime is never synchronous
+
+const field = (row: object, column: string) => (row as Row)[column];
+
+const matches = (row: object, match: Match = {}) =>
+  Object.entries(match).every(([column, value]) =>
+    value === null
+      ? field(row, column) == null
+      : Array.isArray(value)
+        ? (value as readonly unknown[]).includes(field(row, column))
+        : field(row, column) === value,
+  );
+
+/** ORDER BY one column, nulls last. */
+const byColumn = (column: string, ascending: boolean) => (a: object, b: object) => {
+  const x = field(a, column) as string | number | null;
+  const y = field(b, column) as string | number | null;
+  const direction = ascending ? 1 : -1;
+  return x == null ? 1 : y == null ? -1 : x < y ? -direction : x > y ? direction : 0;
+};
+
+/**
+ * A short, quiet two-note loop as an 8 kHz mono WAV, so the demo library plays offline.
+ */
+const toneWav = (rootHz: number, seconds: number): Blob => {
+  const rate = 8000;
+  const samples = rate * seconds;
+  const bytes = new Uint8Array(44 + samples);
+  const view = new DataView(bytes.buffer);
+  const ascii = (offset: number, text: string) => [...text].forEach((c, i) => (bytes[offset + i] = c.charCodeAt(0)));
+
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + samples, true);
+  ascii(8, "WAVEfmt ");
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate, true); // byte rate
+  view.setUint16(32, 1, true); // block align
+  view.setUint16(34, 8, true); // bits per sample
+  ascii(36, "data");
+  view.setUint32(40, samples, true);
+
+  for (let i = 0; i < samples; i++) {
+    const t = i / rate;
+    const hz = Math.floor(t * 2) % 2 === 0 ? rootHz : rootHz * 1.5; // root and fifth, half a second each
+    const envelope = 1 - (t * 2) % 1; // pluck
+    bytes[44 + i] = 128 + Math.round(40 * envelope * Math.sin(2 * Math.PI * hz * t));
+  }
+  return new Blob([bytes], { type: "audio/wav" });
+};
+
+const DEMO_LIBRARY = [
+  { title: "Neon Horizon", artist_name: "Cyberwave", hz: 220 },
+  { title: "Midnight City", artist_name: "The Nightcallers", hz: 247 },
+  { title: "Digital Dreams", artist_name: "Synth Masters", hz: 262 },
+  { title: "Static Bloom", artist_name: "Low Orbit", hz: 294 },
+  { title: "Afterglow Protocol", artist_name: "Vela", hz: 330 },
+  { title: "Glass Satellites", artist_name: "Cyberwave", hz: 196 },
+];
+const DEMO_TRACK_SEC = 40;
+
+export const createMemoryBackend = ({ userId = "local-dj", seed = true, rules: ruleOverrides = {} }: MemoryBackendOptions = {}): RadioBackend => {
+  const rules: StationRules = { ...STATION_RULES, ...ruleOverrides };
+
+  // --- REALTIME ---
+
+  interface Handle {
+    presenceListeners: Set<(change: PresenceChange) => void>;
+    subscribed: boolean;
+    presence: Presence | null;
+  }
+
+  const handles = new Map<string, RadioChannel>();
+  const tableListeners = new Map<string, Set<(change: TableChange) => void>>();
+
+  const notifyPresence = (handle: Handle, change: PresenceChange) => {
+    if (handle.subscribed) handle.presenceListeners.forEach((listener) => later(() => listener(clone(change))));
+  };
+
+  const emitChange = (table: string, change: { event: TableChange["event"]; new: object | null; old: object | null }) =>
+    tableListeners.get(table)?.forEach((listener) => later(() => listener(clone(change) as TableChange)));
+
+  const channel = (name: string): RadioChannel => {
+    const open = handles.get(name);
+    if (open) return open;
+
+    const handle: Handle = { presenceListeners: new Set(), subscribed: false, presence: null };
+    const untrack = () => {
+      if (handle.presence) notifyPresence(handle, { event: "leave", presences: [handle.presence] });
+      handle.presence = null;
+    };
+
+    const wrapped: RadioChannel = {
+      on() {
+        return wrapped; // nobody else is connected to send anything
+      },
+      onPresence(listener) {
+        handle.presenceListeners.add(listener);
+        return wrapped;
+      },
+      subscribe(onStatus) {
+        handle.subscribed = true;
+        later(() => onStatus?.("SUBSCRIBED"));
+        return wrapped;
+      },
+      async send() {
+        // Never echoed back to the sender, as on Supabase, and there are no other clients
+      },
+      async track(meta) {
+        untrack();
+        handle.presence = { ...meta, presence_ref: crypto.randomUUID() };
+        notifyPresence(handle, { event: "join", presences: [handle.presence] });
+      },
+      async untrack() {
+        untrack();
+      },
+      async close() {
+        handle.subscribed = false;
+        handle.presence = null;
+        handles.delete(name);
+      },
+    };
+    handles.set(name, wrapped);
+    return wrapped;
+  };
+
+  // --- AUTH ---
+
+  let signedIn = true;
+  const authListeners = new Set<(userId: string | null) => void>();
+
+  const setSignedIn = (value: boolean) => {
+    signedIn = value;
+    authListeners.forEach((listener) => later(() => listener(signedIn ? userId : null)));
+  };
+
+  // --- TABLES ---
+
+  const songs = new Map<string, DbSong>();
+  const profiles = new Map<string, Profile>();
+  const boxRounds: BoxRoundRow[] = [];
+  const votes: VoteRow[] = [];
+  const simulatedVotes: SimulatedVoteRow[] = [];
+  const premiumReceipts: ReceiptRow[] = [];
+  const skipVotes: SkipVoteRow[] = [];
+  const playVetoes: VetoRow[] = [];
+  const heartbeats = new Map<string, number>(); // listener_heartbeats: user id -> last tune_in, in ms
+  const songRatings: RatingRow[] = [];
+  const petitions: PetitionRow[] = [];
+  const files = new Map<string, Blob>(); // "bucket/path"
+  const fileUrls = new Map<string, string>();
+  let broadcast: BroadcastState = {
+    id: BROADCAST_ID,
+    current_song_id: null,
+    next_song_id: null,
+    radio_state: "POOL",
+    song_started_at: null,
+    play_id: null,
+    updated_at: timestamp(),
+    leader_id: null,
+    leader_session: null,
+    lease_expires_at: null,
+    last_heartbeat: null,
+    fencing_token: 0,
+    site_command: null,
+  };
+
+  const songDefaults = (): Omit<DbSong, "title" | "artist_name" | "audio_url" | "duration_sec"> => ({
+    id: crypto.randomUUID(),
+    uploader_id: userId,
+    source: "upload",
+    cover_art_url: null,
+    is_canvas: false,
+    lyrics: null,
+    stars: rules.startingStars,
+    is_dsw: false,
+    dsw_announced: false,
+    dsw_farewell_at: null,
+    is_debut: false,
+    buried_at: null,
+    final_stars: null,
+    resurrected_at: null,
+    resurrection_count: 0,
+    box_rounds_seen: 0,
+    box_rounds_lost: 0,
+    box_appearance_count: 0,
+    status: "pool",
+    play_count: 0,
+    upvotes: 0,
+    downvotes: 0,
+    last_played_at: null,
+    created_at: timestamp(),
+    replay_gain: null,
+    hook_offset_sec: null,
+  });
+
+  /** The stamp_burial trigger: a song entering the graveyard gets its burial date and, unless given, its final stars. */
+  const stampBurial = (old: DbSong, patch: Partial<DbSong>): Partial<DbSong> => {
+    if (patch.status === "graveyard" && old.status !== "graveyard") {
+      return { buried_at: timestamp(), ...(patch.final_stars === undefined ? { final_stars: old.stars } : {}) };
+    }
+    if (patch.status !== undefined && patch.status !== "graveyard" && old.status === "graveyard") return { buried_at: null };
+    return {};
+  };
+
+  const createTable = <T extends object>(
+    table: string,
+    rows: Map<string, T>,
+    key: keyof T & string,
+    defaults: () => Partial<T> = () => ({}),
+    trigger: (old: T, patch: Partial<T>) => Partial<T> = () => ({}),
+  ): TableStore<T> => ({
+    async list(match, { orderBy, ascending = true, limit } = {}) {
+      let result = [...rows.values()].filter((row) => matches(row, match));
+      if (orderBy) result.sort(byColumn(orderBy, ascending));
+      if (limit !== undefined) result = result.slice(0, limit);
+      return clone(result);
+    },
+    async count(match) {
+      return [...rows.values()].filter((row) => matches(row, match)).length;
+    },
+    async get(id) {
+      return clone(rows.get(id) ?? null);
+    },
+    async insert(row) {
+      const inserted = { ...defaults(), ...row } as T;
+      const id = String(inserted[key]);
+      if (rows.has(id)) throw new Error(`duplicate key value violates unique constraint "${table}_pkey"`);
+      rows.set(id, inserted);
+      emitChange(table, { event: "INSERT", new: clone(inserted), old: null });
+      return clone(inserted);
+    },
+    async update(match, patch) {
+      const updated = [...rows.values()].filter((row) => matches(row, match)).map((row) => {
+        const old = clone(row);
+        Object.assign(row, patch, trigger(old, patch));
+        emitChange(table, { event: "UPDATE", new: clone(row), old });
+        return clone(row);
+      });
+      return updated;
+    },
+    async remove(match) {
+      [...rows.values()].filter((row) => matches(row, match)).forEach((row) => {
+        rows.delete(String(row[key]));
+        emitChange(table, { event: "DELETE", new: null, old: clone(row) });
+      });
+    },
+  });
+
+  /** The guard_premium_flag trigger: is_premium and premium_until only change through grant_premium. */
+  const guardPremium = (table: TableStore<Profile>): TableStore<Profile> => ({
+    ...table,
+    async insert(row) {
+      if (row.is_premium || row.premium_until) throw new Error("premium_locked: premium comes with a payment, use grant_premium()");
+      return table.insert(row);
+    },
+    async update(match, patch) {
+      const changes = (row: Profile) =>
+        ("is_premium" in patch && !!row.is_premium !== !!patch.is_premium) ||
+        ("premium_until" in patch && (row.premium_until ?? null) !== (patch.premium_until ?? null));
+      if ((await table.list(match)).some(changes)) {
+        throw new Error("premium_locked: premium comes with a payment, use grant_premium()");
+      }
+      return table.update(match, patch);
+    },
+  });
+
+  /** Direct writes to the songs map from inside a procedure (a transaction, in SQL terms). */
+  const patchSong = (id: string, patch: Partial<DbSong>): DbSong => {
+    const row = songs.get(id)!;
+    const old = clone(row);
+    Object.assign(row, patch, stampBurial(old, patch));
+    emitChange("songs", { event: "UPDATE", new: clone(row), old });
+    return row;
+  };
+
+  const patchBroadcast = (patch: Partial<BroadcastState>) => {
+    const old = clone(broadcast);
+    broadcast = { ...broadcast, ...patch, updated_at: timestamp() };
+    // The stamp_play_id trigger: a new song (or a restart of the same one) on air is a new play
+    if (broadcast.current_song_id !== old.current_song_id || broadcast.song_started_at !== old.song_started_at) {
+      broadcast.play_id = broadcast.current_song_id ? crypto.randomUUID() : null;
+    }
+    emitChange("broadcasts", { event: "UPDATE", new: clone(broadcast), old });
+  };
+
+  const leaseLive = () => broadcast.lease_expires_at !== null && new Date(broadcast.lease_expires_at).getTime() >= Date.now();
+
+  const assertFencingToken = (token: number | null | undefined) => {
+    if (token == null || token !== broadcast.fencing_token || !leaseLive()) {
+      throw new Error(`stale_fencing_token: ${token} is not the current lease (token ${broadcast.fencing_token})`);
+    }
+  };
+
+  const putFile = (bucket: string, path: string, file: Blob) => {
+    const id = `${bucket}/${path}`;
+    files.set(id, file);
+    const url = fileUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    fileUrls.delete(id);
+  };
+
+  const publicUrl = (bucket: string, path: string) => {
+    const id = `${bucket}/${path}`;
+    const file = files.get(id);
+    if (!file) return `memory://${id}`;
+    if (!fileUrls.has(id)) fileUrls.set(id, URL.createObjectURL(file));
+    return fileUrls.get(id)!;
+  };
+
+  // --- PROCEDURES (supabase/migrations) ---
+
+  const songOf = (id: string | null) => (id ? songs.get(id) : undefined);
+
+  const ensureBoxRound = (selection: BoxRound["selection"] = {}): string | null => {
+    const boxIds = [...songs.values()].filter((song) => song.status === "in_box").map((song) => song.id).sort();
+    const open = boxRounds.find((round) => round.status === "open");
+
+    if (open) {
+      if ([...open.candidate_ids].sort().join() === boxIds.join()) return open.id;
+      Object.assign(open, { status: "void", closed_at: timestamp() });
+      emitChange("box_rounds", { event: "UPDATE", new: clone(open), old: null });
+    }
+    if (boxIds.length === 0) return null;
+
+    const round: BoxRoundRow = {
+      id: crypto.randomUUID(),
+      candidate_ids: boxIds,
+      status: "open",
+      winner_id: null,
+      selection,
+      started_at: timestamp(),
+      closed_at: null,
+    };
+    boxRounds.push(round);
+    emitChange("box_rounds", { event: "INSERT", new: clone(round), old: null });
+    return round.id;
+  };
+
+  // Human votes come first: once anyone real voted, the crowd no longer counts
+  const talliesFor = (round: BoxRoundRow) => {
+    const counted = round.candidate_ids.map((songId, position) => ({
+      song_id: songId,
+      position,
+      human_votes: votes
+        .filter((vote) => vote.round_id === round.id && vote.song_id === songId)
+        .reduce((sum, vote) => sum + vote.weight, 0),
+      simulated_votes: simulatedVotes.filter((vote) => vote.round_id === round.id && vote.song_id === songId).length,
+    }));
+    const humansVoted = counted.some((tally) => tally.human_votes > 0);
+    return counted.map((tally) => ({ ...tally, votes: humansVoted ? tally.human_votes : tally.simulated_votes }));
+  };
+
+  /** When voting in the open round closes, or null while it stays open (box_vote_deadline, 032). */
+  const boxVoteDeadline = (): number | null => {
+    const heldOpen = [...songs.values()].some((s) => s.status === "debut" || (s.status === "pool" && s.is_dsw && s.dsw_farewell_at));
+    const playing = songOf(broadcast.current_song_id);
+    if (heldOpen || !playing || !broadcast.song_started_at) return null;
+    return playEndsAt({ durationSec: playing.duration_sec ?? 0 }, broadcast.song_started_at);
+  };
+
+  /** The petition against a play, counted against the tune_in heartbeats (skip_petition, 034). */
+  const skipPetition = (playId: string): SkipPetitionRow => {
+    const tunedInSince = Date.now() - rules.tunedInSec * 1000;
+    const tunedIn = (user: string) => (heartbeats.get(user) ?? 0) > tunedInSince;
+    const skips = skipVotes.filter((skip) => skip.play_id === playId);
+    const listeners = [...heartbeats.keys()].filter(tunedIn).length;
+    return {
+      signatures: skips.filter((skip) => tunedIn(skip.user_id)).length,
+      listeners,
+      needed: signaturesNeeded(listeners, rules),
+      by_token: skips.some((skip) => !!skip.token_used_at),
+    };
+  };
+
+  const starFields = (song: DbSong) => ({ stars: song.stars ?? rules.startingStars, isDsw: !!song.is_dsw });
+
+  const advanceRound = ({ expected_song_id, resolve_box = true, entrants = [], lease_token }: RpcArgs<"advance_round">): AdvanceRoundResult => {
+    assertFencingToken(lease_token);
+
+    const currentId = broadcast.current_song_id;
+    if (currentId !== expected_song_id) {
+      return {
+        advanced: false,
+        now_playing: clone(songOf(currentId) ?? null),
+        winner: null,
+        losers: [],
+        debut: null,
+        dsw: null,
+        rating: null,
+        song_started_at: broadcast.song_started_at,
+      };
+    }
+
+    const all = () => [...songs.values()];
+    let winner: DbSong | null = null;
+    const losers: DbSong[] = [];
+
+    // 1. Resolve The Box (unless a debut or a DSW farewell takes the next slot)
+    const slotTaken = all().some((song) => song.status === "debut" || (song.status === "pool" && song.is_dsw && song.dsw_farewell_at));
+    if (resolve_box && !slotTaken) {
+      const roundId = ensureBoxRound();
+      const round = boxRounds.find((r) => r.id === roundId);
+      const best = round && talliesFor(round)
+        .filter((tally) => songs.get(tally.song_id)?.status === "in_box")
+        .sort((a, b) => b.votes - a.votes || a.position - b.position)[0];
+
+      if (round && best) {
+        const song = songs.get(best.song_id)!;
+        const outcome = resolveBoxWinner(starFields(song), rules);
+        winner = patchSong(song.id, {
+          status: outcome.status,
+          stars: outcome.stars,
+          box_rounds_seen: (song.box_rounds_seen ?? 0) + 1,
+          box_rounds_lost: 0,
+          upvotes: 0,
+        });
+
+        all().filter((s) => s.status === "in_box").forEach((loser) => {
+          const result = resolveBoxLoser({ ...starFields(loser), boxRoundsLost: loser.box_rounds_lost ?? 0 }, rules);
+          const becameDsw = result.isDsw && !loser.is_dsw;
+          losers.push(clone(patchSong(loser.id, {
+            status: result.status,
+            stars: result.stars,
+            is_dsw: result.isDsw,
+            ...(becameDsw ? { dsw_announced: false } : {}),
+            box_rounds_seen: (loser.box_rounds_seen ?? 0) + 1,
+            box_rounds_lost: result.boxRoundsLost,
+            upvotes: 0,
+          })));
+        });
+
+        Object.assign(round, { status: "closed", winner_id: song.id, closed_at: timestamp() });
+        emitChange("box_rounds", { event: "UPDATE", new: clone(round), old: null });
+      }
+    }
+
+    // 2. Refill The Box (ranked entrants first, then whoever has waited longest)
+    //    This round's losers and the song going off air sit it out, as in advance_round
+    const benched = new Set([...losers.map((loser) => loser.id), expected_song_id]);
+    const eligible = (song: DbSong | undefined) =>
+      !!song && (song.status === "pool" || song.status === "review") && !song.is_dsw && !benched.has(song.id);
+    const needed = Math.min(rules.boxSize - all().filter((s) => s.status === "in_box").length, rules.candidatesPerRound);
+    const selection: BoxRound["selection"] = {};
+    if (needed > 0) {
+      const ranked = entrants
+        .filter(({ songId }) => eligible(songs.get(songId)))
+        .map(({ songId, ...why }) => ({ id: songId, why }));
+      const fallback = all()
+        .filter(eligible)
+        .sort((a, b) => (a.last_played_at ?? "").localeCompare(b.last_played_at ?? ""))
+        .map((song) => ({ id: song.id, why: { strategy: "fallback", score: 0, reason: "longest since last play" } }));
+
+      const picked = new Set<string>();
+      [...ranked, ...fallback].forEach(({ id, why }) => {
+        if (picked.size >= needed || picked.has(id)) return;
+        picked.add(id);
+        const song = songs.get(id)!;
+        patchSong(id, { status: "in_box", upvotes: 0, box_rounds_lost: 0, box_appearance_count: (song.box_appearance_count ?? 0) + 1 });
+        selection[id] = why;
+      });
+    }
+    ensureBoxRound(selection);
+
+    // 3. Retire whatever is on air (normally just expected_song_id)
+    let debut: AdvanceRoundResult["debut"] = null;
+    let dsw: AdvanceRoundResult["dsw"] = null;
+    let rating: AdvanceRoundResult["rating"] = null;
+
+    all().filter((s) => s.status === "now_playing").forEach((retired) => {
+      // Only the play that just ended counts; a stray now_playing row has no ratings
+      const rated = songRatings.filter((r) => r.play_id === broadcast.play_id && r.song_id === retired.id);
+      const tally = { count: rated.length, sum: rated.reduce((sum, r) => sum + r.stars, 0) };
+      const vetoed = playVetoes.some((veto) => veto.play_id === broadcast.play_id && veto.song_id === retired.id);
+      const retirement = resolveRetirement(starFields(retired), tally, rules, vetoed);
+      if (retired.id === expected_song_id) {
+        const average = tally.count > 0 ? Math.round((tally.sum / tally.count) * 10) / 10 : null;
+        rating = { play_id: broadcast.play_id, ratings: tally.count, average, delta: retirement.delta, vetoed };
+      }
+
+      if (retired.is_debut) {
+        const result = resolveDebut(tally, rules, vetoed);
+        patchSong(retired.id, {
+          status: result.status,
+          stars: result.stars,
+          ...(result.passed ? {} : { final_stars: Math.round(result.rating) }),
+          is_dsw: false,
+          is_debut: false,
+        });
+        if (result.passed && profiles.has(retired.uploader_id)) profiles.get(retired.uploader_id)!.is_artist = true;
+        debut = { song: clone(songs.get(retired.id)!), passed: result.passed, rating: Math.round(result.rating * 10) / 10 };
+      } else {
+        const farewell = !!retired.is_dsw; // patchSong updates `retired` in place
+        patchSong(retired.id, {
+          status: retirement.status,
+          stars: retirement.stars,
+          is_dsw: retirement.isDsw,
+          ...(retirement.isDsw && !retired.is_dsw ? { dsw_announced: false } : {}),
+          ...(retired.is_dsw ? {
+            final_stars: retirement.status === "graveyard" ? retirement.stars : retired.final_stars,
+            dsw_announced: retirement.isDsw,
+            dsw_farewell_at: null,
+            resurrected_at: null,
+          } : {}),
+        });
+        if (farewell) dsw = { song: clone(songs.get(retired.id)!), pardoned: retirement.status === "pool" };
+      }
+
+      patchSong(retired.id, {
+        last_played_at: timestamp(),
+        play_count: (retired.play_count ?? 0) + (retired.id === expected_song_id ? 1 : 0),
+      });
+    });
+
+    // 4. Promote the oldest debut (premium uploaders' first), else a scheduled DSW farewell, else next_play, else a random pool song
+    const byAge = (column: "created_at" | "dsw_farewell_at") => (a: DbSong, b: DbSong) => String(a[column]).localeCompare(String(b[column]));
+    const pool = all().filter((s) => s.status === "pool");
+    const priority = (song: DbSong) => (entitlementsFor(profiles.get(song.uploader_id)).priorityDebut ? 1 : 0);
+    const promoted =
+      all()
+        .filter((s) => s.status === "debut")
+        .sort((a, b) => priority(b) - priority(a) || byAge("created_at")(a, b))[0] ??
+      pool.filter((s) => s.is_dsw && s.dsw_farewell_at).sort(byAge("dsw_farewell_at"))[0] ??
+      all().find((s) => s.status === "next_play") ??
+      // replay the last song only as a last resort
+      (pool.filter((s) => s.id !== expected_song_id).sort(() => Math.random() - 0.5)[0] ?? pool[0]);
+
+    if (promoted) patchSong(promoted.id, { status: "now_playing", last_played_at: timestamp() });
+
+    // 5. Point the broadcast at the new song
+    patchBroadcast({
+      current_song_id: promoted?.id ?? null,
+      next_song_id: null,
+      song_started_at: promoted ? timestamp() : null,
+    });
+
+    return {
+      advanced: true,
+      now_playing: clone(promoted ?? null),
+      winner: clone(winner),
+      losers,
+      debut,
+      dsw,
+      rating,
+      song_started_at: broadcast.song_started_at,
+    };
+  };
+
+  /** resurrect_song: back from the graveyard as a Dead Song Walking, with its petition spent. */
+  const resurrectSong = (songId: string) => {
+    const song = songs.get(songId)!;
+    patchSong(songId, {
+      status: "pool",
+      is_dsw: true,
+      stars: 0,
+      dsw_announced: false,
+      dsw_farewell_at: null,
+      resurrected_at: timestamp(),
+      resurrection_count: (song.resurrection_count ?? 0) + 1,
+      box_rounds_lost: 0,
+    });
+    for (let i = petitions.length - 1; i >= 0; i--) {
+      if (petitions[i].song_id === songId) emitChange("graveyard_petitions", { event: "DELETE", new: null, old: petitions.splice(i, 1)[0] });
+    }
+  };
+
+  const procedures: { [F in RpcName]: (args: RpcArgs<F>) => RpcResult<F> } = {
+    server_clock: () => Date.now(),
+
+    acquire_leadership: ({ p_session, p_lease_ms = 10000, p_force = false }) => {
+      if (!p_session) throw new Error("acquire_leadership: a session id is required");
+      if (p_force && !profiles.get(userId)?.is_admin) throw new Error("acquire_leadership: only an admin can force a takeover");
+      const leaseMs = Math.min(Math.max(p_lease_ms, 1000), MAX_LEASE_MS);
+      const expires = new Date(Date.now() + leaseMs).toISOString();
+      let acquired = false;
+
+      if (broadcast.leader_session === p_session && leaseLive()) {
+        patchBroadcast({ lease_expires_at: expires, last_heartbeat: timestamp() });
+        acquired = true;
+      } else if (!broadcast.leader_session || !leaseLive() || p_force) {
+        patchBroadcast({
+          leader_id: userId,
+          leader_session: p_session,
+          lease_expires_at: expires,
+          last_heartbeat: timestamp(),
+          fencing_token: broadcast.fencing_token + 1,
+        });
+        acquired = true;
+      }
+
+      return {
+        acquired,
+        token: acquired ? broadcast.fencing_token : null,
+        leader_id: broadcast.leader_id,
+        leader_session: broadcast.leader_session,
+        ttl_ms: broadcast.lease_expires_at ? Math.max(0, new Date(broadcast.lease_expires_at).getTime() - Date.now()) : 0,
+      };
+    },
+
+    release_leadership: ({ p_session, p_token }) => {
+      if (broadcast.leader_session !== p_session || broadcast.fencing_token !== p_token) return false;
+      patchBroadcast({ leader_id: null, leader_session: null, lease_expires_at: null });
+      return true;
+    },
+
+    ensure_box_round: ({ p_selection = {} }) => ensureBoxRound(p_selection),
+
+    cast_box_vote: ({ p_round_id, p_song_id }) => {
+      const round = boxRounds.find((r) => r.id === p_round_id && r.status === "open");
+      if (!round || !round.candidate_ids.includes(p_song_id)) {
+        throw new Error(`cast_box_vote: round ${p_round_id} is closed or ${p_song_id} is not a candidate`);
+      }
+      const closesAt = boxVoteDeadline();
+      if (closesAt !== null && Date.now() >= closesAt) {
+        throw new Error(`cast_box_vote: voting in round ${p_round_id} closed at ${new Date(closesAt).toISOString()}`);
+      }
+      if (votes.some((vote) => vote.round_id === p_round_id && vote.user_id === userId)) return false;
+      const vote: VoteRow = { id: crypto.randomUUID(), user_id: userId, song_id: p_song_id, vote_type: "box_choice", round_id: p_round_id, weight: entitlementsFor(profiles.get(userId)).voteWeight };
+      votes.push(vote);
+      emitChange("votes", { event: "INSERT", new: clone(vote), old: null });
+      return true;
+    },
+
+    cast_simulated_votes: ({ p_round_id, p_votes, lease_token }) => {
+      assertFencingToken(lease_token);
+      const round = boxRounds.find((r) => r.id === p_round_id && r.status === "open");
+      if (!round) return 0;
+
+      let recorded = 0;
+      for (const { listener, song_id, taste } of p_votes) {
+        if (!round.candidate_ids.includes(song_id)) continue;
+        if (simulatedVotes.some((vote) => vote.round_id === p_round_id && vote.listener === listener)) continue;
+        const vote = { round_id: p_round_id, listener, song_id, taste, created_at: timestamp() };
+        simulatedVotes.push(vote);
+        emitChange("simulated_votes", { event: "INSERT", new: clone(vote), old: null });
+        recorded++;
+      }
+      return recorded;
+    },
+
+    cast_skip_vote: ({ p_play_id, p_use_token = false }) => {
+      if (!broadcast.current_song_id || broadcast.play_id !== p_play_id) throw new Error(`skip_closed: play ${p_play_id} has ended`);
+      if (p_use_token) {
+        const since = Date.now() - SKIP_TOKEN_WINDOW_MS;
+        const used = skipVotes.filter((skip) => skip.user_id === userId && skip.token_used_at && new Date(skip.token_used_at).getTime() > since).length;
+        if (used >= entitlementsFor(profiles.get(userId)).skipVetoesPerDay) throw new Error("skip_no_token: no skip-veto token left today");
+      }
+
+      const existing = skipVotes.find((skip) => skip.play_id === p_play_id && skip.user_id === userId);
+      if (existing) {
+        if (existing.token_used_at || !p_use_token) return false;
+        const old = clone(existing);
+        existing.token_used_at = timestamp();
+        emitChange("skip_votes", { event: "UPDATE", new: clone(existing), old });
+        return true;
+      }
+      const skip: SkipVoteRow = { play_id: p_play_id, user_id: userId, song_id: broadcast.current_song_id, token_used_at: p_use_token ? timestamp() : null, created_at: timestamp() };
+      skipVotes.push(skip);
+      emitChange("skip_votes", { event: "INSERT", new: clone(skip), old: null });
+      return true;
+    },
+
+    tune_in: () => {
+      if (!signedIn) throw new Error("tune_in: sign in to be counted");
+      heartbeats.set(userId, Date.now());
+      return null;
+    },
+
+    tune_out: () => {
+      heartbeats.delete(userId);
+      return null;
+    },
+
+    skip_petition: ({ p_play_id }) => skipPetition(p_play_id),
+
+    veto_play: ({ p_play_id, lease_token }) => {
+      assertFencingToken(lease_token);
+      if (!broadcast.current_song_id || broadcast.play_id !== p_play_id) return false;
+      if (playVetoes.some((veto) => veto.play_id === p_play_id)) return false;
+      const { signatures, listeners, needed, by_token } = skipPetition(p_play_id);
+      if (!by_token && signatures < needed) return false;
+      playVetoes.push({ play_id: p_play_id, song_id: broadcast.current_song_id, signatures, listeners, by_token, created_at: timestamp() });
+      return true;
+    },
+
+    rate_now_playing: ({ p_play_id, p_stars }) => {
+      if (!signedIn) throw new Error("rate_now_playing: sign in to rate");
+      if (!Number.isInteger(p_stars) || p_stars < 1 || p_stars > rules.maxStars) {
+        throw new Error(`rate_now_playing: stars must be between 1 and ${rules.maxStars}`);
+      }
+      if (!broadcast.current_song_id || broadcast.play_id !== p_play_id) throw new Error(`rating_closed: play ${p_play_id} has ended`);
+
+      const existing = songRatings.find((r) => r.play_id === p_play_id && r.user_id === userId);
+      if (existing) {
+        const old = clone(existing);
+        Object.assign(existing, { stars: p_stars, updated_at: timestamp() });
+        emitChange("song_ratings", { event: "UPDATE", new: clone(existing), old });
+        return null;
+      }
+      const rating = { play_id: p_play_id, user_id: userId, song_id: broadcast.current_song_id, stars: p_stars, created_at: timestamp(), updated_at: timestamp() };
+      songRatings.push(rating);
+      emitChange("song_ratings", { event: "INSERT", new: clone(rating), old: null });
+      return null;
+    },
+
+    advance_round: advanceRound,
+
+    sign_resurrection_petition: ({ p_song_id }) => {
+      if (!signedIn) throw new Error("sign_resurrection_petition: sign in to petition");
+      if (songs.get(p_song_id)?.status !== "graveyard") throw new Error(`sign_resurrection_petition: ${p_song_id} is not in the graveyard`);
+
+      if (!petitions.some((p) => p.song_id === p_song_id && p.user_id === userId)) {
+        const petition = { song_id: p_song_id, user_id: userId, created_at: timestamp() };
+        petitions.push(petition);
+        emitChange("graveyard_petitions", { event: "INSERT", new: clone(petition), old: null });
+      }
+
+      const signatures = petitions.filter((p) => p.song_id === p_song_id).length;
+      const resurrected = signatures >= rules.resurrectionPetitions;
+      if (resurrected) resurrectSong(p_song_id);
+      return { signatures, resurrected };
+    },
+
+    resubmit_from_graveyard: ({ p_song_id }) => {
+      const buried = songs.get(p_song_id);
+      if (buried?.status !== "graveyard") throw new Error(`resubmit_from_graveyard: ${p_song_id} is not in the graveyard`);
+      if (buried.uploader_id !== userId) throw new Error("resubmit_from_graveyard: only the artist can resubmit their song");
+      if (resubmitCooldownRemaining(buried.buried_at!, Date.now()) > 0) {
+        throw new Error(`resubmit_cooldown: ${p_song_id} is still resting`);
+      }
+      resurrectSong(p_song_id);
+      return null;
+    },
+
+    grant_premium: ({ p_user_id, p_provider, p_reference, p_plan, p_amount_cents }) => {
+      const profile = profiles.get(p_user_id);
+      const plan = PREMIUM_PLANS[p_plan as PremiumPlan];
+      if (!plan) throw new Error(`grant_premium: no plan named ${p_plan}`);
+      if (!profile) throw new Error(`grant_premium: no profile for ${p_user_id}`);
+      if (premiumReceipts.some((r) => r.provider === p_provider && r.reference === p_reference)) return clone(profile);
+      premiumReceipts.push({ id: crypto.randomUUID(), user_id: p_user_id, provider: p_provider, reference: p_reference, plan: p_plan, amount_cents: p_amount_cents, created_at: timestamp() });
+
+      // As in 033_premium_expiry.sql: a plan's days run on from any premium left, and for good stays for good
+      const days = plan.durationDays;
+      const from = Math.max(Date.now(), profile.premium_until ? Date.parse(profile.premium_until) : 0);
+      const premiumUntil = days === null || (profile.is_premium && !profile.premium_until) ? null : new Date(from + days * 86_400_000).toISOString();
+      const old = clone(profile);
+      Object.assign(profile, { is_premium: true, premium_until: premiumUntil, updated_at: timestamp() });
+      emitChange("profiles", { event: "UPDATE", new: clone(profile), old });
+      return clone(profile);
+    },
+  };
+
+  // --- DEMO LIBRARY ---
+
+  if (seed) {
+    profiles.set(userId, {
+      user_id: userId,
+      name: "Local DJ",
+      is_premium: false,
+      premium_until: null,
+      is_artist: true,
+      is_admin: true,
+      roast_consent: false,
+      stats: { plays: 0, uploads: DEMO_LIBRARY.length, votes_cast: 0, graveyard_count: 0 },
+      created_at: timestamp(),
+      updated_at: timestamp(),
+    });
+    DEMO_LIBRARY.forEach(({ title, artist_name, hz }, i) => {
+      const path = `demo/${String(i + 1).padStart(2, "0")}_${title.replace(/[^a-zA-Z0-9]/g, "_")}.wav`;
+      putFile("songs", path, toneWav(hz, DEMO_TRACK_SEC));
+      const song: DbSong = { ...songDefaults(), title, artist_name, audio_url: publicUrl("songs", path), duration_sec: DEMO_TRACK_SEC };
+      songs.set(song.id, song);
+    });
+  }
+
+  return {
+    kind: "memory",
+
+    auth: {
+      async currentUserId() {
+        return signedIn ? userId : null;
+      },
+      onUserChanged(listener) {
+        authListeners.add(listener);
+        later(() => listener(signedIn ? userId : null));
+        return () => {
+          authListeners.delete(listener);
+        };
+      },
+      async signIn() {
+        setSignedIn(true);
+      },
+      async signUp() {
+        setSignedIn(true);
+        return true;
+      },
+      async signOut() {
+        setSignedIn(false);
+      },
+    },
+
+    songs: createTable<DbSong>("songs", songs, "id", songDefaults, stampBurial),
+    profiles: guardPremium(createTable<Profile>("profiles", profiles, "user_id")),
+
+    broadcasts: {
+      async get() {
+        return clone({
+          ...broadcast,
+          current_song: songOf(broadcast.current_song_id) ?? null,
+          next_song: songOf(broadcast.next_song_id) ?? null,
+        });
+      },
+      async update({ writer_token, ...patch }) {
+        // The enforce_fencing_token trigger
+        const leaseColumns = ["leader_id", "leader_session", "lease_expires_at", "fencing_token"];
+        const stationColumns = ["current_song_id", "next_song_id", "radio_state", "song_started_at"];
+        if (leaseColumns.some((column) => column in patch && field(patch, column) !== field(broadcast, column))) {
+          throw new Error("leader_lease: use acquire_leadership() / release_leadership()");
+        }
+        if (stationColumns.some((column) => column in patch && field(patch, column) !== field(broadcast, column))) {
+          assertFencingToken(writer_token);
+        }
+        patchBroadcast(patch);
+      },
+    },
+
+    boxRounds: {
+      async getOpen() {
+        return clone(boxRounds.find((round) => round.status === "open") ?? null);
+      },
+      async get(roundId) {
+        return clone(boxRounds.find((round) => round.id === roundId) ?? null);
+      },
+      async tallies(roundId) {
+        const round = boxRounds.find((r) => r.id === roundId);
+        return round
+          ? talliesFor(round).map(({ song_id, votes, human_votes, simulated_votes }) => ({ song_id, votes, human_votes, simulated_votes }))
+          : [];
+      },
+      async userVote(roundId, voterId) {
+        return votes.find((vote) => vote.round_id === roundId && vote.user_id === voterId)?.song_id ?? null;
+      },
+    },
+
+    skips: {
+      async forPlay(playId) {
+        return clone(skipVotes.filter((skip) => skip.play_id === playId));
+      },
+      async tokensUsed(skipperId, since) {
+        return skipVotes.filter((skip) => skip.user_id === skipperId && skip.token_used_at && skip.token_used_at >= since).length;
+      },
+    },
+
+    ratings: {
+      async tally(playId) {
+        const rated = songRatings.filter((r) => r.play_id === playId);
+        return rated.length ? { ratings: rated.length, stars_sum: rated.reduce((sum, r) => sum + r.stars, 0) } : null;
+      },
+      async userRating(playId, user) {
+        return songRatings.find((r) => r.play_id === playId && r.user_id === user)?.stars ?? null;
+      },
+    },
+
+    graveyard: {
+      async epitaphs() {
+        return [...songs.values()]
+          .filter((song) => song.status === "graveyard")
+          .map((song): EpitaphRow => ({
+            song_id: song.id,
+            uploader_id: song.uploader_id,
+            title: song.title,
+            artist_name: song.artist_name,
+            cover_art_url: song.cover_art_url,
+            final_stars: song.final_stars ?? 0,
+            rounds_won: boxRounds.filter((round) => round.winner_id === song.id && round.status === "closed").length,
+            buried_at: song.buried_at!, // stamped by stampBurial
+            resurrection_count: song.resurrection_count ?? 0,
+            petitions: petitions.filter((p) => p.song_id === song.id).length,
+          }))
+          .sort((a, b) => b.buried_at.localeCompare(a.buried_at));
+      },
+      async petitionsSignedBy(user) {
+        return petitions.filter((p) => p.user_id === user).map((p) => p.song_id);
+      },
+    },
+
+    realtime: {
+      channel,
+      onTableChange(table, listener) {
+        if (!tableListeners.has(table)) tableListeners.set(table, new Set());
+        tableListeners.get(table)!.add(listener);
+        return () => {
+          tableListeners.get(table)?.delete(listener);
+        };
+      },
+    },
+
+    storage: {
+      async upload(bucket, path, file) {
+        putFile(bucket, path, file);
+      },
+      publicUrl,
+      async list(bucket, prefix) {
+        const base = prefix ? `${bucket}/${prefix}/` : `${bucket}/`;
+        const names = new Set<string>();
+        [...files.keys()].filter((id) => id.startsWith(base)).forEach((id) => names.add(id.slice(base.length).split("/")[0]));
+        return [...names].map((name) => ({ name }));
+      },
+    },
+
+    async rpc<F extends RpcName>(fn: F, ...[args]: RpcCall<F>): Promise<RpcResult<F>> {
+      const procedure: (args: RpcArgs<F>) => RpcResult<F> = procedures[fn];
+      if (!procedure) throw new Error(`${fn}: not available on the in-memory backend`);
+      return clone(procedure(args ?? ({} as RpcArgs<F>)));
+    },
+  };
+};
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { PREMIUM_PLANS, canUpgradeInApp, createStubPaymentProvider, grantPremium, upgradeToPremium } from "./payments";
+import { entitlementsFor, premiumActive, tierOf } from "./entitlements";
+import { backend } from "./radioBackend";
+import type { Profile } from "../types";
+
+const listener = async () =>
+  (await backend.profiles.insert({ user_id: `listener-${crypto.randomUUID()}`, name: "Listener", is_premium: false })) as Profile;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("the stub payment provider", () => {
+  it("approves a checkout with a fresh receipt for the plan's price", async () => {
+    const stub = createStubPaymentProvider({ delayMs: 0 });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const first = await stub.checkout("listener", "lifetime");
+    const second = await stub.checkout("listener", "lifetime");
+
+    expect(first).toMatchObject({ provider: "stub", plan: "lifetime", amountCents: PREMIUM_PLANS.lifetime.amountCents });
+    expect(first.reference).not.toBe(second.reference);
+  });
+
+  it("declines every checkout when told to", async () => {
+    await expect(createStubPaymentProvider({ declines: true, delayMs: 0 }).checkout("listener", "lifetime")).rejects.toThrow(/payment_declined/);
+  });
+});
+
+describe("premium on the in-memory backend", () => {
+  it("offers the upgrade in the app only with the stub", () => {
+    expect(canUpgradeInApp()).toBe(true);
+    expect(canUpgradeInApp({ name: "stripe", checkout: vi.fn() })).toBe(false);
+  });
+
+  it("pays and grants premium end to end", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { user_id } = await listener();
+
+    const profile = await upgradeToPremium(user_id, "lifetime", createStubPaymentProvider({ delayMs: 0 }));
+
+    expect(profile.is_premium).toBe(true);
+    expect(tierOf(profile)).toBe("premium");
+    expect((await backend.profiles.get(user_id))?.is_premium).toBe(true);
+    expect(entitlementsFor(profile).voteWeight).toBeGreaterThan(entitlementsFor({ is_premium: false }).voteWeight);
+  });
+
+  it("grants nothing when the payment is declined", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { user_id } = await listener();
+
+    await expect(upgradeToPremium(user_id, "lifetime", createStubPaymentProvider({ declines: true, delayMs: 0 }))).rejects.toThrow(/payment_declined/);
+    expect((await backend.profiles.get(user_id))?.is_premium).toBe(false);
+  });
+
+  it("grants a retried receipt once, and refuses premium written straight to the profile", async () => {
+    const { user_id } = await listener();
+    const receipt = { provider: "stub", reference: "stub_retried", plan: "lifetime" as const, amountCents: 499 };
+
+    await grantPremium(user_id, receipt);
+    expect((await grantPremium(user_id, receipt)).is_premium).toBe(true);
+
+    const other = await listener();
+    await expect(backend.profiles.update({ user_id: other.user_id }, { is_premium: true })).rejects.toThrow(/premium_locked/);
+  });
+
+  it("lets a month of premium run out, and stacks a second month on the first", async () => {
+    const { user_id } = await listener();
+    const day = 86_400_000;
+
+    const month = await grantPremium(user_id, { provider: "stub", reference: `stub_${crypto.randomUUID()}`, plan: "monthly", amountCents: 199 });
+    const until = Date.parse(month.premium_until!);
+    expect(until - Date.now()).toBeGreaterThan(29 * day);
+    expect(tierOf(month)).toBe("premium");
+    expect(tierOf(month, until + 1)).toBe("free");
+    expect(entitlementsFor({ ...month, premium_until: new Date(Date.now() - 1).toISOString() }).voteWeight).toBe(1);
+
+    const twoMonths = await grantPremium(user_id, { provider: "stub", reference: `stub_${crypto.randomUUID()}`, plan: "monthly", amountCents: 199 });
+    expect(Date.parse(twoMonths.premium_until!) - until).toBe(30 * day);
+  });
+
+  it("makes lifetime premium last for good, and refuses a plan it doesn't sell", async () => {
+    const { user_id } = await listener();
+
+    const lifetime = await grantPremium(user_id, { provider: "stub", reference: `stub_${crypto.randomUUID()}`, plan: "lifetime", amountCents: 499 });
+    expect(lifetime.premium_until).toBeNull();
+    expect(premiumActive(lifetime, Date.now() + 3650 * 86_400_000)).toBe(true);
+
+    const month = await grantPremium(user_id, { provider: "stub", reference: `stub_${crypto.randomUUID()}`, plan: "monthly", amountCents: 199 });
+    expect(month.premium_until).toBeNull();
+
+    const receipt = { provider: "stub", reference: "stub_weekly", plan: "weekly" as never, amountCents: 99 };
+    await expect(grantPremium(user_id, receipt)).rejects.toThrow(/no plan named weekly/);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @file payments - Paying for premium, and the grant that follows.
+ *
+ * A PaymentProvider takes the money and hands back a receipt; grant_premium (026_premium.sql)
+ * records the receipt and makes the listener premium for as long as the plan buys
+ * (033_premium_expiry.sql). The grant needs the service role, so
+ * with a real provider it runs on the provider's webhook, never in the browser. Until one is
+ * wired in there's only the stub below: it approves every checkout without charging anything,
+ * which lets an upgrade run end to end on the memory backend and through
+ * `youniverse users premium`.
+ */
+
+import { backend } from "./radioBackend";
+import { PREMIUM_PLANS, type PremiumPlan } from "./entitlements";
+import type { Profile } from "../types";
+
+export { PREMIUM_PLANS, type PremiumPlan };
+
+/** Proof of a payment, as grant_premium records it in premium_receipts. */
+export interface PaymentReceipt {
+  provider: string;
+  reference: string; // the provider's payment id; a receipt is only ever granted once
+  plan: PremiumPlan;
+  amountCents: number;
+}
+
+export interface PaymentProvider {
+  name: string;
+  /** Takes the payment. Rejects if it didn't go through. */
+  checkout(userId: string, plan: PremiumPlan): Promise<PaymentReceipt>;
+}
+
+interface StubOptions {
+  declines?: boolean; // every checkout fails, for exercising the error path
+  delayMs?: number; // how long the "payment" takes
+}
+
+/** A provider that charges nothing. Approves every checkout unless told to decline. */
+export const createStubPaymentProvider = ({ declines = false, delayMs = 400 }: StubOptions = {}): PaymentProvider => ({
+  name: "stub",
+
+  async checkout(userId, plan) {
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    if (declines) throw new Error("payment_declined: the card was declined");
+    console.log(`💳 Stub checkout: ${PREMIUM_PLANS[plan].label} for ${userId}`);
+    return { provider: "stub", reference: `stub_${crypto.randomUUID()}`, plan, amountCents: PREMIUM_PLANS[plan].amountCents };
+  },
+});
+
+/** The provider the app checks out with. */
+export const paymentProvider: PaymentProvider = createStubPaymentProvider();
+
+/**
+ * Whether the browser can run an upgrade end to end. Only the stub on the memory backend can:
+ * on Supabase grant_premium refuses anyone but the service role, so the app has no upgrade to
+ * offer until a provider's webhook grants it.
+ */
+export const canUpgradeInApp = (provider: PaymentProvider = paymentProvider): boolean =>
+  backend.kind === "memory" && provider.name === "stub";
+
+/**
+ * Records a paid receipt and makes its listener premium for the plan's duration, on top of any
+ * premium they have left. A receipt already granted changes nothing. Service role only on Supabase.
+ */
+export const grantPremium = async (userId: string, receipt: PaymentReceipt): Promise<Profile> =>
+  (await backend.rpc("grant_premium", {
+    p_user_id: userId,
+    p_provider: receipt.provider,
+    p_reference: receipt.reference,
+    p_plan: receipt.plan,
+    p_amount_cents: receipt.amountCents,
+  })) as Profile;
+
+/**
+ * Pays for premium and grants it.
+ * @returns The listener's profile, now premium.
+ */
+export const upgradeToPremium = async (
+  userId: string,
+  plan: PremiumPlan = "lifetime",
+  provider: PaymentProvider = paymentProvider,
+): Promise<Profile> => {
+  const receipt = await provider.checkout(userId, plan);
+  const profile = await grantPremium(userId, receipt);
+  console.log(`💎 ${profile.name ?? userId} is premium (${receipt.provider} ${receipt.reference})`);
+  return profile;
+};
@@ -0,0 +1,307 @@
+/**
+ * @file radioBackend - Everything the station needs from a server, behind one interface.
+ *
+ * Sign-in, songs, profiles, the broadcasts row, Box rounds, skip petitions, ratings, the graveyard,
+ * realtime channels (broadcast messages, presence, table changes), file storage and the server-side
+ * procedures. Two implementations:
+ *   - supabaseBackend: the real thing
+ *   - memoryBackend: an in-process store with realtime emulation, for demos and offline tests
+ *
+ * Rows keep the database's snake_case shape; mapping them to app types stays with the callers.
+ * Every method throws on failure (the Supabase error, or an Error with the same message).
+ * The procedures are typed by name in RpcProcedures, from their definitions in supabase/migrations.
+ *
+ * Which one runs: VITE_RADIO_BACKEND (browser) or RADIO_BACKEND (Node) set to "memory" picks the
+ * in-memory store; anything else is Supabase, and a missing project is an error rather than a
+ * silent switch to a station nobody else can hear.
+ */
+
+import { supabase, isSupabaseConfigured, env } from "./supabaseClient";
+import { createSupabaseBackend } from "./supabaseBackend";
+import { createMemoryBackend } from "./memoryBackend";
+import type { DbSong } from "./songRepository";
+import type { AdvanceRoundResult } from "./PersistentRadioService";
+import type { SimulatedVote } from "./boxRoundService";
+import type { BoxEntrant, BoxRound, Profile, RadioState, SiteCommand } from "../types";
+
+/** A row of a table the interface doesn't type. Callers check or map its columns. */
+export type Row = Record<string, unknown>;
+
+/** Column filter: a value means equals, an array means "one of", null means IS NULL. */
+export type Match = Record<string, string | number | boolean | null | readonly (string | number)[]>;
+
+export interface ListOptions {
+  columns?: string; // Supabase select list; the memory store always returns whole rows
+  orderBy?: string;
+  ascending?: boolean;
+  limit?: number;
+}
+
+export interface TableStore<T extends object = Row> {
+  list(match?: Match, options?: ListOptions): Promise<T[]>;
+  count(match?: Match): Promise<number>;
+  /** One row by primary key (songs.id, profiles.user_id). */
+  get(key: string): Promise<T | null>;
+  insert(row: Partial<T>): Promise<T>;
+  /** Updates the matching rows and returns them. Empty when the condition no longer holds, so it doubles as a claim. */
+  update(match: Match, patch: Partial<T>): Promise<T[]>;
+  remove(match: Match): Promise<void>;
+}
+
+/** The station's broadcasts row (004_broadcasts.sql and the migrations that add to it), with its songs joined in. */
+export interface BroadcastRow {
+  id: string;
+  current_song_id: string | null;
+  next_song_id: string | null;
+  radio_state: RadioState;
+  song_started_at: string | null;
+  play_id: string | null; // stamped by the server for every new play (017_song_ratings.sql)
+  updated_at: string;
+  leader_id: string | null;
+  leader_session: string | null;
+  lease_expires_at: string | null;
+  last_heartbeat: string | null;
+  fencing_token: number;
+  site_command: SiteCommand | null;
+  current_song: DbSong | null;
+  next_song: DbSong | null;
+}
+
+/** What a client may write to the broadcasts row. The lease columns belong to acquire_leadership(). */
+export type BroadcastPatch = Partial<
+  Pick<BroadcastRow, "current_song_id" | "next_song_id" | "radio_state" | "song_started_at" | "updated_at" | "site_command">
+> & {
+  writer_token?: number | null;
+};
+
+export interface BroadcastStore {
+  get(): Promise<BroadcastRow | null>;
+  /** Station columns are fenced: pass `writer_token` (016_leader_lease.sql). */
+  update(patch: BroadcastPatch): Promise<void>;
+}
+
+/** A row of box_rounds (014_box_rounds.sql). */
+export interface BoxRoundRow {
+  id: string;
+  candidate_ids: string[];
+  status: BoxRound["status"];
+  winner_id: string | null;
+  started_at: string;
+  closed_at: string | null;
+  selection: BoxRound["selection"] | null;
+}
+
+/** A row of box_round_tallies. */
+export interface BoxTallyRow {
+  song_id: string;
+  votes: number;
+  human_votes: number;
+  simulated_votes: number;
+}
+
+export interface BoxRoundStore {
+  getOpen(): Promise<BoxRoundRow | null>;
+  get(roundId: string): Promise<BoxRoundRow | null>;
+  tallies(roundId: string): Promise<BoxTallyRow[]>;
+  userVote(roundId: string, userId: string): Promise<string | null>;
+}
+
+/** A row of skip_votes: one listener's signature on one play's skip petition. */
+export interface SkipVoteRow {
+  play_id: string;
+  user_id: string;
+  song_id: string;
+  token_used_at: string | null;
+  created_at: string;
+}
+
+/** A row of play_rating_tallies: one play's live ratings. */
+export interface RatingTallyRow {
+  ratings: number;
+  stars_sum: number;
+}
+
+export interface RatingStore {
+  tally(playId: string): Promise<RatingTallyRow | null>;
+  /** The stars a listener gave a play, if they rated it. */
+  userRating(playId: string, userId: string): Promise<number | null>;
+}
+
+/** A row of graveyard_epitaphs. */
+export interface EpitaphRow {
+  song_id: string;
+  uploader_id: string;
+  title: string;
+  artist_name: string;
+  cover_art_url: string | null;
+  final_stars: number;
+  rounds_won: number;
+  buried_at: string;
+  resurrection_count: number;
+  petitions: number;
+}
+
+export interface GraveyardStore {
+  /** Every buried song, most recent burial first. */
+  epitaphs(): Promise<EpitaphRow[]>;
+  /** The songs a listener has signed a resurrection petition for. */
+  petitionsSignedBy(userId: string): Promise<string[]>;
+}
+
+export interface SkipStore {
+  forPlay(playId: string): Promise<SkipVoteRow[]>;
+  /** Skip-veto tokens a listener has spent since `since` (ISO time). */
+  tokensUsed(userId: string, since: string): Promise<number>;
+}
+
+/** What acquire_leadership returns (029_admin_force_takeover.sql). */
+export interface LeaseGrantRow {
+  acquired: boolean;
+  token: number | null; // the fencing token, when acquired
+  leader_id: string | null;
+  leader_session: string | null;
+  ttl_ms: number;
+}
+
+/** What skip_petition counts against a play (034_tuned_in.sql). */
+export interface SkipPetitionRow {
+  signatures: number; // signers tuned in
+  listeners: number; // listeners tuned in
+  needed: number; // signatures that carry the petition
+  by_token: boolean; // a premium listener spent a skip-veto token on it
+}
+
+/**
+ * The server-side procedures, by name: what each takes and what it returns. Arguments are
+ * named as in the SQL; one left out takes the SQL default.
+ */
+export interface RpcProcedures {
+  acquire_leadership: { args: { p_session: string; p_lease_ms?: number; p_force?: boolean }; result: LeaseGrantRow };
+  release_leadership: { args: { p_session: string; p_token: number }; result: boolean };
+  server_clock: { args: Record<string, never>; result: number }; // ms since the epoch
+  ensure_box_round: { args: { p_selection?: BoxRound["selection"] }; result: string | null };
+  cast_box_vote: { args: { p_round_id: string; p_song_id: string }; result: boolean };
+  cast_simulated_votes: { args: { p_round_id: string; p_votes: SimulatedVote[]; lease_token: number | null }; result: number };
+  advance_round: {
+    args: { expected_song_id: string | null; resolve_box?: boolean; entrants?: BoxEntrant[]; lease_token: number | null };
+    result: AdvanceRoundResult;
+  };
+  rate_now_playing: { args: { p_play_id: string; p_stars: number }; result: null };
+  tune_in: { args: Record<string, never>; result: null };
+  tune_out: { args: Record<string, never>; result: null };
+  cast_skip_vote: { args: { p_play_id: string; p_use_token?: boolean }; result: boolean };
+  skip_petition: { args: { p_play_id: string }; result: SkipPetitionRow };
+  veto_play: { args: { p_play_id: string; lease_token: number | null }; result: boolean };
+  sign_resurrection_petition: { args: { p_song_id: string }; result: { signatures: number; resurrected: boolean } };
+  resubmit_from_graveyard: { args: { p_song_id: string }; result: null };
+  grant_premium: {
+    args: { p_user_id: string; p_provider: string; p_reference: string; p_plan: string; p_amount_cents: number };
+    result: Profile;
+  };
+}
+
+export type RpcName = keyof RpcProcedures;
+export type RpcArgs<F extends RpcName> = RpcProcedures[F]["args"];
+export type RpcResult<F extends RpcName> = RpcProcedures[F]["result"];
+
+/** A procedure's arguments as rpc() takes them: optional when it has none. */
+export type RpcCall<F extends RpcName> = RpcArgs<F> extends Record<string, never> ? [args?: RpcArgs<F>] : [args: RpcArgs<F>];
+
+export type ChannelStatus = "SUBSCRIBED" | "TIMED_OUT" | "CLOSED" | "CHANNEL_ERROR";
+
+/** What a client announces on a channel's presence. */
+export interface PresenceMeta {
+  user_id: string;
+  name?: string;
+  avatar_url?: string;
+}
+
+/** A presence as the channel reports it: the meta, and the ref of the tab that tracked it. */
+export type Presence = PresenceMeta & { presence_ref: string };
+
+export interface PresenceChange {
+  event: "join" | "leave";
+  presences: Presence[];
+}
+
+/** A realtime channel. Messages sent on it reach every other client subscribed to the same name, not the sender. */
+export interface RadioChannel {
+  on(event: string, listener: (payload: unknown) => void): RadioChannel;
+  onPresence(listener: (change: PresenceChange) => void): RadioChannel;
+  subscribe(onStatus?: (status: ChannelStatus) => void): RadioChannel;
+  send(event: string, payload: unknown): Promise<void>;
+  /** Announces this client on the channel's presence (see ChannelOptions.presenceKey). */
+  track(meta: PresenceMeta): Promise<void>;
+  /** Takes this client's presence back off the channel, staying subscribed. */
+  untrack(): Promise<void>;
+  /** Leaves the channel, for everything on this client that shares it. */
+  close(): Promise<void>;
+}
+
+export interface ChannelOptions {
+  presenceKey?: string;
+}
+
+export interface TableChange {
+  event: "INSERT" | "UPDATE" | "DELETE";
+  new: Row | null;
+  old: Row | null;
+}
+
+export interface RealtimeHub {
+  /**
+   * This client's channel of that name. Asking for a name again gives back the same channel, as
+   * Supabase does, so one module owns each channel and only it ever closes it.
+   */
+  channel(name: string, options?: ChannelOptions): RadioChannel;
+  /** Follows inserts, updates and deletes on a table. Returns an unsubscribe. */
+  onTableChange(table: string, listener: (change: TableChange) => void): () => void;
+}
+
+export interface FileStore {
+  upload(bucket: string, path: string, file: Blob): Promise<void>;
+  publicUrl(bucket: string, path: string): string;
+  /** The files and folders directly under `prefix` ("" for the bucket root). */
+  list(bucket: string, prefix: string): Promise<{ name: string }[]>;
+}
+
+export interface AuthStore {
+  currentUserId(): Promise<string | null>;
+  onUserChanged(listener: (userId: string | null) => void): () => void;
+  signIn(email: string, password: string): Promise<void>;
+  /** Returns whether the new user is signed in: false while their email still awaits confirmation. */
+  signUp(email: string, password: string, meta?: Row): Promise<boolean>;
+  signOut(): Promise<void>;
+}
+
+export interface RadioBackend {
+  readonly kind: "supabase" | "memory";
+  auth: AuthStore;
+  songs: TableStore; // checked against DbSong by songRepository
+  profiles: TableStore<Profile>;
+  broadcasts: BroadcastStore;
+  boxRounds: BoxRoundStore;
+  skips: SkipStore;
+  ratings: RatingStore;
+  graveyard: GraveyardStore;
+  realtime: RealtimeHub;
+  storage: FileStore;
+  /** Runs a server-side procedure (advance_round, acquire_leadership, ...) and returns its result. */
+  rpc<F extends RpcName>(fn: F, ...args: RpcCall<F>): Promise<RpcResult<F>>;
+}
+
+const createBackend = (): RadioBackend => {
+  const requested = env.VITE_RADIO_BACKEND || env.RADIO_BACKEND;
+  if (requested === "memory") {
+    console.log("🧪 Radio backend: in-memory store (no network)");
+    return createMemoryBackend();
+  }
+  if (!isSupabaseConfigured) {
+    throw new Error("Supabase is not configured: set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY, or VITE_RADIO_BACKEND=memory to run offline");
+  }
+  return createSupabaseBackend(supabase);
+};
+
+// Kept on globalThis so Vite HMR doesn't wipe the in-memory station
+const hmrSafe = globalThis as typeof globalThis & { __CLUB_YOUNIVERSE_BACKEND__?: RadioBackend };
+export const backend: RadioBackend = (hmrSafe.__CLUB_YOUNIVERSE_BACKEND__ ??= createBackend());
@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import {
+  transition,
+  requestEventFor,
+  canTransitionSong,
+  resolveBoxWinner,
+  resolveBoxLoser,
+  resolveRetirement,
+  resolveDebut,
+  debutCooldownRemaining,
+  type RadioSnapshot,
+} from "./radioStateMachine";
+import { createMemoryBackend } from "./memoryBackend";
+import { STATION_RULES } from "./stationRules";
+import type { RadioState, StationRules } from "../types";
+
+const onAir = (radioState: RadioState = "NOW_PLAYING"): RadioSnapshot => ({ radioState, nowPlayingId: "song-1" });
+const silent = (radioState: RadioState = "IDLE"): RadioSnapshot => ({ radioState, nowPlayingId: null });
+
+describe("transition", () => {
+  it("advances the round when the song on air ends, fails or is vetoed", () => {
+    for (const type of ["SONG_ENDED", "SONG_FAILED", "ZOMBIE_DETECTED", "SONG_VETOED"] as const) {
+      expect(transition(onAir(), { type })).toEqual({ accepted: true, state: "BOX_WIN", effects: [{ type: "ADVANCE_ROUND" }] });
+    }
+  });
+
+  it("ignores a song ending when nothing is on air", () => {
+    const result = transition(silent(), { type: "SONG_ENDED" });
+    expect(result.accepted).toBe(false);
+    expect(result.state).toBe("IDLE");
+    expect(result.effects).toEqual([]);
+  });
+
+  it("rejects new requests while a cycle is in flight", () => {
+    for (const state of ["POOL", "BOX_WIN", "NEXT_PLAY", "THE_BOX", "REBOOT"] as const) {
+      expect(transition(onAir(state), { type: "CYCLE_REQUESTED" }).accepted).toBe(false);
+      expect(transition(onAir(state), { type: "MIC_OVER" }).accepted).toBe(false);
+    }
+  });
+
+  it("walks a full cycle: Pool -> Box -> Play", () => {
+    let snapshot = silent();
+    const step = (event: Parameters<typeof transition>[1]) => {
+      const result = transition(snapshot, event);
+      expect(result.accepted).toBe(true);
+      snapshot = { ...snapshot, radioState: result.state };
+      return result;
+    };
+
+    expect(step({ type: "CYCLE_REQUESTED" }).effects).toEqual([{ type: "ADVANCE_ROUND" }]);
+    expect(snapshot.radioState).toBe("POOL");
+    step({ type: "WINNER_PROMOTED", songId: "song-1" });
+    expect(snapshot.radioState).toBe("NEXT_PLAY");
+    step({ type: "SONG_STARTED", songId: "song-1" });
+    snapshot = { ...snapshot, nowPlayingId: "song-1" };
+    expect(snapshot.radioState).toBe("NOW_PLAYING");
+    step({ type: "SONG_ENDED" });
+    expect(snapshot.radioState).toBe("BOX_WIN");
+  });
+
+  it("only talks over a song, and releases the mic back to it", () => {
+    expect(transition(silent(), { type: "MIC_OVER" }).accepted).toBe(false);
+    expect(transition(onAir(), { type: "MIC_OVER" }).state).toBe("DJ_TALKING");
+    expect(transition(onAir("DJ_TALKING"), { type: "MIC_RELEASED" }).state).toBe("NOW_PLAYING");
+    expect(transition(onAir(), { type: "MIC_RELEASED" }).accepted).toBe(false);
+  });
+
+  it("finishes a dead leader's work on taking the lease", () => {
+    expect(transition(onAir("BOX_WIN"), { type: "LEADERSHIP_ACQUIRED" }).effects).toEqual([{ type: "ADVANCE_ROUND" }]);
+    expect(transition(onAir("NEXT_PLAY"), { type: "LEADERSHIP_ACQUIRED" }).effects).toEqual([{ type: "KICKSTART" }]);
+    expect(transition(onAir("REBOOT"), { type: "LEADERSHIP_ACQUIRED" }).effects).toEqual([{ type: "HARD_RESET" }]);
+    expect(transition(silent("NOW_PLAYING"), { type: "LEADERSHIP_ACQUIRED" }).state).toBe("IDLE");
+  });
+
+  it("maps the DJ Booth triggers to requests", () => {
+    expect(requestEventFor("POOL")).toEqual({ type: "CYCLE_REQUESTED" });
+    expect(requestEventFor("BOX_WIN")).toEqual({ type: "FORCE_WIN_REQUESTED" });
+    expect(requestEventFor("IDLE")).toBeNull();
+  });
+});
+
+describe("song transitions", () => {
+  it("allows only the documented status moves", () => {
+    expect(canTransitionSong("in_box", "WIN_BOX", "next_play")).toBe(true);
+    expect(canTransitionSong("debut", "PROMOTE", "now_playing")).toBe(true);
+    expect(canTransitionSong("graveyard", "ENTER_BOX", "in_box")).toBe(false);
+    expect(canTransitionSong("pool", "RETIRE", "graveyard")).toBe(false);
+  });
+});
+
+describe("star rules", () => {
+  const rules = STATION_RULES;
+
+  it("gives the Box winner a star, up to the maximum", () => {
+    expect(resolveBoxWinner({ stars: 5, isDsw: false }, rules)).toEqual({ status: "next_play", stars: 6, isDsw: false });
+    expect(resolveBoxWinner({ stars: rules.maxStars, isDsw: false }, rules).stars).toBe(rules.maxStars);
+  });
+
+  it("keeps a loser in The Box until its streak runs out, then docks it", () => {
+    const held = resolveBoxLoser({ stars: 5, isDsw: false, boxRoundsLost: 0 }, rules);
+    expect(held).toEqual({ status: "in_box", stars: 5, isDsw: false, boxRoundsLost: 1 });
+
+    const docked = resolveBoxLoser({ stars: 5, isDsw: false, boxRoundsLost: rules.maxRoundsWithoutWin - 1 }, rules);
+    expect(docked).toEqual({ status: "pool", stars: 5 - rules.starLoss, isDsw: false, boxRoundsLost: 0 });
+  });
+
+  it("makes a loser at the threshold a Dead Song Walking", () => {
+    const result = resolveBoxLoser({ stars: rules.dswThreshold + rules.starLoss, isDsw: false, boxRoundsLost: rules.maxRoundsWithoutWin - 1 }, rules);
+    expect(result.isDsw).toBe(true);
+    expect(result.stars).toBe(0);
+  });
+
+  it("applies the live rating delta at the end of a play", () => {
+    const result = resolveRetirement({ stars: 5, isDsw: false }, { count: 2, sum: 14 }, rules);
+    expect(result).toEqual({ status: "pool", stars: 9, isDsw: false, delta: 4 });
+  });
+
+  it("pardons a DSW rated back above the threshold, and buries one that isn't", () => {
+    expect(resolveRetirement({ stars: 0, isDsw: true }, { count: 1, sum: 5 }, rules).status).toBe("pool");
+    expect(resolveRetirement({ stars: 0, isDsw: true }, { count: 0, sum: 0 }, rules).status).toBe("graveyard");
+  });
+
+  it("takes a veto's penalty off whatever the ratings earned", () => {
+    const result = resolveRetirement({ stars: 5, isDsw: false }, { count: 1, sum: 6 }, rules, true);
+    expect(result.stars).toBe(6 - rules.vetoStarPenalty);
+    expect(result.delta).toBe(1 - rules.vetoStarPenalty);
+    expect(resolveRetirement({ stars: 1, isDsw: false }, { count: 0, sum: 0 }, rules, true)).toMatchObject({ stars: 0, isDsw: true });
+  });
+
+  it("judges a debut on its average rating, less a veto's penalty", () => {
+    expect(resolveDebut({ count: 2, sum: 14 }, rules)).toMatchObject({ status: "pool", stars: 7, passed: true });
+    expect(resolveDebut({ count: 1, sum: 2 }, rules)).toMatchObject({ status: "graveyard", stars: 0, passed: false });
+    expect(resolveDebut({ count: 0, sum: 0 }, rules).passed).toBe(rules.startingStars >= rules.debutPassRating);
+    expect(resolveDebut({ count: 0, sum: 0 }, rules, true)).toMatchObject({ rating: rules.startingStars - rules.vetoStarPenalty, passed: false });
+  });
+
+  it("counts down the debut cooldown", () => {
+    const now = Date.parse("2026-01-02T00:00:00Z");
+    expect(debutCooldownRemaining(null, now, rules)).toBe(0);
+    expect(debutCooldownRemaining("2026-01-01T12:00:00Z", now, rules)).toBe((rules.debutCooldownHours - 12) * 60 * 60 * 1000);
+    expect(debutCooldownRemaining("2025-12-01T00:00:00Z", now, rules)).toBe(0);
+  });
+});
+
+describe("the cycle on the in-memory backend", () => {
+  const station = async (rules: Partial<StationRules> = {}) => {
+    const backend = createMemoryBackend({ rules });
+    const { token } = await backend.rpc("acquire_leadership", { p_session: "test" });
+    const advance = (expectedSongId: string | null) =>
+      backend.rpc("advance_round", {
+        expected_song_id: expectedSongId,
+        resolve_box: true,
+        entrants: [],
+        lease_token: token,
+      });
+    return { backend, advance };
+  };
+
+  it("puts a song on air and fills The Box from silence", async () => {
+    const { backend, advance } = await station();
+    const result = await advance(null);
+
+    expect(result.advanced).toBe(true);
+    expect(result.now_playing!.status).toBe("now_playing");
+    expect(await backend.songs.count({ status: "in_box" })).toBe(STATION_RULES.boxSize);
+    expect((await backend.broadcasts.get())?.current_song_id).toBe(result.now_playing!.id);
+  });
+
+  it("fills The Box to the size the rules give", async () => {
+    const { backend, advance } = await station({ boxSize: 3, candidatesPerRound: 3 });
+    await advance(null);
+
+    expect(await backend.songs.count({ status: "in_box" })).toBe(3);
+    expect((await backend.boxRounds.getOpen())?.candidate_ids).toHaveLength(3);
+  });
+
+  it("plays the Box winner next, and keeps the loser as a challenger", async () => {
+    const { backend, advance } = await station();
+    const first = await advance(null);
+    const round = await backend.boxRounds.getOpen();
+    const [winnerId, loserId] = round!.candidate_ids;
+    await backend.rpc("cast_box_vote", { p_round_id: round!.id, p_song_id: winnerId });
+
+    const second = await advance(first.now_playing!.id);
+
+    expect(second.now_playing!.id).toBe(winnerId);
+    expect(second.now_playing!.stars).toBe(STATION_RULES.startingStars + STATION_RULES.starGain);
+    expect(await backend.songs.get(loserId)).toMatchObject({ status: "in_box", box_rounds_lost: 1 });
+    expect(await backend.songs.get(first.now_playing!.id)).toMatchObject({ status: "pool", play_count: 1 });
+    expect((await backend.boxRounds.get(round!.id))?.status).toBe("closed");
+  });
+
+  it("closes the Box vote when the play on air ends", async () => {
+    const { backend, advance } = await station();
+    const first = await advance(null);
+    const round = await backend.boxRounds.getOpen();
+    await backend.songs.update({ id: first.now_playing!.id }, { duration_sec: 1 }); // over before the crossfade
+
+    await expect(backend.rpc("cast_box_vote", { p_round_id: round!.id, p_song_id: round!.candidate_ids[0] })).rejects.toThrow(/closed at/);
+  });
+
+  it("doesn't put a loser that just ran out of chances straight back in The Box", async () => {
+    const { backend, advance } = await station({ maxRoundsWithoutWin: 1 });
+    const first = await advance(null);
+    const round = await backend.boxRounds.getOpen();
+    const [winnerId, loserId] = round!.candidate_ids;
+    await backend.rpc("cast_box_vote", { p_round_id: round!.id, p_song_id: winnerId });
+
+    await advance(first.now_playing!.id);
+
+    expect(await backend.songs.get(loserId)).toMatchObject({ status: "pool", stars: STATION_RULES.startingStars - STATION_RULES.starLoss });
+    expect((await backend.boxRounds.getOpen())?.candidate_ids).not.toContain(loserId);
+  });
+
+  it("counts the live ratings of the play that just ended", async () => {
+    const { backend, advance } = await station();
+    const first = await advance(null);
+    const playId = (await backend.broadcasts.get())!.play_id!;
+    await backend.rpc("rate_now_playing", { p_play_id: playId, p_stars: 3 });
+    await backend.rpc("rate_now_playing", { p_play_id: playId, p_stars: 8 }); // changed their mind
+
+    const second = await advance(first.now_playing!.id);
+
+    expect(await backend.ratings.tally(playId)).toEqual({ ratings: 1, stars_sum: 8 });
+    expect(second.rating).toMatchObject({ play_id: playId, ratings: 1, average: 8, delta: 8 - STATION_RULES.startingStars });
+    expect((await backend.songs.get(first.now_playing!.id))?.stars).toBe(8);
+    await expect(backend.rpc("rate_now_playing", { p_play_id: playId, p_stars: 5 })).rejects.toThrow(/rating_closed/);
+  });
+
+  it("is a no-op for a leader that lost the race", async () => {
+    const { advance } = await station();
+    const first = await advance(null);
+    await advance(first.now_playing!.id);
+
+    const late = await advance(first.now_playing!.id);
+    expect(late.advanced).toBe(false);
+  });
+
+  it("refuses a stale fencing token", async () => {
+    const { backend } = await station();
+    await expect(backend.rpc("advance_round", { expected_song_id: null, lease_token: 999 })).rejects.toThrow(/stale_fencing_token/);
+  });
+});
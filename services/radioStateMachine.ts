@@ -0,0 +1,343 @@
+/**
+ * @file radioStateMachine - The pure rules of the Pool -> Box -> Play cycle.
+ * Nothing in here touches Supabase, audio or timers. The broadcast manager and
+ * PersistentRadioService feed it events and carry out the effects it returns.
+ */
+
+import type { Song, RadioState, SongStatus, StationRules, RatingTally } from "../types";
+import { STATION_RULES } from "./stationRules";
+
+// --- Station (RadioState) machine ---
+
+/**
+ * RadioState meanings:
+ * - POOL: a cycle was requested (admin "Cycle" or post-reboot), round is resolving.
+ * - BOX_WIN: the current song ended (or "Force Win", or a veto), the Box winner is being resolved.
+ * - NEXT_PLAY: a winner/next song is promoted and loading into the deck.
+ * - NOW_PLAYING: a song is on air. Never entered without a song.
+ * - DJ_TALKING: mic over the current song, until the next song starts.
+ * - THE_BOX: the Box is being refreshed.
+ * - REBOOT: hard reset in progress.
+ * - IDLE: nothing is on air and nothing could be promoted.
+ */
+export type RadioEvent =
+  | { type: "CYCLE_REQUESTED" }
+  | { type: "FORCE_WIN_REQUESTED" }
+  | { type: "BOX_REFRESH_REQUESTED" }
+  | { type: "REBOOT_REQUESTED" }
+  | { type: "MIC_OVER" }
+  | { type: "MIC_RELEASED" }
+  | { type: "SONG_ENDED" }
+  | { type: "SONG_VETOED" } // the listeners' skip petition passed (services/skipPetition.ts)
+  | { type: "SONG_FAILED" }
+  | { type: "ZOMBIE_DETECTED" }
+  | { type: "STATION_SILENT" }
+  | { type: "WINNER_PROMOTED"; songId: string }
+  | { type: "NO_CANDIDATES" }
+  | { type: "SONG_STARTED"; songId: string }
+  | { type: "SONG_CLEARED" }
+  | { type: "BOX_REFRESHED" }
+  | { type: "RESET_COMPLETE" }
+  | { type: "LEADERSHIP_ACQUIRED" };
+
+export type RadioEffect =
+  | { type: "ADVANCE_ROUND" } // retire current song, resolve the Box, promote the winner
+  | { type: "KICKSTART" } // promote next_play (or a pool fallback) without resolving the Box
+  | { type: "REFRESH_BOX" }
+  | { type: "HARD_RESET" };
+
+export interface RadioSnapshot {
+  radioState: RadioState;
+  nowPlayingId: string | null;
+}
+
+export interface RadioTransition {
+  accepted: boolean;
+  state: RadioState;
+  effects: RadioEffect[];
+  reason?: string;
+}
+
+/** States in which the leader is mid-transition and must not accept new requests. */
+export const BUSY_STATES: readonly RadioState[] = ["POOL", "BOX_WIN", "NEXT_PLAY", "THE_BOX", "REBOOT"];
+
+/** States that only make sense with a song on air. */
+export const ON_AIR_STATES: readonly RadioState[] = ["NOW_PLAYING", "DJ_TALKING"];
+
+export const isBusy = (state: RadioState) => BUSY_STATES.includes(state);
+
+const accept = (state: RadioState, effects: RadioEffect[] = []): RadioTransition => ({
+  accepted: true,
+  state,
+  effects,
+});
+
+const reject = (snapshot: RadioSnapshot, reason: string): RadioTransition => ({
+  accepted: false,
+  state: snapshot.radioState,
+  effects: [],
+  reason,
+});
+
+/** Where the station rests when nothing is in flight. */
+const restingState = (snapshot: RadioSnapshot): RadioState =>
+  snapshot.nowPlayingId ? "NOW_PLAYING" : "IDLE";
+
+/**
+ * Computes the next RadioState and the effects to run for an event.
+ * Rejected events leave the state untouched and carry a reason for logging.
+ */
+export const transition = (snapshot: RadioSnapshot, event: RadioEvent): RadioTransition => {
+  const { radioState } = snapshot;
+
+  switch (event.type) {
+    case "CYCLE_REQUESTED":
+      if (isBusy(radioState)) return reject(snapshot, `cycle already in flight (${radioState})`);
+      return accept("POOL", [{ type: "ADVANCE_ROUND" }]);
+
+    case "FORCE_WIN_REQUESTED":
+      if (isBusy(radioState)) return reject(snapshot, `cycle already in flight (${radioState})`);
+      return accept("BOX_WIN", [{ type: "ADVANCE_ROUND" }]);
+
+    case "SONG_ENDED":
+    case "SONG_VETOED":
+    case "SONG_FAILED":
+    case "ZOMBIE_DETECTED":
+      if (!ON_AIR_STATES.includes(radioState)) return reject(snapshot, `no song on air (${radioState})`);
+      return accept("BOX_WIN", [{ type: "ADVANCE_ROUND" }]);
+
+    case "STATION_SILENT":
+      if (isBusy(radioState)) return reject(snapshot, `cycle already in flight (${radioState})`);
+      return accept("NEXT_PLAY", [{ type: "KICKSTART" }]);
+
+    case "BOX_REFRESH_REQUESTED":
+      if (isBusy(radioState)) return reject(snapshot, `cycle already in flight (${radioState})`);
+      return accept("THE_BOX", [{ type: "REFRESH_BOX" }]);
+
+    case "BOX_REFRESHED":
+      if (radioState !== "THE_BOX") return reject(snapshot, "no box refresh in flight");
+      return accept(restingState(snapshot));
+
+    case "REBOOT_REQUESTED":
+      if (radioState === "REBOOT") return reject(snapshot, "reboot already in flight");
+      return accept("REBOOT", [{ type: "HARD_RESET" }]);
+
+    case "RESET_COMPLETE":
+      if (radioState !== "REBOOT") return reject(snapshot, "no reboot in flight");
+      return accept("POOL", [{ type: "ADVANCE_ROUND" }]);
+
+    case "WINNER_PROMOTED":
+      if (radioState !== "POOL" && radioState !== "BOX_WIN" && radioState !== "NEXT_PLAY") {
+        return reject(snapshot, `nothing is being promoted (${radioState})`);
+      }
+      return accept("NEXT_PLAY");
+
+    case "NO_CANDIDATES":
+      if (!isBusy(radioState)) return reject(snapshot, `nothing is being promoted (${radioState})`);
+      return accept("IDLE");
+
+    case "SONG_STARTED":
+      // A new song always lands on air; it also ends any mic-over.
+      return accept("NOW_PLAYING");
+
+    case "SONG_CLEARED":
+      if (isBusy(radioState)) return accept(radioState);
+      return accept("IDLE");
+
+    case "MIC_OVER":
+      if (!snapshot.nowPlayingId) return reject(snapshot, "cannot talk over silence");
+      if (isBusy(radioState)) return reject(snapshot, `cycle in flight (${radioState})`);
+      return accept("DJ_TALKING");
+
+    case "MIC_RELEASED":
+      if (radioState !== "DJ_TALKING") return reject(snapshot, "mic is not live");
+      return accept(restingState(snapshot));
+
+    case "LEADERSHIP_ACQUIRED":
+      // A previous leader died mid-transition: finish its work.
+      switch (radioState) {
+        case "POOL":
+        case "BOX_WIN":
+          return accept(radioState, [{ type: "ADVANCE_ROUND" }]);
+        case "NEXT_PLAY":
+          return accept(radioState, [{ type: "KICKSTART" }]);
+        case "THE_BOX":
+          return accept(radioState, [{ type: "REFRESH_BOX" }]);
+        case "REBOOT":
+          return accept(radioState, [{ type: "HARD_RESET" }]);
+        case "NOW_PLAYING":
+        case "DJ_TALKING":
+          return snapshot.nowPlayingId ? accept(radioState) : accept("IDLE");
+        default:
+          return accept(radioState);
+      }
+  }
+};
+
+/**
+ * Maps an admin trigger button (DJ Booth "System Triggers") to the event it requests.
+ */
+export const requestEventFor = (state: RadioState): RadioEvent | null => {
+  switch (state) {
+    case "POOL":
+      return { type: "CYCLE_REQUESTED" };
+    case "BOX_WIN":
+      return { type: "FORCE_WIN_REQUESTED" };
+    case "THE_BOX":
+      return { type: "BOX_REFRESH_REQUESTED" };
+    case "REBOOT":
+      return { type: "REBOOT_REQUESTED" };
+    case "DJ_TALKING":
+      return { type: "MIC_OVER" };
+    case "NOW_PLAYING":
+      return { type: "MIC_RELEASED" };
+    default:
+      return null;
+  }
+};
+
+// --- Song (Song.status) machine ---
+
+export type SongEvent =
+  | "APPROVE" // review -> pool
+  | "REJECT" // review -> graveyard
+  | "ENTER_BOX" // pool/review -> in_box
+  | "WIN_BOX" // in_box -> next_play
+  | "LOSE_BOX" // in_box -> in_box (still challenging) | pool (after too many losses)
+  | "PROMOTE" // next_play/pool/debut -> now_playing
+  | "RETIRE" // now_playing -> pool | graveyard
+  | "RESET"; // any active status -> pool
+
+const SONG_TRANSITIONS: Record<SongEvent, Partial<Record<SongStatus, readonly SongStatus[]>>> = {
+  APPROVE: { review: ["pool"] },
+  REJECT: { review: ["graveyard"] },
+  ENTER_BOX: { pool: ["in_box"], review: ["in_box"] },
+  WIN_BOX: { in_box: ["next_play"] },
+  LOSE_BOX: { in_box: ["in_box", "pool"] },
+  PROMOTE: { next_play: ["now_playing"], pool: ["now_playing"], debut: ["now_playing"] },
+  RETIRE: { now_playing: ["pool", "graveyard"] },
+  RESET: {
+    in_box: ["pool"],
+    next_play: ["pool"],
+    now_playing: ["pool"],
+    review: ["pool"],
+  },
+};
+
+/** True if `event` may move a song from `from` to `to`. */
+export const canTransitionSong = (from: SongStatus, event: SongEvent, to: SongStatus): boolean =>
+  SONG_TRANSITIONS[event][from]?.includes(to) ?? false;
+
+/** The statuses a song can be in before `event` applies. */
+export const songSourcesFor = (event: SongEvent): SongStatus[] =>
+  Object.keys(SONG_TRANSITIONS[event]) as SongStatus[];
+
+export interface SongOutcome {
+  status: SongStatus;
+  stars: number;
+  isDsw: boolean;
+}
+
+type StarFields = Pick<Song, "stars" | "isDsw">;
+type StreakFields = StarFields & Pick<Song, "boxRoundsLost">;
+
+const clampStars = (stars: number, rules: StationRules) => Math.min(rules.maxStars, Math.max(0, stars));
+
+/** Box winner: gains stars and is queued as next_play. A DSW stays pinned at 0. */
+export const resolveBoxWinner = (song: StarFields, rules: StationRules = STATION_RULES): SongOutcome => ({
+  status: "next_play",
+  stars: song.isDsw ? 0 : clampStars((song.stars ?? rules.startingStars) + rules.starGain, rules),
+  isDsw: song.isDsw,
+});
+
+/**
+ * Box loser: stays in The Box as a challenger until it has lost maxRoundsWithoutWin rounds
+ * in a row, then loses stars and goes back to the pool. Hitting the DSW threshold makes it
+ * a Dead Song Walking.
+ */
+export const resolveBoxLoser = (
+  song: StreakFields,
+  rules: StationRules = STATION_RULES,
+): SongOutcome & { boxRoundsLost: number } => {
+  const losses = (song.boxRoundsLost ?? 0) + 1;
+  if (losses < rules.maxRoundsWithoutWin) {
+    return { status: "in_box", stars: song.stars, isDsw: song.isDsw, boxRoundsLost: losses };
+  }
+
+  const stars = clampStars((song.stars ?? rules.startingStars) - rules.starLoss, rules);
+  const isDsw = song.isDsw || stars <= rules.dswThreshold;
+  return { status: "pool", stars: isDsw ? 0 : stars, isDsw, boxRoundsLost: 0 };
+};
+
+/**
+ * End of a play: applies the live rating delta from the play's rating ledger, then decides the song's fate.
+ * A vetoed play loses vetoStarPenalty more. A DSW that climbs back above the threshold on its
+ * farewell play is pardoned; otherwise it is buried.
+ */
+export const resolveRetirement = (
+  song: StarFields,
+  ratings: RatingTally,
+  rules: StationRules = STATION_RULES,
+  vetoed = false,
+): SongOutcome & { delta: number } => {
+  let stars = song.stars;
+
+  if (ratings.count > 0) {
+    // A DSW has 0 stars, so a single 5-star rating gives delta = 5 - (1 * 0) = +5: a pardon.
+    stars = clampStars(song.stars + Math.round(ratings.sum - ratings.count * song.stars), rules);
+  }
+  if (vetoed) stars = Math.max(0, stars - rules.vetoStarPenalty);
+  const delta = stars - song.stars;
+
+  if (song.isDsw) {
+    return stars > rules.dswThreshold
+      ? { status: "pool", stars, isDsw: false, delta }
+      : { status: "graveyard", stars: 0, isDsw: true, delta };
+  }
+
+  if (stars <= rules.dswThreshold) return { status: "pool", stars: 0, isDsw: true, delta };
+  return { status: "pool", stars, isDsw: false, delta };
+};
+
+/**
+ * End of a debut ("Trial by Fire"): judged on the average live rating alone, less vetoStarPenalty if vetoed.
+ * Pass and the song joins the pool with that many stars; fail and it goes straight to the graveyard.
+ * No ratings at all counts as startingStars.
+ */
+export const resolveDebut = (
+  ratings: RatingTally,
+  rules: StationRules = STATION_RULES,
+  vetoed = false,
+): SongOutcome & { rating: number; passed: boolean } => {
+  const average = ratings.count > 0 ? ratings.sum / ratings.count : rules.startingStars;
+  const rating = vetoed ? Math.max(0, average - rules.vetoStarPenalty) : average;
+  const passed = rating >= rules.debutPassRating;
+  return passed
+    ? { status: "pool", stars: clampStars(Math.round(rating), rules), isDsw: false, rating, passed }
+    : { status: "graveyard", stars: 0, isDsw: false, rating, passed };
+};
+
+/** Signatures it takes to veto a play with `listeners` tuned in. Never fewer than one. */
+export const signaturesNeeded = (listeners: number, rules: StationRules = STATION_RULES): number =>
+  Math.max(1, Math.ceil((listeners * rules.vetoPercent) / 100));
+
+/** Milliseconds until a non-artist may debut again (0 if they can debut now). */
+export const debutCooldownRemaining = (
+  lastDebutAt: string | null | undefined,
+  now: number = Date.now(),
+  rules: StationRules = STATION_RULES,
+): number => {
+  if (!lastDebutAt) return 0;
+  const endsAt = new Date(lastDebutAt).getTime() + rules.debutCooldownHours * 60 * 60 * 1000;
+  return Math.max(0, endsAt - now);
+};
+
+/** Milliseconds until an artist may resubmit a buried song (0 if they can now). */
+export const resubmitCooldownRemaining = (
+  buriedAt: string,
+  now: number = Date.now(),
+  rules: StationRules = STATION_RULES,
+): number => {
+  const endsAt = new Date(buriedAt).getTime() + rules.resurrectionCooldownDays * 24 * 60 * 60 * 1000;
+  return Math.max(0, endsAt - now);
+};
@@ -0,0 +1,62 @@
+/**
+ * @file This service handles live star ratings and the per-listener rating ledger.
+ * Every play on air has its own play id; listeners get one rating per play, which they
+ * can change until the song ends (see supabase/migrations/017_song_ratings.sql).
+ */
+import { backend } from "./radioBackend";
+import type { RatingTally } from "../types";
+
+/**
+ * Fetches the id of the play currently on air.
+ * @param songId If given, only returns the play when that song is the one on air.
+ */
+export const getCurrentPlayId = async (songId?: string): Promise<string | null> => {
+  try {
+    const broadcast = await backend.broadcasts.get();
+    if (songId && broadcast?.current_song_id !== songId) return null;
+    return broadcast?.play_id ?? null;
+  } catch (error) {
+    console.error("Error fetching current play:", error);
+    return null;
+  }
+};
+
+/**
+ * Computes a play's live ratings from the ledger.
+ */
+export const getPlayRatings = async (playId: string): Promise<RatingTally> => {
+  try {
+    const tally = await backend.ratings.tally(playId);
+    return { count: tally?.ratings ?? 0, sum: tally?.stars_sum ?? 0 };
+  } catch (error) {
+    console.error("Error fetching play ratings:", error);
+    return { count: 0, sum: 0 };
+  }
+};
+
+/**
+ * Fetches the rating the given user gave a play, if any.
+ */
+export const getUserRating = async (
+  playId: string,
+  userId: string,
+): Promise<number | null> => {
+  return backend.ratings.userRating(playId, userId).catch(() => null);
+};
+
+/**
+ * Rates the song on air for the signed-in user, replacing their earlier rating for this play.
+ */
+export const rateNowPlaying = async (playId: string, stars: number): Promise<void> => {
+  try {
+    await backend.rpc("rate_now_playing", {
+      p_play_id: playId,
+      p_stars: stars,
+    });
+  } catch (error: any) {
+    console.error("Error rating song:", error);
+    throw new Error(error.message?.includes("rating_closed")
+      ? "That song has already ended."
+      : "Failed to rate the song.");
+  }
+};
@@ -0,0 +1,249 @@
+/**
+ * @file skipPetition - Skip petitions against the play on air, and the vetoes they carry.
+ *
+ * Listeners sign a petition to skip the song on air from NowPlay (cast_skip_vote, one signature
+ * per listener per play). The lease holder judges it: the database counts the signers who are
+ * tuned in (skip_petition, against the tune_in heartbeats in 034_tuned_in.sql), and once they
+ * make up STATION_RULES.vetoPercent of the listeners the lease holder asks for the veto
+ * (veto_play, which counts again before recording it) and the conductor cuts the play. A premium
+ * listener's skip-veto token carries the petition on its own. advance_round then retires the
+ * play with vetoStarPenalty stars off (027_skip_vetoes.sql), and the DJ announces it.
+ *
+ * The petition's count goes out on the "skip-petition" channel on every signature, every join
+ * or leave and every new play (and on every conductor tick, for anyone who missed a push).
+ * A client that just arrived waits for a push.
+ */
+
+import { backend, type RadioChannel } from "./radioBackend";
+import { toSong } from "./songRepository";
+import { getBankLine } from "./djLineBank";
+import { entitlementsFor } from "./entitlements";
+import type { PresenceRoster } from "./clubPresence";
+import type { Profile, Song } from "../types";
+
+/** The petition against the play on air, as NowPlay shows it. */
+export interface SkipPetitionState {
+  playId: string;
+  songId: string;
+  signatures: number; // signers tuned in right now
+  listeners: number; // distinct listeners tuned in
+  needed: number; // signatures that carry the petition
+}
+
+/** A veto, as the chat, the ticker and TTS announce it. */
+export interface VetoNotice {
+  playId: string;
+  song: Pick<Song, "id" | "title" | "artistName">;
+  line: string;
+  signatures: number;
+  listeners: number;
+  byToken: boolean; // carried by a premium listener's skip-veto token
+}
+
+export type SkipPetitionListener = (state: SkipPetitionState | null) => void;
+export type VetoListener = (notice: VetoNotice) => void;
+
+const CHANNEL = "skip-petition";
+const STATE_EVENT = "petition_state";
+const VETO_EVENT = "veto";
+const JUDGE_DEBOUNCE_MS = 300; // a burst of signatures is judged once
+const TOKEN_WINDOW_MS = 24 * 60 * 60 * 1000; // as in cast_skip_vote
+
+const petitionListeners = new Set<SkipPetitionListener>();
+const vetoListeners = new Set<VetoListener>();
+let channel: RadioChannel | null = null;
+let latest: SkipPetitionState | null | undefined; // undefined until the first push
+
+const notifyAll = <T>(listeners: Set<(value: T) => void>, value: T) =>
+  listeners.forEach((listener) => {
+    try {
+      listener(value);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+
+const deliverState = (state: SkipPetitionState | null) => {
+  latest = state;
+  notifyAll(petitionListeners, state);
+};
+
+const ensureChannel = () => {
+  if (channel) return channel;
+  channel = backend.realtime
+    .channel(CHANNEL)
+    .on(STATE_EVENT, (payload) => deliverState(payload as SkipPetitionState | null))
+    .on(VETO_EVENT, (payload) => notifyAll(vetoListeners, payload as VetoNotice))
+    .subscribe();
+  return channel;
+};
+
+/**
+ * Subscribes to the petition against the play on air. The listener hears the last push
+ * straight away, if there was one, then every push.
+ * @returns A disposer that removes the listener.
+ */
+export const onSkipPetition = (listener: SkipPetitionListener): (() => void) => {
+  ensureChannel();
+  petitionListeners.add(listener);
+  if (latest !== undefined) listener(latest);
+  return () => {
+    petitionListeners.delete(listener);
+  };
+};
+
+/**
+ * Subscribes to vetoes from any client (including this one).
+ * @returns A disposer that removes the listener.
+ */
+export const onVeto = (listener: VetoListener): (() => void) => {
+  ensureChannel();
+  vetoListeners.add(listener);
+  return () => {
+    vetoListeners.delete(listener);
+  };
+};
+
+/** True if the user already signed the petition against `playId`. */
+export const hasSignedSkip = async (playId: string, userId: string): Promise<boolean> =>
+  (await backend.skips.forPlay(playId)).some((skip) => skip.user_id === userId);
+
+/** Skip-veto tokens the listener has left in the last 24 hours. */
+export const skipTokensLeft = async (profile: Profile): Promise<number> => {
+  const { skipVetoesPerDay } = entitlementsFor(profile);
+  if (skipVetoesPerDay === 0) return 0;
+  const since = new Date(Date.now() - TOKEN_WINDOW_MS).toISOString();
+  return Math.max(0, skipVetoesPerDay - (await backend.skips.tokensUsed(profile.user_id, since)));
+};
+
+/**
+ * Signs the signed-in listener's skip of the play on air. With `useToken` a premium listener
+ * spends a skip-veto token on it, which vetoes the play on its own.
+ * @returns False if the signature was already there.
+ */
+export const signSkip = async (playId: string, useToken = false): Promise<boolean> => {
+  try {
+    return await backend.rpc("cast_skip_vote", { p_play_id: playId, p_use_token: useToken });
+  } catch (error: any) {
+    console.error("Error signing the skip:", error);
+    const message = String(error?.message ?? "");
+    if (message.includes("skip_closed")) throw new Error("That song has already ended.");
+    if (message.includes("skip_no_token")) throw new Error("No skip-veto token left today.");
+    throw new Error("Failed to sign the skip.");
+  }
+};
+
+interface JudgeOptions {
+  roster: PresenceRoster; // club-presence, whose joins and leaves call for a recount
+  leaseToken: () => number | null; // the conductor's fencing token
+  cutPlay: (songId: string) => Promise<void> | void; // takes the vetoed song off the air
+}
+
+/**
+ * The lease holder's side: counts the petition on every signature and every join or leave,
+ * publishes the count and vetoes the play once it passes. StationConductor runs it while it leads.
+ */
+export const createSkipPetitionJudge = ({ roster, leaseToken, cutPlay }: JudgeOptions) => {
+  let stopWatching: (() => void)[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+  let again = false;
+  let vetoedPlayId: string | null = null; // vetoed by this judge, so it isn't cut twice
+  let pendingCut: string | null = null; // a vetoed song, cut once the judgement is done
+
+  /** Delivers locally and to every other client. */
+  const sendState = async (state: SkipPetitionState | null) => {
+    deliverState(state);
+    await ensureChannel().send(STATE_EVENT, state);
+  };
+
+  const sendVeto = async (notice: VetoNotice) => {
+    notifyAll(vetoListeners, notice);
+    await ensureChannel().send(VETO_EVENT, notice);
+  };
+
+  const run = async () => {
+    const broadcast = await backend.broadcasts.get();
+    const playId: string | null = broadcast?.play_id ?? null;
+    const song = broadcast?.current_song ? toSong(broadcast.current_song) : null;
+    if (!playId || !song) {
+      await sendState(null);
+      return;
+    }
+
+    const { signatures, listeners, needed, by_token: byToken } = await backend.rpc("skip_petition", { p_play_id: playId });
+    await sendState({ playId, songId: song.id, signatures, listeners, needed });
+    if (vetoedPlayId === playId || (!byToken && signatures < needed)) return;
+
+    const vetoed = await backend.rpc("veto_play", { p_play_id: playId, lease_token: leaseToken() });
+    if (!vetoed) return; // the play ended first, another leader vetoed it, or a listener tuned out
+    vetoedPlayId = playId;
+
+    console.log(`👎 Veto: ${song.title} (${byToken ? "skip-veto token" : `${signatures}/${listeners} listeners`})`);
+    const line = getBankLine({ event: "veto_announcement", song: { title: song.title, artistName: song.artistName } }) ?? "";
+    await sendVeto({
+      playId,
+      song: { id: song.id, title: song.title, artistName: song.artistName },
+      line,
+      signatures,
+      listeners,
+      byToken,
+    });
+    pendingCut = song.id;
+  };
+
+  /** Judges the petition now. Asked again mid-judgement, it judges once more when done. */
+  const judge = async (): Promise<void> => {
+    if (running) {
+      again = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        again = false;
+        try {
+          await run();
+        } catch (error) {
+          console.error("Error judging the skip petition:", error);
+        }
+      } while (again);
+    })();
+    try {
+      await running;
+    } finally {
+      running = null;
+    }
+
+    // Cutting the play puts the next one on air, which asks for a fresh judgement
+    const songId = pendingCut;
+    pendingCut = null;
+    if (songId) await cutPlay(songId);
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      judge();
+    }, JUDGE_DEBOUNCE_MS);
+  };
+
+  return {
+    start() {
+      if (stopWatching.length) return;
+      stopWatching = [backend.realtime.onTableChange("skip_votes", schedule), roster.onChange(schedule)];
+      judge();
+    },
+
+    stop() {
+      stopWatching.forEach((stop) => stop());
+      stopWatching = [];
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+
+    judge,
+  };
+};
+
+export type SkipPetitionJudge = ReturnType<typeof createSkipPetitionJudge>;
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseDbSong, songRepository, toSong, toSongs, type DbSong } from "./songRepository";
+import { STATION_RULES } from "./stationRules";
+
+const row = (overrides: Partial<Record<keyof DbSong, unknown>> = {}): Record<string, unknown> => ({
+  id: "song-1",
+  uploader_id: "user-1",
+  title: "Static Bloom",
+  artist_name: "Night Shift",
+  source: "suno",
+  audio_url: "https://cdn.example/static-bloom.mp3",
+  cover_art_url: "https://cdn.example/static-bloom.mp4",
+  is_canvas: true,
+  lyrics: "la la la",
+  duration_sec: 180,
+  stars: 7,
+  status: "next_play",
+  is_debut: false,
+  resurrection_count: 0,
+  ...overrides,
+});
+
+describe("songRepository", () => {
+  it("reads an absent nullable column as null, and names every column that breaks the schema", () => {
+    expect(parseDbSong(row())).toMatchObject({ status: "next_play", replay_gain: null, hook_offset_sec: null });
+
+    expect(() => parseDbSong(row({ status: "shelved", title: null, stars: "7" }))).toThrow(
+      'invalid_song_row: song-1: title is missing, stars is "7", status is "shelved"',
+    );
+  });
+
+  it("maps every column the player needs, canvas and lyrics included", () => {
+    expect(toSong(row())).toMatchObject({
+      id: "song-1",
+      uploaderId: "user-1",
+      artistName: "Night Shift",
+      audioUrl: "https://cdn.example/static-bloom.mp3",
+      coverArtUrl: "https://cdn.example/static-bloom.mp4",
+      is_canvas: true,
+      lyrics: "la la la",
+      durationSec: 180,
+      stars: 7,
+      status: "next_play",
+    });
+  });
+
+  it("fills in the defaults and resolves a bare storage path to a URL", () => {
+    const song = toSong(row({ source: null, stars: null, status: null, is_canvas: null, lyrics: null, audio_url: "uploads/old.mp3" }));
+
+    expect(song).toMatchObject({ source: "upload", stars: STATION_RULES.startingStars, status: "pool", is_canvas: false, lyrics: undefined });
+    expect(song.audioUrl).toMatch(/^[a-z]+:\/\/.*uploads\/old\.mp3$/);
+  });
+
+  it("leaves out the rows that don't match the schema", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(toSongs([row(), row({ id: "song-2", status: "lost" })]).map((song) => song.id)).toEqual(["song-1"]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it("updates only the songs still matching, so an update doubles as a claim", async () => {
+    const [song] = await songRepository.list({ status: "pool" });
+
+    expect(await songRepository.update({ id: song.id, status: "pool" }, { status: "in_box" })).toHaveLength(1);
+    expect(await songRepository.update({ id: song.id, status: "pool" }, { status: "in_box" })).toEqual([]);
+    expect((await songRepository.get(song.id))?.status).toBe("in_box");
+    expect(await songRepository.count({ id: song.id, status: ["in_box", "next_play"] })).toBe(1);
+  });
+});
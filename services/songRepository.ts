@@ -0,0 +1,205 @@
+/**
+ * @file songRepository - The one way in and out of the songs table.
+ *
+ * DbSong mirrors public.songs: 001_base_schema.sql plus every column added since
+ * (canvas, star system, debuts, DSW lifecycle, graveyard, replay gain). Rows are checked
+ * against it when they're read, and mapped to the app's camelCase Song in one place.
+ * Filters and patches stay in column names, typed by DbSong.
+ */
+
+import { backend, type Match, type ListOptions, type Row } from "./radioBackend";
+import { STATION_RULES } from "./stationRules";
+import type { Song, SongSource, SongStatus } from "../types";
+
+export const SONG_STATUSES: readonly SongStatus[] = ["pool", "review", "in_box", "next_play", "now_playing", "graveyard", "debut"];
+export const SONG_SOURCES: readonly SongSource[] = ["suno", "producer.ai", "mubert", "upload"];
+
+/** A row of public.songs. Nullable wherever the schema allows it, defaults or not. */
+export type DbSong = {
+  id: string;
+  uploader_id: string;
+  title: string;
+  artist_name: string; // snapshot of the artist's name at upload
+  source: SongSource | null;
+  audio_url: string; // a public URL, or a path in the songs bucket on older rows
+  cover_art_url: string | null;
+  is_canvas: boolean | null; // cover_art_url is a video
+  lyrics: string | null;
+  duration_sec: number | null;
+  stars: number | null;
+  status: SongStatus | null;
+  box_rounds_seen: number | null;
+  box_rounds_lost: number | null;
+  box_appearance_count: number | null;
+  play_count: number | null;
+  upvotes: number | null;
+  downvotes: number | null;
+  last_played_at: string | null;
+  created_at: string | null;
+  is_dsw: boolean | null;
+  dsw_announced: boolean | null;
+  dsw_farewell_at: string | null;
+  is_debut: boolean;
+  buried_at: string | null;
+  final_stars: number | null;
+  resurrected_at: string | null;
+  resurrection_count: number;
+  replay_gain: number | null;
+  hook_offset_sec: number | null;
+};
+
+/** Filter on song columns: a value means equals, an array means "one of", null means IS NULL. */
+export type SongMatch = { [K in keyof DbSong]?: DbSong[K] | readonly NonNullable<DbSong[K]>[] };
+
+export type SongPatch = Partial<Omit<DbSong, "id">>;
+
+/** What an insert must provide; the database fills in the rest. */
+export type SongInsert = Pick<DbSong, "uploader_id" | "title" | "artist_name" | "audio_url"> & SongPatch;
+
+type ColumnType = "string" | "number" | "boolean" | readonly string[];
+
+const column = (type: ColumnType, nullable = true) => ({ type, nullable });
+
+const DB_SONG_COLUMNS: Record<keyof DbSong, { type: ColumnType; nullable: boolean }> = {
+  id: column("string", false),
+  uploader_id: column("string", false),
+  title: column("string", false),
+  artist_name: column("string", false),
+  source: column(SONG_SOURCES),
+  audio_url: column("string", false),
+  cover_art_url: column("string"),
+  is_canvas: column("boolean"),
+  lyrics: column("string"),
+  duration_sec: column("number"),
+  stars: column("number"),
+  status: column(SONG_STATUSES),
+  box_rounds_seen: column("number"),
+  box_rounds_lost: column("number"),
+  box_appearance_count: column("number"),
+  play_count: column("number"),
+  upvotes: column("number"),
+  downvotes: column("number"),
+  last_played_at: column("string"),
+  created_at: column("string"),
+  is_dsw: column("boolean"),
+  dsw_announced: column("boolean"),
+  dsw_farewell_at: column("string"),
+  is_debut: column("boolean", false),
+  buried_at: column("string"),
+  final_stars: column("number"),
+  resurrected_at: column("string"),
+  resurrection_count: column("number", false),
+  replay_gain: column("number"),
+  hook_offset_sec: column("number"),
+};
+
+/**
+ * Checks a row against DbSong. A nullable column that's missing reads as null, so rows from a
+ * database without the newest optional columns still load.
+ */
+export const parseDbSong = (row: Row): DbSong => {
+  const problems: string[] = [];
+  const song: Row = {};
+
+  for (const [name, { type, nullable }] of Object.entries(DB_SONG_COLUMNS)) {
+    const value = row?.[name] ?? null;
+    if (value === null) {
+      if (!nullable) problems.push(`${name} is missing`);
+    } else if (Array.isArray(type) ? !type.includes(value) : typeof value !== type) {
+      problems.push(`${name} is ${JSON.stringify(value)}`);
+    }
+    song[name] = value;
+  }
+
+  if (problems.length) throw new Error(`invalid_song_row: ${row?.id ?? "(no id)"}: ${problems.join(", ")}`);
+  return song as DbSong;
+};
+
+/** Older rows store a path in the songs bucket instead of a URL. */
+const resolveAudioUrl = (audioUrl: string) =>
+  /^[a-z][a-z0-9+.-]*:/i.test(audioUrl) ? audioUrl : backend.storage.publicUrl("songs", audioUrl);
+
+/** Maps a songs row (snake_case) to the app's Song. Throws if the row doesn't match the schema. */
+export const toSong = (row: Row): Song => {
+  const dbSong = parseDbSong(row);
+  return {
+    id: dbSong.id,
+    uploaderId: dbSong.uploader_id,
+    title: dbSong.title,
+    artistName: dbSong.artist_name,
+    source: dbSong.source ?? "upload",
+    audioUrl: resolveAudioUrl(dbSong.audio_url),
+    coverArtUrl: dbSong.cover_art_url ?? undefined,
+    is_canvas: dbSong.is_canvas ?? false,
+    lyrics: dbSong.lyrics ?? undefined,
+    durationSec: dbSong.duration_sec ?? 0,
+    stars: dbSong.stars ?? STATION_RULES.startingStars,
+    isDsw: dbSong.is_dsw ?? false,
+    boxRoundsSeen: dbSong.box_rounds_seen ?? 0,
+    boxRoundsLost: dbSong.box_rounds_lost ?? 0,
+    boxAppearanceCount: dbSong.box_appearance_count ?? 0,
+    status: dbSong.status ?? "pool",
+    playCount: dbSong.play_count ?? 0,
+    upvotes: dbSong.upvotes ?? 0,
+    downvotes: dbSong.downvotes ?? 0,
+    lastPlayedAt: dbSong.last_played_at,
+    createdAt: dbSong.created_at ?? new Date(0).toISOString(),
+    isDebut: dbSong.is_debut,
+    replayGain: dbSong.replay_gain,
+    hookOffsetSec: dbSong.hook_offset_sec,
+  };
+};
+
+/** Maps many rows, leaving out (and logging) any that don't match the schema. */
+export const toSongs = (rows: Row[]): Song[] =>
+  rows.flatMap((row) => {
+    try {
+      return [toSong(row)];
+    } catch (error) {
+      console.warn("⚠️ Skipping song row:", (error as Error).message);
+      return [];
+    }
+  });
+
+const parseDbSongs = (rows: Row[]): DbSong[] =>
+  rows.flatMap((row) => {
+    try {
+      return [parseDbSong(row)];
+    } catch (error) {
+      console.warn("⚠️ Skipping song row:", (error as Error).message);
+      return [];
+    }
+  });
+
+export const songRepository = {
+  async list(match: SongMatch = {}, options?: Omit<ListOptions, "columns">): Promise<Song[]> {
+    return toSongs(await backend.songs.list(match as Match, options));
+  },
+
+  /** Like list, for the columns Song doesn't carry (DSW and graveyard bookkeeping). */
+  async listRows(match: SongMatch = {}, options?: Omit<ListOptions, "columns">): Promise<DbSong[]> {
+    return parseDbSongs(await backend.songs.list(match as Match, options));
+  },
+
+  async count(match: SongMatch = {}): Promise<number> {
+    return backend.songs.count(match as Match);
+  },
+
+  async get(id: string): Promise<Song | null> {
+    const row = await backend.songs.get(id);
+    return row ? toSong(row) : null;
+  },
+
+  async insert(song: SongInsert): Promise<Song> {
+    return toSong(await backend.songs.insert(song));
+  },
+
+  /** Returns the songs that matched. Empty when the condition no longer holds, so it doubles as a claim. */
+  async update(match: SongMatch, patch: SongPatch): Promise<Song[]> {
+    return toSongs(await backend.songs.update(match as Match, patch));
+  },
+
+  async remove(match: SongMatch): Promise<void> {
+    await backend.songs.remove(match as Match);
+  },
+};
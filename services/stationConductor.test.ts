@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HEADLESS_SESSION_PREFIX, StationConductor, followDurationTimeline } from "./stationConductor";
+import { LocalAiService } from "./LocalAiService";
+import { backend } from "./radioBackend";
+import { songRepository } from "./songRepository";
+import { playEndsAt } from "./stationRules";
+import { serverNow } from "./clockSync";
+
+describe("StationConductor on the in-memory backend", () => {
+  let conductor: StationConductor | null = null;
+  let others: StationConductor[] = [];
+
+  beforeEach(() => {
+    vi.spyOn(LocalAiService, "generateDJSpeech").mockResolvedValue("Up next!");
+  });
+
+  afterEach(async () => {
+    await conductor?.stop();
+    conductor = null;
+    await Promise.all(others.map((other) => other.stop()));
+    others = [];
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("keeps the play advance_round started instead of stamping a second one", async () => {
+    conductor = new StationConductor({ sessionId: "conductor-test" });
+    expect(await conductor.claimLeadership()).toBe(true);
+    const update = vi.spyOn(backend.broadcasts, "update");
+
+    await conductor.setRadioState("POOL");
+
+    const broadcast = await backend.broadcasts.get();
+    expect(broadcast?.current_song_id).toBe(conductor.getNowPlaying()?.id);
+    expect(conductor.getSongStartedAt()).toBe(broadcast?.song_started_at);
+    expect(update.mock.calls.some(([patch]) => "song_started_at" in patch)).toBe(false);
+  });
+
+  it("stamps a play the DJ Booth puts on air itself", async () => {
+    conductor = new StationConductor({ sessionId: "conductor-test" });
+    expect(await conductor.claimLeadership()).toBe(true);
+    await conductor.setRadioState("POOL");
+    const before = await backend.broadcasts.get();
+
+    const [song] = (await songRepository.listRows({ status: "in_box" })).map((row) => row.id);
+    const pushed = { ...conductor.getNowPlaying()!, id: song };
+    await conductor.setNowPlaying(pushed);
+
+    const after = await backend.broadcasts.get();
+    expect(after?.current_song_id).toBe(song);
+    expect(after?.song_started_at).toBe(conductor.getSongStartedAt());
+    expect(after?.play_id).not.toBe(before?.play_id);
+  });
+
+  it("ends each play durationSec after it started, less the crossfade, with no audio deck", async () => {
+    conductor = new StationConductor({ sessionId: `${HEADLESS_SESSION_PREFIX}timeline-test`, headless: true });
+    expect(await conductor.claimLeadership()).toBe(true);
+    await conductor.setRadioState("POOL");
+    const song = conductor.getNowPlaying()!;
+    const songEnded = vi.spyOn(conductor, "songEnded").mockResolvedValue();
+
+    vi.useFakeTimers({ toFake: ["Date", "setTimeout", "clearTimeout"] });
+    const stopFollowing = followDurationTimeline(conductor);
+    const remainingMs = playEndsAt(song, conductor.getSongStartedAt()!) - serverNow();
+
+    await vi.advanceTimersByTimeAsync(remainingMs - 1);
+    expect(songEnded).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(songEnded.mock.calls).toEqual([[song.id]]);
+    stopFollowing();
+  });
+
+  it("takes the decks back from a browser tab, but never from another headless conductor", async () => {
+    const tab = new StationConductor({ sessionId: "browser-tab" });
+    others.push(tab);
+    expect(await tab.claimLeadership()).toBe(true);
+
+    conductor = new StationConductor({ sessionId: `${HEADLESS_SESSION_PREFIX}primary`, headless: true });
+    conductor.startElection();
+    await vi.waitFor(() => expect(conductor?.isLeader).toBe(true));
+    expect(conductor.isHeadlessLeading()).toBe(true);
+
+    const spare = new StationConductor({ sessionId: `${HEADLESS_SESSION_PREFIX}spare`, headless: true });
+    others.push(spare);
+    spare.startElection();
+    await vi.waitFor(() => expect(spare.getLeaderId()).not.toBeNull());
+    expect(spare.isLeader).toBe(false);
+    expect((await backend.broadcasts.get())?.leader_session).toBe(`${HEADLESS_SESSION_PREFIX}primary`);
+  });
+});
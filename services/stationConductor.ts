@@ -0,0 +1,636 @@
+/**
+ * @file StationConductor - Runs the station: leadership, the radio state machine and the watchdog.
+ *
+ * There is no audio and no DOM in here. Every browser tab runs one inside
+ * GlobalBroadcastManager, and scripts/conductor.ts runs one as a headless Node process.
+ * Whoever holds the lease conducts; everyone else mirrors the broadcasts row.
+ * Deciding that a song has ended is left to the host: a browser tab watches its audio
+ * deck reach the crossfade, and the headless process times each song by its
+ * durationSec (see followDurationTimeline).
+ */
+
+import { backend, type BroadcastPatch, type BroadcastRow, type RadioBackend } from "./radioBackend";
+import type { Song, RadioState } from "../types";
+import { PersistentRadioService, type OnAir } from "./PersistentRadioService";
+import { toSong } from "./songRepository";
+import { serverNow } from "./clockSync";
+import { playEndsAt } from "./stationRules";
+import { LeaderLease, isStaleTokenError, type LeaseBackend, type LeaseGrant } from "./leaderLease";
+import {
+  transition,
+  requestEventFor,
+  type RadioEvent,
+  type RadioEffect,
+  type RadioTransition,
+} from "./radioStateMachine";
+import { EventBus, type Listener } from "./eventBus";
+import { createCrowdSimulator, type CrowdSimulator } from "./crowdSimulator";
+import { createBoxRoundPublisher, type BoxRoundPublisher } from "./boxRoundChannel";
+import { createPresenceRoster, type PresenceRoster } from "./clubPresence";
+import { createSkipPetitionJudge, type SkipPetitionJudge } from "./skipPetition";
+
+
+const ELECTION_INTERVAL_MS = 2000; // renew well inside the 10s lease
+const CONDUCTOR_INTERVAL_MS = 10000;
+const RELEASE_COOLDOWN_MS = 15000; // after a voluntary release, don't grab the decks straight back
+
+/** Headless conductors use session ids with this prefix. Browser tabs never take the lease from one. */
+export const HEADLESS_SESSION_PREFIX = "conductor:";
+
+/** The lease RPCs of 016_leader_lease.sql, on any backend. */
+export const rpcLeaseBackendFor = (radio: RadioBackend): LeaseBackend => ({
+  async acquire(sessionId, leaseMs, force) {
+    const data = await radio.rpc("acquire_leadership", {
+      p_session: sessionId,
+      p_lease_ms: leaseMs,
+      p_force: force,
+    });
+    return {
+      acquired: data.acquired,
+      token: data.token,
+      leaderId: data.leader_id,
+      leaderSession: data.leader_session,
+      ttlMs: data.ttl_ms,
+    };
+  },
+  async release(sessionId, token) {
+    try {
+      await radio.rpc("release_leadership", { p_session: sessionId, p_token: token });
+    } catch (error) {
+      console.error("Failed to release leadership:", error);
+    }
+  },
+});
+
+/** The station's lease. Also used by scripts/youniverse.ts to evict a leader. */
+export const rpcLeaseBackend: LeaseBackend = rpcLeaseBackendFor(backend);
+
+interface ConductorOptions {
+  sessionId: string;
+  /** Headless conductors take the lease back from any browser tab that was standing in. */
+  headless?: boolean;
+}
+
+export interface StationEvents {
+  radioStateChanged: RadioState;
+  nowPlayingChanged: Song | null;
+  nextSongChanged: Song | null;
+  leaderIdChanged: string | null;
+  leaderChanged: boolean;
+  broadcastSynced: BroadcastRow; // the raw broadcasts row, after every fetch
+}
+
+interface StationState {
+  nowPlaying: Song | null;
+  nextSong: Song | null;
+  radioState: RadioState;
+  songStartedAt: string | null; // server time the current play started
+  leaderId: string | null;
+  leaderSession: string | null;
+}
+
+/**
+ * StationConductor - Station state plus the leader's job of moving it forward (see StationEvents).
+ */
+export class StationConductor {
+  private lease: LeaderLease;
+  private roster: PresenceRoster;
+  private crowd: CrowdSimulator;
+  private boxRound: BoxRoundPublisher;
+  private skipPetition: SkipPetitionJudge;
+  private readonly headless: boolean;
+  private state: StationState = {
+    nowPlaying: null,
+    nextSong: null,
+    radioState: "IDLE",
+    songStartedAt: null,
+    leaderId: null,
+    leaderSession: null,
+  };
+  private events = new EventBus<StationEvents>();
+  private wasLeader: boolean = false; // last leadership state announced to listeners
+  private playEnded: boolean = false; // the current play finished; putting the same song on again is a replay
+  private releasedAt: number = 0; // Timestamp of last voluntary release
+  private electionInterval: ReturnType<typeof setInterval> | null = null;
+  private conductorInterval: ReturnType<typeof setInterval> | null = null;
+  private stopFollowing: (() => void) | null = null;
+
+  constructor({ sessionId, headless = false }: ConductorOptions) {
+    this.lease = new LeaderLease(rpcLeaseBackend, sessionId);
+    this.roster = createPresenceRoster();
+    this.crowd = createCrowdSimulator({ leaseToken: () => this.lease.token, roster: this.roster });
+    this.boxRound = createBoxRoundPublisher({
+      nowPlaying: () => this.state.nowPlaying,
+      songStartedAt: () => this.state.songStartedAt,
+    });
+    this.skipPetition = createSkipPetitionJudge({
+      roster: this.roster,
+      leaseToken: () => this.lease.token,
+      cutPlay: (songId) => this.songVetoed(songId),
+    });
+    this.headless = headless;
+
+    // Radio transitions carry our fencing token
+    PersistentRadioService.useLeaseToken(() => this.lease.token);
+  }
+
+  // --- LIFECYCLE ---
+
+  /**
+   * Loads the broadcasts row and follows it over Realtime.
+   */
+  public async connect() {
+    try {
+      const data = await backend.broadcasts.get();
+      if (data) this.syncStateFromRemote(data);
+    } catch (error) {
+      console.error("❌ Failed to fetch broadcast state:", error);
+    }
+
+    this.stopFollowing = backend.realtime.onTableChange("broadcasts", ({ event }) => {
+      if (event === "UPDATE") this.fetchAndSync();
+    });
+  }
+
+  /**
+   * Starts competing for the lease (and conducting whenever we hold it).
+   */
+  public startElection() {
+    if (this.electionInterval) clearInterval(this.electionInterval);
+
+    // Check for leadership frequently (2s) to ensure fast recovery
+    this.electionInterval = setInterval(() => this.tryClaimLeadership(), ELECTION_INTERVAL_MS);
+    (globalThis as any).__CLUB_YOUNIVERSE_HEARTBEAT__ = this.electionInterval;
+
+    // Run immediately
+    this.tryClaimLeadership();
+  }
+
+  /**
+   * Stops conducting, gives the lease back and drops the Realtime subscription.
+   */
+  public async stop() {
+    if (this.electionInterval) clearInterval(this.electionInterval);
+    this.electionInterval = null;
+    await this.lease.release();
+    await this.syncLeadership();
+    this.stopFollowing?.();
+    this.stopFollowing = null;
+  }
+
+  // --- LEADERSHIP ---
+
+  /** Leading right now: a granted lease that hasn't lapsed on our clock. */
+  public get isLeader() {
+    return this.lease.isLeader();
+  }
+
+  public getLeaderId() {
+    return this.state.leaderId;
+  }
+
+  /**
+   * Takes the lease. Without `force` this only succeeds if nobody holds a live lease;
+   * with it, the current leader is overthrown and fenced off by the new token.
+   */
+  public async claimLeadership(force: boolean = false) {
+    this.releasedAt = 0; // Clear any release cooldown
+
+    await this.applyGrant(await this.lease.renew(force));
+    if (this.lease.isLeader()) {
+      console.log("👑 Leadership claimed successfully.");
+      return true;
+    }
+    console.log("📉 Leadership claim failed (lease held by another session).");
+    return false;
+  }
+
+  public async releaseLeadership() {
+    if (!this.isLeader) return;
+    await this.lease.release();
+
+    console.log("👑 Leadership released voluntarily.");
+    this.releasedAt = Date.now(); // Prevent auto-reclaim for a cooldown period
+    this.setLeader(null, null);
+    await this.syncLeadership();
+    await this.fetchAndSync();
+  }
+
+  /**
+   * Election tick: renews our lease, or takes it if it lapsed. The database decides;
+   * nobody compares heartbeats against their own clock any more.
+   */
+  private async tryClaimLeadership() {
+    try {
+      // Just released: watch, don't grab it straight back
+      if (Date.now() - this.releasedAt < RELEASE_COOLDOWN_MS) {
+        const data = await backend.broadcasts.get();
+        if (data) this.setLeader(data.leader_id, data.leader_session);
+        return;
+      }
+
+      let grant = await this.lease.renew();
+
+      // A browser tab only stands in while no conductor is running; take the decks back
+      if (this.headless && grant && !grant.acquired && !grant.leaderSession?.startsWith(HEADLESS_SESSION_PREFIX)) {
+        console.log(`🤖 Taking the decks back from browser session ${grant.leaderSession}...`);
+        grant = await this.lease.renew(true);
+      }
+
+      await this.applyGrant(grant);
+    } catch (e) {
+      console.error("Election error:", e);
+    }
+  }
+
+  private async applyGrant(grant: LeaseGrant | null) {
+    if (grant) this.setLeader(grant.leaderId, grant.leaderSession);
+    await this.syncLeadership();
+  }
+
+  private setLeader(leaderId: string | null, leaderSession: string | null) {
+    this.state.leaderSession = leaderSession;
+    if (this.state.leaderId === leaderId) return;
+    this.state.leaderId = leaderId;
+    this.emit("leaderIdChanged", leaderId);
+  }
+
+  /** True while a headless conductor holds the lease (browser tabs are just listening). */
+  public isHeadlessLeading() {
+    return !!this.state.leaderSession?.startsWith(HEADLESS_SESSION_PREFIX);
+  }
+
+  /**
+   * Starts or stops conducting when the lease comes or goes (granted, lost to a
+   * takeover, lapsed after failed renewals, or fenced off by a rejected write).
+   */
+  private async syncLeadership() {
+    const leading = this.lease.isLeader();
+    if (leading === this.wasLeader) return;
+    this.wasLeader = leading;
+
+    if (leading) {
+      console.log(`👑 I am now the Global Leader (fencing token ${this.lease.token}).`);
+      this.emit("leaderChanged", true);
+      this.startConductorLoop();
+
+      // RECOVERY: If the previous leader died mid-transition, finish its work
+      await this.fetchAndSync();
+      await this.dispatch({ type: "LEADERSHIP_ACQUIRED" });
+    } else {
+      console.log("📉 Leadership lost.");
+      this.stopConductorLoop();
+      this.emit("leaderChanged", false);
+    }
+  }
+
+  private startConductorLoop() {
+    if (this.conductorInterval) clearInterval(this.conductorInterval);
+    console.log("👑 StationConductor: Starting Conductor Loop...");
+    this.roster.start();
+    this.boxRound.start();
+    this.skipPetition.start();
+
+    this.conductorInterval = setInterval(async () => {
+      if (!this.isLeader) return;
+
+      try {
+        // 1. Health Check (Zombie / Silence Prevention)
+        const healthEvent = await PersistentRadioService.checkRadioHealth(this.state.nowPlaying);
+        if (healthEvent) {
+          console.log("🛠️ Conductor: Watchdog raised", healthEvent.type);
+          await this.dispatch(healthEvent);
+        }
+
+        // 2. Crowd simulation: virtual listeners vote until enough real ones tune in
+        await this.crowd.step();
+
+        // 3. Box round and skip petition: re-published for any client that missed a push
+        await this.boxRound.publish();
+        await this.skipPetition.judge();
+      } catch (e) {
+        console.error("Conductor error:", e);
+      }
+    }, CONDUCTOR_INTERVAL_MS);
+
+    (globalThis as any).__CLUB_YOUNIVERSE_CONDUCTOR__ = this.conductorInterval;
+  }
+
+  private stopConductorLoop() {
+    if (this.conductorInterval) {
+      console.log("🛑 StationConductor: Stopping Conductor Loop.");
+      clearInterval(this.conductorInterval);
+      this.conductorInterval = null;
+    }
+    this.roster.stop();
+    this.boxRound.stop();
+    this.skipPetition.stop();
+  }
+
+  // --- STATION STATE ---
+
+  public getNowPlaying() {
+    return this.state.nowPlaying;
+  }
+
+  public getNextSong() {
+    return this.state.nextSong;
+  }
+
+  public getRadioState() {
+    return this.state.radioState;
+  }
+
+  public getSongStartedAt() {
+    return this.state.songStartedAt;
+  }
+
+  private async fetchAndSync() {
+    try {
+      const data = await backend.broadcasts.get();
+      if (data) this.syncStateFromRemote(data);
+    } catch (error) {
+      console.error("❌ Failed to fetch broadcast state:", error);
+    }
+  }
+
+  private syncStateFromRemote(data: BroadcastRow) {
+    const remoteSong = data.current_song ? toSong(data.current_song) : null;
+    const nextSong = data.next_song ? toSong(data.next_song) : null;
+    const remoteState = data.radio_state;
+
+    // Sync Radio State: listeners mirror the DB, the leader's state machine is authoritative
+    if (!this.isLeader && this.state.radioState !== remoteState) {
+      console.log(`📻 Global State Update: ${this.state.radioState} -> ${remoteState}`);
+      this.state.radioState = remoteState;
+      this.emit("radioStateChanged", remoteState);
+    }
+
+    // Sync Next Song
+    if (nextSong?.id !== this.state.nextSong?.id) {
+      this.state.nextSong = nextSong;
+      this.emit("nextSongChanged", nextSong);
+    }
+
+    // Sync Now Playing
+    this.state.songStartedAt = data.song_started_at ?? null;
+    this.setLeader(data.leader_id ?? null, data.leader_session ?? null);
+    if (remoteSong?.id !== this.state.nowPlaying?.id) {
+      console.log(`🎵 Global Song Update: ${remoteSong?.title || "Unknown"}`);
+      this.state.nowPlaying = remoteSong;
+      this.playEnded = false;
+      this.emit("nowPlayingChanged", remoteSong);
+    }
+
+    this.emit("broadcastSynced", data);
+  }
+
+  /**
+   * Puts a song on air (or clears it). The leader runs it through the state machine and
+   * persists it; anyone else only updates their local view.
+   * @param startedAt When the server already started the play (advance_round did), its
+   * song_started_at. Without it a fresh play is stamped here, as for a DJ Booth push.
+   */
+  public async setNowPlaying(song: Song | null, startedAt: string | null = null) {
+    if (song && !song.audioUrl) {
+      console.error("❌ CRITICAL: Attempting to play song with NO AUDIO URL:", song.title);
+      return;
+    }
+
+    const previousId = this.state.nowPlaying?.id ?? null;
+    // A different song, or the same one promoted again after it ended, is a fresh play
+    const newPlay = !!song && (song.id !== previousId || this.playEnded);
+    this.playEnded = false;
+    this.state.nowPlaying = song;
+
+    if (this.isLeader) {
+      // Consistency: the state machine never leaves NOW_PLAYING without a song (and vice versa)
+      this.applyEvent(song ? { type: "SONG_STARTED", songId: song.id } : { type: "SONG_CLEARED" });
+      // Stamped on the server clock so every listener computes the same offset
+      if (newPlay) this.state.songStartedAt = startedAt ?? new Date(serverNow()).toISOString();
+    }
+
+    this.emit("nowPlayingChanged", song);
+
+    if (this.isLeader) {
+      // advance_round already stamped its plays: stamping again would mint a second play_id
+      await this.persistBroadcastState(newPlay && !startedAt);
+      if (newPlay) {
+        await this.boxRound.publish(); // a new play, a new deadline
+        await this.skipPetition.judge(); // and a fresh petition
+      }
+    }
+  }
+
+  public async setNextSong(song: Song | null) {
+    this.state.nextSong = song;
+    this.emit("nextSongChanged", song);
+    if (this.isLeader) {
+      await this.persistBroadcastState();
+    }
+  }
+
+  /**
+   * Requests a state change (DJ Booth triggers). Only the leader drives the state machine.
+   */
+  public async setRadioState(state: RadioState) {
+    const event = requestEventFor(state);
+    if (!event) {
+      console.warn(`🚫 ${state} is not a requestable radio state.`);
+      return;
+    }
+    if (!this.isLeader) {
+      console.warn("🔒 Not leader. Ignoring radio state request:", state);
+      return;
+    }
+    await this.dispatch(event);
+  }
+
+  /**
+   * The host's deck finished `songId`. Ignored unless we lead and it's still the song on air.
+   */
+  public async songEnded(songId: string) {
+    if (!this.isLeader || songId !== this.state.nowPlaying?.id) return;
+    console.log("👑 Leader: Song ended. Transitioning...");
+    this.playEnded = true;
+    await this.dispatch({ type: "SONG_ENDED" });
+  }
+
+  /**
+   * The skip petition against `songId` passed. Ends the play early; the decks fade across
+   * to the next song as they would at the crossfade.
+   */
+  private async songVetoed(songId: string) {
+    if (!this.isLeader || songId !== this.state.nowPlaying?.id) return;
+    console.log("👑 Leader: Song vetoed. Transitioning...");
+    this.playEnded = true;
+    await this.dispatch({ type: "SONG_VETOED" });
+  }
+
+  /**
+   * The host's deck couldn't play the song on air.
+   */
+  public async songFailed() {
+    if (!this.isLeader) return;
+    await this.dispatch({ type: "SONG_FAILED" });
+  }
+
+  // --- STATE MACHINE ---
+
+  /**
+   * Applies an event to the local radio state without persisting or running effects.
+   */
+  private applyEvent(event: RadioEvent): RadioTransition {
+    const result = transition(
+      { radioState: this.state.radioState, nowPlayingId: this.state.nowPlaying?.id ?? null },
+      event,
+    );
+
+    if (!result.accepted) {
+      console.warn(`🚫 Radio: ${event.type} rejected in ${this.state.radioState} (${result.reason})`);
+      return result;
+    }
+
+    if (result.state !== this.state.radioState) {
+      console.log(`📻 Radio: ${this.state.radioState} -> ${result.state} (${event.type})`);
+      this.state.radioState = result.state;
+      this.emit("radioStateChanged", result.state);
+    }
+    return result;
+  }
+
+  /**
+   * dispatch - Feeds an event through the radio state machine.
+   * The leader persists the new state and carries out the effects.
+   */
+  private async dispatch(event: RadioEvent) {
+    const previousState = this.state.radioState;
+    const result = this.applyEvent(event);
+    if (!result.accepted) return;
+
+    if (result.state !== previousState) {
+      await this.persistBroadcastState();
+    }
+
+    if (this.isLeader) {
+      for (const effect of result.effects) {
+        await this.runEffect(effect);
+      }
+    }
+  }
+
+  private async runEffect(effect: RadioEffect) {
+    console.log(`⚡ Running effect: ${effect.type}`);
+
+    switch (effect.type) {
+      case "ADVANCE_ROUND":
+        await this.playPromoted(await PersistentRadioService.handleSongEnded(this.state.nowPlaying));
+        break;
+
+      case "KICKSTART":
+        await this.playPromoted(await PersistentRadioService.cycleNextToNow(this.state.nowPlaying?.id ?? null));
+        break;
+
+      case "REFRESH_BOX":
+        await PersistentRadioService.forceRefreshBox();
+        await this.dispatch({ type: "BOX_REFRESHED" });
+        break;
+
+      case "HARD_RESET":
+        await PersistentRadioService.hardReset();
+        await this.setNowPlaying(null); // the reset cleared the broadcast, so the next round starts from silence
+        await this.dispatch({ type: "RESET_COMPLETE" });
+        break;
+    }
+  }
+
+  /**
+   * Puts a freshly promoted song on air, or settles into IDLE if there was nothing to promote.
+   */
+  private async playPromoted(onAir: OnAir | null) {
+    if (!onAir?.song) {
+      await this.dispatch({ type: "NO_CANDIDATES" });
+      await this.setNowPlaying(null);
+      return;
+    }
+
+    await this.dispatch({ type: "WINNER_PROMOTED", songId: onAir.song.id });
+    await this.setNowPlaying(onAir.song, onAir.startedAt);
+  }
+
+  private async persistBroadcastState(newSongStartedAt: boolean = false) {
+    // GATEKEEPER: Only Leader can write to DB State!
+    if (!this.isLeader) return;
+
+    try {
+      const payload: BroadcastPatch = {
+        current_song_id: this.state.nowPlaying?.id || null,
+        next_song_id: this.state.nextSong?.id || null,
+        radio_state: this.state.radioState,
+        updated_at: new Date().toISOString(),
+        writer_token: this.lease.token, // rejected by the database unless it's the current lease
+      };
+
+      if (newSongStartedAt) {
+        payload.song_started_at = this.state.songStartedAt;
+      }
+
+      await backend.broadcasts.update(payload);
+    } catch (e: any) {
+      if (isStaleTokenError(e)) {
+        console.warn("🚫 Broadcast write fenced off: another session holds the lease.");
+        this.lease.revoke();
+        await this.syncLeadership();
+      } else {
+        console.error("Failed to persist broadcast state:", e);
+      }
+    }
+  }
+
+  // --- EVENTS ---
+
+  public on<K extends keyof StationEvents>(event: K, listener: Listener<StationEvents[K]>) {
+    return this.events.on(event, listener);
+  }
+
+  public off<K extends keyof StationEvents>(event: K, listener: Listener<StationEvents[K]>) {
+    this.events.off(event, listener);
+  }
+
+  private emit<K extends keyof StationEvents>(event: K, payload: StationEvents[K]) {
+    this.events.emit(event, payload);
+  }
+}
+
+/**
+ * A deck without audio: ends each play durationSec after it started (server time), less
+ * the crossfade, exactly when a browser deck would. The headless conductor's stand-in
+ * for the audio events. Returns a disposer.
+ */
+export const followDurationTimeline = (conductor: StationConductor): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+
+    const song = conductor.getNowPlaying();
+    const startedAt = conductor.getSongStartedAt();
+    if (!song || !startedAt) return;
+
+    const remainingMs = playEndsAt(song, startedAt) - serverNow();
+    timer = setTimeout(() => conductor.songEnded(song.id), Math.max(0, remainingMs));
+  };
+
+  const disposers = [
+    conductor.on("nowPlayingChanged", schedule),
+    conductor.on("broadcastSynced", schedule),
+    conductor.on("leaderChanged", schedule),
+  ];
+  schedule();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    disposers.forEach((dispose) => dispose());
+  };
+};
@@ -0,0 +1,50 @@
+/**
+ * @file stationRules - The single source of truth for the rules of the station.
+ * The radio service, The Box UI and the DJ's explainer lines read from here. The server's
+ * procedures read them from public.station_config, where `npm run migrate -- up` publishes them.
+ */
+
+import type { Song, StationRules } from "../types";
+
+export const STATION_RULES: StationRules = {
+  boxSize: 2,
+  candidatesPerRound: 2,
+  startingStars: 5,
+  maxStars: 10,
+  starGain: 1,
+  starLoss: 1,
+  maxRoundsWithoutWin: 3,
+  dswThreshold: 0,
+  selectionStrategy: "weighted",
+  maxSongsPerUploader: 1,
+  debutBoost: 3,
+  debutPassRating: 5,
+  debutCooldownHours: 24,
+  resurrectionPetitions: 5,
+  resurrectionCooldownDays: 7,
+  crossfadeSec: 6,
+  previewSec: 10,
+  vetoPercent: 50,
+  vetoStarPenalty: 2,
+  tunedInSec: 90,
+};
+
+const FALLBACK_DURATION_SEC = 180; // what legacy uploads were hardcoded to
+
+/**
+ * When a play ends, in ms of server time: durationSec after it started, less the crossfade
+ * into the next one. The headless deck ends plays then, and The Box closes its vote then.
+ */
+export const playEndsAt = (song: Pick<Song, "durationSec">, startedAt: string): number =>
+  new Date(startedAt).getTime() + ((song.durationSec || FALLBACK_DURATION_SEC) - STATION_RULES.crossfadeSec) * 1000;
+
+const NUMBER_WORDS = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+
+/** Spells out small numbers for DJ lines ("three tracks"), falls back to digits. */
+export const numberWord = (n: number): string => NUMBER_WORDS[n] ?? String(n);
+
+/** "a star" / "2 stars" */
+export const starsPhrase = (n: number): string => (n === 1 ? "a star" : `${numberWord(n)} stars`);
+
+/** "a single round" / "three rounds" */
+export const roundsPhrase = (n: number): string => (n === 1 ? "a single round" : `${numberWord(n)} rounds`);
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { findStorageOrphans, orphanTitle, recoverStorageOrphans } from "./storageOrphans";
+import { backend } from "./radioBackend";
+import { songRepository } from "./songRepository";
+
+describe("storage orphans on the in-memory backend", () => {
+  const upload = (path: string) => backend.storage.upload("songs", path, new Blob(["audio"], { type: "audio/mpeg" }));
+
+  it("finds the mp3s no song plays, down the upload folders, and puts them back in the pool", async () => {
+    await upload("user_uploads/user-1/night_drive_1712345678.mp3");
+    await upload("user_uploads/user-1/cover.jpg");
+    await upload("user_uploads/.emptyFolderPlaceholder");
+    await upload("loose_take.MP3");
+
+    const orphans = await findStorageOrphans(await songRepository.list());
+    expect(orphans.map((orphan) => orphan.fullPath).sort()).toEqual(["loose_take.MP3", "user_uploads/user-1/night_drive_1712345678.mp3"]);
+    expect(orphans.map(orphanTitle).sort()).toEqual(["loose_take", "night_drive"]);
+
+    expect(await recoverStorageOrphans(orphans, { uploaderId: "local-dj", artistName: "Recovered" })).toBe(2);
+    expect(await songRepository.list({ title: "night_drive" })).toMatchObject([{ artistName: "Recovered", status: "pool", uploaderId: "local-dj" }]);
+    expect(await findStorageOrphans(await songRepository.list())).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @file storageOrphans - Audio files in the songs bucket that no song row points at.
+ *
+ * An upload whose insert failed leaves its file behind. The DJ Booth and the admin CLI
+ * (scripts/youniverse.ts) both find them here and put them back in the pool.
+ */
+
+import { backend } from "./radioBackend";
+import { songRepository } from "./songRepository";
+import type { Song } from "../types";
+
+const BUCKET = "songs";
+const MAX_DEPTH = 2; // user_uploads/<uuid>/<file>
+const PLACEHOLDER = ".emptyFolderPlaceholder";
+const RECOVERED_DURATION_SEC = 180; // unknown until the file is played
+
+/** A file in the songs bucket with no row pointing at it. */
+export interface StorageOrphan {
+  name: string;
+  fullPath: string;
+}
+
+const isAudioFile = (name: string) => name.toLowerCase().endsWith(".mp3");
+
+/** Every audio file under `prefix`. Anything that isn't an mp3 is listed as a folder. */
+const listAudioFiles = async (prefix = "", depth = 0): Promise<StorageOrphan[]> => {
+  const files: StorageOrphan[] = [];
+  for (const item of await backend.storage.list(BUCKET, prefix)) {
+    if (item.name === PLACEHOLDER) continue;
+    const fullPath = prefix ? `${prefix}/${item.name}` : item.name;
+    if (isAudioFile(item.name)) files.push({ name: item.name, fullPath });
+    else if (depth < MAX_DEPTH) files.push(...(await listAudioFiles(fullPath, depth + 1)));
+  }
+  return files;
+};
+
+/** The audio files no song in `library` plays. Pass the whole library, graveyard included. */
+export const findStorageOrphans = async (library: Song[]): Promise<StorageOrphan[]> => {
+  const existingUrls = new Set(library.map((song) => song.audioUrl));
+  const files = await listAudioFiles();
+  return files.filter((file) => !existingUrls.has(backend.storage.publicUrl(BUCKET, file.fullPath)));
+};
+
+/** "my_track_1712345678.mp3" -> "my_track" */
+export const orphanTitle = (orphan: StorageOrphan) => orphan.name.replace(/\.mp3$/i, "").replace(/_\d+$/, "");
+
+/** Adds a pool song for each orphan. Returns how many made it; failures are logged and skipped. */
+export const recoverStorageOrphans = async (
+  orphans: StorageOrphan[],
+  { uploaderId, artistName }: { uploaderId: string; artistName: string },
+): Promise<number> => {
+  let recovered = 0;
+  for (const orphan of orphans) {
+    try {
+      await songRepository.insert({
+        uploader_id: uploaderId,
+        title: orphanTitle(orphan),
+        artist_name: artistName,
+        source: "upload",
+        audio_url: backend.storage.publicUrl(BUCKET, orphan.fullPath),
+        duration_sec: RECOVERED_DURATION_SEC,
+        status: "pool",
+      });
+      recovered++;
+    } catch (error) {
+      console.error(`❌ Failed to recover ${orphan.fullPath}:`, error);
+    }
+  }
+  return recovered;
+};
@@ -0,0 +1,241 @@
+/**
+ * @file supabaseBackend - RadioBackend on Supabase (Postgres, Realtime, Storage, Auth).
+ */
+
+import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
+import type {
+  RadioBackend,
+  RadioChannel,
+  TableStore,
+  Match,
+  ListOptions,
+  Presence,
+  Row,
+  RpcCall,
+  RpcName,
+  RpcResult,
+} from "./radioBackend";
+import type { Profile } from "../types";
+
+const BROADCAST_ID = "00000000-0000-0000-0000-000000000000";
+const BROADCAST_QUERY = "*, current_song:songs!current_song_id(*), next_song:songs!next_song_id(*)";
+
+/** Applies a Match to a PostgREST filter builder. */
+const applyMatch = <Q extends { eq: any; in: any; is: any }>(query: Q, match: Match = {}): Q => {
+  for (const [column, value] of Object.entries(match)) {
+    if (value === null) query = query.is(column, null);
+    else if (Array.isArray(value)) query = query.in(column, value);
+    else query = query.eq(column, value);
+  }
+  return query;
+};
+
+const unwrap = <T>({ data, error }: { data: T; error: unknown }): T => {
+  if (error) throw error;
+  return data;
+};
+
+/** A table's store, its rows typed as T (PostgREST doesn't check them). */
+const createTableStore = <T extends object = Row>(supabase: SupabaseClient, table: string, key: string): TableStore<T> => ({
+  async list(match?: Match, { columns = "*", orderBy, ascending = true, limit }: ListOptions = {}) {
+    let query = applyMatch(supabase.from(table).select(columns), match);
+    if (orderBy) query = query.order(orderBy, { ascending });
+    if (limit !== undefined) query = query.limit(limit);
+    return (unwrap(await query) as unknown as T[]) ?? [];
+  },
+  async count(match?: Match) {
+    const { count, error } = await applyMatch(supabase.from(table).select("*", { count: "exact", head: true }), match);
+    if (error) throw error;
+    return count ?? 0;
+  },
+  async get(id: string) {
+    return unwrap(await supabase.from(table).select("*").eq(key, id).maybeSingle());
+  },
+  async insert(row) {
+    return unwrap(await supabase.from(table).insert(row).select().single()) as T;
+  },
+  async update(match: Match, patch) {
+    return unwrap(await applyMatch(supabase.from(table).update(patch), match).select()) ?? [];
+  },
+  async remove(match: Match) {
+    unwrap(await applyMatch(supabase.from(table).delete(), match));
+  },
+});
+
+const wrapChannel = (supabase: SupabaseClient, channel: RealtimeChannel, onClose: () => void): RadioChannel => {
+  const wrapped: RadioChannel = {
+    on(event, listener) {
+      channel.on("broadcast", { event }, ({ payload }) => listener(payload));
+      return wrapped;
+    },
+    onPresence(listener) {
+      channel
+        .on("presence", { event: "join" }, ({ newPresences }) => listener({ event: "join", presences: newPresences as Presence[] }))
+        .on("presence", { event: "leave" }, ({ leftPresences }) => listener({ event: "leave", presences: leftPresences as Presence[] }));
+      return wrapped;
+    },
+    subscribe(onStatus) {
+      channel.subscribe((status) => onStatus?.(status));
+      return wrapped;
+    },
+    async send(event, payload) {
+      await channel.send({ type: "broadcast", event, payload });
+    },
+    async track(meta) {
+      await channel.track(meta);
+    },
+    async untrack() {
+      await channel.untrack();
+    },
+    async close() {
+      onClose();
+      await supabase.removeChannel(channel);
+    },
+  };
+  return wrapped;
+};
+
+export const createSupabaseBackend = (supabase: SupabaseClient): RadioBackend => {
+  let tableChannelSeq = 0;
+  const channels = new Map<string, RadioChannel>(); // supabase.channel() hands back the live channel of a topic too
+
+  return {
+    kind: "supabase",
+
+    auth: {
+      async currentUserId() {
+        const { data: { user } } = await supabase.auth.getUser();
+        return user?.id ?? null;
+      },
+      onUserChanged(listener) {
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) =>
+          listener(session?.user.id ?? null),
+        );
+        return () => subscription.unsubscribe();
+      },
+      async signIn(email, password) {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+      },
+      async signUp(email, password, meta = {}) {
+        const { data, error } = await supabase.auth.signUp({ email, password, options: { data: meta } });
+        if (error) throw error;
+        return !!data.session;
+      },
+      async signOut() {
+        const { error } = await supabase.auth.signOut();
+        if (error) throw error;
+      },
+    },
+
+    songs: createTableStore(supabase, "songs", "id"),
+    profiles: createTableStore<Profile>(supabase, "profiles", "user_id"),
+
+    broadcasts: {
+      async get() {
+        return unwrap(await supabase.from("broadcasts").select(BROADCAST_QUERY).eq("id", BROADCAST_ID).maybeSingle());
+      },
+      async update(patch) {
+        unwrap(await supabase.from("broadcasts").update(patch).eq("id", BROADCAST_ID));
+      },
+    },
+
+    boxRounds: {
+      async getOpen() {
+        return unwrap(await supabase.from("box_rounds").select("*").eq("status", "open").maybeSingle());
+      },
+      async get(roundId) {
+        return unwrap(await supabase.from("box_rounds").select("*").eq("id", roundId).maybeSingle());
+      },
+      async tallies(roundId) {
+        return unwrap(await supabase.from("box_round_tallies").select("song_id, votes, human_votes, simulated_votes").eq("round_id", roundId)) ?? [];
+      },
+      async userVote(roundId, userId) {
+        const data = unwrap(
+          await supabase.from("votes").select("song_id").eq("round_id", roundId).eq("user_id", userId).maybeSingle(),
+        );
+        return data?.song_id ?? null;
+      },
+    },
+
+    skips: {
+      async forPlay(playId) {
+        return unwrap(await supabase.from("skip_votes").select("*").eq("play_id", playId)) ?? [];
+      },
+      async tokensUsed(userId, since) {
+        const { count, error } = await supabase
+          .from("skip_votes")
+          .select("*", { count: "exact", head: true })
+          .eq("user_id", userId)
+          .gte("token_used_at", since);
+        if (error) throw error;
+        return count ?? 0;
+      },
+    },
+
+    ratings: {
+      async tally(playId) {
+        return unwrap(await supabase.from("play_rating_tallies").select("ratings, stars_sum").eq("play_id", playId).maybeSingle());
+      },
+      async userRating(playId, userId) {
+        const data = unwrap(
+          await supabase.from("song_ratings").select("stars").eq("play_id", playId).eq("user_id", userId).maybeSingle(),
+        );
+        return data?.stars ?? null;
+      },
+    },
+
+    graveyard: {
+      async epitaphs() {
+        return unwrap(await supabase.from("graveyard_epitaphs").select("*").order("buried_at", { ascending: false })) ?? [];
+      },
+      async petitionsSignedBy(userId) {
+        const data = unwrap(await supabase.from("graveyard_petitions").select("song_id").eq("user_id", userId)) ?? [];
+        return data.map((row) => row.song_id);
+      },
+    },
+
+    realtime: {
+      channel(name, options = {}) {
+        const open = channels.get(name);
+        if (open) return open;
+        const config = options.presenceKey ? { config: { presence: { key: options.presenceKey } } } : undefined;
+        const channel = wrapChannel(supabase, supabase.channel(name, config), () => channels.delete(name));
+        channels.set(name, channel);
+        return channel;
+      },
+      onTableChange(table, listener) {
+        const channel = supabase
+          .channel(`db:${table}:${++tableChannelSeq}`)
+          .on("postgres_changes", { event: "*", schema: "public", table }, (payload) =>
+            listener({
+              event: payload.eventType,
+              // Supabase sends {} for the side that doesn't exist
+              new: Object.keys(payload.new ?? {}).length ? (payload.new as Row) : null,
+              old: Object.keys(payload.old ?? {}).length ? (payload.old as Row) : null,
+            }),
+          )
+          .subscribe();
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+    },
+
+    storage: {
+      async upload(bucket, path, file) {
+        unwrap(await supabase.storage.from(bucket).upload(path, file, { cacheControl: "3600", upsert: true }));
+      },
+      publicUrl(bucket, path) {
+        return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+      },
+      async list(bucket, prefix) {
+        return unwrap(await supabase.storage.from(bucket).list(prefix)) ?? [];
+      },
+    },
+
+    async rpc<F extends RpcName>(fn: F, ...[args]: RpcCall<F>): Promise<RpcResult<F>> {
+      return unwrap(await supabase.rpc(fn, args));
+    },
+  };
+};
@@ -8,17 +8,19 @@ import { createClient } from "@supabase/supabase-js";
 
 // Vercel and other hosting providers inject environment variables.
 // Vite requires the 'VITE_' prefix to expose variables to the client-side code.
-// Use optional chaining to guard against runtime environments where import.meta.env might be undefined.
+// Under Node (the headless conductor, scripts) there is no import.meta.env, so read process.env.
+export const env: Record<string, string | undefined> =
+  import.meta.env || (globalThis as any).process?.env || ({} as any);
 
-// Use fallback object to prevent crash if import.meta.env is undefined.
-const env = import.meta.env || ({} as any);
+const supabaseUrl = env.VITE_SUPABASE_URL || env.SUPABASE_URL;
+// Only Node ever sees SUPABASE_SERVICE_ROLE_KEY: Vite exposes VITE_-prefixed variables and nothing else.
+const supabaseKey = env.SUPABASE_SERVICE_ROLE_KEY || env.VITE_SUPABASE_ANON_KEY;
 
-// Use environment variables if they are available, otherwise fall back to the user's project ID.
-const supabaseUrl =
-  env.VITE_SUPABASE_URL || "https://ktfezfnkghtwbkmhxdyd.supabase.co";
-const supabaseAnonKey =
-  env.VITE_SUPABASE_ANON_KEY ||
-  "sb_publishable_Cpca6J3OdRz7czjQJN-KeQ_RNFc9QQU";
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseKey);
 
-// The Supabase client is now guaranteed to be created.
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+if (!isSupabaseConfigured && (env.VITE_RADIO_BACKEND || env.RADIO_BACKEND) !== "memory") {
+  console.warn("⚠️ Supabase is not configured (VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY). Set VITE_RADIO_BACKEND=memory to run offline.");
+}
+
+// Without a project the client points at a local Supabase (`supabase start`), never at production
+export const supabase = createClient(supabaseUrl || "http://127.0.0.1:54321", supabaseKey || "unconfigured");
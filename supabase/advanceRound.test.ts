@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addArtistWithSongs, takeLease, testDatabases, type TestDatabase, type TestSession } from "./local/testDatabase";
+import { resolveBoxLoser, resolveBoxWinner } from "../services/radioStateMachine";
+import { STATION_RULES } from "../services/stationRules";
+import type { DbSong } from "../services/songRepository";
+
+const LEADERS = 5;
+const ROUNDS = 4; // fewer than 5, so no seeded song loses its way into the graveyard
+const SONGS = 6;
+
+const starFields = (song: DbSong) => ({ stars: song.stars ?? STATION_RULES.startingStars, isDsw: !!song.is_dsw });
+
+interface Advanced {
+  advanced: boolean;
+  now_playing: DbSong | null;
+}
+
+/**
+ * Several leaders fire advance_round for the song on air at the same time; exactly one may
+ * advance the station and the rest must be no-ops. They all share one lease (one fencing
+ * token): leaderLease.test.ts covers the election itself.
+ */
+describe.each(testDatabases())("advance_round on %s", (_, createDatabase) => {
+  let db: TestDatabase;
+  let leaders: TestSession[];
+  let leaseToken: number;
+
+  const advance = async (session: TestSession, expectedSongId: string | null) => {
+    const [{ result }] = await session.query<{ result: Advanced }>(
+      "SELECT public.advance_round(expected_song_id => $1::UUID, lease_token => $2::BIGINT) AS result",
+      [expectedSongId, leaseToken],
+    );
+    return result;
+  };
+
+  const songsWithStatus = (status: string) => db.query<DbSong>("SELECT * FROM public.songs WHERE status = $1 ORDER BY id", [status]);
+
+  beforeAll(async () => {
+    db = await createDatabase();
+    leaders = await Promise.all(Array.from({ length: LEADERS }, () => db.session()));
+
+    await addArtistWithSongs(db, SONGS);
+    leaseToken = await takeLease(db);
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.dispose();
+  });
+
+  it("kicks off from silence, then lets exactly one of the racing leaders advance each round", async () => {
+    const first = await advance(db, null);
+    expect(first.advanced).toBe(true);
+    let onAir = first.now_playing!.id;
+
+    for (let round = 1; round <= ROUNDS; round++) {
+      // The crowd backs one Box song, so the winner is known
+      const box = await songsWithStatus("in_box");
+      const [favourite, ...others] = box;
+      const [open] = await db.query<{ id: string }>("SELECT id FROM public.box_rounds WHERE status = 'open'");
+      const votes = Array.from({ length: 3 }, (_, i) => ({ listener: `crowd-${i}`, song_id: favourite.id, taste: "random" }));
+      await db.query("SELECT public.cast_simulated_votes($1::UUID, $2::JSONB, $3::BIGINT)", [open.id, JSON.stringify(votes), leaseToken]);
+
+      const results = await Promise.all(leaders.map((leader) => advance(leader, onAir)));
+
+      expect(results.filter((result) => result.advanced)).toHaveLength(1);
+      expect(new Set(results.map((result) => result.now_playing?.id))).toEqual(new Set([favourite.id]));
+
+      const after = new Map((await db.query<DbSong>("SELECT * FROM public.songs WHERE id = ANY($1::UUID[])", [box.map((s) => s.id)])).map((s) => [s.id, s]));
+      expect(after.get(favourite.id)?.stars).toBe(resolveBoxWinner(starFields(favourite)).stars);
+      for (const loser of others) {
+        const expected = resolveBoxLoser({ ...starFields(loser), boxRoundsLost: loser.box_rounds_lost ?? 0 });
+        expect(after.get(loser.id)).toMatchObject({ stars: expected.stars, status: expected.status, box_rounds_lost: expected.boxRoundsLost });
+      }
+      const [closed] = await db.query<{ status: string; winner_id: string }>("SELECT status, winner_id FROM public.box_rounds WHERE id = $1", [open.id]);
+      expect(closed).toEqual({ status: "closed", winner_id: favourite.id });
+
+      // A late retry for the old song is a no-op
+      const retry = await advance(db, onAir);
+      expect(retry.advanced).toBe(false);
+      expect(retry.now_playing?.id).toBe(favourite.id);
+
+      const [broadcast] = await db.query<{ current_song_id: string }>("SELECT current_song_id FROM public.broadcasts");
+      expect(broadcast.current_song_id).toBe(favourite.id);
+      expect(await songsWithStatus("now_playing")).toHaveLength(1);
+      expect(await songsWithStatus("next_play")).toHaveLength(0);
+      expect(await songsWithStatus("in_box")).toHaveLength(STATION_RULES.boxSize);
+      onAir = favourite.id;
+    }
+  });
+
+  it("fills The Box to the size in station_config", async () => {
+    await db.query(`UPDATE public.station_config SET value = value || '{"boxSize": 3, "candidatesPerRound": 3}'::JSONB WHERE key = 'rules'`);
+    const [{ current_song_id: onAir }] = await db.query<{ current_song_id: string }>("SELECT current_song_id FROM public.broadcasts");
+
+    expect((await advance(db, onAir)).advanced).toBe(true);
+    expect(await songsWithStatus("in_box")).toHaveLength(3);
+  });
+
+  it("refuses a stale fencing token", async () => {
+    await expect(
+      db.query("SELECT public.advance_round(expected_song_id => NULL, lease_token => $1::BIGINT)", [leaseToken - 1]),
+    ).rejects.toThrow(/stale_fencing_token/);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addArtistWithSongs, addUser, takeLease, testDatabases, type TestDatabase } from "./local/testDatabase";
+
+describe.each(testDatabases())("cast_box_vote on %s", (_, createDatabase) => {
+  let db: TestDatabase;
+  let roundId: string;
+  let candidates: string[];
+  let onAirId: string;
+
+  const vote = async (userId: string, songId = candidates[0]) => {
+    await db.actAs({ role: "authenticated", userId });
+    try {
+      const [{ recorded }] = await db.query<{ recorded: boolean }>("SELECT public.cast_box_vote($1, $2) AS recorded", [roundId, songId]);
+      return recorded;
+    } finally {
+      await db.actAs({ role: "service_role" });
+    }
+  };
+
+  beforeAll(async () => {
+    db = await createDatabase();
+    await addArtistWithSongs(db, 4);
+    const token = await takeLease(db);
+    const [{ result }] = await db.query<{ result: { now_playing: { id: string } } }>(
+      "SELECT public.advance_round(expected_song_id => NULL, lease_token => $1::BIGINT) AS result",
+      [token],
+    );
+    onAirId = result.now_playing.id;
+    const [round] = await db.query<{ id: string; candidate_ids: string[] }>("SELECT id, candidate_ids FROM public.box_rounds WHERE status = 'open'");
+    roundId = round.id;
+    candidates = round.candidate_ids;
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.dispose();
+  });
+
+  it("takes one vote per listener while the play on air lasts", async () => {
+    const listener = await addUser(db, "Early Listener");
+    expect(await vote(listener)).toBe(true);
+    expect(await vote(listener, candidates[1])).toBe(false);
+  });
+
+  it("refuses votes once the play on air has ended, whatever the client shows", async () => {
+    await db.query("UPDATE public.songs SET duration_sec = 1 WHERE id = $1", [onAirId]); // ended before the crossfade even began
+    await expect(vote(await addUser(db, "Late Listener"))).rejects.toThrow(/voting in round .* closed/);
+  });
+
+  it("keeps the vote open while a debut waits for the next slot", async () => {
+    const newcomer = await addUser(db, "Newcomer");
+    await db.query(
+      `INSERT INTO public.songs (uploader_id, title, artist_name, source, audio_url, duration_sec, status)
+       VALUES ($1, 'First Upload', 'Newcomer', 'upload', 'first-upload.mp3', 120, 'pool')`,
+      [newcomer],
+    );
+    const [{ deadline }] = await db.query<{ deadline: string | null }>("SELECT public.box_vote_deadline() AS deadline");
+
+    expect(deadline).toBeNull();
+    expect(await vote(await addUser(db, "Patient Listener"))).toBe(true);
+  });
+});
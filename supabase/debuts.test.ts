@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addArtistWithSongs, addUser, takeLease, testDatabases, type TestDatabase } from "./local/testDatabase";
+import { STATION_RULES } from "../services/stationRules";
+import type { AdvanceRoundResult } from "../services/PersistentRadioService";
+import type { DbSong } from "../services/songRepository";
+
+/** A newcomer's first upload skips The Box, plays next and is judged by the room (018_debuts.sql). */
+describe.each(testDatabases())("debuts on %s", (_, createDatabase) => {
+  let db: TestDatabase;
+  let leaseToken: number;
+  let newcomer: string;
+  let debut: DbSong;
+
+  const upload = async (uploaderId: string, title: string) => {
+    const [song] = await db.query<DbSong>(
+      `INSERT INTO public.songs (uploader_id, title, artist_name, source, audio_url, duration_sec, status)
+       VALUES ($1, $2, 'Newcomer', 'upload', $3, 120, 'pool') RETURNING *`,
+      [uploaderId, title, `${title}.mp3`],
+    );
+    return song;
+  };
+
+  const advance = async () => {
+    const [{ current_song_id }] = await db.query<{ current_song_id: string | null }>("SELECT current_song_id FROM public.broadcasts");
+    const [{ result }] = await db.query<{ result: AdvanceRoundResult }>(
+      "SELECT public.advance_round(expected_song_id => $1::UUID, lease_token => $2::BIGINT) AS result",
+      [current_song_id, leaseToken],
+    );
+    return result;
+  };
+
+  /** Listeners rate the play on air. */
+  const rate = async (...stars: number[]) => {
+    const [{ play_id }] = await db.query<{ play_id: string }>("SELECT play_id FROM public.broadcasts");
+    for (const given of stars) {
+      await db.actAs({ role: "authenticated", userId: await addUser(db, "Rater") });
+      try {
+        await db.query("SELECT public.rate_now_playing($1, $2)", [play_id, given]);
+      } finally {
+        await db.actAs({ role: "service_role" });
+      }
+    }
+  };
+
+  const profile = async (userId: string) =>
+    (await db.query<{ is_artist: boolean; last_debut_at: string | null }>("SELECT is_artist, last_debut_at FROM public.profiles WHERE user_id = $1", [userId]))[0];
+
+  beforeAll(async () => {
+    db = await createDatabase();
+    await addArtistWithSongs(db, 4);
+    leaseToken = await takeLease(db);
+    await advance(); // something on air before the newcomers arrive
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.dispose();
+  });
+
+  it("queues a newcomer's first upload as a debut, and holds back a second one", async () => {
+    newcomer = await addUser(db, "Newcomer");
+    debut = await upload(newcomer, "first-steps");
+
+    expect(debut).toMatchObject({ status: "debut", is_debut: true });
+    expect((await profile(newcomer)).last_debut_at).not.toBeNull();
+    await expect(upload(newcomer, "second-thoughts")).rejects.toThrow(/debut_pending/);
+  });
+
+  it("puts the debut on air next, and makes an artist of its uploader when the room rates it well", async () => {
+    expect((await advance()).now_playing?.id).toBe(debut.id);
+    await rate(8, 9);
+    const judged = await advance();
+
+    expect(judged.debut).toMatchObject({ passed: true, rating: 8.5, song: { id: debut.id, status: "pool", is_debut: false } });
+    expect((await profile(newcomer)).is_artist).toBe(true);
+    const artistUpload = await upload(newcomer, "encore");
+    expect(artistUpload).toMatchObject({ status: "pool", is_debut: false });
+  });
+
+  it("buries a debut rated below the pass mark, and makes its uploader wait out the cooldown", async () => {
+    const unlucky = await addUser(db, "Tough Crowd");
+    const flop = await upload(unlucky, "tough-crowd");
+
+    expect((await advance()).now_playing?.id).toBe(flop.id);
+    await rate(STATION_RULES.debutPassRating - 3);
+    const judged = await advance();
+
+    expect(judged.debut).toMatchObject({ passed: false, song: { id: flop.id, status: "graveyard", final_stars: STATION_RULES.debutPassRating - 3 } });
+    expect((await profile(unlucky)).is_artist).toBe(false);
+    await expect(upload(unlucky, "try-again")).rejects.toThrow(/debut_cooldown/);
+  });
+});
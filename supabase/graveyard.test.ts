@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addArtistWithSongs, addUser, testDatabases, type TestDatabase } from "./local/testDatabase";
+import { STATION_RULES } from "../services/stationRules";
+import type { DbSong } from "../services/songRepository";
+import type { EpitaphRow } from "../services/radioBackend";
+
+/** Burial, epitaphs and the two ways back (020_graveyard.sql). */
+describe.each(testDatabases())("the graveyard on %s", (_, createDatabase) => {
+  let db: TestDatabase;
+  let artistId: string;
+  let songIds: string[];
+
+  const as = async <T extends object>(userId: string, sql: string, params: unknown[]) => {
+    await db.actAs({ role: "authenticated", userId });
+    try {
+      return await db.query<T>(sql, params);
+    } finally {
+      await db.actAs({ role: "service_role" });
+    }
+  };
+
+  const sign = async (userId: string, songId: string) =>
+    (await as<{ result: { signatures: number; resurrected: boolean } }>(userId, "SELECT public.sign_resurrection_petition($1) AS result", [songId]))[0].result;
+
+  const song = async (id: string) => (await db.query<DbSong>("SELECT * FROM public.songs WHERE id = $1", [id]))[0];
+
+  const graveyardCount = async () =>
+    (await db.query<{ count: number }>("SELECT (stats ->> 'graveyard_count')::INTEGER AS count FROM public.profiles WHERE user_id = $1", [artistId]))[0].count;
+
+  const bury = (id: string) => db.query("UPDATE public.songs SET status = 'graveyard' WHERE id = $1", [id]);
+
+  beforeAll(async () => {
+    db = await createDatabase();
+    ({ artistId, songIds } = await addArtistWithSongs(db, 3));
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.dispose();
+  });
+
+  it("stamps an epitaph on a buried song and counts it against its uploader", async () => {
+    await bury(songIds[0]);
+
+    const [epitaph] = await db.query<EpitaphRow>("SELECT * FROM public.graveyard_epitaphs WHERE song_id = $1", [songIds[0]]);
+    expect(epitaph).toMatchObject({ final_stars: 5, rounds_won: 0, resurrection_count: 0, petitions: 0 });
+    expect(epitaph.buried_at).not.toBeNull();
+    expect(await graveyardCount()).toBe(1);
+  });
+
+  it("raises a song once its petition reaches the threshold, each listener signing once", async () => {
+    const signers = await Promise.all(Array.from({ length: STATION_RULES.resurrectionPetitions }, (_, i) => addUser(db, `Mourner ${i}`)));
+
+    for (const signer of signers.slice(0, -1)) expect(await sign(signer, songIds[0])).toMatchObject({ resurrected: false });
+    expect(await sign(signers[0], songIds[0])).toEqual({ signatures: STATION_RULES.resurrectionPetitions - 1, resurrected: false });
+    expect(await sign(signers.at(-1)!, songIds[0])).toEqual({ signatures: STATION_RULES.resurrectionPetitions, resurrected: true });
+
+    expect(await song(songIds[0])).toMatchObject({ status: "pool", is_dsw: true, stars: 0, dsw_announced: false, resurrection_count: 1, buried_at: null });
+    expect(await db.query("SELECT 1 FROM public.graveyard_petitions WHERE song_id = $1", [songIds[0]])).toHaveLength(0);
+    expect(await graveyardCount()).toBe(0);
+    await expect(sign(signers[0], songIds[0])).rejects.toThrow(/is not in the graveyard/);
+  });
+
+  it("lets only the artist resubmit a song, and only after it has rested", async () => {
+    await bury(songIds[1]);
+    const stranger = await addUser(db, "Stranger");
+
+    await expect(as(artistId, "SELECT public.resubmit_from_graveyard($1)", [songIds[1]])).rejects.toThrow(/resubmit_cooldown/);
+    await db.query("UPDATE public.songs SET buried_at = NOW() - make_interval(days => $2) WHERE id = $1", [
+      songIds[1],
+      STATION_RULES.resurrectionCooldownDays + 1,
+    ]);
+    await expect(as(stranger, "SELECT public.resubmit_from_graveyard($1)", [songIds[1]])).rejects.toThrow(/only the artist/);
+
+    await as(artistId, "SELECT public.resubmit_from_graveyard($1)", [songIds[1]]);
+    expect(await song(songIds[1])).toMatchObject({ status: "pool", is_dsw: true, resurrection_count: 1 });
+  });
+});
@@ -0,0 +1,170 @@
+/// <reference types="node" />
+/**
+ * @file testDatabase - A scratch database with the whole schema, for tests of the SQL itself.
+ *
+ * Both kinds install the Supabase stand-ins (supabase_stubs.sql), every migration in order and
+ * the station config, and start with no songs:
+ * - PGlite: Postgres compiled to WebAssembly, in this process. Always available, so it's what
+ *   `npm test` runs on. It has a single session and runs one statement at a time, so calls made
+ *   "at once" queue up and run one after the other.
+ * - Postgres: a throwaway database created on the server at TEST_DATABASE_URL and dropped again
+ *   by dispose(). Every session is a connection of its own, so calls made at once really race.
+ *   The role needs CREATEDB. No existing database is read or written.
+ */
+
+import { readFileSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { Client } from "pg";
+import { publishStationConfig } from "../stationConfig";
+
+const SUPABASE_DIR = join(import.meta.dirname, "..");
+const MIGRATIONS_DIR = join(SUPABASE_DIR, "migrations");
+const STUBS = join(SUPABASE_DIR, "local", "supabase_stubs.sql");
+
+/** Who a session acts as, in the request.jwt claims auth.uid() and auth.role() read. */
+export type Caller = { role: "service_role" } | { role: "authenticated"; userId: string };
+
+export interface TestSession {
+  query<T extends object>(text: string, params?: unknown[]): Promise<T[]>;
+  /** Sets who the following calls act as. */
+  actAs(caller: Caller): Promise<void>;
+}
+
+export interface TestDatabase extends TestSession {
+  kind: "pglite" | "postgres";
+  /** Another session on the same database, acting as the service role. */
+  session(): Promise<TestSession>;
+  dispose(): Promise<void>;
+}
+
+const schemaFiles = () => [
+  STUBS,
+  ...readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith(".sql"))
+    .sort()
+    .map((file) => join(MIGRATIONS_DIR, file)),
+];
+
+const actAs = (session: Pick<TestSession, "query">, caller: Caller) =>
+  session.query("SELECT set_config('request.jwt.claim.role', $1, FALSE), set_config('request.jwt.claim.sub', $2, FALSE)", [
+    caller.role,
+    caller.role === "authenticated" ? caller.userId : "",
+  ]);
+
+const install = async (exec: (sql: string) => Promise<unknown>, session: TestSession) => {
+  for (const file of schemaFiles()) await exec(readFileSync(file, "utf8"));
+  await publishStationConfig(session);
+  await session.actAs({ role: "service_role" });
+};
+
+export const createPgliteDatabase = async (): Promise<TestDatabase> => {
+  const db = await PGlite.create();
+  const session: TestSession = {
+    query: async <T extends object>(text: string, params?: unknown[]) => (await db.query<T>(text, params)).rows,
+    actAs: async (caller) => {
+      await actAs(session, caller);
+    },
+  };
+  await install((sql) => db.exec(sql), session);
+
+  return {
+    ...session,
+    kind: "pglite",
+    session: async () => session, // one session is all PGlite has
+    dispose: () => db.close(),
+  };
+};
+
+export const createPostgresDatabase = async (serverUrl: string): Promise<TestDatabase> => {
+  const name = `club_youniverse_test_${process.pid}_${Date.now()}`;
+  const url = new URL(serverUrl);
+  url.pathname = `/${name}`;
+
+  const onServer = async (sql: string) => {
+    const server = new Client({ connectionString: serverUrl });
+    await server.connect();
+    try {
+      await server.query(sql);
+    } finally {
+      await server.end();
+    }
+  };
+
+  const clients: Client[] = [];
+  const connect = async (): Promise<TestSession> => {
+    const client = new Client({ connectionString: url.toString() });
+    await client.connect();
+    clients.push(client);
+    const session: TestSession = {
+      query: async <T extends object>(text: string, params?: unknown[]) => (await client.query(text, params)).rows as T[],
+      actAs: async (caller) => {
+        await actAs(session, caller);
+      },
+    };
+    await session.actAs({ role: "service_role" });
+    return session;
+  };
+
+  await onServer(`CREATE DATABASE ${name}`);
+  try {
+    const main = await connect();
+    await install((sql) => clients[0].query(sql), main);
+
+    return {
+      ...main,
+      kind: "postgres",
+      session: connect,
+      dispose: async () => {
+        await Promise.all(clients.map((client) => client.end().catch(() => {})));
+        await onServer(`DROP DATABASE IF EXISTS ${name}`);
+      },
+    };
+  } catch (error) {
+    await Promise.all(clients.map((client) => client.end().catch(() => {})));
+    await onServer(`DROP DATABASE IF EXISTS ${name}`);
+    throw error;
+  }
+};
+
+/** Signs up a user (auth.users, which makes their profile) and returns their id. */
+export const addUser = async (db: TestSession, name: string, profile: { is_artist?: boolean; is_admin?: boolean } = {}) => {
+  const [user] = await db.query<{ id: string }>("INSERT INTO auth.users (email) VALUES ($1) RETURNING id", [`${crypto.randomUUID()}@example.test`]);
+  await db.query("UPDATE public.profiles SET name = $2, is_artist = $3, is_admin = $4 WHERE user_id = $1", [
+    user.id,
+    name,
+    profile.is_artist ?? false,
+    profile.is_admin ?? false,
+  ]);
+  return user.id;
+};
+
+/** An artist with `count` songs in the pool (an artist's uploads skip the debut queue, 018_debuts.sql). */
+export const addArtistWithSongs = async (db: TestSession, count: number, durationSec = 120) => {
+  const artistId = await addUser(db, "Test Artist", { is_artist: true });
+  const songIds: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const [song] = await db.query<{ id: string }>(
+      `INSERT INTO public.songs (uploader_id, title, artist_name, source, audio_url, duration_sec, status, stars)
+       VALUES ($1, $2, 'Test Artist', 'upload', $3, $4, 'pool', 5) RETURNING id`,
+      [artistId, `Test Song ${i}`, `test-song-${i}.mp3`, durationSec],
+    );
+    songIds.push(song.id);
+  }
+  return { artistId, songIds };
+};
+
+/** Takes the station lease as the service role and returns its fencing token. */
+export const takeLease = async (db: TestSession, session = "sql-test") => {
+  await db.actAs({ role: "service_role" });
+  const [{ grant }] = await db.query<{ grant: { token: number } }>("SELECT public.acquire_leadership($1, 30000, TRUE) AS grant", [session]);
+  return Number(grant.token);
+};
+
+/** The databases the SQL tests run on: PGlite, and Postgres too when TEST_DATABASE_URL is set. */
+export const testDatabases = () => {
+  const serverUrl = process.env.TEST_DATABASE_URL;
+  const databases: [string, () => Promise<TestDatabase>][] = [["PGlite", createPgliteDatabase]];
+  if (serverUrl) databases.push(["Postgres", () => createPostgresDatabase(serverUrl)]);
+  return databases;
+};
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addArtistWithSongs, addUser, testDatabases, type TestDatabase } from "./local/testDatabase";
+import { createMemoryBackend } from "../services/memoryBackend";
+import { ENTITLEMENTS, PREMIUM_PLANS } from "../services/entitlements";
+import { STATION_RULES } from "../services/stationRules";
+import type { RpcCall, RpcName, RpcResult } from "../services/radioBackend";
+
+/** What the walk below needs from a station: its one listener, its procedures and the reads the UI makes. */
+interface Station {
+  userId: string;
+  rpc<F extends RpcName>(fn: F, ...args: RpcCall<F>): Promise<RpcResult<F>>;
+  playId(): Promise<string>;
+  candidates(roundId: string): Promise<string[]>;
+  humanVotes(roundId: string, songId: string): Promise<number>;
+  dispose(): Promise<void>;
+}
+
+const memoryStation = async (): Promise<Station> => {
+  const backend = createMemoryBackend();
+  return {
+    userId: (await backend.auth.currentUserId())!,
+    rpc: (fn, ...args) => backend.rpc(fn, ...args),
+    playId: async () => (await backend.broadcasts.get())!.play_id!,
+    candidates: async (roundId) => (await backend.boxRounds.get(roundId))!.candidate_ids,
+    humanVotes: async (roundId, songId) => (await backend.boxRounds.tallies(roundId)).find((t) => t.song_id === songId)!.human_votes,
+    dispose: async () => {},
+  };
+};
+
+/** The same calls on the SQL, as that one listener (grant_premium as the service role, like the payment webhook). */
+const sqlStation = async (createDatabase: () => Promise<TestDatabase>): Promise<Station> => {
+  const db = await createDatabase();
+  await addArtistWithSongs(db, 6);
+  const userId = await addUser(db, "Local DJ", { is_artist: true, is_admin: true });
+
+  const call = async (fn: RpcName, args: object = {}) => {
+    const entries = Object.entries(args);
+    const named = entries.map(([name], i) => `${name} => $${i + 1}`).join(", ");
+    const values = entries.map(([, value]) => (value !== null && typeof value === "object" ? JSON.stringify(value) : value));
+    await db.actAs(fn === "grant_premium" ? { role: "service_role" } : { role: "authenticated", userId });
+    try {
+      const [{ result }] = await db.query<{ result: unknown }>(`SELECT to_jsonb(public.${fn}(${named})) AS result`, values);
+      return result === "" ? null : result; // a VOID comes back empty; PostgREST answers null
+    } finally {
+      await db.actAs({ role: "service_role" });
+    }
+  };
+
+  return {
+    userId,
+    rpc: <F extends RpcName>(fn: F, ...[args]: RpcCall<F>) => call(fn, args) as Promise<RpcResult<F>>,
+    playId: async () => (await db.query<{ play_id: string }>("SELECT play_id FROM public.broadcasts"))[0].play_id,
+    candidates: async (roundId) =>
+      (await db.query<{ candidate_ids: string[] }>("SELECT candidate_ids FROM public.box_rounds WHERE id = $1", [roundId]))[0].candidate_ids,
+    humanVotes: async (roundId, songId) => {
+      const [tally] = await db.query<{ human_votes: number }>(
+        "SELECT human_votes FROM public.box_round_tallies WHERE round_id = $1 AND song_id = $2",
+        [roundId, songId],
+      );
+      return Number(tally.human_votes);
+    },
+    dispose: () => db.dispose(),
+  };
+};
+
+const stations: [string, () => Promise<Station>][] = [
+  ["memory", memoryStation],
+  ...testDatabases().map(([name, createDatabase]): [string, () => Promise<Station>] => [name, () => sqlStation(createDatabase)]),
+];
+
+/**
+ * The memory backend ports the procedures in supabase/migrations to TypeScript for the offline
+ * demo and the service tests. This walks one listener through both and expects the same answers,
+ * so a change to either copy that the other misses fails here.
+ */
+describe.each(stations)("the procedures on %s", (_, createStation) => {
+  let station: Station;
+  let leaseToken: number;
+  let roundId: string;
+  let candidates: string[];
+
+  beforeAll(async () => {
+    station = await createStation();
+  }, 60_000);
+
+  afterAll(async () => {
+    await station?.dispose();
+  });
+
+  it("hands the lease to the first session and starts a play", async () => {
+    const grant = await station.rpc("acquire_leadership", { p_session: "parity", p_lease_ms: 30_000 });
+    expect(grant).toMatchObject({ acquired: true, leader_session: "parity" });
+    leaseToken = grant.token!;
+
+    const first = await station.rpc("advance_round", { expected_song_id: null, lease_token: leaseToken });
+    expect(first.advanced).toBe(true);
+    expect(first.now_playing?.status).toBe("now_playing");
+
+    const retry = await station.rpc("advance_round", { expected_song_id: null, lease_token: leaseToken });
+    expect(retry).toMatchObject({ advanced: false, now_playing: { id: first.now_playing!.id } });
+    await expect(station.rpc("advance_round", { expected_song_id: first.now_playing!.id, lease_token: leaseToken - 1 })).rejects.toThrow(
+      /stale_fencing_token/,
+    );
+
+    roundId = (await station.rpc("ensure_box_round", {}))!;
+    candidates = await station.candidates(roundId);
+    expect(candidates).toHaveLength(STATION_RULES.boxSize);
+  });
+
+  it("sells premium by the plan and counts its vote at the premium weight", async () => {
+    const month = await station.rpc("grant_premium", {
+      p_user_id: station.userId,
+      p_provider: "stub",
+      p_reference: "parity-1",
+      p_plan: "monthly",
+      p_amount_cents: PREMIUM_PLANS.monthly.amountCents,
+    });
+    const days = (new Date(month.premium_until!).getTime() - Date.now()) / 86_400_000;
+    expect(month.is_premium).toBe(true);
+    expect(Math.round(days)).toBe(PREMIUM_PLANS.monthly.durationDays);
+
+    const retried = await station.rpc("grant_premium", {
+      p_user_id: month.user_id,
+      p_provider: "stub",
+      p_reference: "parity-1",
+      p_plan: "monthly",
+      p_amount_cents: PREMIUM_PLANS.monthly.amountCents,
+    });
+    expect(new Date(retried.premium_until!).getTime()).toBe(new Date(month.premium_until!).getTime());
+    await expect(
+      station.rpc("grant_premium", { p_user_id: month.user_id, p_provider: "stub", p_reference: "parity-2", p_plan: "weekly", p_amount_cents: 0 }),
+    ).rejects.toThrow(/grant_premium: no plan named weekly/);
+
+    expect(await station.rpc("cast_box_vote", { p_round_id: roundId, p_song_id: candidates[0] })).toBe(true);
+    expect(await station.rpc("cast_box_vote", { p_round_id: roundId, p_song_id: candidates[1] })).toBe(false);
+    expect(await station.humanVotes(roundId, candidates[0])).toBe(ENTITLEMENTS.premium.voteWeight);
+  });
+
+  it("counts a skip petition against who is tuned in, and vetoes the play once", async () => {
+    const playId = await station.playId();
+    expect(await station.rpc("skip_petition", { p_play_id: playId })).toEqual({ signatures: 0, listeners: 0, needed: 1, by_token: false });
+    expect(await station.rpc("veto_play", { p_play_id: playId, lease_token: leaseToken })).toBe(false);
+
+    await station.rpc("tune_in");
+    expect(await station.rpc("cast_skip_vote", { p_play_id: playId })).toBe(true);
+    expect(await station.rpc("cast_skip_vote", { p_play_id: playId })).toBe(false);
+    expect(await station.rpc("skip_petition", { p_play_id: playId })).toEqual({ signatures: 1, listeners: 1, needed: 1, by_token: false });
+
+    expect(await station.rpc("cast_skip_vote", { p_play_id: playId, p_use_token: true })).toBe(true); // a token on the signature already there
+    expect(await station.rpc("skip_petition", { p_play_id: playId })).toMatchObject({ by_token: true });
+
+    expect(await station.rpc("veto_play", { p_play_id: playId, lease_token: leaseToken })).toBe(true);
+    expect(await station.rpc("veto_play", { p_play_id: playId, lease_token: leaseToken })).toBe(false);
+
+    await station.rpc("tune_out");
+    expect(await station.rpc("skip_petition", { p_play_id: playId })).toMatchObject({ signatures: 0, listeners: 0 });
+  });
+
+  it("takes ratings within the scale only, for the play on air only", async () => {
+    const playId = await station.playId();
+    await expect(station.rpc("rate_now_playing", { p_play_id: playId, p_stars: STATION_RULES.maxStars + 1 })).rejects.toThrow(
+      /stars must be between 1 and/,
+    );
+    expect(await station.rpc("rate_now_playing", { p_play_id: playId, p_stars: 3 })).toBeNull();
+    await expect(station.rpc("rate_now_playing", { p_play_id: crypto.randomUUID(), p_stars: 3 })).rejects.toThrow(/rating_closed/);
+  });
+});
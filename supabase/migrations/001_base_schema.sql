@@ -1,13 +1,13 @@
--- 🎵 CLUB YOUNIVERSE - MASTER SUPABASE SETUP SCRIPT
--- Run this entire script in the Supabase SQL Editor to set up your database.
+-- 🎵 CLUB YOUNIVERSE - BASE SCHEMA
+-- Profiles, songs, votes, the gallery, storage buckets and the signup trigger.
 
 -- ==========================================
 -- 1. TABLES
 -- ==========================================
 
 -- PROFILES TABLE
--- Stores user data. 'is_artist' becomes TRUE only after first upload.
-create table public.profiles (
+-- Stores user data. 'is_artist' becomes TRUE once their debut survives (018_debuts.sql).
+create table if not exists public.profiles (
   user_id uuid references auth.users not null primary key,
   email text,
   name text, -- Display name (Artist Name)
@@ -25,7 +25,7 @@ create table public.profiles (
 
 -- SONGS TABLE
 -- The core music library.
-create table public.songs (
+create table if not exists public.songs (
   id uuid default gen_random_uuid() primary key,
   uploader_id uuid references public.profiles(user_id) not null,
   title text not null,
@@ -49,7 +49,7 @@ create table public.songs (
 
 -- VOTES TABLE
 -- Tracks individual votes to prevent double-voting and for analytics.
-create table public.votes (
+create table if not exists public.votes (
   id uuid default gen_random_uuid() primary key,
   user_id uuid references public.profiles(user_id) not null,
   song_id uuid references public.songs(id) not null,
@@ -59,7 +59,7 @@ create table public.votes (
 
 -- GALLERY ITEMS TABLE
 -- Stores generated music videos and album covers.
-create table public.gallery_items (
+create table if not exists public.gallery_items (
   id uuid default gen_random_uuid() primary key,
   user_id uuid references public.profiles(user_id) not null,
   type text check (type in ('music-video', 'album-cover')),
@@ -80,27 +80,33 @@ alter table public.votes enable row level security;
 alter table public.gallery_items enable row level security;
 
 -- PROFILES POLICIES
+drop policy if exists "Public profiles are viewable by everyone." on public.profiles;
 create policy "Public profiles are viewable by everyone."
   on public.profiles for select
   using ( true );
 
+drop policy if exists "Users can insert their own profile." on public.profiles;
 create policy "Users can insert their own profile."
   on public.profiles for insert
   with check ( (select auth.uid()) = user_id );
 
+drop policy if exists "Users can update own profile." on public.profiles;
 create policy "Users can update own profile."
   on public.profiles for update
   using ( (select auth.uid()) = user_id );
 
 -- SONGS POLICIES
+drop policy if exists "Songs are viewable by everyone." on public.songs;
 create policy "Songs are viewable by everyone."
   on public.songs for select
   using ( true );
 
+drop policy if exists "Authenticated users can upload songs." on public.songs;
 create policy "Authenticated users can upload songs."
   on public.songs for insert
   with check ( (select auth.role()) = 'authenticated' );
 
+drop policy if exists "Allow authenticated update (owner or admin)" on public.songs;
 create policy "Allow authenticated update (owner or admin)"
   on public.songs for update
   using (
@@ -110,19 +116,23 @@ create policy "Allow authenticated update (owner or admin)"
   );
 
 -- VOTES POLICIES
+drop policy if exists "Votes are viewable by everyone." on public.votes;
 create policy "Votes are viewable by everyone."
   on public.votes for select
   using ( true );
 
+drop policy if exists "Authenticated users can vote." on public.votes;
 create policy "Authenticated users can vote."
   on public.votes for insert
   with check ( (select auth.role()) = 'authenticated' );
 
 -- GALLERY POLICIES
+drop policy if exists "Gallery items are viewable by everyone." on public.gallery_items;
 create policy "Gallery items are viewable by everyone."
   on public.gallery_items for select
   using ( true );
 
+drop policy if exists "Users can add to gallery." on public.gallery_items;
 create policy "Users can add to gallery."
   on public.gallery_items for insert
   with check ( (select auth.uid()) = user_id );
@@ -139,18 +149,22 @@ insert into storage.buckets (id, name, public) values ('covers', 'covers', true)
 insert into storage.buckets (id, name, public) values ('videos', 'videos', true) on conflict do nothing;
 
 -- STORAGE POLICIES (Allow authenticated uploads)
+drop policy if exists "Authenticated users can upload songs" on storage.objects;
 create policy "Authenticated users can upload songs"
   on storage.objects for insert
   with check ( bucket_id = 'songs' and (select auth.role()) = 'authenticated' );
 
+drop policy if exists "Authenticated users can upload covers" on storage.objects;
 create policy "Authenticated users can upload covers"
   on storage.objects for insert
   with check ( bucket_id = 'covers' and (select auth.role()) = 'authenticated' );
 
+drop policy if exists "Authenticated users can upload videos" on storage.objects;
 create policy "Authenticated users can upload videos"
   on storage.objects for insert
   with check ( bucket_id = 'videos' and (select auth.role()) = 'authenticated' );
   
+drop policy if exists "Public read access for all buckets" on storage.objects;
 create policy "Public read access for all buckets"
   on storage.objects for select
   using ( bucket_id in ('songs', 'covers', 'videos') );
@@ -1,6 +1,6 @@
 -- 🛠️ CLUB YOUNIVERSE - ADDONS & SAFETY PATCH
--- Run this to ensure your existing database has all the latest columns without deleting data.
--- This script is "Idempotent" - it won't error if things already exist.
+-- Brings databases created before 001_base_schema.sql up to its columns without deleting data.
+-- The broadcasts/songs relationship repair lives in 007_broadcast_song_relationships.sql.
 
 -- ==========================================
 -- 1. UPDATE PROFILES TABLE
@@ -108,25 +108,6 @@ USING (
 );
 
 -- ==========================================
--- 6. RELATIONSHIP REPAIR
--- ==========================================
--- Ensure PostgREST can join broadcasts and songs
-ALTER TABLE public.broadcasts DROP CONSTRAINT IF EXISTS broadcasts_current_song_id_fkey;
-ALTER TABLE public.broadcasts DROP CONSTRAINT IF EXISTS broadcasts_next_song_id_fkey;
-
-ALTER TABLE public.broadcasts 
-    ADD CONSTRAINT broadcasts_current_song_id_fkey 
-    FOREIGN KEY (current_song_id) 
-    REFERENCES public.songs(id)
-    ON DELETE SET NULL;
-
-ALTER TABLE public.broadcasts 
-    ADD CONSTRAINT broadcasts_next_song_id_fkey 
-    FOREIGN KEY (next_song_id) 
-    REFERENCES public.songs(id)
-    ON DELETE SET NULL;
-
--- ==========================================
--- 7. CONFIRMATION
+-- 6. CONFIRMATION
 -- ==========================================
 select 'Addons applied successfully. Database is ready for persistence.' as status;
@@ -1,7 +1,7 @@
 -- 🎵 CLUB YOUNIVERSE - LAUNCH UPDATE SCRIPT
 -- Run this to update the schema for the new persistent radio flow.
 
--- 1. Update Songs Status Check
+-- 1. Update Songs Status Check (023_status_constraints.sql adds 'review')
 ALTER TABLE public.songs DROP CONSTRAINT IF EXISTS songs_status_check;
 ALTER TABLE public.songs ADD CONSTRAINT songs_status_check 
   CHECK (status IN ('pool', 'in_box', 'next_play', 'now_playing', 'graveyard', 'debut'));
@@ -13,10 +13,7 @@ ALTER TABLE public.broadcasts ADD COLUMN IF NOT EXISTS last_heartbeat TIMESTAMPT
 ALTER TABLE public.broadcasts ADD COLUMN IF NOT EXISTS dj_voice_id TEXT;
 ALTER TABLE public.broadcasts ADD COLUMN IF NOT EXISTS site_command JSONB; 
 
--- 3. Ensure the initial broadcast row exists and is clean
+-- 3. Ensure the initial broadcast row exists (a live station is left alone)
 INSERT INTO public.broadcasts (id, radio_state)
 VALUES ('00000000-0000-0000-0000-000000000000', 'POOL')
-ON CONFLICT (id) DO UPDATE 
-SET radio_state = 'POOL', 
-    current_song_id = NULL, 
-    next_song_id = NULL;
+ON CONFLICT (id) DO NOTHING;
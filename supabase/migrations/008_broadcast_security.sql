@@ -1,4 +1,4 @@
--- Security Setup for Club Youniverse Supabase Project (ktfezfnkghtwbkmhxdyd)
+-- Security Setup for Club Youniverse: RLS on broadcasts and the legacy tables
 
 -- 1. Enable RLS on broadcasts table
 ALTER TABLE public.broadcasts ENABLE ROW LEVEL SECURITY;
@@ -19,23 +19,33 @@ TO authenticated
 USING (true)
 WITH CHECK (true);
 
--- 3. Fix box_slots policies
+-- 3. Fix box_slots policies (a legacy table; only databases that still have it)
 -- If it has RLS enabled but no policies, it's currently locked.
-DROP POLICY IF EXISTS "Allow public read access to box_slots" ON public.box_slots;
-CREATE POLICY "Allow public read access to box_slots"
-ON public.box_slots FOR SELECT
-TO public
-USING (true);
+DO $$
+BEGIN
+    IF EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'box_slots') THEN
+        DROP POLICY IF EXISTS "Allow public read access to box_slots" ON public.box_slots;
+        CREATE POLICY "Allow public read access to box_slots"
+        ON public.box_slots FOR SELECT
+        TO public
+        USING (true);
 
-DROP POLICY IF EXISTS "Allow authenticated update to box_slots" ON public.box_slots;
-CREATE POLICY "Allow authenticated update to box_slots"
-ON public.box_slots FOR UPDATE
-TO authenticated
-USING (true);
+        DROP POLICY IF EXISTS "Allow authenticated update to box_slots" ON public.box_slots;
+        CREATE POLICY "Allow authenticated update to box_slots"
+        ON public.box_slots FOR UPDATE
+        TO authenticated
+        USING (true);
+    END IF;
+END $$;
 
--- 4. Fix Function Search Path (set_updated_at)
+-- 4. Fix Function Search Path (set_updated_at, if the database has it)
 -- This prevents search_path attacks.
-ALTER FUNCTION public.set_updated_at() SET search_path = public;
+DO $$
+BEGIN
+    IF to_regprocedure('public.set_updated_at()') IS NOT NULL THEN
+        ALTER FUNCTION public.set_updated_at() SET search_path = public;
+    END IF;
+END $$;
 
 -- 5. Enable RLS on playback_state (if exists)
 DO $$
@@ -3,6 +3,7 @@
 -- This resolves the "multiple_permissive_policies" warning and improves query performance.
 
 -- 1. Clean up all known variations of the update policy
+DROP POLICY IF EXISTS "Allow authenticated update (owner or admin)" ON public.songs; -- from 001_base_schema.sql
 DROP POLICY IF EXISTS "Users can update their own songs." ON public.songs;
 DROP POLICY IF EXISTS "Admins can update any song." ON public.songs;
 DROP POLICY IF EXISTS "Admins have full update access" ON public.songs;
@@ -0,0 +1,182 @@
+-- 🗳️ CLUB YOUNIVERSE - BOX ROUNDS & VOTE LEDGER
+-- Every Box gets a round record. Votes are rows in public.votes keyed on
+-- (round_id, user_id), so a listener gets exactly one vote per round and the
+-- tallies are computed from the ledger instead of rewriting songs.upvotes.
+-- advance_round (021_advance_round.sql) resolves winners from these rounds.
+
+-- ==========================================
+-- 1. TABLES
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.box_rounds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  candidate_ids UUID[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'void')), -- void: the Box changed before a winner was picked
+  winner_id UUID REFERENCES public.songs(id) ON DELETE SET NULL,
+  simulated_votes JSONB NOT NULL DEFAULT '{}'::JSONB, -- robot listeners, kept apart from the human ledger
+  selection JSONB NOT NULL DEFAULT '{}'::JSONB, -- { song_id: {strategy, score, reason} } for fresh entrants
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.box_rounds ADD COLUMN IF NOT EXISTS selection JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+-- There can be only one open round
+CREATE UNIQUE INDEX IF NOT EXISTS box_rounds_one_open_idx ON public.box_rounds ((TRUE)) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS box_rounds_started_at_idx ON public.box_rounds (started_at);
+
+ALTER TABLE public.votes ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES public.box_rounds(id) ON DELETE CASCADE;
+ALTER TABLE public.votes ADD COLUMN IF NOT EXISTS weight INTEGER NOT NULL DEFAULT 1;
+
+-- One vote per listener per round
+CREATE UNIQUE INDEX IF NOT EXISTS votes_round_user_idx ON public.votes (round_id, user_id) WHERE round_id IS NOT NULL;
+
+-- ==========================================
+-- 2. ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE public.box_rounds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Box rounds are viewable by everyone." ON public.box_rounds;
+CREATE POLICY "Box rounds are viewable by everyone."
+  ON public.box_rounds FOR SELECT
+  USING ( TRUE );
+
+-- Votes are only written through cast_box_vote()
+DROP POLICY IF EXISTS "Authenticated users can vote." ON public.votes;
+
+-- ==========================================
+-- 3. TALLIES
+-- ==========================================
+
+CREATE OR REPLACE VIEW public.box_round_tallies AS
+SELECT
+  r.id AS round_id,
+  c.song_id,
+  c.position,
+  COALESCE(SUM(v.weight), 0)::INTEGER AS human_votes,
+  COALESCE((r.simulated_votes ->> c.song_id::TEXT)::INTEGER, 0) AS simulated_votes,
+  (COALESCE(SUM(v.weight), 0) + COALESCE((r.simulated_votes ->> c.song_id::TEXT)::INTEGER, 0))::INTEGER AS votes
+FROM public.box_rounds r
+CROSS JOIN LATERAL unnest(r.candidate_ids) WITH ORDINALITY AS c(song_id, position)
+LEFT JOIN public.votes v ON v.round_id = r.id AND v.song_id = c.song_id
+GROUP BY r.id, c.song_id, c.position, r.simulated_votes;
+
+-- ==========================================
+-- 4. FUNCTIONS
+-- ==========================================
+
+-- Makes sure the open round matches the songs currently in_box.
+-- Voids a stale round (the Box was refreshed or edited) and opens a new one.
+-- p_selection records why each fresh entrant was picked (see services/boxSelection.ts).
+DROP FUNCTION IF EXISTS public.ensure_box_round();
+
+CREATE OR REPLACE FUNCTION public.ensure_box_round(p_selection JSONB DEFAULT '{}'::JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  box_ids UUID[];
+  open_round public.box_rounds;
+  new_round_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('public.box_rounds'));
+
+  SELECT COALESCE(array_agg(id ORDER BY id), '{}') INTO box_ids
+  FROM public.songs
+  WHERE status = 'in_box';
+
+  SELECT * INTO open_round FROM public.box_rounds WHERE status = 'open';
+
+  IF open_round.id IS NOT NULL THEN
+    IF (SELECT array_agg(x ORDER BY x) FROM unnest(open_round.candidate_ids) x) = box_ids THEN
+      RETURN open_round.id;
+    END IF;
+
+    UPDATE public.box_rounds
+    SET status = 'void', closed_at = NOW()
+    WHERE id = open_round.id;
+  END IF;
+
+  IF cardinality(box_ids) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.box_rounds (candidate_ids, selection)
+  VALUES (box_ids, COALESCE(p_selection, '{}'::JSONB))
+  RETURNING id INTO new_round_id;
+
+  RETURN new_round_id;
+END;
+$$;
+
+-- Records the caller's vote. Returns FALSE if they already voted this round.
+CREATE OR REPLACE FUNCTION public.cast_box_vote(p_round_id UUID, p_song_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  human_vote_weight CONSTANT INTEGER := 10; -- one human outweighs a robot burst
+  voter UUID := auth.uid();
+  inserted_id UUID;
+BEGIN
+  IF voter IS NULL THEN
+    RAISE EXCEPTION 'cast_box_vote: sign in to vote';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.box_rounds
+    WHERE id = p_round_id AND status = 'open' AND p_song_id = ANY(candidate_ids)
+  ) THEN
+    RAISE EXCEPTION 'cast_box_vote: round % is closed or % is not a candidate', p_round_id, p_song_id;
+  END IF;
+
+  INSERT INTO public.votes (user_id, song_id, vote_type, round_id, weight)
+  VALUES (voter, p_song_id, 'box_choice', p_round_id, human_vote_weight)
+  ON CONFLICT (round_id, user_id) WHERE round_id IS NOT NULL DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  RETURN inserted_id IS NOT NULL;
+END;
+$$;
+
+-- Robot listeners (runSimulationStep). Atomic increment, no read-modify-write.
+CREATE OR REPLACE FUNCTION public.cast_simulated_votes(p_round_id UUID, p_song_id UUID, p_votes INTEGER)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.box_rounds
+  SET simulated_votes = jsonb_set(
+    simulated_votes,
+    ARRAY[p_song_id::TEXT],
+    to_jsonb(COALESCE((simulated_votes ->> p_song_id::TEXT)::INTEGER, 0) + GREATEST(p_votes, 0))
+  )
+  WHERE id = p_round_id AND status = 'open' AND p_song_id = ANY(candidate_ids);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_box_round(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cast_box_vote(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cast_simulated_votes(UUID, UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.ensure_box_round(JSONB) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.cast_box_vote(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cast_simulated_votes(UUID, UUID, INTEGER) TO authenticated, service_role;
+
+-- Live tallies for The Box
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'box_rounds') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.box_rounds;
+  END IF;
+END $$;
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'votes') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.votes;
+  END IF;
+END $$;
@@ -0,0 +1,16 @@
+-- ⏱️ CLUB YOUNIVERSE - SERVER CLOCK
+-- The station runs on the database clock: advance_round stamps song_started_at with NOW(),
+-- and every client estimates its offset to this clock NTP-style (services/clockSync.ts).
+-- The leader samples server_clock() directly and answers everyone else over realtime.
+
+-- Milliseconds since the epoch, read at call time (not transaction start)
+CREATE OR REPLACE FUNCTION public.server_clock()
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT EXTRACT(EPOCH FROM clock_timestamp()) * 1000;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.server_clock() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.server_clock() TO authenticated, service_role;
@@ -0,0 +1,176 @@
+-- 👑 CLUB YOUNIVERSE - LEADER LEASE & FENCING TOKENS
+-- Leadership is a lease granted by the database, held by one client session (a tab,
+-- or a headless conductor) and renewed every couple of seconds. Every grant to a new
+-- holder bumps broadcasts.fencing_token. Station writes must carry the current token:
+--   * direct updates of the station columns set writer_token (checked, then cleared, by a trigger)
+--   * advance_round takes it as an argument
+-- A leader that was paused, partitioned or overthrown still holds an old token, so its
+-- writes are rejected with 'stale_fencing_token' even if it still believes it leads.
+-- Replaces the client-side heartbeat check from 005_leader_columns.sql.
+
+-- ==========================================
+-- 1. COLUMNS
+-- ==========================================
+
+ALTER TABLE public.broadcasts ADD COLUMN IF NOT EXISTS leader_session TEXT;
+ALTER TABLE public.broadcasts ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+ALTER TABLE public.broadcasts ADD COLUMN IF NOT EXISTS fencing_token BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE public.broadcasts ADD COLUMN IF NOT EXISTS writer_token BIGINT; -- write-only: checked and cleared on every update
+
+-- ==========================================
+-- 2. FENCING
+-- ==========================================
+
+-- Raises unless p_token is the current token of an unexpired lease. Call with the broadcast row locked.
+CREATE OR REPLACE FUNCTION public.assert_fencing_token(p_token BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  current_token BIGINT;
+  expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT fencing_token, lease_expires_at INTO current_token, expires_at
+  FROM public.broadcasts
+  WHERE id = broadcast_id;
+
+  IF p_token IS NULL OR p_token IS DISTINCT FROM current_token OR expires_at IS NULL OR expires_at < NOW() THEN
+    RAISE EXCEPTION 'stale_fencing_token: % is not the current lease (token %)', p_token, current_token
+      USING ERRCODE = 'P0001';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_fencing_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- The lease columns only move through acquire_leadership / release_leadership
+  IF (NEW.leader_id, NEW.leader_session, NEW.lease_expires_at, NEW.fencing_token)
+     IS DISTINCT FROM (OLD.leader_id, OLD.leader_session, OLD.lease_expires_at, OLD.fencing_token)
+     AND COALESCE(current_setting('club.lease_write', TRUE), '') <> 'on' THEN
+    RAISE EXCEPTION 'leader_lease: use acquire_leadership() / release_leadership()';
+  END IF;
+
+  -- Station state only moves for the lease holder
+  IF (NEW.current_song_id, NEW.next_song_id, NEW.radio_state, NEW.song_started_at)
+     IS DISTINCT FROM (OLD.current_song_id, OLD.next_song_id, OLD.radio_state, OLD.song_started_at) THEN
+    IF NEW.writer_token IS DISTINCT FROM OLD.fencing_token
+       OR OLD.lease_expires_at IS NULL OR OLD.lease_expires_at < NOW() THEN
+      RAISE EXCEPTION 'stale_fencing_token: % is not the current lease (token %)', NEW.writer_token, OLD.fencing_token
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Never carried over: a write that doesn't present the token can't ride on the last one
+  NEW.writer_token := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_broadcast_fenced_write ON public.broadcasts;
+CREATE TRIGGER on_broadcast_fenced_write
+  BEFORE UPDATE ON public.broadcasts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_fencing_token();
+
+-- ==========================================
+-- 3. LEASE
+-- ==========================================
+
+-- Grants or renews the lease for p_session. A live lease held by another session is
+-- only taken over with p_force (the DJ Booth "take the decks" button).
+-- Returns {acquired, token, leader_id, leader_session, ttl_ms}.
+CREATE OR REPLACE FUNCTION public.acquire_leadership(
+  p_session TEXT,
+  p_lease_ms INTEGER DEFAULT 10000,
+  p_force BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  max_lease_ms CONSTANT INTEGER := 30000;
+  lease INTERVAL := make_interval(secs => LEAST(GREATEST(p_lease_ms, 1000), max_lease_ms) / 1000.0);
+  b public.broadcasts;
+  acquired BOOLEAN := FALSE;
+BEGIN
+  IF p_session IS NULL OR p_session = '' THEN
+    RAISE EXCEPTION 'acquire_leadership: a session id is required';
+  END IF;
+
+  SELECT * INTO b FROM public.broadcasts WHERE id = broadcast_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'acquire_leadership: broadcast row % is missing', broadcast_id;
+  END IF;
+
+  PERFORM set_config('club.lease_write', 'on', TRUE);
+
+  IF b.leader_session = p_session AND b.lease_expires_at >= NOW() THEN
+    -- Renewal: same holder, same token
+    UPDATE public.broadcasts
+    SET lease_expires_at = NOW() + lease,
+        last_heartbeat = NOW()
+    WHERE id = broadcast_id
+    RETURNING * INTO b;
+    acquired := TRUE;
+  ELSIF b.leader_session IS NULL OR b.lease_expires_at IS NULL OR b.lease_expires_at < NOW() OR p_force THEN
+    -- New holder: a new token fences off everyone before
+    UPDATE public.broadcasts
+    SET leader_id = auth.uid(), -- NULL for a headless conductor on the service role
+        leader_session = p_session,
+        lease_expires_at = NOW() + lease,
+        last_heartbeat = NOW(),
+        fencing_token = fencing_token + 1
+    WHERE id = broadcast_id
+    RETURNING * INTO b;
+    acquired := TRUE;
+  END IF;
+
+  PERFORM set_config('club.lease_write', 'off', TRUE);
+
+  RETURN jsonb_build_object(
+    'acquired', acquired,
+    'token', CASE WHEN acquired THEN b.fencing_token END,
+    'leader_id', b.leader_id,
+    'leader_session', b.leader_session,
+    'ttl_ms', GREATEST(0, (EXTRACT(EPOCH FROM (b.lease_expires_at - NOW())) * 1000)::INTEGER)
+  );
+END;
+$$;
+
+-- Gives the lease up early. A no-op unless p_token is still the current token.
+CREATE OR REPLACE FUNCTION public.release_leadership(p_session TEXT, p_token BIGINT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+BEGIN
+  PERFORM set_config('club.lease_write', 'on', TRUE);
+
+  UPDATE public.broadcasts
+  SET leader_id = NULL,
+      leader_session = NULL,
+      lease_expires_at = NULL
+  WHERE id = broadcast_id AND leader_session = p_session AND fencing_token = p_token;
+
+  PERFORM set_config('club.lease_write', 'off', TRUE);
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assert_fencing_token(BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.acquire_leadership(TEXT, INTEGER, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_leadership(TEXT, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assert_fencing_token(BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.acquire_leadership(TEXT, INTEGER, BOOLEAN) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.release_leadership(TEXT, BIGINT) TO authenticated, service_role;
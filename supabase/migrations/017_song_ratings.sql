@@ -0,0 +1,129 @@
+-- ⭐ CLUB YOUNIVERSE - LIVE RATING LEDGER
+-- Live star ratings are rows in public.song_ratings keyed on (play_id, user_id):
+-- one rating per listener per play, which they can change until the song ends.
+-- Every play gets a fresh broadcasts.play_id; advance_round reads the ledger for the
+-- play that just ended instead of songs.live_stars_sum / live_stars_count.
+-- Keep MAX_STARS in sync with STATION_RULES.maxStars (services/stationRules.ts).
+
+-- ==========================================
+-- 1. PLAYS
+-- ==========================================
+
+ALTER TABLE public.broadcasts ADD COLUMN IF NOT EXISTS play_id UUID;
+
+-- A new song (or a restart of the same one) on air is a new play
+CREATE OR REPLACE FUNCTION public.stamp_play_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.current_song_id IS DISTINCT FROM OLD.current_song_id
+     OR NEW.song_started_at IS DISTINCT FROM OLD.song_started_at THEN
+    NEW.play_id := CASE WHEN NEW.current_song_id IS NULL THEN NULL ELSE gen_random_uuid() END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_broadcast_new_play ON public.broadcasts;
+CREATE TRIGGER on_broadcast_new_play
+  BEFORE INSERT OR UPDATE ON public.broadcasts
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_play_id();
+
+UPDATE public.broadcasts
+SET play_id = gen_random_uuid()
+WHERE current_song_id IS NOT NULL AND play_id IS NULL;
+
+-- ==========================================
+-- 2. RATINGS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.song_ratings (
+  play_id UUID NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  song_id UUID REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  stars INTEGER NOT NULL CHECK (stars BETWEEN 1 AND 10),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (play_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS song_ratings_song_idx ON public.song_ratings (song_id);
+
+ALTER TABLE public.song_ratings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Ratings are viewable by everyone." ON public.song_ratings;
+CREATE POLICY "Ratings are viewable by everyone."
+  ON public.song_ratings FOR SELECT
+  USING ( TRUE );
+-- Ratings are only written through rate_now_playing()
+
+CREATE OR REPLACE VIEW public.play_rating_tallies AS
+SELECT
+  play_id,
+  song_id,
+  COUNT(*)::INTEGER AS ratings,
+  SUM(stars)::INTEGER AS stars_sum,
+  ROUND(AVG(stars), 1) AS average
+FROM public.song_ratings
+GROUP BY play_id, song_id;
+
+-- The old counters on the song row are gone: the ledger is the only source
+ALTER TABLE public.songs DROP COLUMN IF EXISTS live_stars_sum;
+ALTER TABLE public.songs DROP COLUMN IF EXISTS live_stars_count;
+
+-- ==========================================
+-- 3. FUNCTIONS
+-- ==========================================
+
+-- Records (or changes) the caller's rating for the play on air.
+-- Fails once the play has ended, so a late rating never lands on the next song.
+CREATE OR REPLACE FUNCTION public.rate_now_playing(p_play_id UUID, p_stars INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  max_stars CONSTANT INTEGER := 10;
+  rater UUID := auth.uid();
+  on_air UUID;
+BEGIN
+  IF rater IS NULL THEN
+    RAISE EXCEPTION 'rate_now_playing: sign in to rate';
+  END IF;
+
+  IF p_stars NOT BETWEEN 1 AND max_stars THEN
+    RAISE EXCEPTION 'rate_now_playing: stars must be between 1 and %', max_stars;
+  END IF;
+
+  -- Waits out a running advance_round, then sees the play that is really on air
+  SELECT current_song_id INTO on_air
+  FROM public.broadcasts
+  WHERE id = broadcast_id AND play_id = p_play_id
+  FOR SHARE;
+
+  IF on_air IS NULL THEN
+    RAISE EXCEPTION 'rating_closed: play % has ended', p_play_id;
+  END IF;
+
+  INSERT INTO public.song_ratings (play_id, user_id, song_id, stars)
+  VALUES (p_play_id, rater, on_air, p_stars)
+  ON CONFLICT (play_id, user_id) DO UPDATE
+  SET stars = EXCLUDED.stars,
+      updated_at = NOW();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rate_now_playing(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rate_now_playing(UUID, INTEGER) TO authenticated;
+
+-- Live tallies for NowPlay
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'song_ratings') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.song_ratings;
+  END IF;
+END $$;
@@ -0,0 +1,65 @@
+-- 🎤 CLUB YOUNIVERSE - DEBUTS ("TRIAL BY FIRE")
+-- A first upload from someone who isn't an artist yet skips The Box and is queued as a
+-- debut. It jumps the queue, plays with a shout-out and is judged by its live stars:
+-- pass and it joins the pool (and the uploader becomes an artist), fail and it goes
+-- to the graveyard. advance_round (021_advance_round.sql) does the playing and judging.
+--
+-- One debut per 24h: profiles.last_debut_at is stamped when a debut is queued.
+-- Keep DEBUT_COOLDOWN in sync with STATION_RULES.debutCooldownHours (services/stationRules.ts).
+
+-- ==========================================
+-- 1. COLUMNS
+-- ==========================================
+
+-- Survives the debut -> now_playing promotion so the end of the play knows to judge it
+ALTER TABLE public.songs ADD COLUMN IF NOT EXISTS is_debut BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS songs_debut_queue_idx ON public.songs (created_at) WHERE status = 'debut';
+
+-- ==========================================
+-- 2. ROUTE FIRST UPLOADS TO THE DEBUT QUEUE
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION public.route_debut_upload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  debut_cooldown CONSTANT INTERVAL := INTERVAL '24 hours';
+  uploader public.profiles;
+BEGIN
+  SELECT * INTO uploader FROM public.profiles WHERE user_id = NEW.uploader_id FOR UPDATE;
+
+  -- Artists (and rows without a profile, e.g. seed data) take the normal route
+  IF uploader.user_id IS NULL OR COALESCE(uploader.is_artist, FALSE) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.songs WHERE uploader_id = NEW.uploader_id AND is_debut) THEN
+    RAISE EXCEPTION 'debut_pending: your debut has not finished its Trial by Fire yet'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF uploader.last_debut_at IS NOT NULL AND uploader.last_debut_at > NOW() - debut_cooldown THEN
+    RAISE EXCEPTION 'debut_cooldown: next debut allowed at %', uploader.last_debut_at + debut_cooldown
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  NEW.status := 'debut';
+  NEW.is_debut := TRUE;
+
+  UPDATE public.profiles
+  SET last_debut_at = NOW(),
+      updated_at = NOW()
+  WHERE user_id = NEW.uploader_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_song_uploaded_route_debut ON public.songs;
+CREATE TRIGGER on_song_uploaded_route_debut
+  BEFORE INSERT ON public.songs
+  FOR EACH ROW EXECUTE FUNCTION public.route_debut_upload();
@@ -0,0 +1,18 @@
+-- ⚰️ CLUB YOUNIVERSE - DEAD SONG WALKING LIFECYCLE
+-- marked -> announced -> farewell scheduled -> farewell play -> pardoned or buried.
+--   * advance_round marks a song DSW when it drops to the threshold (is_dsw = TRUE)
+--   * the leader (services/dswLifecycle.ts) announces it (dsw_announced) and schedules
+--     its farewell play (dsw_farewell_at)
+--   * advance_round plays scheduled farewells before the Box winner and judges them
+--     at the end of the play: pardon back to the pool, or the graveyard
+-- Replaces the old ai_dj Python poller.
+
+ALTER TABLE public.songs ADD COLUMN IF NOT EXISTS dsw_announced BOOLEAN DEFAULT FALSE;
+ALTER TABLE public.songs ADD COLUMN IF NOT EXISTS dsw_farewell_at TIMESTAMPTZ;
+
+-- The farewell queue, oldest first
+CREATE INDEX IF NOT EXISTS songs_dsw_farewell_idx ON public.songs (dsw_farewell_at)
+  WHERE is_dsw AND dsw_farewell_at IS NOT NULL;
+
+-- Clean up the fake "songs" the Python poller used to inject for its announcements
+DELETE FROM public.songs WHERE source = 'ai_announcement';
@@ -0,0 +1,232 @@
+-- 🪦 CLUB YOUNIVERSE - THE GRAVEYARD & RESURRECTION
+-- Buried songs get an epitaph (final stars, rounds won, burial date) on a public page.
+-- A song can come back from the dead two ways:
+--   * a listener petition reaching RESURRECTION_PETITIONS signatures
+--   * its artist re-submitting it after RESURRECTION_COOLDOWN
+-- Either way it returns as a Dead Song Walking: one farewell play (see 019_dsw_lifecycle.sql),
+-- then pardoned or buried again.
+-- Keep the constants in sync with STATION_RULES (services/stationRules.ts).
+-- Also keeps profiles.stats (uploads, graveyard_count) correct on every status change.
+
+-- ==========================================
+-- 1. COLUMNS & TABLES
+-- ==========================================
+
+ALTER TABLE public.songs ADD COLUMN IF NOT EXISTS buried_at TIMESTAMPTZ;
+ALTER TABLE public.songs ADD COLUMN IF NOT EXISTS final_stars INTEGER; -- stars at burial, before the graveyard zeroes them
+ALTER TABLE public.songs ADD COLUMN IF NOT EXISTS resurrected_at TIMESTAMPTZ; -- set while a resurrected song awaits its farewell
+ALTER TABLE public.songs ADD COLUMN IF NOT EXISTS resurrection_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.graveyard_petitions (
+  song_id UUID REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (song_id, user_id)
+);
+
+ALTER TABLE public.graveyard_petitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Petitions are viewable by everyone." ON public.graveyard_petitions;
+CREATE POLICY "Petitions are viewable by everyone."
+  ON public.graveyard_petitions FOR SELECT
+  USING ( TRUE );
+-- Signatures are only written through sign_resurrection_petition()
+
+-- Songs already in the graveyard get a burial date so they show up in order
+UPDATE public.songs
+SET buried_at = COALESCE(last_played_at, created_at, NOW()),
+    final_stars = COALESCE(final_stars, stars)
+WHERE status = 'graveyard' AND buried_at IS NULL;
+
+-- ==========================================
+-- 2. BURIAL BOOKKEEPING & UPLOADER STATS
+-- ==========================================
+
+-- Recomputes an uploader's song stats from scratch, so they can never drift
+CREATE OR REPLACE FUNCTION public.refresh_uploader_stats(p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.profiles p
+  SET stats = COALESCE(p.stats, '{}'::JSONB) || jsonb_build_object(
+    'uploads', (SELECT COUNT(*) FROM public.songs WHERE uploader_id = p_user_id),
+    'graveyard_count', (SELECT COUNT(*) FROM public.songs WHERE uploader_id = p_user_id AND status = 'graveyard')
+  )
+  WHERE p.user_id = p_user_id;
+$$;
+
+-- Stamps the epitaph when a song enters the graveyard (whatever path buried it)
+CREATE OR REPLACE FUNCTION public.stamp_burial()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'graveyard' AND OLD.status IS DISTINCT FROM 'graveyard' THEN
+    NEW.buried_at := NOW();
+    -- advance_round sets final_stars itself; anything else (e.g. a DJ rejecting a song) keeps its last stars
+    IF NEW.final_stars IS NOT DISTINCT FROM OLD.final_stars THEN
+      NEW.final_stars := OLD.stars;
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM 'graveyard' AND OLD.status = 'graveyard' THEN
+    NEW.buried_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_song_buried ON public.songs;
+CREATE TRIGGER on_song_buried
+  BEFORE UPDATE OF status ON public.songs
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_burial();
+
+CREATE OR REPLACE FUNCTION public.sync_uploader_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.refresh_uploader_stats(NEW.uploader_id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_uploader_stats(OLD.uploader_id);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status OR NEW.uploader_id IS DISTINCT FROM OLD.uploader_id THEN
+    PERFORM public.refresh_uploader_stats(NEW.uploader_id);
+    IF NEW.uploader_id IS DISTINCT FROM OLD.uploader_id THEN
+      PERFORM public.refresh_uploader_stats(OLD.uploader_id);
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_song_changed_sync_stats ON public.songs;
+CREATE TRIGGER on_song_changed_sync_stats
+  AFTER INSERT OR DELETE OR UPDATE OF status, uploader_id ON public.songs
+  FOR EACH ROW EXECUTE FUNCTION public.sync_uploader_stats();
+
+-- Backfill every profile once
+SELECT public.refresh_uploader_stats(user_id) FROM public.profiles;
+
+-- ==========================================
+-- 3. EPITAPHS
+-- ==========================================
+
+CREATE OR REPLACE VIEW public.graveyard_epitaphs AS
+SELECT
+  s.id AS song_id,
+  s.uploader_id,
+  s.title,
+  s.artist_name,
+  s.cover_art_url,
+  COALESCE(s.final_stars, 0) AS final_stars,
+  (SELECT COUNT(*) FROM public.box_rounds r WHERE r.winner_id = s.id AND r.status = 'closed')::INTEGER AS rounds_won,
+  s.buried_at,
+  s.resurrection_count,
+  (SELECT COUNT(*) FROM public.graveyard_petitions p WHERE p.song_id = s.id)::INTEGER AS petitions
+FROM public.songs s
+WHERE s.status = 'graveyard';
+
+-- ==========================================
+-- 4. RESURRECTION
+-- ==========================================
+
+-- Brings a buried song back as a Dead Song Walking. The leader's DSW lifecycle picks it up,
+-- announces it and schedules its farewell play.
+CREATE OR REPLACE FUNCTION public.resurrect_song(p_song_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.songs
+  SET status = 'pool',
+      is_dsw = TRUE,
+      stars = 0,
+      dsw_announced = FALSE,
+      dsw_farewell_at = NULL,
+      resurrected_at = NOW(),
+      resurrection_count = resurrection_count + 1,
+      box_rounds_lost = 0
+  WHERE id = p_song_id AND status = 'graveyard';
+
+  DELETE FROM public.graveyard_petitions WHERE song_id = p_song_id;
+END;
+$$;
+
+-- Signs the caller onto a song's petition. Reaching the threshold resurrects it.
+-- Returns the signature count and whether the song rose.
+CREATE OR REPLACE FUNCTION public.sign_resurrection_petition(p_song_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  resurrection_petitions CONSTANT INTEGER := 5;
+  signer UUID := auth.uid();
+  signatures INTEGER;
+BEGIN
+  IF signer IS NULL THEN
+    RAISE EXCEPTION 'sign_resurrection_petition: sign in to petition';
+  END IF;
+
+  -- Serialize signers so exactly one of them crosses the threshold
+  PERFORM 1 FROM public.songs WHERE id = p_song_id AND status = 'graveyard' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'sign_resurrection_petition: % is not in the graveyard', p_song_id;
+  END IF;
+
+  INSERT INTO public.graveyard_petitions (song_id, user_id)
+  VALUES (p_song_id, signer)
+  ON CONFLICT DO NOTHING;
+
+  SELECT COUNT(*) INTO signatures FROM public.graveyard_petitions WHERE song_id = p_song_id;
+
+  IF signatures >= resurrection_petitions THEN
+    PERFORM public.resurrect_song(p_song_id);
+    RETURN jsonb_build_object('signatures', signatures, 'resurrected', TRUE);
+  END IF;
+
+  RETURN jsonb_build_object('signatures', signatures, 'resurrected', FALSE);
+END;
+$$;
+
+-- The artist brings their own song back, once it has rested for the cooldown.
+CREATE OR REPLACE FUNCTION public.resubmit_from_graveyard(p_song_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  resurrection_cooldown CONSTANT INTERVAL := INTERVAL '7 days';
+  buried public.songs;
+BEGIN
+  SELECT * INTO buried FROM public.songs WHERE id = p_song_id AND status = 'graveyard' FOR UPDATE;
+
+  IF buried.id IS NULL THEN
+    RAISE EXCEPTION 'resubmit_from_graveyard: % is not in the graveyard', p_song_id;
+  END IF;
+  IF buried.uploader_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'resubmit_from_graveyard: only the artist can resubmit their song';
+  END IF;
+  IF buried.buried_at > NOW() - resurrection_cooldown THEN
+    RAISE EXCEPTION 'resubmit_cooldown: resubmission opens at %', buried.buried_at + resurrection_cooldown;
+  END IF;
+
+  PERFORM public.resurrect_song(p_song_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_uploader_stats(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resurrect_song(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sign_resurrection_petition(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resubmit_from_graveyard(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.refresh_uploader_stats(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resurrect_song(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.sign_resurrection_petition(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resubmit_from_graveyard(UUID) TO authenticated;
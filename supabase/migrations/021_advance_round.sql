@@ -0,0 +1,354 @@
+-- 🎵 CLUB YOUNIVERSE - ATOMIC ROUND ADVANCE
+-- Moves the station from one song to the next in a single transaction:
+--   1. Resolve The Box from its round's vote ledger (winner -> next_play; losers stay in
+--      The Box as challengers until maxRoundsWithoutWin losses in a row, then -> pool).
+--      Skipped while a debut or a DSW farewell is waiting: the round stays open through it.
+--   2. Refill The Box from the caller's ranked entrants and open the next round
+--   3. Retire the song that just played (live star math from the play's rating ledger,
+--      DSW farewell verdict, debut judging)
+--   4. Promote the oldest debut, else the oldest scheduled DSW farewell, else next_play,
+--      else a random pool song to now_playing
+--   5. Point the broadcast row at the new song
+--
+-- Fenced: only the current lease holder may advance. `lease_token` is its fencing token
+-- (016_leader_lease.sql); anything else raises 'stale_fencing_token' before a row is touched.
+--
+-- Idempotent: the caller passes the song it believes is on air. If the broadcast has
+-- already moved on (another leader got there first, or this is a retry), nothing is
+-- changed and the song currently on air is returned instead.
+--
+-- The star rules mirror services/radioStateMachine.ts (resolveBoxWinner,
+-- resolveBoxLoser, resolveRetirement, resolveDebut). Keep them in sync.
+-- `rules` is STATION_RULES from services/stationRules.ts; missing keys fall back to the defaults below.
+-- `entrants` is the ranked pick from services/boxSelection.ts: [{songId, strategy, score, reason}].
+-- Entrants that are no longer in the pool are skipped; if they run out, the songs that have
+-- waited longest fill the gap. The graveyard and Dead Songs Walking never enter The Box.
+-- Builds on 014 (box rounds) and 016-020 (lease, ratings, debuts, DSW, graveyard).
+
+DROP FUNCTION IF EXISTS public.advance_round(UUID, BOOLEAN);
+DROP FUNCTION IF EXISTS public.advance_round(UUID, BOOLEAN, JSONB);
+DROP FUNCTION IF EXISTS public.advance_round(UUID, BOOLEAN, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.advance_round(
+  expected_song_id UUID,
+  resolve_box BOOLEAN DEFAULT TRUE,
+  rules JSONB DEFAULT '{}'::JSONB,
+  entrants JSONB DEFAULT '[]'::JSONB,
+  lease_token BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  box_size CONSTANT INTEGER := COALESCE((rules ->> 'boxSize')::INTEGER, 2);
+  max_entrants CONSTANT INTEGER := COALESCE((rules ->> 'candidatesPerRound')::INTEGER, box_size);
+  starting_stars CONSTANT INTEGER := COALESCE((rules ->> 'startingStars')::INTEGER, 5);
+  max_stars CONSTANT INTEGER := COALESCE((rules ->> 'maxStars')::INTEGER, 10);
+  star_gain CONSTANT INTEGER := COALESCE((rules ->> 'starGain')::INTEGER, 1);
+  star_loss CONSTANT INTEGER := COALESCE((rules ->> 'starLoss')::INTEGER, 1);
+  dsw_threshold CONSTANT INTEGER := COALESCE((rules ->> 'dswThreshold')::INTEGER, 0);
+  max_losses CONSTANT INTEGER := COALESCE((rules ->> 'maxRoundsWithoutWin')::INTEGER, 3);
+  debut_pass CONSTANT NUMERIC := COALESCE((rules ->> 'debutPassRating')::NUMERIC, 5);
+  current_id UUID;
+  current_play_id UUID;
+  open_round_id UUID;
+  winner public.songs;
+  losers JSONB := '[]'::JSONB;
+  loser public.songs;
+  retired public.songs;
+  promoted public.songs;
+  new_stars INTEGER;
+  new_dsw BOOLEAN;
+  new_losses INTEGER;
+  needed INTEGER;
+  selection JSONB := '{}'::JSONB;
+  debut JSONB;
+  dsw JSONB;
+  debut_rating NUMERIC;
+  rating_count INTEGER;
+  rating_sum INTEGER;
+  rating JSONB;
+BEGIN
+  -- Serialize concurrent leaders on the broadcast row
+  SELECT current_song_id, play_id INTO current_id, current_play_id
+  FROM public.broadcasts
+  WHERE id = broadcast_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'advance_round: broadcast row % is missing', broadcast_id;
+  END IF;
+
+  PERFORM public.assert_fencing_token(lease_token);
+
+  IF current_id IS DISTINCT FROM expected_song_id THEN
+    SELECT * INTO promoted FROM public.songs WHERE id = current_id;
+    RETURN jsonb_build_object(
+      'advanced', FALSE,
+      'now_playing', CASE WHEN promoted.id IS NULL THEN NULL ELSE to_jsonb(promoted) END,
+      'winner', NULL,
+      'losers', '[]'::JSONB,
+      'debut', NULL,
+      'dsw', NULL,
+      'rating', NULL
+    );
+  END IF;
+
+  -- 1. Resolve The Box (unless a debut or a DSW farewell takes the next slot)
+  IF resolve_box AND NOT EXISTS (
+    SELECT 1 FROM public.songs
+    WHERE status = 'debut'
+       OR (status = 'pool' AND is_dsw AND dsw_farewell_at IS NOT NULL)
+  ) THEN
+    open_round_id := public.ensure_box_round();
+
+    -- Most votes wins; ties go to the earlier candidate
+    SELECT s.* INTO winner
+    FROM public.box_round_tallies t
+    JOIN public.songs s ON s.id = t.song_id AND s.status = 'in_box'
+    WHERE t.round_id = open_round_id
+    ORDER BY t.votes DESC, t.position
+    LIMIT 1
+    FOR UPDATE OF s;
+
+    IF winner.id IS NOT NULL THEN
+      UPDATE public.songs
+      SET status = 'next_play',
+          stars = CASE WHEN is_dsw THEN 0 ELSE LEAST(max_stars, COALESCE(stars, starting_stars) + star_gain) END,
+          box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+          box_rounds_lost = 0,
+          upvotes = 0
+      WHERE id = winner.id
+      RETURNING * INTO winner;
+
+      FOR loser IN
+        SELECT * FROM public.songs WHERE status = 'in_box' FOR UPDATE
+      LOOP
+        new_losses := COALESCE(loser.box_rounds_lost, 0) + 1;
+
+        IF new_losses < max_losses THEN
+          -- Still a challenger: stays in The Box for the next round
+          UPDATE public.songs
+          SET box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+              box_rounds_lost = new_losses,
+              upvotes = 0
+          WHERE id = loser.id
+          RETURNING * INTO loser;
+        ELSE
+          -- Out of chances: star penalty and back to the pool
+          new_stars := GREATEST(0, LEAST(max_stars, COALESCE(loser.stars, starting_stars) - star_loss));
+          new_dsw := COALESCE(loser.is_dsw, FALSE) OR new_stars <= dsw_threshold;
+
+          UPDATE public.songs
+          SET status = 'pool',
+              stars = CASE WHEN new_dsw THEN 0 ELSE new_stars END,
+              is_dsw = new_dsw,
+              dsw_announced = CASE WHEN new_dsw AND NOT COALESCE(is_dsw, FALSE) THEN FALSE ELSE dsw_announced END,
+              box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+              box_rounds_lost = 0,
+              upvotes = 0
+          WHERE id = loser.id
+          RETURNING * INTO loser;
+        END IF;
+
+        losers := losers || to_jsonb(loser);
+      END LOOP;
+
+      UPDATE public.box_rounds
+      SET status = 'closed', winner_id = winner.id, closed_at = NOW()
+      WHERE id = open_round_id;
+    END IF;
+  END IF;
+
+  -- 2. Refill The Box (ranked entrants first, then whoever has waited longest)
+  SELECT LEAST(box_size - COUNT(*), max_entrants) INTO needed FROM public.songs WHERE status = 'in_box';
+
+  IF needed > 0 THEN
+    WITH candidates AS (
+      SELECT s.id, 0 AS priority, e.rank::NUMERIC AS rank,
+             e.entrant - 'songId' AS why
+      FROM jsonb_array_elements(entrants) WITH ORDINALITY AS e(entrant, rank)
+      JOIN public.songs s ON s.id = (e.entrant ->> 'songId')::UUID
+      WHERE s.status IN ('pool', 'review') AND NOT COALESCE(s.is_dsw, FALSE)
+      UNION ALL
+      SELECT s.id, 1 AS priority, EXTRACT(EPOCH FROM COALESCE(s.last_played_at, '-infinity'::TIMESTAMPTZ)) AS rank,
+             jsonb_build_object('strategy', 'fallback', 'score', 0, 'reason', 'longest since last play')
+      FROM public.songs s
+      WHERE s.status IN ('pool', 'review') AND NOT COALESCE(s.is_dsw, FALSE)
+    ),
+    picked AS (
+      SELECT DISTINCT ON (id) id, priority, rank, why
+      FROM candidates
+      ORDER BY id, priority
+    ),
+    ranked AS (
+      SELECT id, why FROM picked
+      ORDER BY priority, rank
+      LIMIT needed
+    ),
+    entered AS (
+      UPDATE public.songs s
+      SET status = 'in_box',
+          upvotes = 0,
+          box_rounds_lost = 0,
+          box_appearance_count = COALESCE(s.box_appearance_count, 0) + 1
+      FROM ranked
+      WHERE s.id = ranked.id
+      RETURNING s.id, ranked.why
+    )
+    SELECT COALESCE(jsonb_object_agg(id, why), '{}'::JSONB) INTO selection FROM entered;
+  END IF;
+
+  PERFORM public.ensure_box_round(selection);
+
+  -- 3. Retire whatever is on air (normally just expected_song_id)
+  FOR retired IN
+    SELECT * FROM public.songs WHERE status = 'now_playing' FOR UPDATE
+  LOOP
+    -- Only the play that just ended counts; a stray now_playing row has no ratings
+    SELECT COUNT(*), COALESCE(SUM(stars), 0) INTO rating_count, rating_sum
+    FROM public.song_ratings
+    WHERE play_id = current_play_id AND song_id = retired.id;
+
+    new_stars := COALESCE(retired.stars, starting_stars);
+    IF rating_count > 0 THEN
+      new_stars := GREATEST(0, LEAST(max_stars,
+        new_stars + (rating_sum - rating_count * new_stars)));
+    END IF;
+
+    IF retired.id = expected_song_id THEN
+      rating := jsonb_build_object(
+        'play_id', current_play_id,
+        'ratings', rating_count,
+        'average', CASE WHEN rating_count > 0 THEN ROUND(rating_sum::NUMERIC / rating_count, 1) END,
+        'delta', new_stars - COALESCE(retired.stars, starting_stars)
+      );
+    END IF;
+
+    IF COALESCE(retired.is_debut, FALSE) THEN
+      -- Trial by Fire: judged on the average live rating alone (no votes = benefit of the doubt)
+      debut_rating := CASE WHEN rating_count > 0
+        THEN rating_sum::NUMERIC / rating_count
+        ELSE starting_stars END;
+
+      UPDATE public.songs
+      SET status = CASE WHEN debut_rating >= debut_pass THEN 'pool' ELSE 'graveyard' END,
+          stars = CASE WHEN debut_rating >= debut_pass THEN LEAST(max_stars, ROUND(debut_rating)::INTEGER) ELSE 0 END,
+          final_stars = CASE WHEN debut_rating >= debut_pass THEN final_stars ELSE ROUND(debut_rating)::INTEGER END,
+          is_dsw = FALSE,
+          is_debut = FALSE
+      WHERE id = retired.id
+      RETURNING * INTO retired;
+
+      IF debut_rating >= debut_pass THEN
+        UPDATE public.profiles
+        SET is_artist = TRUE, updated_at = NOW()
+        WHERE user_id = retired.uploader_id;
+      END IF;
+
+      debut := jsonb_build_object(
+        'song', to_jsonb(retired),
+        'passed', debut_rating >= debut_pass,
+        'rating', ROUND(debut_rating, 1)
+      );
+    ELSIF COALESCE(retired.is_dsw, FALSE) THEN
+      -- Farewell play: climbing above the threshold is a pardon, otherwise the graveyard
+      UPDATE public.songs
+      SET status = CASE WHEN new_stars > dsw_threshold THEN 'pool' ELSE 'graveyard' END,
+          stars = CASE WHEN new_stars > dsw_threshold THEN new_stars ELSE 0 END,
+          is_dsw = new_stars <= dsw_threshold,
+          final_stars = CASE WHEN new_stars > dsw_threshold THEN final_stars ELSE new_stars END,
+          dsw_announced = new_stars <= dsw_threshold, -- a pardoned song is announced afresh if it falls again
+          dsw_farewell_at = NULL,
+          resurrected_at = NULL
+      WHERE id = retired.id
+      RETURNING * INTO retired;
+
+      dsw := jsonb_build_object(
+        'song', to_jsonb(retired),
+        'pardoned', retired.status = 'pool'
+      );
+    ELSE
+      UPDATE public.songs
+      SET status = 'pool',
+          stars = CASE WHEN new_stars > dsw_threshold THEN new_stars ELSE 0 END,
+          is_dsw = new_stars <= dsw_threshold,
+          dsw_announced = CASE WHEN new_stars <= dsw_threshold THEN FALSE ELSE dsw_announced END
+      WHERE id = retired.id;
+    END IF;
+
+    UPDATE public.songs
+    SET last_played_at = NOW(),
+        play_count = COALESCE(play_count, 0) + CASE WHEN id = expected_song_id THEN 1 ELSE 0 END
+    WHERE id = retired.id;
+  END LOOP;
+
+  -- 4. Promote the oldest waiting debut, else a scheduled DSW farewell, else next_play,
+  --    else a random pool song as a failsafe
+  SELECT * INTO promoted
+  FROM public.songs
+  WHERE status = 'debut'
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'pool' AND is_dsw AND dsw_farewell_at IS NOT NULL
+    ORDER BY dsw_farewell_at
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'next_play'
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'pool'
+    ORDER BY (id = expected_song_id) NULLS FIRST, random() -- replay the last song only as a last resort
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NOT NULL THEN
+    UPDATE public.songs
+    SET status = 'now_playing',
+        last_played_at = NOW()
+    WHERE id = promoted.id
+    RETURNING * INTO promoted;
+  END IF;
+
+  -- 5. Point the broadcast at the new song
+  UPDATE public.broadcasts
+  SET current_song_id = promoted.id,
+      next_song_id = NULL,
+      song_started_at = CASE WHEN promoted.id IS NULL THEN NULL ELSE NOW() END,
+      updated_at = NOW(),
+      writer_token = lease_token
+  WHERE id = broadcast_id;
+
+  RETURN jsonb_build_object(
+    'advanced', TRUE,
+    'now_playing', CASE WHEN promoted.id IS NULL THEN NULL ELSE to_jsonb(promoted) END,
+    'winner', CASE WHEN winner.id IS NULL THEN NULL ELSE to_jsonb(winner) END,
+    'losers', losers,
+    'debut', debut,
+    'dsw', dsw,
+    'rating', rating
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_round(UUID, BOOLEAN, JSONB, JSONB, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.advance_round(UUID, BOOLEAN, JSONB, JSONB, BIGINT) TO authenticated, service_role;
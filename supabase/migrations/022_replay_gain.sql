@@ -0,0 +1,10 @@
+-- 🔊 CLUB YOUNIVERSE - LOUDNESS NORMALIZATION
+-- Every track plays at -14 LUFS (docs/SPECIFICATIONS.md). replay_gain is the gain in dB
+-- that gets it there, measured on upload (services/loudness.ts) or by
+-- scripts/backfill_replay_gain.ts for the existing library. NULL = not measured yet, played as is.
+
+ALTER TABLE public.songs
+ADD COLUMN IF NOT EXISTS replay_gain REAL;
+
+-- The backfill walks the unmeasured songs
+CREATE INDEX IF NOT EXISTS idx_songs_replay_gain_missing ON public.songs (created_at) WHERE replay_gain IS NULL;
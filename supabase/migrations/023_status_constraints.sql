@@ -0,0 +1,39 @@
+-- ✅ CLUB YOUNIVERSE - STATUS CONSTRAINTS MATCH THE APP
+-- The songs status check predates 'review' (uploads from listeners waiting for a DJ), and
+-- broadcasts.radio_state had no check at all (its old default, DJ_BANTER_INTRO, isn't a state).
+-- Each check lists exactly the union in types.ts:
+--   songs.status          SongStatus
+--   songs.source          SongSource
+--   broadcasts.radio_state RadioState
+--   box_rounds.status     BoxRoundStatus (unchanged, 014_box_rounds.sql)
+-- `npx tsx scripts/migrate.ts check` compares them against a live database.
+
+-- ==========================================
+-- 1. SONGS
+-- ==========================================
+
+ALTER TABLE public.songs DROP CONSTRAINT IF EXISTS songs_status_check;
+ALTER TABLE public.songs ADD CONSTRAINT songs_status_check
+  CHECK (status IN ('pool', 'review', 'in_box', 'next_play', 'now_playing', 'graveyard', 'debut'));
+
+ALTER TABLE public.songs DROP CONSTRAINT IF EXISTS songs_source_check;
+ALTER TABLE public.songs ADD CONSTRAINT songs_source_check
+  CHECK (source IN ('suno', 'producer.ai', 'mubert', 'upload'));
+
+-- ==========================================
+-- 2. BROADCASTS
+-- ==========================================
+
+ALTER TABLE public.broadcasts ALTER COLUMN radio_state SET DEFAULT 'POOL';
+
+-- A station parked in a state the app doesn't know starts over from the pool.
+-- This is a repair, not a leader's write, so the fencing trigger steps aside for it.
+ALTER TABLE public.broadcasts DISABLE TRIGGER on_broadcast_fenced_write;
+UPDATE public.broadcasts
+SET radio_state = 'POOL'
+WHERE radio_state NOT IN ('POOL', 'THE_BOX', 'BOX_WIN', 'NEXT_PLAY', 'NOW_PLAYING', 'DJ_TALKING', 'REBOOT', 'IDLE');
+ALTER TABLE public.broadcasts ENABLE TRIGGER on_broadcast_fenced_write;
+
+ALTER TABLE public.broadcasts DROP CONSTRAINT IF EXISTS broadcasts_radio_state_check;
+ALTER TABLE public.broadcasts ADD CONSTRAINT broadcasts_radio_state_check
+  CHECK (radio_state IN ('POOL', 'THE_BOX', 'BOX_WIN', 'NEXT_PLAY', 'NOW_PLAYING', 'DJ_TALKING', 'REBOOT', 'IDLE'));
@@ -0,0 +1,132 @@
+-- 🤖 CLUB YOUNIVERSE - SIMULATED VOTES LEDGER
+-- The crowd simulator's virtual listeners (services/crowdSimulator.ts) vote like humans do:
+-- one vote per listener per round, in a ledger of their own. Replaces the
+-- box_rounds.simulated_votes counter from 014_box_rounds.sql.
+-- Human votes come first: once anyone real has voted in a round, only human votes decide it.
+-- The crowd decides a round nobody real voted in. box_round_tallies.votes is the deciding
+-- count, so advance_round (which ranks by it) is unchanged. With that rule in place a human
+-- vote counts once again (014 weighted it 10 to outvote the robots).
+
+-- ==========================================
+-- 1. LEDGER
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.simulated_votes (
+  round_id UUID NOT NULL REFERENCES public.box_rounds(id) ON DELETE CASCADE,
+  listener TEXT NOT NULL, -- virtual listener id, e.g. 'crowd-7'
+  song_id UUID NOT NULL REFERENCES public.songs(id) ON DELETE CASCADE,
+  taste TEXT NOT NULL, -- what the listener goes for, see CrowdTaste in types.ts
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (round_id, listener)
+);
+
+ALTER TABLE public.simulated_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Simulated votes are viewable by everyone." ON public.simulated_votes;
+CREATE POLICY "Simulated votes are viewable by everyone."
+  ON public.simulated_votes FOR SELECT
+  USING ( TRUE );
+
+-- Written only through cast_simulated_votes()
+
+-- ==========================================
+-- 2. TALLIES
+-- ==========================================
+
+CREATE OR REPLACE VIEW public.box_round_tallies AS
+WITH counted AS (
+  SELECT
+    r.id AS round_id,
+    c.song_id,
+    c.position,
+    (SELECT COALESCE(SUM(v.weight), 0) FROM public.votes v WHERE v.round_id = r.id AND v.song_id = c.song_id)::INTEGER AS human_votes,
+    (SELECT COUNT(*) FROM public.simulated_votes s WHERE s.round_id = r.id AND s.song_id = c.song_id)::INTEGER AS simulated_votes
+  FROM public.box_rounds r
+  CROSS JOIN LATERAL unnest(r.candidate_ids) WITH ORDINALITY AS c(song_id, position)
+)
+SELECT
+  round_id,
+  song_id,
+  position,
+  human_votes,
+  simulated_votes,
+  CASE WHEN SUM(human_votes) OVER (PARTITION BY round_id) > 0 THEN human_votes ELSE simulated_votes END AS votes
+FROM counted;
+
+ALTER TABLE public.box_rounds DROP COLUMN IF EXISTS simulated_votes;
+
+-- ==========================================
+-- 3. FUNCTIONS
+-- ==========================================
+
+-- One listener, one vote: the weight of 10 only existed to outvote robot bursts
+CREATE OR REPLACE FUNCTION public.cast_box_vote(p_round_id UUID, p_song_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  voter UUID := auth.uid();
+  inserted_id UUID;
+BEGIN
+  IF voter IS NULL THEN
+    RAISE EXCEPTION 'cast_box_vote: sign in to vote';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.box_rounds
+    WHERE id = p_round_id AND status = 'open' AND p_song_id = ANY(candidate_ids)
+  ) THEN
+    RAISE EXCEPTION 'cast_box_vote: round % is closed or % is not a candidate', p_round_id, p_song_id;
+  END IF;
+
+  INSERT INTO public.votes (user_id, song_id, vote_type, round_id)
+  VALUES (voter, p_song_id, 'box_choice', p_round_id)
+  ON CONFLICT (round_id, user_id) WHERE round_id IS NOT NULL DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  RETURN inserted_id IS NOT NULL;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.cast_simulated_votes(UUID, UUID, INTEGER);
+
+-- Records virtual listeners' votes. p_votes is [{listener, song_id, taste}]; a listener who
+-- already voted this round is skipped. Only the lease holder runs the crowd, so it's fenced
+-- like advance_round. Returns how many votes were recorded.
+CREATE OR REPLACE FUNCTION public.cast_simulated_votes(p_round_id UUID, p_votes JSONB, lease_token BIGINT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  recorded INTEGER;
+BEGIN
+  PERFORM 1 FROM public.broadcasts WHERE id = broadcast_id FOR UPDATE;
+  PERFORM public.assert_fencing_token(lease_token);
+
+  INSERT INTO public.simulated_votes (round_id, listener, song_id, taste)
+  SELECT r.id, vote ->> 'listener', (vote ->> 'song_id')::UUID, vote ->> 'taste'
+  FROM public.box_rounds r
+  CROSS JOIN jsonb_array_elements(p_votes) AS vote
+  WHERE r.id = p_round_id AND r.status = 'open' AND (vote ->> 'song_id')::UUID = ANY (r.candidate_ids)
+  ON CONFLICT (round_id, listener) DO NOTHING;
+
+  GET DIAGNOSTICS recorded = ROW_COUNT;
+  RETURN recorded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cast_simulated_votes(UUID, JSONB, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cast_simulated_votes(UUID, JSONB, BIGINT) TO authenticated, service_role;
+
+-- Live tallies for The Box
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'simulated_votes') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.simulated_votes;
+  END IF;
+END $$;
@@ -0,0 +1,13 @@
+-- 🎣 CLUB YOUNIVERSE - BOX PREVIEW HOOKS
+-- The Box previews each candidate for 10 seconds, cut at its hook (docs/SPECIFICATIONS.md).
+-- hook_offset_sec is where that snippet starts: the loudest 10 seconds of the track, found by
+-- the same analysis pass that measures replay_gain (services/loudness.ts), on upload or by
+-- scripts/backfill_replay_gain.ts. NULL = not analyzed yet, previewed from the start.
+
+ALTER TABLE public.songs
+ADD COLUMN IF NOT EXISTS hook_offset_sec REAL;
+
+-- The backfill walks the songs missing either measurement
+DROP INDEX IF EXISTS public.idx_songs_replay_gain_missing;
+CREATE INDEX IF NOT EXISTS idx_songs_analysis_missing ON public.songs (created_at)
+WHERE replay_gain IS NULL OR hook_offset_sec IS NULL;
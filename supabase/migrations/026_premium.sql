@@ -0,0 +1,471 @@
+-- 💎 CLUB YOUNIVERSE - PREMIUM LISTENERS
+-- profiles.is_premium unlocks the perks in services/entitlements.ts. The ones other listeners
+-- feel are enforced here, mirroring ENTITLEMENTS.premium (keep them in sync):
+--   - voteWeight 2: a premium listener's Box vote counts twice (cast_box_vote)
+--   - priorityDebut: a premium listener's debut plays before other waiting debuts (advance_round)
+-- The rest (previews, chat badge, skip-veto tokens) are client perks.
+--
+-- Premium is paid for, never edited: is_premium only changes inside grant_premium(), which
+-- records the payment's receipt. 001's "Users can update own profile." covers every column,
+-- so without the guard below anyone could make themselves premium. grant_premium() is for the
+-- service role: a payment provider's webhook, or `youniverse users premium` for the stub.
+
+-- ==========================================
+-- 1. RECEIPTS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.premium_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  provider TEXT NOT NULL, -- 'stub' until a real provider is wired in (services/payments.ts)
+  reference TEXT NOT NULL, -- the provider's payment id
+  plan TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, reference) -- a retried webhook doesn't pay twice
+);
+
+CREATE INDEX IF NOT EXISTS idx_premium_receipts_user ON public.premium_receipts (user_id, created_at DESC);
+
+ALTER TABLE public.premium_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own receipts." ON public.premium_receipts;
+CREATE POLICY "Users can view own receipts."
+  ON public.premium_receipts FOR SELECT
+  USING ( (select auth.uid()) = user_id );
+
+-- Written only through grant_premium()
+
+-- ==========================================
+-- 2. GUARD
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION public.guard_premium_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  was_premium BOOLEAN := FALSE; -- a new profile starts free
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    was_premium := COALESCE(OLD.is_premium, FALSE);
+  END IF;
+
+  IF COALESCE(NEW.is_premium, FALSE) IS DISTINCT FROM was_premium
+     AND COALESCE(current_setting('club.premium_write', TRUE), '') <> 'on' THEN
+    RAISE EXCEPTION 'premium_locked: premium comes with a payment, use grant_premium()';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_premium_flag ON public.profiles;
+CREATE TRIGGER guard_premium_flag
+  BEFORE INSERT OR UPDATE OF is_premium ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_premium_flag();
+
+-- ==========================================
+-- 3. FUNCTIONS
+-- ==========================================
+
+-- Records a payment and makes its listener premium. Idempotent per (provider, reference):
+-- a receipt seen before changes nothing. Returns the listener's profile.
+CREATE OR REPLACE FUNCTION public.grant_premium(
+  p_user_id UUID,
+  p_provider TEXT,
+  p_reference TEXT,
+  p_plan TEXT,
+  p_amount_cents INTEGER
+)
+RETURNS public.profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile public.profiles;
+BEGIN
+  SELECT * INTO profile FROM public.profiles WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'grant_premium: no profile for %', p_user_id;
+  END IF;
+
+  INSERT INTO public.premium_receipts (user_id, provider, reference, plan, amount_cents)
+  VALUES (p_user_id, p_provider, p_reference, p_plan, p_amount_cents)
+  ON CONFLICT (provider, reference) DO NOTHING;
+
+  PERFORM set_config('club.premium_write', 'on', TRUE);
+  UPDATE public.profiles
+  SET is_premium = TRUE,
+      updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING * INTO profile;
+  PERFORM set_config('club.premium_write', 'off', TRUE);
+
+  RETURN profile;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_premium(UUID, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.grant_premium(UUID, TEXT, TEXT, TEXT, INTEGER) TO service_role;
+
+-- As in 024, with the vote weighted by the voter's tier (ENTITLEMENTS.voteWeight)
+CREATE OR REPLACE FUNCTION public.cast_box_vote(p_round_id UUID, p_song_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  voter UUID := auth.uid();
+  vote_weight INTEGER;
+  inserted_id UUID;
+BEGIN
+  IF voter IS NULL THEN
+    RAISE EXCEPTION 'cast_box_vote: sign in to vote';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.box_rounds
+    WHERE id = p_round_id AND status = 'open' AND p_song_id = ANY(candidate_ids)
+  ) THEN
+    RAISE EXCEPTION 'cast_box_vote: round % is closed or % is not a candidate', p_round_id, p_song_id;
+  END IF;
+
+  SELECT CASE WHEN COALESCE(is_premium, FALSE) THEN 2 ELSE 1 END INTO vote_weight
+  FROM public.profiles WHERE user_id = voter;
+
+  INSERT INTO public.votes (user_id, song_id, vote_type, round_id, weight)
+  VALUES (voter, p_song_id, 'box_choice', p_round_id, COALESCE(vote_weight, 1))
+  ON CONFLICT (round_id, user_id) WHERE round_id IS NOT NULL DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  RETURN inserted_id IS NOT NULL;
+END;
+$$;
+
+-- As in 021, with step 4 putting premium listeners' debuts first (ENTITLEMENTS.priorityDebut)
+CREATE OR REPLACE FUNCTION public.advance_round(
+  expected_song_id UUID,
+  resolve_box BOOLEAN DEFAULT TRUE,
+  rules JSONB DEFAULT '{}'::JSONB,
+  entrants JSONB DEFAULT '[]'::JSONB,
+  lease_token BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  box_size CONSTANT INTEGER := COALESCE((rules ->> 'boxSize')::INTEGER, 2);
+  max_entrants CONSTANT INTEGER := COALESCE((rules ->> 'candidatesPerRound')::INTEGER, box_size);
+  starting_stars CONSTANT INTEGER := COALESCE((rules ->> 'startingStars')::INTEGER, 5);
+  max_stars CONSTANT INTEGER := COALESCE((rules ->> 'maxStars')::INTEGER, 10);
+  star_gain CONSTANT INTEGER := COALESCE((rules ->> 'starGain')::INTEGER, 1);
+  star_loss CONSTANT INTEGER := COALESCE((rules ->> 'starLoss')::INTEGER, 1);
+  dsw_threshold CONSTANT INTEGER := COALESCE((rules ->> 'dswThreshold')::INTEGER, 0);
+  max_losses CONSTANT INTEGER := COALESCE((rules ->> 'maxRoundsWithoutWin')::INTEGER, 3);
+  debut_pass CONSTANT NUMERIC := COALESCE((rules ->> 'debutPassRating')::NUMERIC, 5);
+  current_id UUID;
+  current_play_id UUID;
+  open_round_id UUID;
+  winner public.songs;
+  losers JSONB := '[]'::JSONB;
+  loser public.songs;
+  retired public.songs;
+  promoted public.songs;
+  new_stars INTEGER;
+  new_dsw BOOLEAN;
+  new_losses INTEGER;
+  needed INTEGER;
+  selection JSONB := '{}'::JSONB;
+  debut JSONB;
+  dsw JSONB;
+  debut_rating NUMERIC;
+  rating_count INTEGER;
+  rating_sum INTEGER;
+  rating JSONB;
+BEGIN
+  -- Serialize concurrent leaders on the broadcast row
+  SELECT current_song_id, play_id INTO current_id, current_play_id
+  FROM public.broadcasts
+  WHERE id = broadcast_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'advance_round: broadcast row % is missing', broadcast_id;
+  END IF;
+
+  PERFORM public.assert_fencing_token(lease_token);
+
+  IF current_id IS DISTINCT FROM expected_song_id THEN
+    SELECT * INTO promoted FROM public.songs WHERE id = current_id;
+    RETURN jsonb_build_object(
+      'advanced', FALSE,
+      'now_playing', CASE WHEN promoted.id IS NULL THEN NULL ELSE to_jsonb(promoted) END,
+      'winner', NULL,
+      'losers', '[]'::JSONB,
+      'debut', NULL,
+      'dsw', NULL,
+      'rating', NULL
+    );
+  END IF;
+
+  -- 1. Resolve The Box (unless a debut or a DSW farewell takes the next slot)
+  IF resolve_box AND NOT EXISTS (
+    SELECT 1 FROM public.songs
+    WHERE status = 'debut'
+       OR (status = 'pool' AND is_dsw AND dsw_farewell_at IS NOT NULL)
+  ) THEN
+    open_round_id := public.ensure_box_round();
+
+    -- Most votes wins; ties go to the earlier candidate
+    SELECT s.* INTO winner
+    FROM public.box_round_tallies t
+    JOIN public.songs s ON s.id = t.song_id AND s.status = 'in_box'
+    WHERE t.round_id = open_round_id
+    ORDER BY t.votes DESC, t.position
+    LIMIT 1
+    FOR UPDATE OF s;
+
+    IF winner.id IS NOT NULL THEN
+      UPDATE public.songs
+      SET status = 'next_play',
+          stars = CASE WHEN is_dsw THEN 0 ELSE LEAST(max_stars, COALESCE(stars, starting_stars) + star_gain) END,
+          box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+          box_rounds_lost = 0,
+          upvotes = 0
+      WHERE id = winner.id
+      RETURNING * INTO winner;
+
+      FOR loser IN
+        SELECT * FROM public.songs WHERE status = 'in_box' FOR UPDATE
+      LOOP
+        new_losses := COALESCE(loser.box_rounds_lost, 0) + 1;
+
+        IF new_losses < max_losses THEN
+          -- Still a challenger: stays in The Box for the next round
+          UPDATE public.songs
+          SET box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+              box_rounds_lost = new_losses,
+              upvotes = 0
+          WHERE id = loser.id
+          RETURNING * INTO loser;
+        ELSE
+          -- Out of chances: star penalty and back to the pool
+          new_stars := GREATEST(0, LEAST(max_stars, COALESCE(loser.stars, starting_stars) - star_loss));
+          new_dsw := COALESCE(loser.is_dsw, FALSE) OR new_stars <= dsw_threshold;
+
+          UPDATE public.songs
+          SET status = 'pool',
+              stars = CASE WHEN new_dsw THEN 0 ELSE new_stars END,
+              is_dsw = new_dsw,
+              dsw_announced = CASE WHEN new_dsw AND NOT COALESCE(is_dsw, FALSE) THEN FALSE ELSE dsw_announced END,
+              box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+              box_rounds_lost = 0,
+              upvotes = 0
+          WHERE id = loser.id
+          RETURNING * INTO loser;
+        END IF;
+
+        losers := losers || to_jsonb(loser);
+      END LOOP;
+
+      UPDATE public.box_rounds
+      SET status = 'closed', winner_id = winner.id, closed_at = NOW()
+      WHERE id = open_round_id;
+    END IF;
+  END IF;
+
+  -- 2. Refill The Box (ranked entrants first, then whoever has waited longest)
+  SELECT LEAST(box_size - COUNT(*), max_entrants) INTO needed FROM public.songs WHERE status = 'in_box';
+
+  IF needed > 0 THEN
+    WITH candidates AS (
+      SELECT s.id, 0 AS priority, e.rank::NUMERIC AS rank,
+             e.entrant - 'songId' AS why
+      FROM jsonb_array_elements(entrants) WITH ORDINALITY AS e(entrant, rank)
+      JOIN public.songs s ON s.id = (e.entrant ->> 'songId')::UUID
+      WHERE s.status IN ('pool', 'review') AND NOT COALESCE(s.is_dsw, FALSE)
+      UNION ALL
+      SELECT s.id, 1 AS priority, EXTRACT(EPOCH FROM COALESCE(s.last_played_at, '-infinity'::TIMESTAMPTZ)) AS rank,
+             jsonb_build_object('strategy', 'fallback', 'score', 0, 'reason', 'longest since last play')
+      FROM public.songs s
+      WHERE s.status IN ('pool', 'review') AND NOT COALESCE(s.is_dsw, FALSE)
+    ),
+    picked AS (
+      SELECT DISTINCT ON (id) id, priority, rank, why
+      FROM candidates
+      ORDER BY id, priority
+    ),
+    ranked AS (
+      SELECT id, why FROM picked
+      ORDER BY priority, rank
+      LIMIT needed
+    ),
+    entered AS (
+      UPDATE public.songs s
+      SET status = 'in_box',
+          upvotes = 0,
+          box_rounds_lost = 0,
+          box_appearance_count = COALESCE(s.box_appearance_count, 0) + 1
+      FROM ranked
+      WHERE s.id = ranked.id
+      RETURNING s.id, ranked.why
+    )
+    SELECT COALESCE(jsonb_object_agg(id, why), '{}'::JSONB) INTO selection FROM entered;
+  END IF;
+
+  PERFORM public.ensure_box_round(selection);
+
+  -- 3. Retire whatever is on air (normally just expected_song_id)
+  FOR retired IN
+    SELECT * FROM public.songs WHERE status = 'now_playing' FOR UPDATE
+  LOOP
+    -- Only the play that just ended counts; a stray now_playing row has no ratings
+    SELECT COUNT(*), COALESCE(SUM(stars), 0) INTO rating_count, rating_sum
+    FROM public.song_ratings
+    WHERE play_id = current_play_id AND song_id = retired.id;
+
+    new_stars := COALESCE(retired.stars, starting_stars);
+    IF rating_count > 0 THEN
+      new_stars := GREATEST(0, LEAST(max_stars,
+        new_stars + (rating_sum - rating_count * new_stars)));
+    END IF;
+
+    IF retired.id = expected_song_id THEN
+      rating := jsonb_build_object(
+        'play_id', current_play_id,
+        'ratings', rating_count,
+        'average', CASE WHEN rating_count > 0 THEN ROUND(rating_sum::NUMERIC / rating_count, 1) END,
+        'delta', new_stars - COALESCE(retired.stars, starting_stars)
+      );
+    END IF;
+
+    IF COALESCE(retired.is_debut, FALSE) THEN
+      -- Trial by Fire: judged on the average live rating alone (no votes = benefit of the doubt)
+      debut_rating := CASE WHEN rating_count > 0
+        THEN rating_sum::NUMERIC / rating_count
+        ELSE starting_stars END;
+
+      UPDATE public.songs
+      SET status = CASE WHEN debut_rating >= debut_pass THEN 'pool' ELSE 'graveyard' END,
+          stars = CASE WHEN debut_rating >= debut_pass THEN LEAST(max_stars, ROUND(debut_rating)::INTEGER) ELSE 0 END,
+          final_stars = CASE WHEN debut_rating >= debut_pass THEN final_stars ELSE ROUND(debut_rating)::INTEGER END,
+          is_dsw = FALSE,
+          is_debut = FALSE
+      WHERE id = retired.id
+      RETURNING * INTO retired;
+
+      IF debut_rating >= debut_pass THEN
+        UPDATE public.profiles
+        SET is_artist = TRUE, updated_at = NOW()
+        WHERE user_id = retired.uploader_id;
+      END IF;
+
+      debut := jsonb_build_object(
+        'song', to_jsonb(retired),
+        'passed', debut_rating >= debut_pass,
+        'rating', ROUND(debut_rating, 1)
+      );
+    ELSIF COALESCE(retired.is_dsw, FALSE) THEN
+      -- Farewell play: climbing above the threshold is a pardon, otherwise the graveyard
+      UPDATE public.songs
+      SET status = CASE WHEN new_stars > dsw_threshold THEN 'pool' ELSE 'graveyard' END,
+          stars = CASE WHEN new_stars > dsw_threshold THEN new_stars ELSE 0 END,
+          is_dsw = new_stars <= dsw_threshold,
+          final_stars = CASE WHEN new_stars > dsw_threshold THEN final_stars ELSE new_stars END,
+          dsw_announced = new_stars <= dsw_threshold, -- a pardoned song is announced afresh if it falls again
+          dsw_farewell_at = NULL,
+          resurrected_at = NULL
+      WHERE id = retired.id
+      RETURNING * INTO retired;
+
+      dsw := jsonb_build_object(
+        'song', to_jsonb(retired),
+        'pardoned', retired.status = 'pool'
+      );
+    ELSE
+      UPDATE public.songs
+      SET status = 'pool',
+          stars = CASE WHEN new_stars > dsw_threshold THEN new_stars ELSE 0 END,
+          is_dsw = new_stars <= dsw_threshold,
+          dsw_announced = CASE WHEN new_stars <= dsw_threshold THEN FALSE ELSE dsw_announced END
+      WHERE id = retired.id;
+    END IF;
+
+    UPDATE public.songs
+    SET last_played_at = NOW(),
+        play_count = COALESCE(play_count, 0) + CASE WHEN id = expected_song_id THEN 1 ELSE 0 END
+    WHERE id = retired.id;
+  END LOOP;
+
+  -- 4. Promote the oldest waiting debut (premium uploaders' first), else a scheduled DSW
+  --    farewell, else next_play, else a random pool song as a failsafe
+  SELECT * INTO promoted
+  FROM public.songs s
+  WHERE s.status = 'debut'
+  ORDER BY COALESCE((SELECT p.is_premium FROM public.profiles p WHERE p.user_id = s.uploader_id), FALSE) DESC,
+           s.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'pool' AND is_dsw AND dsw_farewell_at IS NOT NULL
+    ORDER BY dsw_farewell_at
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'next_play'
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'pool'
+    ORDER BY (id = expected_song_id) NULLS FIRST, random() -- replay the last song only as a last resort
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NOT NULL THEN
+    UPDATE public.songs
+    SET status = 'now_playing',
+        last_played_at = NOW()
+    WHERE id = promoted.id
+    RETURNING * INTO promoted;
+  END IF;
+
+  -- 5. Point the broadcast at the new song
+  UPDATE public.broadcasts
+  SET current_song_id = promoted.id,
+      next_song_id = NULL,
+      song_started_at = CASE WHEN promoted.id IS NULL THEN NULL ELSE NOW() END,
+      updated_at = NOW(),
+      writer_token = lease_token
+  WHERE id = broadcast_id;
+
+  RETURN jsonb_build_object(
+    'advanced', TRUE,
+    'now_playing', CASE WHEN promoted.id IS NULL THEN NULL ELSE to_jsonb(promoted) END,
+    'winner', CASE WHEN winner.id IS NULL THEN NULL ELSE to_jsonb(winner) END,
+    'losers', losers,
+    'debut', debut,
+    'dsw', dsw,
+    'rating', rating
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_round(UUID, BOOLEAN, JSONB, JSONB, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.advance_round(UUID, BOOLEAN, JSONB, JSONB, BIGINT) TO authenticated, service_role;
@@ -0,0 +1,503 @@
+-- 👎 CLUB YOUNIVERSE - SKIP PETITIONS AND VETOES
+-- Listeners sign a petition to skip the play on air (NowPlay): one signature per listener per
+-- play, in public.skip_votes. The lease holder counts the signatures of the listeners tuned in
+-- (club-presence, which the database can't see) and once they reach STATION_RULES.vetoPercent
+-- of them it records the veto (veto_play) and cuts the play. A premium listener can spend a
+-- skip-veto token instead: their signature alone vetoes the play (ENTITLEMENTS.skipVetoesPerDay,
+-- one per 24 hours, mirrored below).
+-- advance_round retires a vetoed play with vetoStarPenalty stars off what its ratings earned,
+-- mirroring resolveRetirement / resolveDebut in services/radioStateMachine.ts.
+-- Builds on 017 (plays and ratings) and 026 (premium, the last advance_round).
+
+-- ==========================================
+-- 1. LEDGERS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.skip_votes (
+  play_id UUID NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  song_id UUID REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  token_used_at TIMESTAMPTZ, -- set when the signature spent a skip-veto token
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (play_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skip_votes_tokens ON public.skip_votes (user_id, token_used_at)
+WHERE token_used_at IS NOT NULL;
+
+ALTER TABLE public.skip_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Skips are viewable by everyone." ON public.skip_votes;
+CREATE POLICY "Skips are viewable by everyone."
+  ON public.skip_votes FOR SELECT
+  USING ( TRUE );
+
+-- Signed only through cast_skip_vote()
+
+-- One row per vetoed play, with the count that carried it
+CREATE TABLE IF NOT EXISTS public.play_vetoes (
+  play_id UUID PRIMARY KEY,
+  song_id UUID REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  signatures INTEGER NOT NULL,
+  listeners INTEGER NOT NULL, -- tuned in when the veto passed
+  by_token BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.play_vetoes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Vetoes are viewable by everyone." ON public.play_vetoes;
+CREATE POLICY "Vetoes are viewable by everyone."
+  ON public.play_vetoes FOR SELECT
+  USING ( TRUE );
+
+-- Written only through veto_play()
+
+-- ==========================================
+-- 2. FUNCTIONS
+-- ==========================================
+
+-- Signs the caller's skip of the play on air. With p_use_token a premium listener spends a
+-- skip-veto token on it (also on a skip they already signed). Returns false if there was
+-- nothing new to record. Fails once the play has ended, like rate_now_playing.
+CREATE OR REPLACE FUNCTION public.cast_skip_vote(p_play_id UUID, p_use_token BOOLEAN DEFAULT FALSE)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  token_window CONSTANT INTERVAL := INTERVAL '24 hours';
+  skipper UUID := auth.uid();
+  on_air UUID;
+  tokens INTEGER;
+  tokens_used INTEGER;
+  recorded BOOLEAN;
+BEGIN
+  IF skipper IS NULL THEN
+    RAISE EXCEPTION 'cast_skip_vote: sign in to skip';
+  END IF;
+
+  -- Waits out a running advance_round, then sees the play that is really on air
+  SELECT current_song_id INTO on_air
+  FROM public.broadcasts
+  WHERE id = broadcast_id AND play_id = p_play_id
+  FOR SHARE;
+
+  IF on_air IS NULL THEN
+    RAISE EXCEPTION 'skip_closed: play % has ended', p_play_id;
+  END IF;
+
+  IF p_use_token THEN
+    SELECT CASE WHEN COALESCE(is_premium, FALSE) THEN 1 ELSE 0 END INTO tokens
+    FROM public.profiles WHERE user_id = skipper;
+
+    SELECT COUNT(*) INTO tokens_used
+    FROM public.skip_votes
+    WHERE user_id = skipper AND token_used_at > NOW() - token_window;
+
+    IF tokens_used >= COALESCE(tokens, 0) THEN
+      RAISE EXCEPTION 'skip_no_token: no skip-veto token left today';
+    END IF;
+  END IF;
+
+  INSERT INTO public.skip_votes (play_id, user_id, song_id, token_used_at)
+  VALUES (p_play_id, skipper, on_air, CASE WHEN p_use_token THEN NOW() END)
+  ON CONFLICT (play_id, user_id) DO UPDATE
+  SET token_used_at = EXCLUDED.token_used_at
+  WHERE skip_votes.token_used_at IS NULL AND EXCLUDED.token_used_at IS NOT NULL
+  RETURNING TRUE INTO recorded;
+
+  RETURN COALESCE(recorded, FALSE);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cast_skip_vote(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cast_skip_vote(UUID, BOOLEAN) TO authenticated;
+
+-- Records that the petition against the play on air passed. Fenced like advance_round: the
+-- lease holder counted the signatures against the listeners tuned in. Returns false if the
+-- play is no longer on air or was already vetoed.
+CREATE OR REPLACE FUNCTION public.veto_play(
+  p_play_id UUID,
+  p_signatures INTEGER,
+  p_listeners INTEGER,
+  p_by_token BOOLEAN DEFAULT FALSE,
+  lease_token BIGINT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  on_air UUID;
+BEGIN
+  SELECT current_song_id INTO on_air
+  FROM public.broadcasts
+  WHERE id = broadcast_id AND play_id = p_play_id
+  FOR UPDATE;
+  PERFORM public.assert_fencing_token(lease_token);
+
+  IF on_air IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.play_vetoes (play_id, song_id, signatures, listeners, by_token)
+  VALUES (p_play_id, on_air, p_signatures, p_listeners, p_by_token)
+  ON CONFLICT (play_id) DO NOTHING;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.veto_play(UUID, INTEGER, INTEGER, BOOLEAN, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.veto_play(UUID, INTEGER, INTEGER, BOOLEAN, BIGINT) TO authenticated, service_role;
+
+-- Live petitions for the lease holder
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'skip_votes') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.skip_votes;
+  END IF;
+END $$;
+
+-- As in 026, with step 3 taking vetoStarPenalty off a vetoed play
+CREATE OR REPLACE FUNCTION public.advance_round(
+  expected_song_id UUID,
+  resolve_box BOOLEAN DEFAULT TRUE,
+  rules JSONB DEFAULT '{}'::JSONB,
+  entrants JSONB DEFAULT '[]'::JSONB,
+  lease_token BIGINT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  box_size CONSTANT INTEGER := COALESCE((rules ->> 'boxSize')::INTEGER, 2);
+  max_entrants CONSTANT INTEGER := COALESCE((rules ->> 'candidatesPerRound')::INTEGER, box_size);
+  starting_stars CONSTANT INTEGER := COALESCE((rules ->> 'startingStars')::INTEGER, 5);
+  max_stars CONSTANT INTEGER := COALESCE((rules ->> 'maxStars')::INTEGER, 10);
+  star_gain CONSTANT INTEGER := COALESCE((rules ->> 'starGain')::INTEGER, 1);
+  star_loss CONSTANT INTEGER := COALESCE((rules ->> 'starLoss')::INTEGER, 1);
+  dsw_threshold CONSTANT INTEGER := COALESCE((rules ->> 'dswThreshold')::INTEGER, 0);
+  max_losses CONSTANT INTEGER := COALESCE((rules ->> 'maxRoundsWithoutWin')::INTEGER, 3);
+  debut_pass CONSTANT NUMERIC := COALESCE((rules ->> 'debutPassRating')::NUMERIC, 5);
+  veto_penalty CONSTANT INTEGER := COALESCE((rules ->> 'vetoStarPenalty')::INTEGER, 2);
+  current_id UUID;
+  current_play_id UUID;
+  open_round_id UUID;
+  winner public.songs;
+  losers JSONB := '[]'::JSONB;
+  loser public.songs;
+  retired public.songs;
+  promoted public.songs;
+  new_stars INTEGER;
+  new_dsw BOOLEAN;
+  new_losses INTEGER;
+  needed INTEGER;
+  selection JSONB := '{}'::JSONB;
+  debut JSONB;
+  dsw JSONB;
+  debut_rating NUMERIC;
+  rating_count INTEGER;
+  rating_sum INTEGER;
+  vetoed BOOLEAN;
+  rating JSONB;
+BEGIN
+  -- Serialize concurrent leaders on the broadcast row
+  SELECT current_song_id, play_id INTO current_id, current_play_id
+  FROM public.broadcasts
+  WHERE id = broadcast_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'advance_round: broadcast row % is missing', broadcast_id;
+  END IF;
+
+  PERFORM public.assert_fencing_token(lease_token);
+
+  IF current_id IS DISTINCT FROM expected_song_id THEN
+    SELECT * INTO promoted FROM public.songs WHERE id = current_id;
+    RETURN jsonb_build_object(
+      'advanced', FALSE,
+      'now_playing', CASE WHEN promoted.id IS NULL THEN NULL ELSE to_jsonb(promoted) END,
+      'winner', NULL,
+      'losers', '[]'::JSONB,
+      'debut', NULL,
+      'dsw', NULL,
+      'rating', NULL
+    );
+  END IF;
+
+  -- 1. Resolve The Box (unless a debut or a DSW farewell takes the next slot)
+  IF resolve_box AND NOT EXISTS (
+    SELECT 1 FROM public.songs
+    WHERE status = 'debut'
+       OR (status = 'pool' AND is_dsw AND dsw_farewell_at IS NOT NULL)
+  ) THEN
+    open_round_id := public.ensure_box_round();
+
+    -- Most votes wins; ties go to the earlier candidate
+    SELECT s.* INTO winner
+    FROM public.box_round_tallies t
+    JOIN public.songs s ON s.id = t.song_id AND s.status = 'in_box'
+    WHERE t.round_id = open_round_id
+    ORDER BY t.votes DESC, t.position
+    LIMIT 1
+    FOR UPDATE OF s;
+
+    IF winner.id IS NOT NULL THEN
+      UPDATE public.songs
+      SET status = 'next_play',
+          stars = CASE WHEN is_dsw THEN 0 ELSE LEAST(max_stars, COALESCE(stars, starting_stars) + star_gain) END,
+          box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+          box_rounds_lost = 0,
+          upvotes = 0
+      WHERE id = winner.id
+      RETURNING * INTO winner;
+
+      FOR loser IN
+        SELECT * FROM public.songs WHERE status = 'in_box' FOR UPDATE
+      LOOP
+        new_losses := COALESCE(loser.box_rounds_lost, 0) + 1;
+
+        IF new_losses < max_losses THEN
+          -- Still a challenger: stays in The Box for the next round
+          UPDATE public.songs
+          SET box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+              box_rounds_lost = new_losses,
+              upvotes = 0
+          WHERE id = loser.id
+          RETURNING * INTO loser;
+        ELSE
+          -- Out of chances: star penalty and back to the pool
+          new_stars := GREATEST(0, LEAST(max_stars, COALESCE(loser.stars, starting_stars) - star_loss));
+          new_dsw := COALESCE(loser.is_dsw, FALSE) OR new_stars <= dsw_threshold;
+
+          UPDATE public.songs
+          SET status = 'pool',
+              stars = CASE WHEN new_dsw THEN 0 ELSE new_stars END,
+              is_dsw = new_dsw,
+              dsw_announced = CASE WHEN new_dsw AND NOT COALESCE(is_dsw, FALSE) THEN FALSE ELSE dsw_announced END,
+              box_rounds_seen = COALESCE(box_rounds_seen, 0) + 1,
+              box_rounds_lost = 0,
+              upvotes = 0
+          WHERE id = loser.id
+          RETURNING * INTO loser;
+        END IF;
+
+        losers := losers || to_jsonb(loser);
+      END LOOP;
+
+      UPDATE public.box_rounds
+      SET status = 'closed', winner_id = winner.id, closed_at = NOW()
+      WHERE id = open_round_id;
+    END IF;
+  END IF;
+
+  -- 2. Refill The Box (ranked entrants first, then whoever has waited longest)
+  SELECT LEAST(box_size - COUNT(*), max_entrants) INTO needed FROM public.songs WHERE status = 'in_box';
+
+  IF needed > 0 THEN
+    WITH candidates AS (
+      SELECT s.id, 0 AS priority, e.rank::NUMERIC AS rank,
+             e.entrant - 'songId' AS why
+      FROM jsonb_array_elements(entrants) WITH ORDINALITY AS e(entrant, rank)
+      JOIN public.songs s ON s.id = (e.entrant ->> 'songId')::UUID
+      WHERE s.status IN ('pool', 'review') AND NOT COALESCE(s.is_dsw, FALSE)
+      UNION ALL
+      SELECT s.id, 1 AS priority, EXTRACT(EPOCH FROM COALESCE(s.last_played_at, '-infinity'::TIMESTAMPTZ)) AS rank,
+             jsonb_build_object('strategy', 'fallback', 'score', 0, 'reason', 'longest since last play')
+      FROM public.songs s
+      WHERE s.status IN ('pool', 'review') AND NOT COALESCE(s.is_dsw, FALSE)
+    ),
+    picked AS (
+      SELECT DISTINCT ON (id) id, priority, rank, why
+      FROM candidates
+      ORDER BY id, priority
+    ),
+    ranked AS (
+      SELECT id, why FROM picked
+      ORDER BY priority, rank
+      LIMIT needed
+    ),
+    entered AS (
+      UPDATE public.songs s
+      SET status = 'in_box',
+          upvotes = 0,
+          box_rounds_lost = 0,
+          box_appearance_count = COALESCE(s.box_appearance_count, 0) + 1
+      FROM ranked
+      WHERE s.id = ranked.id
+      RETURNING s.id, ranked.why
+    )
+    SELECT COALESCE(jsonb_object_agg(id, why), '{}'::JSONB) INTO selection FROM entered;
+  END IF;
+
+  PERFORM public.ensure_box_round(selection);
+
+  -- 3. Retire whatever is on air (normally just expected_song_id)
+  FOR retired IN
+    SELECT * FROM public.songs WHERE status = 'now_playing' FOR UPDATE
+  LOOP
+    -- Only the play that just ended counts; a stray now_playing row has no ratings
+    SELECT COUNT(*), COALESCE(SUM(stars), 0) INTO rating_count, rating_sum
+    FROM public.song_ratings
+    WHERE play_id = current_play_id AND song_id = retired.id;
+
+    new_stars := COALESCE(retired.stars, starting_stars);
+    IF rating_count > 0 THEN
+      new_stars := GREATEST(0, LEAST(max_stars,
+        new_stars + (rating_sum - rating_count * new_stars)));
+    END IF;
+
+    -- Vetoed: the penalty comes off whatever the ratings earned
+    vetoed := EXISTS (SELECT 1 FROM public.play_vetoes WHERE play_id = current_play_id AND song_id = retired.id);
+    IF vetoed THEN
+      new_stars := GREATEST(0, new_stars - veto_penalty);
+    END IF;
+
+    IF retired.id = expected_song_id THEN
+      rating := jsonb_build_object(
+        'play_id', current_play_id,
+        'ratings', rating_count,
+        'average', CASE WHEN rating_count > 0 THEN ROUND(rating_sum::NUMERIC / rating_count, 1) END,
+        'delta', new_stars - COALESCE(retired.stars, starting_stars),
+        'vetoed', vetoed
+      );
+    END IF;
+
+    IF COALESCE(retired.is_debut, FALSE) THEN
+      -- Trial by Fire: judged on the average live rating (no votes = benefit of the doubt), less a veto's penalty
+      debut_rating := CASE WHEN rating_count > 0
+        THEN rating_sum::NUMERIC / rating_count
+        ELSE starting_stars END;
+      IF vetoed THEN
+        debut_rating := GREATEST(0, debut_rating - veto_penalty);
+      END IF;
+
+      UPDATE public.songs
+      SET status = CASE WHEN debut_rating >= debut_pass THEN 'pool' ELSE 'graveyard' END,
+          stars = CASE WHEN debut_rating >= debut_pass THEN LEAST(max_stars, ROUND(debut_rating)::INTEGER) ELSE 0 END,
+          final_stars = CASE WHEN debut_rating >= debut_pass THEN final_stars ELSE ROUND(debut_rating)::INTEGER END,
+          is_dsw = FALSE,
+          is_debut = FALSE
+      WHERE id = retired.id
+      RETURNING * INTO retired;
+
+      IF debut_rating >= debut_pass THEN
+        UPDATE public.profiles
+        SET is_artist = TRUE, updated_at = NOW()
+        WHERE user_id = retired.uploader_id;
+      END IF;
+
+      debut := jsonb_build_object(
+        'song', to_jsonb(retired),
+        'passed', debut_rating >= debut_pass,
+        'rating', ROUND(debut_rating, 1)
+      );
+    ELSIF COALESCE(retired.is_dsw, FALSE) THEN
+      -- Farewell play: climbing above the threshold is a pardon, otherwise the graveyard
+      UPDATE public.songs
+      SET status = CASE WHEN new_stars > dsw_threshold THEN 'pool' ELSE 'graveyard' END,
+          stars = CASE WHEN new_stars > dsw_threshold THEN new_stars ELSE 0 END,
+          is_dsw = new_stars <= dsw_threshold,
+          final_stars = CASE WHEN new_stars > dsw_threshold THEN final_stars ELSE new_stars END,
+          dsw_announced = new_stars <= dsw_threshold, -- a pardoned song is announced afresh if it falls again
+          dsw_farewell_at = NULL,
+          resurrected_at = NULL
+      WHERE id = retired.id
+      RETURNING * INTO retired;
+
+      dsw := jsonb_build_object(
+        'song', to_jsonb(retired),
+        'pardoned', retired.status = 'pool'
+      );
+    ELSE
+      UPDATE public.songs
+      SET status = 'pool',
+          stars = CASE WHEN new_stars > dsw_threshold THEN new_stars ELSE 0 END,
+          is_dsw = new_stars <= dsw_threshold,
+          dsw_announced = CASE WHEN new_stars <= dsw_threshold THEN FALSE ELSE dsw_announced END
+      WHERE id = retired.id;
+    END IF;
+
+    UPDATE public.songs
+    SET last_played_at = NOW(),
+        play_count = COALESCE(play_count, 0) + CASE WHEN id = expected_song_id THEN 1 ELSE 0 END
+    WHERE id = retired.id;
+  END LOOP;
+
+  -- 4. Promote the oldest waiting debut (premium uploaders' first), else a scheduled DSW
+  --    farewell, else next_play, else a random pool song as a failsafe
+  SELECT * INTO promoted
+  FROM public.songs s
+  WHERE s.status = 'debut'
+  ORDER BY COALESCE((SELECT p.is_premium FROM public.profiles p WHERE p.user_id = s.uploader_id), FALSE) DESC,
+           s.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'pool' AND is_dsw AND dsw_farewell_at IS NOT NULL
+    ORDER BY dsw_farewell_at
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'next_play'
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NULL THEN
+    SELECT * INTO promoted
+    FROM public.songs
+    WHERE status = 'pool'
+    ORDER BY (id = expected_song_id) NULLS FIRST, random() -- replay the last song only as a last resort
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF promoted.id IS NOT NULL THEN
+    UPDATE public.songs
+    SET status = 'now_playing',
+        last_played_at = NOW()
+    WHERE id = promoted.id
+    RETURNING * INTO promoted;
+  END IF;
+
+  -- 5. Point the broadcast at the new song
+  UPDATE public.broadcasts
+  SET current_song_id = promoted.id,
+      next_song_id = NULL,
+      song_started_at = CASE WHEN promoted.id IS NULL THEN NULL ELSE NOW() END,
+      updated_at = NOW(),
+      writer_token = lease_token
+  WHERE id = broadcast_id;
+
+  RETURN jsonb_build_object(
+    'advanced', TRUE,
+    'now_playing', CASE WHEN promoted.id IS NULL THEN NULL ELSE to_jsonb(promoted) END,
+    'winner', CASE WHEN winner.id IS NULL THEN NULL ELSE to_jsonb(winner) END,
+    'losers', losers,
+    'debut', debut,
+    'dsw', dsw,
+    'rating', rating
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_round(UUID, BOOLEAN, JSONB, JSONB, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.advance_round(UUID, BOOLEAN, JSONB, JSONB, BIGINT) TO authenticated, service_role;
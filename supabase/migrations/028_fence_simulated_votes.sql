@@ -0,0 +1,12 @@
+-- 🔒 CLUB YOUNIVERSE - FENCE THE ROBOT VOTES
+-- 014_box_rounds.sql let any signed-in client call cast_simulated_votes(round, song, votes) and
+-- pile robot votes onto a candidate. 024_simulated_votes.sql replaced the counter with the crowd
+-- ledger, whose cast_simulated_votes is fenced by the lease token like advance_round. This makes
+-- sure it is the only one left: no unfenced overload survives, and only the lease holder (or the
+-- service role) records the crowd's votes.
+
+DROP FUNCTION IF EXISTS public.cast_simulated_votes(UUID, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.cast_simulated_votes(UUID, UUID, INTEGER, BIGINT);
+
+REVOKE EXECUTE ON FUNCTION public.cast_simulated_votes(UUID, JSONB, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cast_simulated_votes(UUID, JSONB, BIGINT) TO authenticated, service_role;
@@ -0,0 +1,76 @@
+-- 🎧 CLUB YOUNIVERSE - ADMIN-ONLY FORCED TAKEOVERS
+-- 016_leader_lease.sql let any signed-in client pass p_force to acquire_leadership and take a
+-- live lease from the station's leader. A forced takeover is the DJ Booth's "take the decks"
+-- button, so it is for admins, or the headless conductor on the service role. A plain
+-- acquire (a free or expired lease) and renewals are unchanged.
+
+-- As in 016, refusing p_force to everyone but admins and the service role.
+-- Returns {acquired, token, leader_id, leader_session, ttl_ms}.
+CREATE OR REPLACE FUNCTION public.acquire_leadership(
+  p_session TEXT,
+  p_lease_ms INTEGER DEFAULT 10000,
+  p_force BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  max_lease_ms CONSTANT INTEGER := 30000;
+  lease INTERVAL := make_interval(secs => LEAST(GREATEST(p_lease_ms, 1000), max_lease_ms) / 1000.0);
+  b public.broadcasts;
+  acquired BOOLEAN := FALSE;
+BEGIN
+  IF p_session IS NULL OR p_session = '' THEN
+    RAISE EXCEPTION 'acquire_leadership: a session id is required';
+  END IF;
+
+  IF p_force AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'acquire_leadership: only an admin can force a takeover';
+  END IF;
+
+  SELECT * INTO b FROM public.broadcasts WHERE id = broadcast_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'acquire_leadership: broadcast row % is missing', broadcast_id;
+  END IF;
+
+  PERFORM set_config('club.lease_write', 'on', TRUE);
+
+  IF b.leader_session = p_session AND b.lease_expires_at >= NOW() THEN
+    -- Renewal: same holder, same token
+    UPDATE public.broadcasts
+    SET lease_expires_at = NOW() + lease,
+        last_heartbeat = NOW()
+    WHERE id = broadcast_id
+    RETURNING * INTO b;
+    acquired := TRUE;
+  ELSIF b.leader_session IS NULL OR b.lease_expires_at IS NULL OR b.lease_expires_at < NOW() OR p_force THEN
+    -- New holder: a new token fences off everyone before
+    UPDATE public.broadcasts
+    SET leader_id = auth.uid(), -- NULL for a headless conductor on the service role
+        leader_session = p_session,
+        lease_expires_at = NOW() + lease,
+        last_heartbeat = NOW(),
+        fencing_token = fencing_token + 1
+    WHERE id = broadcast_id
+    RETURNING * INTO b;
+    acquired := TRUE;
+  END IF;
+
+  PERFORM set_config('club.lease_write', 'off', TRUE);
+
+  RETURN jsonb_build_object(
+    'acquired', acquired,
+    'token', CASE WHEN acquired THEN b.fencing_token END,
+    'leader_id', b.leader_id,
+    'leader_session', b.leader_session,
+    'ttl_ms', GREATEST(0, (EXTRACT(EPOCH FROM (b.lease_expires_at - NOW())) * 1000)::INTEGER)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_leadership(TEXT, INTEGER, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acquire_leadership(TEXT, INTEGER, BOOLEAN) TO authenticated, service_role;
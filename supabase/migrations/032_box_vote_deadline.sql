@@ -0,0 +1,84 @@
+-- ⏱️ CLUB YOUNIVERSE - THE BOX VOTE CLOSES ON TIME
+-- TheBox counts down to the end of the play on air and locks its buttons there, but
+-- cast_box_vote took votes until advance_round closed the round, so the deadline was only for
+-- show. The server now closes the vote at the same moment the UI does: when the play on air
+-- ends (playEndsAt in services/stationRules.ts: its song_started_at plus its duration, less the
+-- crossfade). A round held open for a debut or a DSW farewell (step 1 of advance_round) has no
+-- deadline, as in services/boxRoundChannel.ts.
+
+-- When voting in the open round closes, or NULL while it stays open
+CREATE OR REPLACE FUNCTION public.box_vote_deadline()
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  fallback_duration_sec CONSTANT INTEGER := 180; -- FALLBACK_DURATION_SEC in services/stationRules.ts
+  crossfade_sec CONSTANT NUMERIC := COALESCE((public.station_rules() ->> 'crossfadeSec')::NUMERIC, 0);
+  started_at TIMESTAMPTZ;
+  duration_sec INTEGER;
+BEGIN
+  -- A debut or a DSW farewell takes the next slot, and the round waits for the play after it
+  IF EXISTS (
+    SELECT 1 FROM public.songs
+    WHERE status = 'debut'
+       OR (status = 'pool' AND is_dsw AND dsw_farewell_at IS NOT NULL)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT b.song_started_at, s.duration_sec INTO started_at, duration_sec
+  FROM public.broadcasts b
+  JOIN public.songs s ON s.id = b.current_song_id
+  WHERE b.id = broadcast_id;
+
+  IF started_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN started_at + make_interval(secs => COALESCE(NULLIF(duration_sec, 0), fallback_duration_sec) - crossfade_sec);
+END;
+$$;
+
+-- As in 026, refusing votes once the round's deadline has passed
+CREATE OR REPLACE FUNCTION public.cast_box_vote(p_round_id UUID, p_song_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  voter UUID := auth.uid();
+  vote_weight INTEGER;
+  inserted_id UUID;
+  closes_at TIMESTAMPTZ;
+BEGIN
+  IF voter IS NULL THEN
+    RAISE EXCEPTION 'cast_box_vote: sign in to vote';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.box_rounds
+    WHERE id = p_round_id AND status = 'open' AND p_song_id = ANY(candidate_ids)
+  ) THEN
+    RAISE EXCEPTION 'cast_box_vote: round % is closed or % is not a candidate', p_round_id, p_song_id;
+  END IF;
+
+  closes_at := public.box_vote_deadline();
+  IF closes_at IS NOT NULL AND NOW() >= closes_at THEN
+    RAISE EXCEPTION 'cast_box_vote: voting in round % closed at %', p_round_id, closes_at;
+  END IF;
+
+  SELECT CASE WHEN COALESCE(is_premium, FALSE) THEN 2 ELSE 1 END INTO vote_weight
+  FROM public.profiles WHERE user_id = voter;
+
+  INSERT INTO public.votes (user_id, song_id, vote_type, round_id, weight)
+  VALUES (voter, p_song_id, 'box_choice', p_round_id, COALESCE(vote_weight, 1))
+  ON CONFLICT (round_id, user_id) WHERE round_id IS NOT NULL DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  RETURN inserted_id IS NOT NULL;
+END;
+$$;
@@ -0,0 +1,154 @@
+-- 📻 CLUB YOUNIVERSE - WHO IS TUNED IN, AS THE SERVER SEES IT
+-- veto_play (027_skip_vetoes.sql) recorded whatever signature and listener counts the lease
+-- holder sent, and the lease holder took them from the club-presence roster and the petition
+-- channel, both broadcast channels any client can spoof. The server now keeps its own roster:
+-- a listener's client calls tune_in() while they're on the air (services/clubPresence.ts), and
+-- they count as tuned in for STATION_RULES.tunedInSec after the last call. skip_petition()
+-- counts the petition from skip_votes against that roster, and veto_play() counts it again
+-- itself and only records a veto the count carries.
+-- Builds on 027 (skip petitions) and 031 (station_config).
+
+-- ==========================================
+-- 1. HEARTBEATS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.listener_heartbeats (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.listener_heartbeats ENABLE ROW LEVEL SECURITY;
+
+-- Read and written only through the functions below
+
+-- The rules as of 031 lack tunedInSec; `npm run migrate -- up` publishes it with the rest
+UPDATE public.station_config
+SET value = value || '{"tunedInSec": 90}'::JSONB, updated_at = NOW()
+WHERE key = 'rules' AND NOT value ? 'tunedInSec';
+
+-- ==========================================
+-- 2. FUNCTIONS
+-- ==========================================
+
+-- The caller is tuned in, for tunedInSec from now
+CREATE OR REPLACE FUNCTION public.tune_in()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  listener UUID := auth.uid();
+BEGIN
+  IF listener IS NULL THEN
+    RAISE EXCEPTION 'tune_in: sign in to be counted';
+  END IF;
+
+  INSERT INTO public.listener_heartbeats (user_id, seen_at)
+  VALUES (listener, NOW())
+  ON CONFLICT (user_id) DO UPDATE SET seen_at = EXCLUDED.seen_at;
+END;
+$$;
+
+-- The caller tuned out: they stop counting now instead of when their last heartbeat runs out
+CREATE OR REPLACE FUNCTION public.tune_out()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.listener_heartbeats WHERE user_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tune_in() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.tune_out() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.tune_in() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.tune_out() TO authenticated;
+
+-- The petition against a play: signers tuned in, listeners tuned in, the signatures that carry
+-- it (vetoPercent of the listeners, never fewer than one) and whether a skip-veto token did.
+CREATE OR REPLACE FUNCTION public.skip_petition(p_play_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rules CONSTANT JSONB := public.station_rules();
+  tuned_in_since CONSTANT TIMESTAMPTZ := NOW() - make_interval(secs => (rules ->> 'tunedInSec')::NUMERIC);
+  listeners INTEGER;
+  signatures INTEGER;
+  by_token BOOLEAN;
+BEGIN
+  SELECT COUNT(*) INTO listeners
+  FROM public.listener_heartbeats
+  WHERE seen_at > tuned_in_since;
+
+  SELECT COUNT(*) INTO signatures
+  FROM public.skip_votes sv
+  JOIN public.listener_heartbeats h ON h.user_id = sv.user_id
+  WHERE sv.play_id = p_play_id AND h.seen_at > tuned_in_since;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.skip_votes WHERE play_id = p_play_id AND token_used_at IS NOT NULL
+  ) INTO by_token;
+
+  RETURN jsonb_build_object(
+    'signatures', signatures,
+    'listeners', listeners,
+    'needed', GREATEST(1, CEIL(listeners * (rules ->> 'vetoPercent')::NUMERIC / 100))::INTEGER,
+    'by_token', by_token
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.skip_petition(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.skip_petition(UUID) TO authenticated, service_role;
+
+DROP FUNCTION IF EXISTS public.veto_play(UUID, INTEGER, INTEGER, BOOLEAN, BIGINT);
+
+-- As in 027, counting the petition itself. Returns false if the play is no longer on air, was
+-- already vetoed, or the petition doesn't carry.
+CREATE OR REPLACE FUNCTION public.veto_play(p_play_id UUID, lease_token BIGINT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  broadcast_id CONSTANT UUID := '00000000-0000-0000-0000-000000000000';
+  on_air UUID;
+  petition JSONB;
+BEGIN
+  SELECT current_song_id INTO on_air
+  FROM public.broadcasts
+  WHERE id = broadcast_id AND play_id = p_play_id
+  FOR UPDATE;
+  PERFORM public.assert_fencing_token(lease_token);
+
+  IF on_air IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  petition := public.skip_petition(p_play_id);
+  IF NOT (petition ->> 'by_token')::BOOLEAN AND (petition ->> 'signatures')::INTEGER < (petition ->> 'needed')::INTEGER THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.play_vetoes (play_id, song_id, signatures, listeners, by_token)
+  VALUES (
+    p_play_id,
+    on_air,
+    (petition ->> 'signatures')::INTEGER,
+    (petition ->> 'listeners')::INTEGER,
+    (petition ->> 'by_token')::BOOLEAN
+  )
+  ON CONFLICT (play_id) DO NOTHING;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.veto_play(UUID, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.veto_play(UUID, BIGINT) TO authenticated, service_role;
@@ -0,0 +1,8 @@
+-- ⏱️ CLUB YOUNIVERSE - EVERY LISTENER READS THE SERVER CLOCK
+-- Listeners used to ask the leader for the time over realtime, and only the leader sampled
+-- server_clock() (015_clock_sync.sql), so everyone synced to one browser's estimate of the
+-- database clock and inherited its error on top of their own. Every client now samples
+-- server_clock() itself (services/clockSync.ts), including listeners who haven't signed in.
+-- It reads the time and nothing else.
+
+GRANT EXECUTE ON FUNCTION public.server_clock() TO anon;
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addArtistWithSongs, addUser, takeLease, testDatabases, type TestDatabase } from "./local/testDatabase";
+import { ENTITLEMENTS, PREMIUM_PLANS } from "../services/entitlements";
+import type { Profile } from "../types";
+
+describe.each(testDatabases())("premium on %s", (_, createDatabase) => {
+  let db: TestDatabase;
+  let roundId: string;
+  let candidates: string[];
+
+  const grant = async (userId: string, plan: string, reference: string = crypto.randomUUID()) => {
+    const [profile] = await db.query<Profile>("SELECT * FROM public.grant_premium($1, 'stub', $2, $3, 0)", [userId, reference, plan]);
+    return profile;
+  };
+
+  const until = (profile: Profile) => new Date(profile.premium_until!).getTime(); // a Date from the driver
+
+  const voteWeight = async (userId: string, songId = candidates[0]) => {
+    await db.actAs({ role: "authenticated", userId });
+    try {
+      await db.query("SELECT public.cast_box_vote($1, $2)", [roundId, songId]);
+    } finally {
+      await db.actAs({ role: "service_role" });
+    }
+    const [{ weight }] = await db.query<{ weight: number }>("SELECT weight FROM public.votes WHERE user_id = $1 AND round_id = $2", [userId, roundId]);
+    return weight;
+  };
+
+  beforeAll(async () => {
+    db = await createDatabase();
+    await addArtistWithSongs(db, 4);
+    const token = await takeLease(db);
+    await db.query("SELECT public.advance_round(expected_song_id => NULL, lease_token => $1::BIGINT)", [token]);
+    const [round] = await db.query<{ id: string; candidate_ids: string[] }>("SELECT id, candidate_ids FROM public.box_rounds WHERE status = 'open'");
+    roundId = round.id;
+    candidates = round.candidate_ids;
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.dispose();
+  });
+
+  it("sells a month of premium that runs out, stacking a second month on the first", async () => {
+    const listener = await addUser(db, "Monthly Listener");
+
+    const month = await grant(listener, "monthly");
+    const days = (until(month) - Date.now()) / 86_400_000;
+    expect(days).toBeGreaterThan(PREMIUM_PLANS.monthly.durationDays! - 1);
+    expect(days).toBeLessThanOrEqual(PREMIUM_PLANS.monthly.durationDays!);
+
+    const twoMonths = await grant(listener, "monthly");
+    expect(until(twoMonths) - until(month)).toBe(PREMIUM_PLANS.monthly.durationDays! * 86_400_000);
+  });
+
+  it("grants a retried receipt once", async () => {
+    const listener = await addUser(db, "Retrying Listener");
+    const first = await grant(listener, "monthly", "retried");
+    const retry = await grant(listener, "monthly", "retried");
+
+    expect(until(retry)).toBe(until(first));
+  });
+
+  it("makes lifetime premium last for good, and refuses a plan it doesn't sell", async () => {
+    const listener = await addUser(db, "Lifetime Listener");
+    expect((await grant(listener, "lifetime")).premium_until).toBeNull();
+    expect((await grant(listener, "monthly")).premium_until).toBeNull();
+
+    await expect(grant(listener, "weekly")).rejects.toThrow(/no plan named weekly/);
+  });
+
+  it("weights a Box vote by the published entitlements while premium lasts", async () => {
+    const free = await addUser(db, "Free Listener");
+    const premium = await addUser(db, "Premium Listener");
+    const lapsed = await addUser(db, "Lapsed Listener");
+    await grant(premium, "monthly");
+    await grant(lapsed, "monthly");
+    await db.query("SELECT set_config('club.premium_write', 'on', FALSE)");
+    await db.query("UPDATE public.profiles SET premium_until = NOW() - INTERVAL '1 day' WHERE user_id = $1", [lapsed]);
+    await db.query("SELECT set_config('club.premium_write', 'off', FALSE)");
+
+    expect(await voteWeight(free)).toBe(ENTITLEMENTS.free.voteWeight);
+    expect(await voteWeight(premium)).toBe(ENTITLEMENTS.premium.voteWeight);
+    expect(await voteWeight(lapsed)).toBe(ENTITLEMENTS.free.voteWeight);
+  });
+
+  it("refuses premium written straight to the profile", async () => {
+    const listener = await addUser(db, "Sneaky Listener");
+    await expect(
+      db.query("UPDATE public.profiles SET premium_until = NOW() + INTERVAL '1 year' WHERE user_id = $1", [listener]),
+    ).rejects.toThrow(/premium_locked/);
+  });
+});
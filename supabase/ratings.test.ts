@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addArtistWithSongs, addUser, takeLease, testDatabases, type TestDatabase } from "./local/testDatabase";
+import { STATION_RULES } from "../services/stationRules";
+import type { AdvanceRoundResult } from "../services/PersistentRadioService";
+import type { RatingTallyRow } from "../services/radioBackend";
+
+/** One rating per listener per play, changeable until the play ends (017_song_ratings.sql). */
+describe.each(testDatabases())("the live rating ledger on %s", (_, createDatabase) => {
+  let db: TestDatabase;
+  let leaseToken: number;
+  let playId: string;
+  let songId: string;
+  let regular: string;
+  let newcomer: string;
+
+  const advance = async () => {
+    const [{ current_song_id }] = await db.query<{ current_song_id: string | null }>("SELECT current_song_id FROM public.broadcasts");
+    const [{ result }] = await db.query<{ result: AdvanceRoundResult }>(
+      "SELECT public.advance_round(expected_song_id => $1::UUID, lease_token => $2::BIGINT) AS result",
+      [current_song_id, leaseToken],
+    );
+    return result;
+  };
+
+  const rate = async (userId: string, stars: number, play = playId) => {
+    await db.actAs({ role: "authenticated", userId });
+    try {
+      await db.query("SELECT public.rate_now_playing($1, $2)", [play, stars]);
+    } finally {
+      await db.actAs({ role: "service_role" });
+    }
+  };
+
+  const tally = async () => (await db.query<RatingTallyRow>("SELECT * FROM public.play_rating_tallies WHERE play_id = $1", [playId]))[0];
+
+  beforeAll(async () => {
+    db = await createDatabase();
+    await addArtistWithSongs(db, 4);
+    leaseToken = await takeLease(db);
+    songId = (await advance()).now_playing!.id;
+    [{ play_id: playId }] = await db.query<{ play_id: string }>("SELECT play_id FROM public.broadcasts");
+    regular = await addUser(db, "Regular");
+    newcomer = await addUser(db, "Newcomer");
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.dispose();
+  });
+
+  it("keeps one rating per listener per play, the latest one", async () => {
+    await rate(regular, 3);
+    await rate(regular, 7);
+
+    const rows = await db.query<{ user_id: string; song_id: string; stars: number }>("SELECT user_id, song_id, stars FROM public.song_ratings WHERE play_id = $1", [playId]);
+    expect(rows).toEqual([{ user_id: regular, song_id: songId, stars: 7 }]);
+    expect(await tally()).toMatchObject({ ratings: 1, stars_sum: 7 });
+  });
+
+  it("refuses a rating off the star scale", async () => {
+    await expect(rate(newcomer, STATION_RULES.maxStars + 1)).rejects.toThrow(/stars must be between 1 and/);
+    await expect(rate(newcomer, 0)).rejects.toThrow(/stars must be between 1 and/);
+  });
+
+  it("moves the song's stars by what the ledger says when the play ends, then closes it", async () => {
+    await rate(newcomer, 6);
+    const ended = await advance();
+
+    // 5 stars, rated 7 and 6: 5 + (13 - 2 * 5) = 8
+    expect(ended.rating).toMatchObject({ play_id: playId, ratings: 2, average: 6.5, delta: 3, vetoed: false });
+    const [{ stars }] = await db.query<{ stars: number }>("SELECT stars FROM public.songs WHERE id = $1", [songId]);
+    expect(stars).toBe(STATION_RULES.startingStars + 3);
+    await expect(rate(regular, 1)).rejects.toThrow(/rating_closed/);
+  });
+});
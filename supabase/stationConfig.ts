@@ -0,0 +1,37 @@
+/**
+ * @file stationConfig - What public.station_config holds (031_station_rules.sql), and the
+ * write that publishes it. The station's procedures read their rules from there; the app reads
+ * the same constants from services/. scripts/migrate.ts publishes them on `up`, and the SQL tests
+ * publish them into their scratch database.
+ */
+
+import { ENTITLEMENTS, PREMIUM_PLANS } from "../services/entitlements";
+import { STATION_RULES } from "../services/stationRules";
+
+/** Anything that runs a parameterized query: a pg Client, or PGlite in the tests. */
+export interface Queryable {
+  query(text: string, params?: unknown[]): Promise<unknown>;
+}
+
+/**
+ * public.station_config rows, keyed as in the table, each the constant the app reads. They're
+ * stored as JSON, so an Infinity (unlimited Box previews) is stored as null.
+ */
+export const STATION_CONFIG: Record<string, object> = {
+  rules: STATION_RULES,
+  entitlements: ENTITLEMENTS,
+  plans: PREMIUM_PLANS,
+};
+
+/** Writes STATION_CONFIG into public.station_config. Needs the service role (or a superuser). */
+export const publishStationConfig = async (db: Queryable): Promise<string[]> => {
+  const keys = Object.keys(STATION_CONFIG);
+  for (const key of keys) {
+    await db.query(
+      `INSERT INTO public.station_config (key, value) VALUES ($1, $2::JSONB)
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+      [key, JSON.stringify(STATION_CONFIG[key])],
+    );
+  }
+  return keys;
+};
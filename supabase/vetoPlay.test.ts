@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addArtistWithSongs, addUser, takeLease, testDatabases, type TestDatabase } from "./local/testDatabase";
+
+interface Petition {
+  signatures: number;
+  listeners: number;
+  needed: number;
+  by_token: boolean;
+}
+
+/** veto_play counts the petition itself, against the listeners who called tune_in lately. */
+describe.each(testDatabases())("veto_play on %s", (_, createDatabase) => {
+  let db: TestDatabase;
+  let leaseToken: number;
+  let playId: string;
+
+  const asListener = async <T>(userId: string, call: string, params: unknown[] = []) => {
+    await db.actAs({ role: "authenticated", userId });
+    try {
+      return await db.query<T & object>(call, params);
+    } finally {
+      await db.actAs({ role: "service_role" });
+    }
+  };
+
+  const tuneIn = (userId: string) => asListener(userId, "SELECT public.tune_in()");
+  const signSkip = (userId: string, useToken = false) => asListener(userId, "SELECT public.cast_skip_vote($1, $2)", [playId, useToken]);
+
+  const petition = async () => {
+    const [{ petition }] = await db.query<{ petition: Petition }>("SELECT public.skip_petition($1) AS petition", [playId]);
+    return petition;
+  };
+
+  const veto = async () => {
+    const [{ vetoed }] = await db.query<{ vetoed: boolean }>("SELECT public.veto_play($1, $2::BIGINT) AS vetoed", [playId, leaseToken]);
+    return vetoed;
+  };
+
+  /** Puts the next song on air, for a petition of its own. */
+  const nextPlay = async () => {
+    const [onAir] = await db.query<{ current_song_id: string }>("SELECT current_song_id FROM public.broadcasts");
+    await db.query("SELECT public.advance_round(expected_song_id => $1::UUID, lease_token => $2::BIGINT)", [onAir.current_song_id, leaseToken]);
+    const [broadcast] = await db.query<{ play_id: string }>("SELECT play_id FROM public.broadcasts");
+    playId = broadcast.play_id;
+  };
+
+  beforeAll(async () => {
+    db = await createDatabase();
+    await addArtistWithSongs(db, 6);
+    leaseToken = await takeLease(db);
+    await db.query("SELECT public.advance_round(expected_song_id => NULL, lease_token => $1::BIGINT)", [leaseToken]);
+    const [broadcast] = await db.query<{ play_id: string }>("SELECT play_id FROM public.broadcasts");
+    playId = broadcast.play_id;
+  }, 60_000);
+
+  afterAll(async () => {
+    await db?.dispose();
+  });
+
+  it("counts only the signers tuned in, and vetoes once half the room signs", async () => {
+    const listeners = await Promise.all(["A", "B", "C", "D"].map((name) => addUser(db, `Listener ${name}`)));
+    for (const listener of listeners) await tuneIn(listener);
+    const absent = await addUser(db, "Absent Listener"); // never tuned in
+    await signSkip(absent);
+    await signSkip(listeners[0]);
+
+    expect(await petition()).toEqual({ signatures: 1, listeners: 4, needed: 2, by_token: false });
+    expect(await veto()).toBe(false);
+
+    await signSkip(listeners[1]);
+    expect(await veto()).toBe(true);
+    const [recorded] = await db.query("SELECT signatures, listeners, by_token FROM public.play_vetoes WHERE play_id = $1", [playId]);
+    expect(recorded).toEqual({ signatures: 2, listeners: 4, by_token: false });
+    expect(await veto()).toBe(false); // already vetoed
+  });
+
+  it("stops counting a listener whose heartbeat ran out or who tuned out", async () => {
+    await nextPlay();
+    const [stale, leaving, staying] = await Promise.all(["Stale", "Leaving", "Staying"].map((name) => addUser(db, `${name} Listener`)));
+    await db.query("DELETE FROM public.listener_heartbeats");
+    for (const listener of [stale, leaving, staying]) await tuneIn(listener);
+    await db.query("UPDATE public.listener_heartbeats SET seen_at = NOW() - INTERVAL '1 hour' WHERE user_id = $1", [stale]);
+    await asListener(leaving, "SELECT public.tune_out()");
+
+    expect((await petition()).listeners).toBe(1);
+    await signSkip(stale);
+    expect(await veto()).toBe(false);
+  });
+
+  it("lets a premium listener's skip-veto token carry the petition alone", async () => {
+    await nextPlay();
+    const premium = await addUser(db, "Premium Listener");
+    await db.query("SELECT public.grant_premium($1, 'stub', 'veto-token', 'monthly', 199)", [premium]);
+    await signSkip(premium, true);
+
+    expect((await petition()).by_token).toBe(true);
+    expect(await veto()).toBe(true);
+  });
+
+  it("no longer takes the counts from the caller", async () => {
+    await expect(db.query("SELECT public.veto_play($1, 99, 100, TRUE, $2::BIGINT)", [playId, leaseToken])).rejects.toThrow(/veto_play/);
+  });
+});
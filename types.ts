@@ -13,6 +13,7 @@ export interface Profile {
   name: string;
   email?: string;
   is_premium: boolean;
+  premium_until?: string | null; // premium runs out then; null while is_premium: for good
   is_artist: boolean;
   is_admin?: boolean;
   avatar_url?: string;
@@ -31,30 +32,72 @@ export interface Profile {
 
 // --- Core Data Models ---
 
+export type SongStatus =
+  | "pool"
+  | "review"
+  | "in_box"
+  | "next_play"
+  | "now_playing"
+  | "graveyard"
+  | "debut";
+
+export type SongSource = "suno" | "producer.ai" | "mubert" | "upload";
+
 export interface Song {
   id: string;
   uploaderId: string;
   title: string;
   artistName: string;
-  source: "suno" | "producer.ai" | "mubert" | "upload";
+  source: SongSource;
   audioUrl: string;
   durationSec: number;
   stars: number;
-  liveStarsSum: number;
-  liveStarsCount: number;
   isDsw: boolean;
   boxRoundsSeen: number;
   boxRoundsLost: number;
   boxAppearanceCount: number;
-  status: "pool" | "in_box" | "next_play" | "now_playing" | "graveyard" | "debut";
+  status: SongStatus;
   coverArtUrl?: string;
   is_canvas?: boolean;
   lyrics?: string;
   playCount: number;
   upvotes: number;
   downvotes: number;
-  lastPlayedAt: string;
+  lastPlayedAt: string | null;
   createdAt: string;
+  isDebut?: boolean; // a first-time artist's song on its Trial by Fire
+  replayGain?: number | null; // dB to reach -14 LUFS (services/loudness.ts); null = not measured yet
+  hookOffsetSec?: number | null; // where The Box preview starts (services/loudness.ts); null = not analyzed yet
+}
+
+/** A buried song and its epitaph (the graveyard_epitaphs view). */
+export interface GraveyardEntry {
+  songId: string;
+  uploaderId: string;
+  title: string;
+  artistName: string;
+  coverArtUrl?: string;
+  finalStars: number;
+  roundsWon: number;
+  buriedAt: string;
+  resurrectionCount: number;
+  petitions: number;
+}
+
+// --- Premium ---
+/** What a listener pays for: profiles.is_premium, until premium_until. See services/entitlements.ts. */
+export type Tier = "free" | "premium";
+
+/** A badge shown next to a listener's name in TheChat. */
+export type ChatBadge = "premium";
+
+/** What a tier unlocks. Every premium gate reads these, through services/entitlements.ts. */
+export interface Entitlements {
+  voteWeight: number; // a Box vote counts this many times (enforced through station_config, 033_premium_expiry.sql)
+  boxPreviewsPerRound: number; // Box previews a listener can play per round
+  skipVetoesPerDay: number; // skip-veto tokens a listener gets each day (enforced likewise)
+  chatBadge: ChatBadge | null;
+  priorityDebut: boolean; // a waiting debut plays before other listeners' (enforced through station_config, 033_premium_expiry.sql)
 }
 
 export interface User {
@@ -64,10 +107,67 @@ export interface User {
   phoneNumber?: string;
 }
 
+export type BoxRoundStatus = "open" | "closed" | "void";
+
 export interface BoxRound {
   id: string;
-  candidates: Song[];
+  candidateIds: string[];
+  status: BoxRoundStatus;
+  winnerId: string | null;
   startedAt: string;
+  closedAt: string | null;
+  selection: Record<string, Omit<BoxEntrant, "songId">>; // why each fresh entrant was picked
+}
+
+/** One candidate's votes in a round. */
+export interface BoxTally {
+  votes: number; // the score that decides the round: humanVotes once anyone real voted, else simulatedVotes
+  humanVotes: number; // points, not voters: each vote counts its weight (Entitlements.voteWeight)
+  simulatedVotes: number; // the crowd simulator's virtual listeners
+}
+
+/** Votes per candidate, computed from the vote ledgers. */
+export type BoxTallies = Record<string, BoxTally>;
+
+/** What a virtual listener votes for: high-star songs, fresh ones, or anything. */
+export type CrowdTaste = "stars" | "fresh" | "random";
+
+/** Live ratings for one play, computed from the rating ledger. */
+export interface RatingTally {
+  count: number;
+  sum: number;
+}
+
+/** The rules of the Pool -> Box -> Play cycle. See services/stationRules.ts. */
+export interface StationRules {
+  boxSize: number; // songs competing in The Box each round
+  candidatesPerRound: number; // max fresh songs pulled from the pool per round
+  startingStars: number;
+  maxStars: number;
+  starGain: number; // for winning The Box
+  starLoss: number; // for the penalty
+  maxRoundsWithoutWin: number; // consecutive losses a song may take in The Box before the star penalty
+  dswThreshold: number; // at or below this many stars a song becomes a Dead Song Walking
+  selectionStrategy: string; // see services/boxSelection.ts
+  maxSongsPerUploader: number; // per round, relaxed only if the pool can't fill The Box otherwise
+  debutBoost: number; // weight multiplier for never-played uploads from the last 24h
+  debutPassRating: number; // average live rating a debut needs to join the pool instead of the graveyard
+  debutCooldownHours: number; // one debut per uploader per window (mirrored in 018_debuts.sql)
+  resurrectionPetitions: number; // signatures that raise a song from the graveyard (mirrored in 020_graveyard.sql)
+  resurrectionCooldownDays: number; // rest before an artist may resubmit a buried song (mirrored in 020_graveyard.sql)
+  crossfadeSec: number; // overlap between songs: a play ends this long before its audio does, and the decks fade across it
+  previewSec: number; // length of a Box candidate's preview snippet, which starts at its hook
+  vetoPercent: number; // share of the listeners tuned in whose skips cut the song on air
+  tunedInSec: number; // a listener counts as tuned in this long after their client last called tune_in (034_tuned_in.sql)
+  vetoStarPenalty: number; // stars a vetoed play loses on top of its ratings (mirrored in 027_skip_vetoes.sql)
+}
+
+/** A song picked to enter The Box, and why. */
+export interface BoxEntrant {
+  songId: string;
+  strategy: string;
+  score: number;
+  reason: string;
 }
 
 export interface ChatMessage {
@@ -76,18 +176,30 @@ export interface ChatMessage {
     name: string;
     isDj?: boolean;
     isAdmin?: boolean;
+    badge?: ChatBadge;
   };
   text: string;
   timestamp: number;
 }
 
+/** What the DJ Booth can push to every open client (see GlobalBroadcastManager.sendSiteCommand). */
+export type SiteCommandBody =
+  | { type: "trigger_fx"; payload: { fx: string } }
+  | { type: "tts"; payload: { text: string; voice?: string } }
+  | { type: "ticker"; payload: { text: string } };
+
+export type SiteCommand = SiteCommandBody & {
+  id: string;
+  timestamp: number; // ms, sender's clock; old commands are ignored
+};
+
 export interface SiteControlCommand {
   type: "change_theme" | "trigger_fx" | "force_reboot" | "update_component";
   payload: any;
 }
 
 // --- App State & Navigation ---
-export type View = "club" | "dj-booth";
+export type View = "club" | "dj-booth" | "graveyard";
 
 export type RadioState =
   | "POOL"
@@ -112,3 +224,32 @@ export interface DjProfile {
   personality: string;
   voiceName: string;
 }
+
+export type DjBanterEvent =
+  | "intro"
+  | "outro"
+  | "new_box_round"
+  | "winner_announcement"
+  | "graveyard_roast"
+  | "new_artist_shoutout"
+  | "debut_song_outro"
+  | "dsw_announcement"
+  | "dsw_farewell"
+  | "dsw_pardon"
+  | "veto_announcement"
+  | "filler"
+  | "empty_queue_banter"
+  | "hype"
+  | "system_status"
+  | "vibe_check"
+  | "system_explainer";
+
+export interface DjBanterScriptInput {
+  event: DjBanterEvent;
+  song?: {
+    title: string;
+    artistName: string;
+    finalRating?: number;
+  };
+  djProfile?: DjProfile;
+}
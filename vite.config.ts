@@ -1,44 +1,52 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import { VitePWA } from "vite-plugin-pwa";
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [
-    react(),
-    VitePWA({
-      registerType: "autoUpdate",
-      includeAssets: ["icons/favicon.svg", "apple-touch-icon.png", "masked-icon.svg"],
-      manifest: {
-        name: "Club Youniverse Live",
-        short_name: "Youniverse",
-        description: "24/7 AI Radio Experience",
-        theme_color: "#000000",
-        background_color: "#000000",
-        display: "standalone",
-        start_url: "/",
-        icons: [
-          {
-            src: "/icons/icon-192.png",
-            sizes: "192x192",
-            type: "image/png"
-          },
-          {
-            src: "/icons/icon-192.png",
-            sizes: "192x192",
-            type: "image/png",
-            purpose: "any maskable"
-          },
-          {
-            src: "https://ktfezfnkghtwbkmhxdyd.supabase.co/storage/v1/object/public/site_assets/icon-512.png",
-            sizes: "512x512",
-            type: "image/png"
-          }
-        ]
-      },
-      workbox: {
-        globPatterns: ["**/*.{js,css,html,ico,png,svg}"]
-      }
-    })
-  ],
+export default defineConfig(({ command, mode }) => {
+  // A build without a Supabase project is a station nobody else can hear: only ship one on purpose
+  const env = loadEnv(mode, process.cwd());
+  if (command === "build" && env.VITE_RADIO_BACKEND !== "memory" && !(env.VITE_SUPABASE_URL && env.VITE_SUPABASE_ANON_KEY)) {
+    throw new Error("VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are required to build (or set VITE_RADIO_BACKEND=memory for an offline demo).");
+  }
+
+  return {
+    plugins: [
+      react(),
+      VitePWA({
+        registerType: "autoUpdate",
+        includeAssets: ["icons/favicon.svg", "apple-touch-icon.png", "masked-icon.svg"],
+        manifest: {
+          name: "Club Youniverse Live",
+          short_name: "Youniverse",
+          description: "24/7 AI Radio Experience",
+          theme_color: "#000000",
+          background_color: "#000000",
+          display: "standalone",
+          start_url: "/",
+          icons: [
+            {
+              src: "/icons/icon-192.png",
+              sizes: "192x192",
+              type: "image/png"
+            },
+            {
+              src: "/icons/icon-192.png",
+              sizes: "192x192",
+              type: "image/png",
+              purpose: "any maskable"
+            },
+            {
+              src: "https://ktfezfnkghtwbkmhxdyd.supabase.co/storage/v1/object/public/site_assets/icon-512.png",
+              sizes: "512x512",
+              type: "image/png"
+            }
+          ]
+        },
+        workbox: {
+          globPatterns: ["**/*.{js,css,html,ico,png,svg}"]
+        }
+      })
+    ],
+  };
 });
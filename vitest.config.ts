@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+// Tests run in Node against the in-memory backend, and the SQL on PGlite: no network, no Supabase project
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules", "dist"],
+    env: { RADIO_BACKEND: "memory" },
+  },
+});